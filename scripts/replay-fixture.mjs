@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * Exercises the scripted provider, --record and replay end to end without a model:
+ * runs fixtures/add-cube.json in a temporary project, replays the new recording, then
+ * replays the checked-in golden recording so changes to the tools show up as a diff.
+ * Needs a build (npm run build).
+ */
+
+import { spawnSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const cli = join(root, 'dist', 'cli.js');
+const fixture = join(root, 'fixtures', 'add-cube.json');
+const golden = join(root, 'fixtures', 'add-cube.recording.json');
+
+function threewzrd(args) {
+  console.log(`$ threewzrd ${args.join(' ')}`);
+  const { status } = spawnSync(process.execPath, [cli, ...args], { stdio: 'inherit' });
+  return status;
+}
+
+const workspace = mkdtempSync(join(tmpdir(), 'threewzrd-fixture-'));
+const project = join(workspace, 'project');
+const recording = join(workspace, 'add-cube.recording.json');
+mkdirSync(project);
+
+let failed = false;
+try {
+  const steps = [
+    ['run', '-p', 'Add a spinning cube', '-d', project, '--script', fixture, '--record', recording],
+    ['replay', recording],
+    ['replay', golden],
+  ];
+  for (const args of steps) {
+    const status = threewzrd(args);
+    if (status !== 0) {
+      console.error(`threewzrd ${args[0]} exited with ${status}`);
+      failed = true;
+      break;
+    }
+  }
+} finally {
+  rmSync(workspace, { recursive: true, force: true });
+}
+process.exit(failed ? 1 : 0);
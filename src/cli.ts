@@ -2,9 +2,15 @@
 
 import { Command } from 'commander';
 import { homedir } from 'os';
-import { startCommand } from './commands/start.js';
+import { startCommand, resumeCommand } from './commands/start.js';
+import { runCommand } from './commands/run.js';
 import { configCommand } from './commands/config.js';
 import { modelCommand } from './commands/model.js';
+import { sessionsCommand } from './commands/sessions.js';
+import { verifyCommand } from './commands/verify.js';
+import { newCommand } from './commands/new.js';
+import { templatesCommand } from './commands/templates.js';
+import { replayCommand } from './commands/replay.js';
 
 // Safely get current working directory, fallback to home
 function safeGetCwd(): string {
@@ -23,12 +29,96 @@ program
   .description('AI-powered CLI for generating Three.js projects from natural language')
   .version('1.0.0');
 
+// Options shared by the commands that run the agent, so their help text and defaults stay the same.
+// The approval mode only applies to the REPL; headless runs write without asking.
+function addAgentOptions(command: Command, options: { interactive: boolean }): Command {
+  command
+    .option('-d, --directory <path>', 'Working directory for the wizard', safeGetCwd())
+    .option('-m, --model <model>', 'Model to use (sonnet, opus, haiku, opus-4.5, opus-4.6)')
+    .option('--offline', 'Serve fetch_url only from the cache or a fixtures directory')
+    .option('--fixtures <path>', 'Directory of fetch_url fixtures (<host>/<path>) used in offline mode');
+  if (options.interactive) {
+    command.option('-a, --approval <mode>', 'File write approval: auto, ask-on-overwrite, ask-always');
+  }
+  return command
+    .option('--verify', 'Type check and build the project after each turn and send errors back to the agent')
+    .option('--no-verify', 'Turn off build verification even if it is enabled in the config')
+    .option('--max-fix-attempts <n>', 'How many times the agent may try to fix a failing build')
+    .option('--max-cost <usd>', 'Ask before the session costs more than this many USD (headless runs stop)')
+    .option('--provider <name>', 'Model provider: anthropic (default), openai (an OpenAI-compatible endpoint) or scripted')
+    .option('--base-url <url>', 'Base URL of an OpenAI-compatible endpoint, e.g. http://localhost:11434/v1')
+    .option('--provider-model <name>', 'Model name to request from an OpenAI-compatible endpoint')
+    .option('--context-window <tokens>', 'Context window of that model, so the history is compacted to fit it')
+    .option('--script <path>', 'Fixture file of canned responses for the scripted provider')
+    .option('--record <file>', 'Record every model response and tool result to a file for threewzrd replay');
+}
+
+addAgentOptions(
+  program
+    .command('start')
+    .description('Start the wizard REPL'),
+  { interactive: true }
+).action(startCommand);
+
+addAgentOptions(
+  program
+    .command('resume [id]')
+    .description('Resume a saved session (defaults to the most recent one)'),
+  { interactive: true }
+).action(resumeCommand);
+
+addAgentOptions(
+  program
+    .command('run')
+    .description('Run one request without the REPL, for scripts and CI')
+    .option('-p, --prompt <text>', 'The request ("-" reads it from stdin; piped stdin is read when omitted)')
+    .option('-f, --prompt-file <path>', 'Read the request from a file')
+    .option('--allow-commands <list>', 'Comma-separated commands the agent may run, e.g. "npm install,npx tsc" ("*" for all)')
+    .option('--deny-commands <list>', 'Comma-separated commands the agent may never run; wins over --allow-commands')
+    .option('-o, --output-format <format>', 'text (default), json (a single result object on stdout) or ndjson (one event per line)'),
+  { interactive: false }
+).action(runCommand);
+
+program
+  .command('replay <file>')
+  .description('Re-run the tool calls of a recorded session (--record) in a temp directory and diff the file tree')
+  .option('--from <dir>', 'Start from a copy of this directory instead of the recorded starting files')
+  .option('--keep', 'Keep the replay directory instead of deleting it')
+  .option('--allow-commands <list>', 'Comma-separated commands run_command may run during the replay ("*" for all)')
+  .option('--deny-commands <list>', 'Comma-separated commands run_command may never run; wins over --allow-commands')
+  .option('--offline', 'Serve fetch_url only from the cache or a fixtures directory')
+  .option('--fixtures <path>', 'Directory of fetch_url fixtures (<host>/<path>) used in offline mode')
+  .option('--json', 'Print the report as JSON')
+  .action(replayCommand);
+
+program
+  .command('new <template> [dir]')
+  .description('Create a project from a template (defaults to a directory named after the template)')
+  .option('-n, --name <name>', 'Package name (defaults to the directory name)')
+  .option('--force', 'Write into a directory that already has files')
+  .action(newCommand);
+
+program
+  .command('templates')
+  .description('List project templates or register your own')
+  .option('--add <dir>', 'Register a local directory as a template')
+  .option('--id <id>', 'Template id to register it under (defaults to the directory name)')
+  .option('--remove <id>', 'Remove a user template')
+  .action(templatesCommand);
+
+program
+  .command('sessions')
+  .description('List saved sessions for a project')
+  .option('-d, --directory <path>', 'Project directory', safeGetCwd())
+  .action(sessionsCommand);
+
 program
-  .command('start')
-  .description('Start the wizard REPL')
-  .option('-d, --directory <path>', 'Working directory for the wizard', safeGetCwd())
-  .option('-m, --model <model>', 'Model to use (sonnet, opus, haiku, opus-4.5, opus-4.6)')
-  .action(startCommand);
+  .command('verify')
+  .description('Build the app and run it headlessly with a stub WebGL context to catch runtime errors')
+  .option('-d, --directory <path>', 'Project directory', safeGetCwd())
+  .option('-f, --frames <n>', 'Number of animation frames to run')
+  .option('--json', 'Print the full result as JSON')
+  .action(verifyCommand);
 
 program
   .command('config')
@@ -0,0 +1,46 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { TemplateRegistry } from '../templates/TemplateRegistry.js';
+
+interface NewOptions {
+  name?: string;
+  force?: boolean;
+}
+
+export async function newCommand(templateId: string, dir: string | undefined, options: NewOptions): Promise<void> {
+  const registry = new TemplateRegistry();
+  const targetDir = path.resolve(dir ?? templateId);
+
+  let result;
+  try {
+    result = await registry.scaffold(templateId, targetDir, { name: options.name, force: options.force });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`  ${msg}`));
+    if (msg.startsWith('Unknown template')) {
+      console.error(chalk.gray('  To list templates: ') + chalk.cyan('threewzrd templates'));
+    }
+    process.exit(1);
+  }
+
+  console.log();
+  console.log(chalk.green(`  Created ${result.name} from the ${result.template.name} template`));
+  console.log(chalk.gray('  ─────────────────────────────────────────'));
+  for (const file of result.files) {
+    console.log(chalk.gray('    + ') + chalk.white(file));
+  }
+  console.log();
+
+  const relative = path.relative(process.cwd(), targetDir);
+  const steps = [
+    ...(relative ? [`cd ${relative.includes(' ') ? `"${relative}"` : relative}`] : []),
+    ...result.template.nextSteps,
+  ];
+  console.log(chalk.gray('  Next steps:'));
+  for (const step of steps) {
+    console.log(chalk.cyan(`    ${step}`));
+  }
+  console.log();
+  console.log(chalk.gray('  To keep building with the wizard: ') + chalk.cyan('threewzrd start'));
+  console.log();
+}
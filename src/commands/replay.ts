@@ -0,0 +1,213 @@
+import * as path from 'path';
+import { tmpdir } from 'os';
+import * as fs from 'fs/promises';
+import chalk from 'chalk';
+import { ToolName } from '../core/types.js';
+import { ToolExecutor } from '../tools/ToolExecutor.js';
+import { getConfiguredAllowedDomains } from './start.js';
+import { createHunks } from '../tools/TextDiff.js';
+import { TerminalUI } from '../ui/TerminalUI.js';
+import { TextOutput } from '../ui/Output.js';
+import { FileTree, SessionRecording, TreeDiff, diffTrees, loadRecording, snapshotTree } from '../project/SessionRecording.js';
+
+interface ReplayOptions {
+  from?: string;
+  keep?: boolean;
+  allowCommands?: string;
+  denyCommands?: string;
+  offline?: boolean;
+  fixtures?: string;
+  json?: boolean;
+}
+
+// A tool call that succeeded or failed differently than in the recording
+interface ToolMismatch {
+  call: number;
+  name: string;
+  recorded: { success: boolean; error?: string };
+  replayed: { success: boolean; error?: string };
+}
+
+interface ReplayReport {
+  matches: boolean;
+  directory: string;
+  toolCalls: number;
+  toolMismatches: ToolMismatch[];
+  files: TreeDiff;
+  // Files of the recorded starting tree that are missing or different in the replay directory
+  missingInitialFiles: string[];
+}
+
+// Never copied from --from: version control and the wizard's own state
+const EXCLUDED_ENTRIES = new Set(['.git', '.threewzrd']);
+
+function fail(message: string, hint?: string): never {
+  console.error(chalk.red(`Error: ${message}`));
+  if (hint) {
+    console.error(chalk.gray(hint));
+  }
+  process.exit(2);
+}
+
+function parseCommandList(value?: string): string[] {
+  return (value ?? '').split(',').map(entry => entry.trim().replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+/**
+ * Recreates the recorded starting tree from the file contents in the recording.
+ * Returns the files that have no recorded content.
+ */
+async function writeTree(directory: string, tree: FileTree): Promise<string[]> {
+  const missing: string[] = [];
+  for (const [file, snapshot] of Object.entries(tree)) {
+    if (snapshot.content === undefined) {
+      missing.push(file);
+      continue;
+    }
+    const target = path.join(directory, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, snapshot.content, 'utf-8');
+  }
+  return missing;
+}
+
+/**
+ * Re-runs every recorded tool call in order against a copy of the starting tree.
+ * The model is not called: its responses come from the recording.
+ */
+async function replay(recording: SessionRecording, directory: string, options: ReplayOptions, ui: TerminalUI): Promise<{ toolCalls: number; mismatches: ToolMismatch[] }> {
+  const executor = new ToolExecutor(directory, ui, {
+    approvalMode: 'auto',
+    commandPolicy: { allow: parseCommandList(options.allowCommands), deny: parseCommandList(options.denyCommands) },
+    fetch: { offline: options.offline, fixturesDir: options.fixtures, allowedDomains: await getConfiguredAllowedDomains() },
+  });
+
+  // Errors may mention the project path, which differs between the two runs
+  const normalize = (error: string | undefined, root: string) => error?.split(root).join('<project>');
+
+  let toolCalls = 0;
+  const mismatches: ToolMismatch[] = [];
+  for (const exchange of recording.exchanges) {
+    if (exchange.request) {
+      executor.beginTurn(typeof exchange.request.content === 'string' ? exchange.request.content : 'Replayed turn');
+    }
+    for (const recorded of exchange.toolResults) {
+      toolCalls++;
+      const result = await executor.execute(recorded.name as ToolName, recorded.input);
+      const errorChanged = normalize(result.error, directory) !== normalize(recorded.error, recording.workingDirectory);
+      if (result.success !== recorded.success || (!result.success && errorChanged)) {
+        mismatches.push({
+          call: toolCalls,
+          name: recorded.name,
+          recorded: { success: recorded.success, error: recorded.error },
+          replayed: { success: result.success, error: result.error },
+        });
+      }
+    }
+  }
+  return { toolCalls, mismatches };
+}
+
+function printReport(report: ReplayReport, recorded: FileTree, replayed: FileTree, ui: TerminalUI, from?: string): void {
+  console.log();
+  console.log(chalk.cyan(`  Replayed ${report.toolCalls} tool call${report.toolCalls === 1 ? '' : 's'}`));
+
+  if (report.missingInitialFiles.length > 0) {
+    const count = report.missingInitialFiles.length;
+    console.log(chalk.yellow(from
+      ? `  ${count} file(s) in ${from} differ from the recorded starting tree: ${report.missingInitialFiles.join(', ')}`
+      : `  ${count} starting file(s) are binary or too large to be in the recording; pass --from <dir> to start from a copy of the project`));
+  }
+
+  if (report.toolMismatches.length > 0) {
+    console.log();
+    console.log(chalk.yellow(`  ${report.toolMismatches.length} tool result(s) differ:`));
+    for (const mismatch of report.toolMismatches) {
+      const describe = (outcome: { success: boolean; error?: string }) =>
+        outcome.success ? 'succeeded' : `failed (${outcome.error ?? 'no error message'})`;
+      console.log(chalk.white(`    #${mismatch.call} ${mismatch.name}: `) +
+        chalk.gray(`recorded ${describe(mismatch.recorded)}, replay ${describe(mismatch.replayed)}`));
+    }
+  }
+
+  const { added, removed, changed } = report.files;
+  if (added.length + removed.length + changed.length > 0) {
+    console.log();
+    console.log(chalk.yellow(`  File tree differs: ${changed.length} changed, ${added.length} added, ${removed.length} missing`));
+    for (const file of changed) {
+      const before = recorded[file].content;
+      const after = replayed[file].content;
+      if (before !== undefined && after !== undefined) {
+        ui.printDiff(file, createHunks(before, after));
+      } else {
+        console.log(chalk.white(`  ~ ${file}`) + chalk.gray(' (binary or too large to diff)'));
+      }
+    }
+    added.forEach(file => console.log(chalk.green(`  + ${file}`) + chalk.gray(' (not in the recording)')));
+    removed.forEach(file => console.log(chalk.red(`  - ${file}`) + chalk.gray(' (recorded, not created by the replay)')));
+  }
+
+  console.log();
+  if (report.matches) {
+    console.log(chalk.green('  Replay matches the recording'));
+  } else {
+    console.log(chalk.red('  Replay differs from the recording'));
+  }
+  console.log();
+}
+
+export async function replayCommand(file: string, options: ReplayOptions): Promise<void> {
+  let recording: SessionRecording;
+  try {
+    recording = await loadRecording(path.resolve(file));
+  } catch (error) {
+    fail(`Could not load recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const directory = await fs.mkdtemp(path.join(tmpdir(), 'threewzrd-replay-'));
+  let missingInitialFiles: string[] = [];
+  if (options.from) {
+    try {
+      await fs.cp(path.resolve(options.from), directory, {
+        recursive: true,
+        filter: source => !EXCLUDED_ENTRIES.has(path.basename(source)),
+      });
+    } catch (error) {
+      await fs.rm(directory, { recursive: true, force: true });
+      fail(`Could not copy "${options.from}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const start = diffTrees(recording.initialFiles, await snapshotTree(directory));
+    missingInitialFiles = [...start.removed, ...start.changed];
+  } else {
+    missingInitialFiles = await writeTree(directory, recording.initialFiles);
+  }
+
+  // In JSON mode stdout carries only the report
+  const ui = new TerminalUI({ interactive: false, output: new TextOutput(options.json ? process.stderr : process.stdout) });
+  const { toolCalls, mismatches } = await replay(recording, directory, options, ui);
+
+  const replayed = await snapshotTree(directory);
+  const files = diffTrees(recording.files, replayed);
+  const report: ReplayReport = {
+    matches: mismatches.length === 0 && files.added.length + files.removed.length + files.changed.length === 0,
+    directory,
+    toolCalls,
+    toolMismatches: mismatches,
+    files,
+    missingInitialFiles,
+  };
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report, recording.files, replayed, ui, options.from);
+  }
+
+  if (!options.keep) {
+    await fs.rm(directory, { recursive: true, force: true });
+  } else if (!options.json) {
+    console.log(chalk.gray(`  Replay kept in ${directory}`));
+    console.log();
+  }
+  process.exit(report.matches ? 0 : 1);
+}
@@ -0,0 +1,159 @@
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import chalk from 'chalk';
+import { ThreeJsWizard, RunResult } from '../core/ThreeJsWizard.js';
+import { CommandPolicy } from '../tools/ToolExecutor.js';
+import { NdjsonOutput, Output, TextOutput } from '../ui/Output.js';
+import { formatUsd } from '../core/CostTracker.js';
+import { StartOptions, loadEnvFiles, resolveWizardOptions } from './start.js';
+
+interface RunOptions extends Omit<StartOptions, 'resume' | 'approval'> {
+  prompt?: string;
+  promptFile?: string;
+  allowCommands?: string;
+  denyCommands?: string;
+  outputFormat?: string;
+}
+
+const OUTPUT_FORMATS = ['text', 'json', 'ndjson'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// 0: the request completed, 1: the model request failed,
+// 2: invalid usage or setup, 3: the build still fails after the fix attempts (--verify),
+// 4: stopped before going over the session budget (--max-cost)
+const EXIT_CODES: Record<RunResult['status'], number> = {
+  completed: 0,
+  error: 1,
+  build_failed: 3,
+  budget_exceeded: 4,
+};
+const USAGE_EXIT_CODE = 2;
+
+function fail(message: string, hint?: string): never {
+  console.error(chalk.red(`Error: ${message}`));
+  if (hint) {
+    console.error(chalk.gray(hint));
+  }
+  process.exit(USAGE_EXIT_CODE);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * The prompt comes from -p, --prompt-file or stdin ("-p -" or piped input)
+ */
+async function readPrompt(options: RunOptions): Promise<string> {
+  if (options.prompt !== undefined && options.promptFile !== undefined) {
+    fail('Use either --prompt or --prompt-file, not both');
+  }
+
+  let prompt: string;
+  if (options.promptFile !== undefined) {
+    try {
+      prompt = await readFile(path.resolve(options.promptFile), 'utf-8');
+    } catch {
+      fail(`Could not read prompt file "${options.promptFile}"`);
+    }
+  } else if (options.prompt !== undefined && options.prompt !== '-') {
+    prompt = options.prompt;
+  } else if (options.prompt === '-' || !process.stdin.isTTY) {
+    prompt = await readStdin();
+  } else {
+    fail('No prompt given', 'Pass one with -p "<prompt>", --prompt-file <path>, or pipe it to stdin');
+  }
+
+  if (!prompt.trim()) {
+    fail('The prompt is empty');
+  }
+  return prompt.trim();
+}
+
+function parseCommandList(value?: string): string[] {
+  return (value ?? '').split(',').map(entry => entry.trim().replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+export async function runCommand(options: RunOptions): Promise<void> {
+  const outputFormat = (options.outputFormat ?? 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    fail(`Invalid output format: ${options.outputFormat}`, `Valid formats: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  // Read the prompt before changing directory so relative --prompt-file paths work
+  const prompt = await readPrompt(options);
+
+  try {
+    process.chdir(options.directory);
+  } catch {
+    fail(`Could not access directory "${options.directory}"`);
+  }
+
+  loadEnvFiles(options.directory);
+  const wizardOptions = await resolveWizardOptions(options, USAGE_EXIT_CODE);
+  if (wizardOptions.provider?.type === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+    fail('No API key found', 'Set ANTHROPIC_API_KEY or save one with: threewzrd config --set');
+  }
+
+  const commandPolicy: CommandPolicy = {
+    allow: parseCommandList(options.allowCommands),
+    deny: parseCommandList(options.denyCommands),
+  };
+
+  // In JSON mode stdout carries only the result, so progress goes to stderr;
+  // in NDJSON mode stdout carries one event per line and nothing else
+  const output: Output = outputFormat === 'ndjson'
+    ? new NdjsonOutput(process.stdout)
+    : new TextOutput(outputFormat === 'json' ? process.stderr : process.stdout);
+
+  // Nobody is there to review file changes, so they are written directly;
+  // /undo and /restore in a later interactive session can still revert them
+  const wizard = new ThreeJsWizard({
+    ...wizardOptions,
+    approvalMode: 'auto',
+    commandPolicy,
+    ui: { interactive: false, output },
+  });
+
+  process.on('SIGINT', () => {
+    wizard.stop();
+    process.exit(130);
+  });
+
+  let result: RunResult;
+  try {
+    result = await wizard.run(prompt);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (outputFormat === 'json') {
+      console.log(JSON.stringify({ status: 'error', exitCode: EXIT_CODES.error, error: message }, null, 2));
+    } else if (outputFormat === 'ndjson') {
+      output.event({ type: 'log', level: 'error', message: `Fatal error: ${message}` });
+    } else {
+      console.error(chalk.red(`Fatal error: ${message}`));
+    }
+    process.exit(EXIT_CODES.error);
+  }
+  wizard.stop();
+
+  const exitCode = EXIT_CODES[result.status];
+  if (outputFormat === 'json') {
+    console.log(JSON.stringify({ ...result, exitCode }, null, 2));
+  } else if (outputFormat === 'ndjson') {
+    output.event({ type: 'result', ...result, exitCode });
+  } else {
+    const files = result.files.length === 1 ? '1 file' : `${result.files.length} files`;
+    const summary = `${result.status === 'completed' ? 'Done' : 'Failed'}: ${files} written, ` +
+      `${result.usage.inputTokens} input / ${result.usage.outputTokens} output tokens (${formatUsd(result.costUsd)}), ` +
+      `session ${result.sessionId}`;
+    console.log(result.status === 'completed' ? chalk.green(summary) : chalk.red(summary));
+    if (result.error) {
+      console.log(chalk.red(result.error));
+    }
+  }
+  process.exit(exitCode);
+}
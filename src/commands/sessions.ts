@@ -0,0 +1,37 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { SessionStore } from '../project/SessionStore.js';
+
+interface SessionsOptions {
+  directory: string;
+}
+
+export async function sessionsCommand(options: SessionsOptions): Promise<void> {
+  const workingDir = path.resolve(options.directory);
+  const store = new SessionStore(workingDir);
+  const sessions = await store.list();
+
+  console.log();
+  console.log(chalk.cyan('  Saved Sessions'));
+  console.log(chalk.gray('  ─────────────────────────────────────────'));
+  console.log();
+
+  if (sessions.length === 0) {
+    console.log(chalk.yellow('  No saved sessions in ') + chalk.gray(workingDir));
+    console.log();
+    return;
+  }
+
+  for (const session of sessions) {
+    const updated = new Date(session.updatedAt).toLocaleString();
+    console.log(chalk.white(`  ${session.id}`) + chalk.gray(`  ${updated}  ${session.model}  ${session.messageCount} messages`));
+    const label = session.title || session.preview;
+    if (label) {
+      console.log(chalk.gray(`    ${label}`));
+    }
+  }
+
+  console.log();
+  console.log(chalk.gray('  To resume: ') + chalk.cyan('threewzrd resume [id]'));
+  console.log();
+}
@@ -4,12 +4,28 @@ import { join, dirname } from 'path';
 import { mkdir, writeFile, readFile } from 'fs/promises';
 import * as readline from 'readline';
 import chalk from 'chalk';
-import { ThreeJsWizard } from '../core/ThreeJsWizard.js';
-import { ModelId } from '../core/types.js';
+import { ThreeJsWizard, WizardOptions } from '../core/ThreeJsWizard.js';
+import { ModelId, ApprovalMode, APPROVAL_MODES } from '../core/types.js';
+import { AssetBudget } from '../project/AssetInventory.js';
+import { LLMProvider, ProviderConfig, ProviderType, PROVIDER_TYPES } from '../providers/Provider.js';
+import { createProvider } from '../providers/ProviderFactory.js';
 
-interface StartOptions {
+export interface StartOptions {
   directory: string;
   model?: string;
+  resume?: string | true;
+  offline?: boolean;
+  fixtures?: string;
+  approval?: string;
+  verify?: boolean;
+  maxFixAttempts?: string;
+  provider?: string;
+  baseUrl?: string;
+  providerModel?: string;
+  contextWindow?: string;
+  script?: string;
+  record?: string;
+  maxCost?: string;
 }
 
 const VALID_MODELS = ['sonnet', 'opus', 'haiku', 'opus-4.5', 'opus-4.6'];
@@ -28,12 +44,108 @@ async function getConfiguredModel(): Promise<ModelId | undefined> {
   return undefined;
 }
 
-function loadEnvFiles(workingDir: string): void {
+async function getConfiguredApprovalMode(): Promise<ApprovalMode | undefined> {
+  try {
+    const configPath = join(homedir(), '.threewzrd', 'config.json');
+    const content = await readFile(configPath, 'utf-8');
+    const config = JSON.parse(content);
+    if (config.approvalMode && APPROVAL_MODES.includes(config.approvalMode)) {
+      return config.approvalMode as ApprovalMode;
+    }
+  } catch {
+    // No config file or invalid config
+  }
+  return undefined;
+}
+
+async function getConfiguredBuildVerification(): Promise<{ enabled?: boolean; maxFixAttempts?: number }> {
+  try {
+    const configPath = join(homedir(), '.threewzrd', 'config.json');
+    const content = await readFile(configPath, 'utf-8');
+    const config = JSON.parse(content);
+    return {
+      enabled: typeof config.verifyBuild === 'boolean' ? config.verifyBuild : undefined,
+      maxFixAttempts: Number.isInteger(config.maxBuildFixAttempts) && config.maxBuildFixAttempts >= 0
+        ? config.maxBuildFixAttempts
+        : undefined,
+    };
+  } catch {
+    // No config file or invalid config
+  }
+  return {};
+}
+
+async function getConfiguredAssetBudget(): Promise<Partial<AssetBudget>> {
+  try {
+    const configPath = join(homedir(), '.threewzrd', 'config.json');
+    const content = await readFile(configPath, 'utf-8');
+    const budget = JSON.parse(content).assetBudget ?? {};
+    const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+    return {
+      maxTextureSize: isPositive(budget.maxTextureSize) ? budget.maxTextureSize : undefined,
+      powerOfTwo: typeof budget.powerOfTwo === 'boolean' ? budget.powerOfTwo : undefined,
+      maxFileSizeMB: isPositive(budget.maxFileSizeMB) ? budget.maxFileSizeMB : undefined,
+    };
+  } catch {
+    // No config file or invalid config
+  }
+  return {};
+}
+
+async function getConfiguredMaxCost(): Promise<number | undefined> {
+  try {
+    const configPath = join(homedir(), '.threewzrd', 'config.json');
+    const content = await readFile(configPath, 'utf-8');
+    const maxCostUsd = JSON.parse(content).maxCostUsd;
+    if (typeof maxCostUsd === 'number' && maxCostUsd > 0) {
+      return maxCostUsd;
+    }
+  } catch {
+    // No config file or invalid config
+  }
+  return undefined;
+}
+
+// Only the user's config can widen the fetch_url allowlist: the agent can write project files
+export async function getConfiguredAllowedDomains(): Promise<string[]> {
+  try {
+    const configPath = join(homedir(), '.threewzrd', 'config.json');
+    const content = await readFile(configPath, 'utf-8');
+    const domains = JSON.parse(content).fetch?.allowedDomains;
+    if (Array.isArray(domains)) {
+      return domains.filter((domain): domain is string => typeof domain === 'string' && domain.length > 0);
+    }
+  } catch {
+    // No config file or invalid config
+  }
+  return [];
+}
+
+async function getConfiguredProvider(): Promise<Partial<ProviderConfig>> {
+  try {
+    const configPath = join(homedir(), '.threewzrd', 'config.json');
+    const content = await readFile(configPath, 'utf-8');
+    const provider = JSON.parse(content).provider ?? {};
+    const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+    return {
+      type: PROVIDER_TYPES.includes(provider.type) ? provider.type : undefined,
+      baseUrl: isString(provider.baseUrl) ? provider.baseUrl : undefined,
+      model: isString(provider.model) ? provider.model : undefined,
+      contextWindow: Number.isInteger(provider.contextWindow) && provider.contextWindow > 0 ? provider.contextWindow : undefined,
+      script: isString(provider.script) ? provider.script : undefined,
+    };
+  } catch {
+    // No config file or invalid config
+  }
+  return {};
+}
+
+export function loadEnvFiles(workingDir: string): void {
   // Load from multiple locations (later ones don't override earlier)
   // 1. Current working directory
-  dotenv.config({ path: join(workingDir, '.env') });
+  dotenv.config({ path: join(workingDir, '.env'), quiet: true });
   // 2. User's home config directory
-  dotenv.config({ path: join(homedir(), '.threewzrd', '.env') });
+  dotenv.config({ path: join(homedir(), '.threewzrd', '.env'), quiet: true });
 }
 
 async function promptForApiKey(): Promise<string> {
@@ -120,6 +232,126 @@ async function saveApiKey(apiKey: string): Promise<void> {
   }
 }
 
+/**
+ * Resolves the wizard options shared by start, resume and run (CLI flag > config > default).
+ * Prints an error and exits with invalidExitCode if a flag has an invalid value.
+ */
+export async function resolveWizardOptions(options: StartOptions, invalidExitCode = 1): Promise<WizardOptions> {
+  // Determine which model to use (CLI flag > config > default)
+  let model: ModelId | undefined;
+  if (options.model) {
+    if (VALID_MODELS.includes(options.model)) {
+      model = options.model as ModelId;
+    } else {
+      console.error(chalk.red(`Invalid model: ${options.model}`));
+      console.error(chalk.gray(`Valid models: ${VALID_MODELS.join(', ')}`));
+      process.exit(invalidExitCode);
+    }
+  } else {
+    model = await getConfiguredModel();
+  }
+
+  // Determine the file approval mode (CLI flag > config > default)
+  let approvalMode: ApprovalMode | undefined;
+  if (options.approval) {
+    if (APPROVAL_MODES.includes(options.approval as ApprovalMode)) {
+      approvalMode = options.approval as ApprovalMode;
+    } else {
+      console.error(chalk.red(`Invalid approval mode: ${options.approval}`));
+      console.error(chalk.gray(`Valid modes: ${APPROVAL_MODES.join(', ')}`));
+      process.exit(invalidExitCode);
+    }
+  } else {
+    approvalMode = await getConfiguredApprovalMode();
+  }
+
+  // Build verification after each turn (CLI flags > config > off)
+  const configuredVerification = await getConfiguredBuildVerification();
+  let maxBuildFixAttempts = configuredVerification.maxFixAttempts;
+  if (options.maxFixAttempts !== undefined) {
+    const attempts = Number(options.maxFixAttempts);
+    if (!Number.isInteger(attempts) || attempts < 0) {
+      console.error(chalk.red(`Invalid number of fix attempts: ${options.maxFixAttempts}`));
+      process.exit(invalidExitCode);
+    }
+    maxBuildFixAttempts = attempts;
+  }
+
+  // Session budget in USD (CLI flag > config > none)
+  let maxCostUsd = await getConfiguredMaxCost();
+  if (options.maxCost !== undefined) {
+    const amount = Number(options.maxCost);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      console.error(chalk.red(`Invalid cost limit: ${options.maxCost}`));
+      console.error(chalk.gray('Use an amount in USD, e.g. --max-cost 2.50'));
+      process.exit(invalidExitCode);
+    }
+    maxCostUsd = amount;
+  }
+
+  // Model provider (CLI flags > config > Anthropic); --base-url and --script imply their provider
+  const configuredProvider = await getConfiguredProvider();
+  let providerType: ProviderType | undefined;
+  if (options.provider) {
+    if (PROVIDER_TYPES.includes(options.provider as ProviderType)) {
+      providerType = options.provider as ProviderType;
+    } else {
+      console.error(chalk.red(`Invalid provider: ${options.provider}`));
+      console.error(chalk.gray(`Valid providers: ${PROVIDER_TYPES.join(', ')}`));
+      process.exit(invalidExitCode);
+    }
+  } else if (options.script) {
+    providerType = 'scripted';
+  } else if (options.baseUrl) {
+    providerType = 'openai';
+  } else {
+    providerType = configuredProvider.type;
+  }
+
+  let contextWindow = configuredProvider.contextWindow;
+  if (options.contextWindow !== undefined) {
+    const tokens = Number(options.contextWindow);
+    if (!Number.isInteger(tokens) || tokens <= 0) {
+      console.error(chalk.red(`Invalid context window: ${options.contextWindow}`));
+      console.error(chalk.gray('Use the number of tokens the model accepts, e.g. --context-window 32768'));
+      process.exit(invalidExitCode);
+    }
+    contextWindow = tokens;
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = createProvider({
+      type: providerType ?? 'anthropic',
+      baseUrl: options.baseUrl ?? configuredProvider.baseUrl ?? process.env.OPENAI_BASE_URL,
+      model: options.providerModel ?? configuredProvider.model,
+      contextWindow,
+      script: options.script ?? configuredProvider.script,
+    });
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(invalidExitCode);
+  }
+
+  return {
+    model,
+    provider,
+    record: options.record,
+    maxCostUsd,
+    offline: options.offline || process.env.THREEWZRD_OFFLINE === '1',
+    fixturesDir: options.fixtures ?? process.env.THREEWZRD_FETCH_FIXTURES,
+    allowedDomains: await getConfiguredAllowedDomains(),
+    approvalMode,
+    verifyBuild: options.verify ?? configuredVerification.enabled,
+    maxBuildFixAttempts,
+    assetBudget: await getConfiguredAssetBudget(),
+  };
+}
+
+export async function resumeCommand(id: string | undefined, options: StartOptions): Promise<void> {
+  await startCommand({ ...options, resume: id ?? true });
+}
+
 export async function startCommand(options: StartOptions): Promise<void> {
   const workingDir = options.directory;
 
@@ -135,8 +367,10 @@ export async function startCommand(options: StartOptions): Promise<void> {
   // Load .env files from working directory and home config
   loadEnvFiles(workingDir);
 
-  // Check for API key, prompt if missing
-  if (!process.env.ANTHROPIC_API_KEY) {
+  const wizardOptions = await resolveWizardOptions(options);
+
+  // Check for API key, prompt if missing (only the Anthropic API needs one)
+  if (wizardOptions.provider?.type === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
     const apiKey = await promptForApiKey();
 
     if (!apiKey) {
@@ -174,22 +408,11 @@ export async function startCommand(options: StartOptions): Promise<void> {
     }
   }
 
-  // Determine which model to use (CLI flag > config > default)
-  let model: ModelId | undefined;
-  if (options.model) {
-    if (VALID_MODELS.includes(options.model)) {
-      model = options.model as ModelId;
-    } else {
-      console.error(chalk.red(`Invalid model: ${options.model}`));
-      console.error(chalk.gray(`Valid models: ${VALID_MODELS.join(', ')}`));
-      process.exit(1);
-    }
-  } else {
-    model = await getConfiguredModel();
-  }
-
   // Create and start the wizard
-  const wizard = new ThreeJsWizard({ model });
+  const wizard = new ThreeJsWizard({
+    ...wizardOptions,
+    resume: options.resume,
+  });
 
   // Handle graceful shutdown
   process.on('SIGINT', () => {
@@ -0,0 +1,58 @@
+import chalk from 'chalk';
+import { TemplateRegistry, getUserTemplatesDir } from '../templates/TemplateRegistry.js';
+
+interface TemplatesOptions {
+  add?: string;
+  id?: string;
+  remove?: string;
+}
+
+export async function templatesCommand(options: TemplatesOptions): Promise<void> {
+  const registry = new TemplateRegistry();
+  console.log();
+
+  if (options.add) {
+    try {
+      const template = await registry.register(options.add, options.id);
+      console.log(chalk.green(`  Registered template "${template.id}"`));
+      console.log(chalk.gray('  To use it: ') + chalk.cyan(`threewzrd new ${template.id} [dir]`));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`  Could not register the template: ${msg}`));
+      process.exit(1);
+    }
+    console.log();
+    return;
+  }
+
+  if (options.remove) {
+    if (await registry.unregister(options.remove)) {
+      console.log(chalk.green(`  Removed template "${options.remove}"`));
+    } else {
+      console.log(chalk.yellow(`  No user template named "${options.remove}"`));
+      console.log(chalk.gray('  Built-in templates cannot be removed.'));
+    }
+    console.log();
+    return;
+  }
+
+  const templates = await registry.list();
+  console.log(chalk.cyan('  Project Templates'));
+  console.log(chalk.gray('  ─────────────────────────────────────────'));
+  console.log();
+
+  const width = Math.max(...templates.map(template => template.id.length));
+  for (const source of ['builtin', 'user'] as const) {
+    const group = templates.filter(template => template.source === source);
+    if (group.length === 0) continue;
+    console.log(chalk.gray(source === 'builtin' ? '  Built-in:' : `  User (${getUserTemplatesDir()}):`));
+    for (const template of group) {
+      console.log(chalk.white(`    ${template.id.padEnd(width)}`) + chalk.gray(`  ${template.description}`));
+    }
+    console.log();
+  }
+
+  console.log(chalk.gray('  To create a project: ') + chalk.cyan('threewzrd new <template> [dir]'));
+  console.log(chalk.gray('  To add your own:     ') + chalk.cyan('threewzrd templates --add <dir>'));
+  console.log();
+}
@@ -0,0 +1,40 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { SceneVerifier, formatSceneVerification, DEFAULT_FRAMES, MAX_FRAMES } from '../tools/SceneVerifier.js';
+
+interface VerifyOptions {
+  directory: string;
+  frames?: string;
+  json?: boolean;
+}
+
+export async function verifyCommand(options: VerifyOptions): Promise<void> {
+  const workingDir = path.resolve(options.directory);
+
+  let frames = DEFAULT_FRAMES;
+  if (options.frames !== undefined) {
+    frames = Number(options.frames);
+    if (!Number.isInteger(frames) || frames < 1 || frames > MAX_FRAMES) {
+      console.error(chalk.red(`Invalid frame count: ${options.frames}`));
+      console.error(chalk.gray(`Use a whole number between 1 and ${MAX_FRAMES}`));
+      process.exit(1);
+    }
+  }
+
+  const spinner = options.json ? null : ora({ text: 'Building and running the scene', color: 'magenta' }).start();
+  const verification = await new SceneVerifier(workingDir).verify({ frames });
+  spinner?.stop();
+
+  if (options.json) {
+    console.log(JSON.stringify(verification, null, 2));
+  } else {
+    const [headline, ...details] = formatSceneVerification(verification).split('\n');
+    console.log();
+    console.log(verification.success ? chalk.green(`  ${headline}`) : chalk.red(`  ${headline}`));
+    details.forEach(line => console.log(line ? `  ${line}` : ''));
+    console.log();
+  }
+
+  process.exit(verification.success ? 0 : 1);
+}
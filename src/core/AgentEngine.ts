@@ -1,37 +1,178 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { ModelId, MODEL_MAP, MessageParam, ToolName, DEFAULT_MODEL } from './types.js';
+import { ModelId, MODEL_MAP, MODEL_PRICING, ModelPricing, MessageParam, ToolName, DEFAULT_MODEL, TokenUsage, ApprovalMode, SessionCost } from './types.js';
 import { toolDefinitions } from '../tools/definitions.js';
-import { ToolExecutor } from '../tools/ToolExecutor.js';
+import { ToolExecutor, ToolExecutorOptions } from '../tools/ToolExecutor.js';
 import { TerminalUI } from '../ui/TerminalUI.js';
 import { THREEJS_SYSTEM_PROMPT } from '../prompts/system.js';
+import { ContextManager } from './ContextManager.js';
+import { CostTracker, calculateCost, formatUsd } from './CostTracker.js';
+import { CheckpointStore } from '../project/CheckpointStore.js';
+import { BuildVerifier, VerificationResult, formatVerificationReport } from '../tools/BuildVerifier.js';
+import { LLMProvider, ProviderError } from '../providers/Provider.js';
+import { SessionRecorder } from '../project/SessionRecording.js';
 
 // Limits to prevent hitting rate limits
-const MAX_HISTORY_MESSAGES = 20; // Keep last N messages
 const MAX_TOKENS = 16384; // Needs to be large enough for file contents in tool calls
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 5000; // 5 seconds base delay
+const MAX_TOOL_OUTPUT_CHARS = 2000; // Tool outputs are truncated to save tokens
+// Tools whose output is only useful in full get a larger allowance
+const TOOL_OUTPUT_LIMITS: Partial<Record<ToolName, number>> = {
+  search_three_docs: 8000,
+  fetch_url: 8000,
+  verify_scene: 6000,
+  describe_scene: 8000,
+  inspect_asset: 8000,
+  list_assets: 8000,
+};
+// How many times the agent is sent back to fix a failing build before giving up
+const DEFAULT_MAX_BUILD_FIX_ATTEMPTS = 2;
+
+export interface BuildVerificationOptions {
+  // Type check and build the project after every turn that wrote files
+  enabled?: boolean;
+  maxFixAttempts?: number;
+}
+
+// How a request ended: 'error' when the API call failed, 'build_failed' when build
+// verification still fails after the fix attempts, 'budget_exceeded' when the agent
+// stopped before going over the session budget
+export interface TurnResult {
+  status: 'completed' | 'error' | 'build_failed' | 'budget_exceeded';
+  error?: string;
+}
 
 export class AgentEngine {
-  private client: Anthropic;
+  private provider: LLMProvider;
   private model: ModelId = DEFAULT_MODEL;
   private conversationHistory: MessageParam[] = [];
   private toolExecutor: ToolExecutor;
+  private contextManager: ContextManager;
   private ui: TerminalUI;
-
-  constructor(ui: TerminalUI, workingDirectory: string) {
-    this.client = new Anthropic();
+  private tokenUsage: TokenUsage = AgentEngine.emptyUsage();
+  private costTracker = new CostTracker();
+  // Session budget in USD, and the limit it has been raised to by the user
+  private maxCostUsd: number | null = null;
+  private costLimit: number | null = null;
+  // Set when the agent stopped at the budget during the current message
+  private budgetExceeded = false;
+  private turnCompleteHandler: (() => Promise<void>) | null = null;
+  private pendingNotices: string[] = [];
+  private instructions: string | null = null;
+  private projectContext: string | null = null;
+  // Set when a model request fails during the current message
+  private turnError: string | null = null;
+  private recorder: SessionRecorder | null = null;
+  private buildVerifier: BuildVerifier;
+  private verifyBuild: boolean;
+  private maxBuildFixAttempts: number;
+
+  constructor(
+    ui: TerminalUI,
+    workingDirectory: string,
+    provider: LLMProvider,
+    toolOptions: ToolExecutorOptions = {},
+    verification: BuildVerificationOptions = {}
+  ) {
+    this.provider = provider;
     this.ui = ui;
-    this.toolExecutor = new ToolExecutor(workingDirectory, ui);
+    this.toolExecutor = new ToolExecutor(workingDirectory, ui, toolOptions);
+    this.contextManager = new ContextManager(provider);
+    this.buildVerifier = new BuildVerifier(workingDirectory);
+    this.verifyBuild = verification.enabled ?? false;
+    this.maxBuildFixAttempts = verification.maxFixAttempts ?? DEFAULT_MAX_BUILD_FIX_ATTEMPTS;
+  }
+
+  // Fold older turns into the rolling summary when history exceeds the token budget.
+  // Returns false when the summary request would go over the session budget.
+  private async compactHistory(): Promise<boolean> {
+    if (!this.contextManager.needsCompaction(this.conversationHistory, this.model)) {
+      return true;
+    }
+    if (!(await this.checkBudget(this.contextManager.estimateCompactionRequest(this.conversationHistory)))) {
+      return false;
+    }
+
+    this.ui.startThinking('Summarizing earlier conversation');
+    const { history, compacted, usage } = await this.contextManager.compact(this.conversationHistory, this.model);
+    this.ui.stopThinking();
+    if (usage) {
+      this.trackUsage(usage);
+    }
+
+    if (compacted) {
+      this.conversationHistory = history;
+      this.ui.printDebug(
+        `Context compacted: ${history.length} recent messages kept, older turns summarized ` +
+        `(~${this.contextManager.estimateHistoryTokens(history)} tokens)`
+      );
+    }
+    return true;
   }
 
-  // Trim conversation history to prevent token overflow
-  private trimHistory(): void {
-    if (this.conversationHistory.length > MAX_HISTORY_MESSAGES) {
-      // Keep the first message (initial context) and the last N-1 messages
-      const first = this.conversationHistory[0];
-      const recent = this.conversationHistory.slice(-(MAX_HISTORY_MESSAGES - 1));
-      this.conversationHistory = [first, ...recent];
+  private static emptyUsage(): TokenUsage {
+    return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+  }
+
+  // Local models (OpenAI-compatible endpoints) are not priced
+  private getPricing(): ModelPricing | null {
+    return this.provider.type === 'openai' ? null : MODEL_PRICING[this.model];
+  }
+
+  // Adds a request's usage to the session totals and returns its cost in USD
+  private trackUsage(usage: TokenUsage): number {
+    this.tokenUsage.inputTokens += usage.inputTokens;
+    this.tokenUsage.outputTokens += usage.outputTokens;
+    this.tokenUsage.cacheReadTokens += usage.cacheReadTokens;
+    this.tokenUsage.cacheCreationTokens += usage.cacheCreationTokens;
+    return this.costTracker.record(this.getModelName(), usage, this.getPricing());
+  }
+
+  // Worst case for the next agent request: system prompt, tools and history sent without
+  // cache hits, and a reply that uses the full output allowance
+  private estimateNextRequest(): { inputTokens: number; outputTokens: number } {
+    const system = [THREEJS_SYSTEM_PROMPT, this.instructions ?? '', this.projectContext ?? ''].join('\n');
+    return {
+      inputTokens: this.contextManager.estimateTextTokens(system) +
+        this.contextManager.estimateTextTokens(JSON.stringify(toolDefinitions)) +
+        this.contextManager.estimateHistoryTokens(this.conversationHistory),
+      outputTokens: MAX_TOKENS,
+    };
+  }
+
+  /**
+   * Called before every model request. If the request could take the session over the
+   * budget, asks whether to go on (raising the limit by another budget) or stop.
+   * Headless runs stop. Returns false to stop.
+   */
+  private async checkBudget(request: { inputTokens: number; outputTokens: number }): Promise<boolean> {
+    const pricing = this.getPricing();
+    if (this.maxCostUsd === null || this.costLimit === null || !pricing) {
+      return true;
+    }
+
+    const estimate = calculateCost({ ...AgentEngine.emptyUsage(), ...request }, pricing).total;
+    const spent = this.costTracker.getTotal();
+    if (spent + estimate <= this.costLimit) {
+      return true;
+    }
+
+    const message = `This session has cost ${formatUsd(spent)}; the next request may take it over the ${formatUsd(this.costLimit)} budget.`;
+    if (!this.ui.isInteractive()) {
+      this.ui.printWarning(`${message} Stopping.`);
+      return false;
+    }
+    this.ui.stopToolProcessing();
+    if (!(await this.ui.confirm(`${message} Continue?`))) {
+      this.ui.printWarning('Stopped before going over the budget. Send another message to continue.');
+      return false;
+    }
+
+    while (this.costLimit < spent + estimate) {
+      this.costLimit += this.maxCostUsd;
     }
+    this.ui.printInfo(`Budget raised to ${formatUsd(this.costLimit)} for this session`);
+    return true;
   }
 
   // Sleep helper for retry delays
@@ -47,34 +188,238 @@ export class AgentEngine {
     return this.model;
   }
 
+  // Name of the model that answers requests (differs from the Claude model on other providers)
+  getModelName(): string {
+    return this.provider.resolveModel(MODEL_MAP[this.model]);
+  }
+
+  // Captures model responses and tool results for --record
+  setRecorder(recorder: SessionRecorder | null): void {
+    this.recorder = recorder;
+  }
+
   clearHistory(): void {
     this.conversationHistory = [];
+    this.contextManager.reset();
     this.toolExecutor.clearCreatedFiles();
+    this.tokenUsage = AgentEngine.emptyUsage();
+    this.costTracker.reset();
+    this.costLimit = this.maxCostUsd;
+  }
+
+  getHistory(): MessageParam[] {
+    return this.conversationHistory;
+  }
+
+  // Text of the model's most recent reply
+  getLastResponseText(): string {
+    const reply = [...this.conversationHistory].reverse().find(message => message.role === 'assistant');
+    if (!reply) {
+      return '';
+    }
+    if (typeof reply.content === 'string') {
+      return reply.content;
+    }
+    return reply.content
+      .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+      .map(block => block.text)
+      .join('\n')
+      .trim();
+  }
+
+  getSummary(): string {
+    return this.contextManager.getSummary();
+  }
+
+  getTokenUsage(): TokenUsage {
+    return { ...this.tokenUsage };
+  }
+
+  getCost(): SessionCost {
+    return this.costTracker.getCost();
+  }
+
+  // The current limit (raised each time the user continues past it), or null without a budget
+  getCostLimit(): number | null {
+    return this.costLimit;
+  }
+
+  setCostBudget(maxCostUsd: number | null): void {
+    this.maxCostUsd = maxCostUsd;
+    this.costLimit = maxCostUsd;
+  }
+
+  /**
+   * Replaces the engine state with a previously saved session
+   */
+  restoreState(state: { messages: MessageParam[]; summary?: string; createdFiles: string[]; tokenUsage?: TokenUsage; cost?: SessionCost }): void {
+    this.conversationHistory = [...state.messages];
+    this.contextManager.setSummary(state.summary ?? '');
+    this.toolExecutor.setCreatedFiles(state.createdFiles);
+    this.tokenUsage = state.tokenUsage ? { ...state.tokenUsage } : AgentEngine.emptyUsage();
+    this.costTracker.setCost(state.cost);
+  }
+
+  // Called after every model turn so callers can persist progress (e.g. autosave)
+  setTurnCompleteHandler(handler: () => Promise<void>): void {
+    this.turnCompleteHandler = handler;
   }
 
   getCreatedFiles(): string[] {
     return this.toolExecutor.getCreatedFiles();
   }
 
-  async processMessage(userMessage: string): Promise<void> {
+  getWrittenFiles(): string[] {
+    return this.toolExecutor.getWrittenFiles();
+  }
+
+  getApprovalMode(): ApprovalMode {
+    return this.toolExecutor.getApprovalMode();
+  }
+
+  setApprovalMode(mode: ApprovalMode): void {
+    this.toolExecutor.setApprovalMode(mode);
+  }
+
+  getCheckpointStore(): CheckpointStore {
+    return this.toolExecutor.getCheckpointStore();
+  }
+
+  isBuildVerificationEnabled(): boolean {
+    return this.verifyBuild;
+  }
+
+  setBuildVerification(enabled: boolean): void {
+    this.verifyBuild = enabled;
+  }
+
+  // Queue a note for the model (e.g. files reverted by /undo); it is sent with the next user message
+  queueNotice(notice: string): void {
+    this.pendingNotices.push(notice);
+  }
+
+  // User and project instructions (THREEWZRD.md), sent as their own system block
+  setInstructions(instructions: string | null): void {
+    this.instructions = instructions;
+  }
+
+  // Description of the project (setup, detected stack) sent after the system prompt
+  setProjectContext(context: string | null): void {
+    this.projectContext = context;
+  }
+
+  async processMessage(userMessage: string): Promise<TurnResult> {
+    // Everything the agent changes from here on is undone together by /undo
+    this.toolExecutor.beginTurn(userMessage);
+    this.costTracker.beginTurn(userMessage);
+    this.turnError = null;
+    this.budgetExceeded = false;
+
+    const notices = this.pendingNotices.map(notice => `[Note: ${notice}]`);
+    this.pendingNotices = [];
+
     // Add user message to history
     this.conversationHistory.push({
       role: 'user',
-      content: userMessage,
+      content: [...notices, userMessage].join('\n\n'),
     });
 
-    // Trim history to prevent token overflow
-    this.trimHistory();
-
     // Run the agentic loop
     await this.runAgentLoop();
+    if (this.turnError) {
+      return { status: 'error', error: this.turnError };
+    }
+    if (this.budgetExceeded) {
+      return AgentEngine.budgetExceededResult();
+    }
+
+    if (this.verifyBuild && !(await this.verifyAndFix())) {
+      if (this.turnError) {
+        return { status: 'error', error: this.turnError };
+      }
+      return this.budgetExceeded
+        ? AgentEngine.budgetExceededResult()
+        : { status: 'build_failed', error: 'The build still fails after the fix attempts' };
+    }
+    return { status: 'completed' };
+  }
+
+  private static budgetExceededResult(): TurnResult {
+    return { status: 'budget_exceeded', error: 'Stopped before going over the session budget' };
+  }
+
+  /**
+   * Type checks and builds the project after a turn that wrote files. Failures are sent
+   * back to the agent as a follow-up message, up to maxBuildFixAttempts times.
+   * Fixes stay part of the same turn, so /undo reverts them together with the original change.
+   * Returns false if the build still fails (or a fix attempt errored).
+   */
+  private async verifyAndFix(): Promise<boolean> {
+    let attempt = 0;
+
+    while (this.toolExecutor.takeChangedFiles().length > 0) {
+      this.ui.startThinking('Verifying build');
+      let result: VerificationResult;
+      try {
+        result = await this.buildVerifier.verify();
+      } catch (error) {
+        this.ui.stopThinking();
+        this.ui.printWarning(`Build verification failed to run: ${error instanceof Error ? error.message : String(error)}`);
+        return true;
+      }
+      this.ui.stopThinking();
+
+      if (result.steps.length === 0) {
+        this.ui.printDebug('Build verification skipped: no type check or bundler found' +
+          (result.skipped.length > 0 ? ` (${result.skipped.join('; ')})` : ''));
+        return true;
+      }
+
+      this.ui.printBuildSummary(result, attempt, this.maxBuildFixAttempts);
+
+      if (result.success) {
+        return true;
+      }
+
+      if (attempt >= this.maxBuildFixAttempts) {
+        this.ui.printWarning(`Build still fails after ${attempt} fix attempt${attempt === 1 ? '' : 's'}. ` +
+          'Describe how to proceed or fix the errors manually.');
+        return false;
+      }
+
+      attempt++;
+      this.conversationHistory.push({
+        role: 'user',
+        content: formatVerificationReport(result),
+      });
+      await this.runAgentLoop();
+      if (this.turnError || this.budgetExceeded) {
+        return false;
+      }
+    }
+    return true;
   }
 
   private async runAgentLoop(): Promise<void> {
     let continueLoop = true;
 
     while (continueLoop) {
+      // Keep history within the model's token budget (tool loops grow it quickly), then
+      // stop before a request that could go over the session's cost budget
+      if (!(await this.compactHistory()) || !(await this.checkBudget(this.estimateNextRequest()))) {
+        this.budgetExceeded = true;
+        return;
+      }
+
       continueLoop = await this.runSingleTurn();
+
+      if (this.turnCompleteHandler) {
+        try {
+          await this.turnCompleteHandler();
+        } catch (error) {
+          this.ui.printWarning(`Could not save session: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
     }
   }
 
@@ -91,26 +436,28 @@ export class AgentEngine {
           : tool
       );
 
-      const stream = this.client.messages.stream({
-        model: MODEL_MAP[this.model],
-        max_tokens: MAX_TOKENS,
-        system: [
-          {
-            type: 'text',
-            text: THREEJS_SYSTEM_PROMPT,
-            cache_control: { type: 'ephemeral' }
-          }
-        ],
-        tools: toolsWithCache,
-        messages: this.conversationHistory,
-      });
+      // Instructions get their own cache breakpoint so a changed project context
+      // does not invalidate them. The project context changes rarely and is cached too.
+      const system: Anthropic.TextBlockParam[] = [{ type: 'text', text: THREEJS_SYSTEM_PROMPT }];
+      if (this.instructions) {
+        system.push({ type: 'text', text: this.instructions, cache_control: { type: 'ephemeral' } });
+      }
+      if (this.projectContext) {
+        system.push({ type: 'text', text: this.projectContext });
+      }
+      system[system.length - 1].cache_control = { type: 'ephemeral' };
 
-      // Collect response content
-      const contentBlocks: Anthropic.ContentBlock[] = [];
       let isFirstText = true;
+      const request = this.conversationHistory[this.conversationHistory.length - 1];
 
-      // Handle streaming events
-      stream.on('text', (text) => {
+      // Stream the reply text as it arrives
+      const response = await this.provider.createMessage({
+        model: MODEL_MAP[this.model],
+        maxTokens: MAX_TOKENS,
+        system,
+        tools: toolsWithCache,
+        messages: this.contextManager.buildMessages(this.conversationHistory),
+      }, (text) => {
         if (isFirstText) {
           this.ui.stopThinking();
           this.ui.startStreaming();
@@ -119,20 +466,25 @@ export class AgentEngine {
         this.ui.streamText(text);
       });
 
-      // Wait for the complete response
-      const response = await stream.finalMessage();
+      await this.recorder?.recordExchange(this.getModelName(), request, response);
 
-      // Log usage for cost tracking
+      // Add usage and cost to the session totals
       const usage = response.usage;
-      if (usage) {
-        const cacheHit = (usage as any).cache_read_input_tokens || 0;
-        const cacheCreation = (usage as any).cache_creation_input_tokens || 0;
-        this.ui.printDebug(
-          `Tokens: ${usage.input_tokens} in, ${usage.output_tokens} out` +
-          (cacheHit ? `, ${cacheHit} cached` : '') +
-          (cacheCreation ? `, ${cacheCreation} cache created` : '')
-        );
-      }
+      const costUsd = this.trackUsage(usage);
+      this.ui.emit({
+        type: 'usage',
+        model: this.getModelName(),
+        usage,
+        total: { ...this.tokenUsage },
+        costUsd,
+        totalCostUsd: this.costTracker.getTotal(),
+      });
+      this.ui.printDebug(
+        `Tokens: ${usage.inputTokens} in, ${usage.outputTokens} out` +
+        (usage.cacheReadTokens ? `, ${usage.cacheReadTokens} cached` : '') +
+        (usage.cacheCreationTokens ? `, ${usage.cacheCreationTokens} cache created` : '') +
+        (this.getPricing() ? ` (${formatUsd(costUsd)}, session ${formatUsd(this.costTracker.getTotal())})` : '')
+      );
 
       // Make sure to stop thinking if no text was streamed
       this.ui.stopThinking();
@@ -142,24 +494,19 @@ export class AgentEngine {
       }
 
       // Check for truncated response
-      if (response.stop_reason === 'max_tokens') {
+      if (response.stopReason === 'max_tokens') {
         this.ui.printWarning('Response was truncated due to length limit. Some tool calls may be incomplete.');
       }
 
-      // Process all content blocks
-      for (const block of response.content) {
-        contentBlocks.push(block);
-      }
-
       // Add assistant response to history
       this.conversationHistory.push({
         role: 'assistant',
-        content: contentBlocks,
+        content: response.content,
       });
 
       // Check if we need to process tool calls
-      const toolUseBlocks = contentBlocks.filter(
-        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+      const toolUseBlocks = response.content.filter(
+        (block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use'
       );
 
       if (toolUseBlocks.length === 0) {
@@ -179,6 +526,7 @@ export class AgentEngine {
         // Stop spinner before tool execution (which prints its own output)
         this.ui.stopToolProcessing();
 
+        this.ui.emit({ type: 'tool_use_start', id: toolUse.id, name: toolUse.name, input: toolUse.input });
         const result = await this.toolExecutor.execute(
           toolUse.name as ToolName,
           toolUse.input
@@ -186,10 +534,15 @@ export class AgentEngine {
 
         // Truncate large outputs to save tokens
         let output = result.success ? result.output : `Error: ${result.error}`;
-        if (output.length > 2000) {
-          output = output.substring(0, 2000) + '\n... (truncated)';
+        const outputLimit = TOOL_OUTPUT_LIMITS[toolUse.name as ToolName] ?? MAX_TOOL_OUTPUT_CHARS;
+        if (output.length > outputLimit) {
+          output = output.substring(0, outputLimit) + '\n... (truncated)';
         }
 
+        const outcome = result.success ? { output } : { error: result.error };
+        this.ui.emit({ type: 'tool_use_end', id: toolUse.id, name: toolUse.name, success: result.success, ...outcome });
+        this.recorder?.recordToolResult({ id: toolUse.id, name: toolUse.name, input: toolUse.input, success: result.success, ...outcome });
+
         toolResults.push({
           type: 'tool_result',
           tool_use_id: toolUse.id,
@@ -218,7 +571,7 @@ export class AgentEngine {
       this.ui.stopToolProcessing();
 
       // Handle rate limit errors with retry
-      if (error instanceof Anthropic.RateLimitError) {
+      if (error instanceof ProviderError && error.rateLimited) {
         if (retryCount < MAX_RETRIES) {
           const delay = RETRY_DELAY_MS * Math.pow(2, retryCount);
           this.ui.printWarning(`Rate limited. Retrying in ${delay / 1000}s...`);
@@ -226,13 +579,16 @@ export class AgentEngine {
           return this.runSingleTurn(retryCount + 1);
         }
         this.ui.printError('Rate limit exceeded. Please wait a moment and try again.');
+        this.turnError = 'Rate limit exceeded';
         return false;
       }
 
-      if (error instanceof Anthropic.APIError) {
-        this.ui.printError(`API Error: ${error.message}`);
+      if (error instanceof ProviderError) {
+        this.ui.printError(error.message);
+        this.turnError = error.message;
       } else {
         this.ui.printError(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        this.turnError = error instanceof Error ? error.message : String(error);
       }
       return false;
     }
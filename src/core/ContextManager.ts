@@ -0,0 +1,360 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ModelId, MODEL_MAP, MODEL_CONTEXT_WINDOW, MessageParam, TokenUsage } from './types.js';
+import { LLMProvider } from '../providers/Provider.js';
+
+// Rough token estimation - Claude averages about 4 characters per token for code and prose
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
+// Share of the context window the conversation history may use before it is compacted.
+// The rest is left for the system prompt, tool definitions and the response.
+const HISTORY_BUDGET_RATIO = 0.5;
+// After compaction, recent turns are kept verbatim until they fill this share of the window
+const RETAINED_BUDGET_RATIO = 0.25;
+
+const SUMMARY_MAX_TOKENS = 2048;
+const SUMMARY_PREFIX = '[Summary of the earlier conversation]';
+
+const SUMMARY_PROMPT = `You maintain the running memory of a Three.js coding session between a user and an AI agent.
+Write an updated summary that merges the previous summary (if any) with the new conversation excerpt.
+
+Preserve precisely:
+- The user's goals, preferences and constraints (language, target platform, style)
+- The project architecture: files created and their responsibilities, key classes and modules
+- Scene structure: cameras, lights, meshes, materials, shaders, controls, animation loop
+- Dependencies installed and commands that were run
+- Open problems, errors that still need fixing and pending requests
+
+Be concise and factual. Use short bullet lists grouped by heading. Do not include code longer than one line.`;
+
+/**
+ * A turn starts with a user message that is not a tool result and contains every
+ * assistant/tool_result exchange that followed it. A turn is only ever split between
+ * those exchanges, so a tool_use block always stays together with its tool_result.
+ */
+interface Turn {
+  messages: MessageParam[];
+  tokens: number;
+}
+
+export class ContextManager {
+  private provider: LLMProvider;
+  private summary = '';
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  setSummary(summary: string): void {
+    this.summary = summary;
+  }
+
+  reset(): void {
+    this.summary = '';
+  }
+
+  /**
+   * Estimates the number of tokens a message will use
+   */
+  estimateTokens(message: MessageParam): number {
+    if (typeof message.content === 'string') {
+      return Math.ceil(message.content.length / CHARS_PER_TOKEN);
+    }
+
+    let chars = 0;
+    let tokens = 0;
+    for (const block of message.content) {
+      switch (block.type) {
+        case 'text':
+          chars += block.text.length;
+          break;
+        case 'tool_use':
+          chars += block.name.length + JSON.stringify(block.input ?? {}).length;
+          break;
+        case 'tool_result':
+          if (typeof block.content === 'string') {
+            chars += block.content.length;
+          } else if (Array.isArray(block.content)) {
+            for (const part of block.content) {
+              if (part.type === 'text') {
+                chars += part.text.length;
+              } else {
+                tokens += IMAGE_TOKEN_ESTIMATE;
+              }
+            }
+          }
+          break;
+        case 'image':
+          tokens += IMAGE_TOKEN_ESTIMATE;
+          break;
+        default:
+          chars += JSON.stringify(block).length;
+      }
+    }
+    return tokens + Math.ceil(chars / CHARS_PER_TOKEN);
+  }
+
+  estimateTextTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Worst-case size of the summary request compact() would make: the whole history is
+   * summarized and the reply uses its full allowance (no request for the scripted provider)
+   */
+  estimateCompactionRequest(history: MessageParam[]): { inputTokens: number; outputTokens: number } {
+    if (this.provider.type === 'scripted') {
+      return { inputTokens: 0, outputTokens: 0 };
+    }
+    return {
+      inputTokens: this.estimateHistoryTokens(history) + this.estimateTextTokens(SUMMARY_PROMPT),
+      outputTokens: SUMMARY_MAX_TOKENS,
+    };
+  }
+
+  estimateHistoryTokens(history: MessageParam[]): number {
+    return history.reduce((total, message) => total + this.estimateTokens(message), 0)
+      + Math.ceil(this.summary.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Returns the token budget for conversation history on the given model
+   */
+  getBudget(model: ModelId): number {
+    return Math.floor(this.getContextWindow(model) * HISTORY_BUDGET_RATIO);
+  }
+
+  // A local model on an OpenAI-compatible endpoint may have a much smaller window than Claude
+  private getContextWindow(model: ModelId): number {
+    return this.provider.contextWindow ?? MODEL_CONTEXT_WINDOW[model];
+  }
+
+  needsCompaction(history: MessageParam[], model: ModelId): boolean {
+    return this.estimateHistoryTokens(history) > this.getBudget(model);
+  }
+
+  /**
+   * Compacts the history when it exceeds the model's budget. The oldest turns are folded
+   * into the rolling summary; the most recent turn is kept verbatim unless it alone exceeds
+   * the retained budget (one long agent loop), in which case its older tool rounds are folded too.
+   * Returns the retained messages (the summary is kept by the manager) and the token
+   * usage of the summary request, if one was made.
+   */
+  async compact(history: MessageParam[], model: ModelId): Promise<{ history: MessageParam[]; compacted: boolean; usage?: TokenUsage }> {
+    if (!this.needsCompaction(history, model)) {
+      return { history, compacted: false };
+    }
+
+    const turns = this.groupTurns(history);
+    if (turns.length === 0) {
+      return { history, compacted: false };
+    }
+
+    // Walk backwards from the current turn keeping turns until the retained budget is filled
+    const retainedBudget = Math.floor(this.getContextWindow(model) * RETAINED_BUDGET_RATIO);
+    const current = turns[turns.length - 1];
+    let retainedTokens = current.tokens;
+    let splitIndex = turns.length - 1;
+    while (splitIndex > 0 && retainedTokens + turns[splitIndex - 1].tokens <= retainedBudget) {
+      retainedTokens += turns[splitIndex - 1].tokens;
+      splitIndex--;
+    }
+
+    const folded = turns.slice(0, splitIndex).flatMap(turn => turn.messages);
+    let retained = turns.slice(splitIndex).flatMap(turn => turn.messages);
+    if (current.tokens > retainedBudget) {
+      const split = this.splitTurn(current, retainedBudget);
+      folded.push(...split.folded);
+      retained = split.retained;
+    }
+    if (folded.length === 0) {
+      return { history, compacted: false };
+    }
+
+    const { summary, usage } = await this.summarize(folded, model);
+    this.summary = summary;
+    return { history: retained, compacted: true, usage };
+  }
+
+  /**
+   * Builds the message list sent to the API: the rolling summary is prepended
+   * to the first user message so roles keep alternating
+   */
+  buildMessages(history: MessageParam[]): MessageParam[] {
+    if (!this.summary || history.length === 0) {
+      return history;
+    }
+
+    const [first, ...rest] = history;
+    const summaryBlock: Anthropic.TextBlockParam = {
+      type: 'text',
+      text: `${SUMMARY_PREFIX}\n${this.summary}`,
+    };
+    const content: Anthropic.ContentBlockParam[] = typeof first.content === 'string'
+      ? [summaryBlock, { type: 'text', text: first.content }]
+      : [summaryBlock, ...first.content];
+
+    return [{ role: first.role, content }, ...rest];
+  }
+
+  /**
+   * Splits history into turns at user messages that are not tool results
+   */
+  private groupTurns(history: MessageParam[]): Turn[] {
+    const turns: Turn[] = [];
+
+    for (const message of history) {
+      const startsTurn = message.role === 'user' && !this.isToolResultMessage(message);
+      if (startsTurn || turns.length === 0) {
+        turns.push({ messages: [], tokens: 0 });
+      }
+      const current = turns[turns.length - 1];
+      current.messages.push(message);
+      current.tokens += this.estimateTokens(message);
+    }
+
+    return turns;
+  }
+
+  /**
+   * Splits a turn that is too large on its own into rounds (an assistant message and the
+   * tool results that answer it) and keeps the latest rounds that fit the budget.
+   * The opening user message is always kept so the retained history still starts with it.
+   */
+  private splitTurn(turn: Turn, budget: number): { folded: MessageParam[]; retained: MessageParam[] } {
+    const [opening, ...rest] = turn.messages;
+    const rounds: Array<{ messages: MessageParam[]; tokens: number }> = [];
+    for (const message of rest) {
+      if (message.role === 'assistant' || rounds.length === 0) {
+        rounds.push({ messages: [], tokens: 0 });
+      }
+      const round = rounds[rounds.length - 1];
+      round.messages.push(message);
+      round.tokens += this.estimateTokens(message);
+    }
+
+    // The latest round is kept even when it exceeds the budget by itself
+    let retainedTokens = this.estimateTokens(opening);
+    let splitIndex = rounds.length;
+    while (splitIndex > 0) {
+      const round = rounds[splitIndex - 1];
+      if (splitIndex < rounds.length && retainedTokens + round.tokens > budget) {
+        break;
+      }
+      retainedTokens += round.tokens;
+      splitIndex--;
+    }
+
+    return {
+      folded: rounds.slice(0, splitIndex).flatMap(round => round.messages),
+      retained: [opening, ...rounds.slice(splitIndex).flatMap(round => round.messages)],
+    };
+  }
+
+  private isToolResultMessage(message: MessageParam): boolean {
+    return Array.isArray(message.content) &&
+      message.content.some(block => block.type === 'tool_result');
+  }
+
+  /**
+   * Asks the model to fold the given messages into the rolling summary.
+   * Falls back to a mechanical summary if the request fails, and always for the scripted
+   * provider, whose responses belong to the agent loop.
+   */
+  private async summarize(messages: MessageParam[], model: ModelId): Promise<{ summary: string; usage?: TokenUsage }> {
+    if (this.provider.type === 'scripted') {
+      return { summary: this.fallbackSummary(messages) };
+    }
+
+    const transcript = messages.map(message => this.renderMessage(message)).join('\n\n');
+    const request = (this.summary ? `Previous summary:\n${this.summary}\n\n` : '') +
+      `New conversation excerpt:\n${transcript}`;
+
+    try {
+      const response = await this.provider.createMessage({
+        model: MODEL_MAP[model],
+        maxTokens: SUMMARY_MAX_TOKENS,
+        system: [{ type: 'text', text: SUMMARY_PROMPT }],
+        messages: [{ role: 'user', content: request }],
+      });
+
+      const text = response.content
+        .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+        .map(block => block.text)
+        .join('\n')
+        .trim();
+
+      if (text) {
+        return { summary: text, usage: response.usage };
+      }
+    } catch {
+      // Fall through to the mechanical summary
+    }
+
+    return { summary: this.fallbackSummary(messages) };
+  }
+
+  /**
+   * Summary built without the model: user requests and files written, in order
+   */
+  private fallbackSummary(messages: MessageParam[]): string {
+    const lines: string[] = this.summary ? [this.summary] : [];
+
+    for (const message of messages) {
+      if (typeof message.content === 'string') {
+        if (message.role === 'user') {
+          lines.push(`- User asked: ${message.content.slice(0, 300)}`);
+        }
+        continue;
+      }
+      for (const block of message.content) {
+        if (block.type === 'tool_use') {
+          const input = block.input as Record<string, unknown>;
+          if (typeof input?.path === 'string') {
+            lines.push(`- ${block.name}: ${input.path}`);
+          } else if (typeof input?.command === 'string') {
+            lines.push(`- ${block.name}: ${input.command}`);
+          }
+        } else if (block.type === 'text' && message.role === 'user') {
+          lines.push(`- User asked: ${block.text.slice(0, 300)}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private renderMessage(message: MessageParam): string {
+    const label = message.role === 'user' ? 'USER' : 'ASSISTANT';
+    if (typeof message.content === 'string') {
+      return `${label}: ${message.content}`;
+    }
+
+    const parts = message.content.map(block => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'tool_use':
+          return `[tool_use ${block.name}] ${this.abbreviate(JSON.stringify(block.input ?? {}), 600)}`;
+        case 'tool_result': {
+          const content = typeof block.content === 'string'
+            ? block.content
+            : (block.content ?? []).map(part => part.type === 'text' ? part.text : `[${part.type}]`).join('\n');
+          return `[tool_result${block.is_error ? ' error' : ''}] ${this.abbreviate(content, 600)}`;
+        }
+        default:
+          return `[${block.type}]`;
+      }
+    });
+
+    return `${label}: ${parts.join('\n')}`;
+  }
+
+  private abbreviate(text: string, maxLength: number): string {
+    return text.length > maxLength ? text.slice(0, maxLength) + '... (truncated)' : text;
+  }
+}
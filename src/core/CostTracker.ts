@@ -0,0 +1,103 @@
+/**
+ * Cost Tracker - Adds up what each model request cost, per model and per user turn,
+ * for /cost, the session budget and the saved session.
+ */
+
+import { CostBreakdown, ModelPricing, SessionCost, TokenUsage } from './types.js';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+const TURN_LABEL_LENGTH = 60;
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+}
+
+function emptyBreakdown(): CostBreakdown {
+  return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0, total: 0 };
+}
+
+function addUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.cacheCreationTokens += usage.cacheCreationTokens;
+  target.cacheReadTokens += usage.cacheReadTokens;
+}
+
+/**
+ * Prices token usage. Without pricing (e.g. a local model) everything is free.
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing | null): CostBreakdown {
+  if (!pricing) {
+    return emptyBreakdown();
+  }
+  const input = usage.inputTokens * pricing.input / TOKENS_PER_PRICE_UNIT;
+  const output = usage.outputTokens * pricing.output / TOKENS_PER_PRICE_UNIT;
+  const cacheWrite = usage.cacheCreationTokens * pricing.cacheWrite / TOKENS_PER_PRICE_UNIT;
+  const cacheRead = usage.cacheReadTokens * pricing.cacheRead / TOKENS_PER_PRICE_UNIT;
+  return { input, output, cacheWrite, cacheRead, total: input + output + cacheWrite + cacheRead };
+}
+
+export function formatUsd(amount: number): string {
+  // Single requests often cost fractions of a cent
+  return amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+export class CostTracker {
+  private cost: SessionCost = CostTracker.emptyCost();
+
+  private static emptyCost(): SessionCost {
+    return { totalUsd: 0, byModel: {}, turns: [] };
+  }
+
+  getCost(): SessionCost {
+    return structuredClone(this.cost);
+  }
+
+  getTotal(): number {
+    return this.cost.totalUsd;
+  }
+
+  setCost(cost: SessionCost | undefined): void {
+    this.cost = cost ? structuredClone(cost) : CostTracker.emptyCost();
+  }
+
+  reset(): void {
+    this.cost = CostTracker.emptyCost();
+  }
+
+  /**
+   * Starts a new user turn; requests recorded until the next call count towards it
+   */
+  beginTurn(message: string): void {
+    const firstLine = message.trim().split('\n')[0];
+    this.cost.turns.push({
+      label: firstLine.length > TURN_LABEL_LENGTH ? `${firstLine.slice(0, TURN_LABEL_LENGTH - 3)}...` : firstLine,
+      usage: emptyUsage(),
+      costUsd: 0,
+    });
+  }
+
+  /**
+   * Adds one request and returns its cost in USD
+   */
+  record(model: string, usage: TokenUsage, pricing: ModelPricing | null): number {
+    const cost = calculateCost(usage, pricing);
+
+    const entry = this.cost.byModel[model] ??= { usage: emptyUsage(), cost: emptyBreakdown() };
+    addUsage(entry.usage, usage);
+    entry.cost.input += cost.input;
+    entry.cost.output += cost.output;
+    entry.cost.cacheWrite += cost.cacheWrite;
+    entry.cost.cacheRead += cost.cacheRead;
+    entry.cost.total += cost.total;
+
+    const turn = this.cost.turns[this.cost.turns.length - 1];
+    if (turn) {
+      addUsage(turn.usage, usage);
+      turn.costUsd += cost.total;
+    }
+
+    this.cost.totalUsd += cost.total;
+    return cost.total;
+  }
+}
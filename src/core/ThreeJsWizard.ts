@@ -1,30 +1,106 @@
-import { TerminalUI } from '../ui/TerminalUI.js';
-import { AgentEngine } from './AgentEngine.js';
+import * as path from 'path';
+import { TerminalUI, TerminalUIOptions } from '../ui/TerminalUI.js';
+import { AgentEngine, TurnResult } from './AgentEngine.js';
+import { CommandPolicy } from '../tools/ToolExecutor.js';
+import { LLMProvider } from '../providers/Provider.js';
+import { createProvider } from '../providers/ProviderFactory.js';
+import { SessionRecorder } from '../project/SessionRecording.js';
 import { ProjectManager } from '../project/ProjectManager.js';
-import { ModelId } from './types.js';
+import { SessionStore } from '../project/SessionStore.js';
+import { AssetBudget } from '../project/AssetInventory.js';
+import { TemplateRegistry, ScaffoldResult, toPackageName } from '../templates/TemplateRegistry.js';
+import { ModelId, SessionData, ApprovalMode, APPROVAL_MODES, TokenUsage } from './types.js';
 import { runOnboarding, buildContextMessage } from '../ui/onboarding.js';
+import { loadInstructions, formatInstructionsPrompt, InstructionsSource } from '../prompts/instructions.js';
 
 export interface WizardOptions {
   model?: ModelId;
+  // Where model requests go (defaults to the Anthropic API)
+  provider?: LLMProvider;
+  // Session ID (or unique prefix) to resume, or true for the most recent session
+  resume?: string | true;
+  // Serve fetch_url only from the on-disk cache or the fixtures directory
+  offline?: boolean;
+  fixturesDir?: string;
+  // Domains fetch_url may use besides the defaults
+  allowedDomains?: string[];
+  approvalMode?: ApprovalMode;
+  // Type check and build the project after each turn that wrote files
+  verifyBuild?: boolean;
+  maxBuildFixAttempts?: number;
+  // Limits asset checks flag textures and files against
+  assetBudget?: Partial<AssetBudget>;
+  // Headless runs: where output goes, and a policy instead of command prompts
+  ui?: TerminalUIOptions;
+  commandPolicy?: CommandPolicy;
+  // Write every model response and tool result to this file (for threewzrd replay)
+  record?: string;
+  // Ask before the session costs more than this (USD)
+  maxCostUsd?: number;
+}
+
+// Outcome of a headless run (threewzrd run)
+export interface RunResult extends TurnResult {
+  sessionId: string;
+  // The model's final reply
+  response: string;
+  files: string[];
+  usage: TokenUsage;
+  costUsd: number;
 }
 
 export class ThreeJsWizard {
   private ui: TerminalUI;
   private engine: AgentEngine;
   private projectManager: ProjectManager;
+  private sessionStore: SessionStore;
   private workingDirectory: string;
   private isRunning = false;
   private hasOnboarded = false;
+  private sessionId = SessionStore.createId();
+  private sessionTitle: string | undefined;
+  private sessionCreatedAt = new Date().toISOString();
+  private resume: string | true | undefined;
+  private hasModelOverride: boolean;
+  private recorder: SessionRecorder | null = null;
 
   constructor(options?: WizardOptions) {
     this.workingDirectory = process.cwd();
-    this.ui = new TerminalUI();
-    this.engine = new AgentEngine(this.ui, this.workingDirectory);
-    this.projectManager = new ProjectManager(this.workingDirectory);
+    this.ui = new TerminalUI(options?.ui);
+    const provider = options?.provider ?? createProvider();
+    this.engine = new AgentEngine(this.ui, this.workingDirectory, provider, {
+      fetch: {
+        offline: options?.offline,
+        fixturesDir: options?.fixturesDir,
+        allowedDomains: options?.allowedDomains,
+      },
+      approvalMode: options?.approvalMode,
+      assetBudget: options?.assetBudget,
+      commandPolicy: options?.commandPolicy,
+    }, {
+      enabled: options?.verifyBuild,
+      maxFixAttempts: options?.maxBuildFixAttempts,
+    });
+    this.projectManager = new ProjectManager(this.workingDirectory, options?.assetBudget);
+    this.sessionStore = new SessionStore(this.workingDirectory);
+    this.resume = options?.resume;
+    this.hasModelOverride = !!options?.model;
 
     if (options?.model) {
       this.engine.setModel(options.model);
     }
+
+    if (options?.maxCostUsd !== undefined) {
+      this.engine.setCostBudget(options.maxCostUsd);
+    }
+
+    if (options?.record) {
+      this.recorder = new SessionRecorder(options.record, this.workingDirectory, provider.type);
+      this.engine.setRecorder(this.recorder);
+    }
+
+    // Autosave after every model turn so a crash never loses the conversation
+    this.engine.setTurnCompleteHandler(() => this.saveSession());
   }
 
   async start(): Promise<void> {
@@ -33,16 +109,19 @@ export class ThreeJsWizard {
     // Print welcome banner
     this.ui.printBanner();
 
+    if (this.resume) {
+      const resumed = await this.resumeSession(this.resume);
+      if (resumed) {
+        this.hasOnboarded = true;
+      }
+    }
+
     // Check for existing project or code
-    const hasThreeJsProject = await this.projectManager.detectExistingProject();
+    const hasThreeJsProject = await this.loadProject();
     const hasExistingCode = await this.projectManager.hasExistingCode();
     const isEmptyDir = await this.projectManager.isEmptyDirectory();
 
     if (hasThreeJsProject) {
-      const info = this.projectManager.getProjectInfo();
-      if (info) {
-        this.ui.printInfo(`  Detected Three.js project: ${info.name} (${info.language})`);
-      }
       this.hasOnboarded = true;
     } else if (hasExistingCode) {
       this.ui.printInfo('  Detected existing code in this directory.');
@@ -52,11 +131,39 @@ export class ThreeJsWizard {
 
     // Run onboarding only for empty directories
     if (!this.hasOnboarded && isEmptyDir) {
-      const preferences = await runOnboarding(this.ui);
+      const templates = new TemplateRegistry();
+      const preferences = await runOnboarding(this.ui, await templates.list());
       this.hasOnboarded = true;
 
+      // Write the template before the agent starts so it builds on known-good files
+      let scaffold: ScaffoldResult | undefined;
+      if (preferences.template) {
+        try {
+          scaffold = await templates.scaffold(preferences.template, this.workingDirectory);
+          this.ui.printSuccess(`  Created ${scaffold.files.length} files from the ${scaffold.template.name} template`);
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          this.ui.printError(`Could not scaffold the template: ${msg}`);
+        }
+      }
+
+      // Persist the answers so they are not lost on the next start
+      try {
+        await this.projectManager.initProject(
+          scaffold?.name ?? toPackageName(path.basename(this.workingDirectory)),
+          { ...preferences, template: scaffold?.template.id },
+        );
+        for (const file of scaffold?.files ?? []) {
+          this.projectManager.addFile(file, 'agent');
+        }
+        await this.projectManager.saveManifest();
+      } catch (error) {
+        this.ui.printWarning(`Could not save the project manifest: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      this.engine.setProjectContext(this.projectManager.getAgentContext());
+
       // Process the initial project request
-      const contextMessage = buildContextMessage(preferences);
+      const contextMessage = buildContextMessage(preferences, scaffold);
       await this.engine.processMessage(contextMessage);
     } else if (!this.hasOnboarded) {
       // Directory has some files but we didn't recognize them
@@ -83,9 +190,13 @@ export class ThreeJsWizard {
 
         // Track created files
         for (const file of this.engine.getCreatedFiles()) {
-          this.projectManager.addFile(file);
+          this.projectManager.addFile(file, 'agent');
         }
 
+        // The agent may have added a framework or library; keep its context current
+        await this.projectManager.refreshStack();
+        this.engine.setProjectContext(this.projectManager.getAgentContext());
+
       } catch (error) {
         if ((error as NodeJS.ErrnoException).code === 'ERR_USE_AFTER_CLOSE') {
           // readline was closed, exit gracefully
@@ -96,6 +207,68 @@ export class ThreeJsWizard {
     }
   }
 
+  /**
+   * Runs a single request without a terminal and returns how it went. Commands are
+   * approved by the command policy given in the options.
+   */
+  async run(prompt: string): Promise<RunResult> {
+    this.ui.emit({
+      type: 'start',
+      sessionId: this.sessionId,
+      model: this.engine.getModelName(),
+      workingDirectory: this.workingDirectory,
+    });
+    await this.loadProject();
+
+    const result = await this.engine.processMessage(prompt);
+    for (const file of this.engine.getCreatedFiles()) {
+      this.projectManager.addFile(file, 'agent');
+    }
+
+    try {
+      await this.saveSession();
+    } catch (error) {
+      this.ui.printWarning(`Could not save session: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+      ...result,
+      sessionId: this.sessionId,
+      response: this.engine.getLastResponseText(),
+      files: this.engine.getWrittenFiles(),
+      usage: this.engine.getTokenUsage(),
+      costUsd: this.engine.getCost().totalUsd,
+    };
+  }
+
+  /**
+   * Loads the instructions files and the existing project, and hands both to the agent.
+   * Returns true if this is a three.js project.
+   */
+  private async loadProject(): Promise<boolean> {
+    // Load THREEWZRD.md and the user's instructions before the first request
+    try {
+      const sources = await this.reloadInstructions();
+      for (const source of sources) {
+        this.ui.printInfo(`  Loaded instructions from ${source.path}`);
+      }
+    } catch (error) {
+      this.ui.printWarning(`Could not load instructions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!(await this.projectManager.detectExistingProject())) {
+      return false;
+    }
+
+    const info = this.projectManager.getProjectInfo();
+    if (info) {
+      const stack = info.stack?.features.map(feature => feature.name) ?? [];
+      this.ui.printInfo(`  Detected Three.js project: ${info.name} (${[info.language, ...stack].join(', ')})`);
+    }
+    this.engine.setProjectContext(this.projectManager.getAgentContext());
+    return true;
+  }
+
   private async handleCommand(input: string): Promise<void> {
     const parts = input.slice(1).split(/\s+/);
     const command = parts[0].toLowerCase();
@@ -107,11 +280,44 @@ export class ThreeJsWizard {
         break;
 
       case 'clear':
+        // The previous session is already on disk; start a fresh one
+        try {
+          await this.saveSession();
+        } catch (error) {
+          this.ui.printWarning(`Could not save session: ${error instanceof Error ? error.message : String(error)}`);
+        }
         this.engine.clearHistory();
+        this.startNewSession();
         this.ui.clearScreen();
         this.ui.printSuccess('Conversation cleared');
         break;
 
+      case 'save':
+        if (args.length > 0) {
+          this.sessionTitle = args.join(' ');
+        }
+        try {
+          await this.saveSession(true);
+          this.ui.printSuccess(`Session saved: ${this.sessionId}`);
+        } catch (error) {
+          this.ui.printError(`Could not save session: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
+      case 'load':
+        if (args.length === 0) {
+          this.ui.printSessionList(await this.sessionStore.list(), this.sessionId);
+          this.ui.printInfo('Use /load <id> to open a session');
+        } else {
+          try {
+            await this.saveSession();
+          } catch (error) {
+            this.ui.printWarning(`Could not save session: ${error instanceof Error ? error.message : String(error)}`);
+          }
+          await this.resumeSession(args[0]);
+        }
+        break;
+
       case 'exit':
       case 'quit':
         this.ui.printInfo('Goodbye!');
@@ -138,11 +344,196 @@ export class ThreeJsWizard {
         }
         break;
 
+      case 'approval':
+        if (args.length === 0) {
+          this.ui.printInfo(`Current approval mode: ${this.engine.getApprovalMode()}`);
+          this.ui.printInfo(`Available modes: ${APPROVAL_MODES.join(', ')}`);
+        } else if (APPROVAL_MODES.includes(args[0].toLowerCase() as ApprovalMode)) {
+          this.engine.setApprovalMode(args[0].toLowerCase() as ApprovalMode);
+          this.ui.printSuccess(`Approval mode set to ${args[0].toLowerCase()}`);
+        } else {
+          this.ui.printError(`Unknown approval mode: ${args[0]}. Use: ${APPROVAL_MODES.join(', ')}`);
+        }
+        break;
+
+      case 'verify': {
+        const setting = args[0]?.toLowerCase();
+        if (!setting) {
+          this.ui.printInfo(`Build verification: ${this.engine.isBuildVerificationEnabled() ? 'on' : 'off'}`);
+        } else if (setting === 'on' || setting === 'off') {
+          this.engine.setBuildVerification(setting === 'on');
+          this.ui.printSuccess(`Build verification turned ${setting}`);
+        } else {
+          this.ui.printError('Usage: /verify [on|off]');
+        }
+        break;
+      }
+
+      case 'scene':
+        try {
+          this.ui.printSceneGraph(await this.projectManager.describeScene(args[0]));
+        } catch (error) {
+          this.ui.printError(`Could not analyze the scene: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
+      case 'assets':
+        try {
+          this.ui.printAssetInventory(await this.projectManager.getAssetInventory());
+        } catch (error) {
+          this.ui.printError(`Could not list assets: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
+      case 'instructions':
+        try {
+          // Re-read the files so edits made during the session take effect
+          this.ui.printInstructions(await this.reloadInstructions());
+        } catch (error) {
+          this.ui.printError(`Could not load instructions: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
+      case 'cost':
+        this.ui.printCost(this.engine.getCost(), this.engine.getCostLimit());
+        break;
+
+      case 'undo':
+        try {
+          const result = await this.engine.getCheckpointStore().undoLastTurn();
+          if (!result) {
+            this.ui.printInfo('Nothing to undo');
+            break;
+          }
+          this.ui.printRestoreResult(result);
+          this.notifyReverted(result.restored, result.deleted);
+        } catch (error) {
+          this.ui.printError(`Undo failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
+      case 'checkpoints':
+        this.ui.printCheckpoints(await this.engine.getCheckpointStore().list());
+        break;
+
+      case 'restore':
+        if (args.length === 0) {
+          this.ui.printError('Usage: /restore <checkpoint id>. Use /checkpoints to list them.');
+          break;
+        }
+        try {
+          const result = await this.engine.getCheckpointStore().restore(args[0]);
+          this.ui.printRestoreResult(result);
+          this.notifyReverted(result.restored, result.deleted);
+        } catch (error) {
+          this.ui.printError(`Restore failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
       default:
         this.ui.printError(`Unknown command: ${command}. Type /help for available commands.`);
     }
   }
 
+  private async reloadInstructions(): Promise<InstructionsSource[]> {
+    const sources = await loadInstructions(this.workingDirectory);
+    this.engine.setInstructions(formatInstructionsPrompt(sources));
+    return sources;
+  }
+
+  // Let the model know files changed behind its back so it re-reads them
+  private notifyReverted(restored: string[], deleted: string[]): void {
+    const parts: string[] = [];
+    if (restored.length > 0) parts.push(`restored ${restored.join(', ')}`);
+    if (deleted.length > 0) parts.push(`removed ${deleted.join(', ')}`);
+    if (parts.length > 0) {
+      this.engine.queueNotice(`The user reverted earlier file changes: ${parts.join('; ')}. Re-read these files before editing them.`);
+    }
+  }
+
+  private startNewSession(): void {
+    this.sessionId = SessionStore.createId();
+    this.sessionTitle = undefined;
+    this.sessionCreatedAt = new Date().toISOString();
+  }
+
+  /**
+   * Writes the current conversation to .threewzrd/sessions/.
+   * Empty sessions are skipped unless the save was requested explicitly.
+   */
+  private async saveSession(force = false): Promise<void> {
+    const messages = this.engine.getHistory();
+    if (messages.length === 0 && !force) {
+      return;
+    }
+
+    const session: SessionData = {
+      id: this.sessionId,
+      title: this.sessionTitle,
+      model: this.engine.getModel(),
+      createdAt: this.sessionCreatedAt,
+      updatedAt: new Date().toISOString(),
+      messages,
+      summary: this.engine.getSummary() || undefined,
+      createdFiles: this.engine.getCreatedFiles(),
+      tokenUsage: this.engine.getTokenUsage(),
+      cost: this.engine.getCost(),
+    };
+    await this.sessionStore.save(session);
+    await this.saveProject();
+    await this.recorder?.save();
+  }
+
+  /**
+   * Records the agent's files and the current session in the project manifest
+   */
+  private async saveProject(): Promise<void> {
+    for (const file of this.engine.getCreatedFiles()) {
+      this.projectManager.addFile(file, 'agent');
+    }
+    // A directory without three.js becomes a project once the agent adds it
+    if (!this.projectManager.getConfig() && !(await this.projectManager.detectExistingProject())) {
+      return;
+    }
+    this.projectManager.linkSession(this.sessionId);
+    await this.projectManager.saveManifest();
+  }
+
+  /**
+   * Loads a saved session into the engine. Returns false if it could not be loaded.
+   */
+  private async resumeSession(id: string | true): Promise<boolean> {
+    try {
+      const session = id === true
+        ? await this.sessionStore.loadLatest()
+        : await this.sessionStore.load(id);
+
+      if (!session) {
+        this.ui.printWarning('No saved sessions found in this project. Starting a new session.');
+        return false;
+      }
+
+      this.engine.restoreState(session);
+      // A model passed on the command line wins over the one saved with the session
+      if (!this.hasModelOverride) {
+        this.engine.setModel(session.model);
+      }
+      this.sessionId = session.id;
+      this.sessionTitle = session.title;
+      this.sessionCreatedAt = session.createdAt;
+
+      for (const file of session.createdFiles) {
+        this.projectManager.addFile(file, 'agent');
+      }
+
+      this.ui.printSessionRestored(session);
+      return true;
+    } catch (error) {
+      this.ui.printError(`Could not load session: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
   stop(): void {
     this.isRunning = false;
     this.ui.close();
@@ -12,6 +12,38 @@ export const MODEL_MAP: Record<ModelId, string> = {
 
 export const DEFAULT_MODEL: ModelId = 'sonnet';
 
+// Context window size (in tokens) for each model
+export const MODEL_CONTEXT_WINDOW: Record<ModelId, number> = {
+  sonnet: 200000,
+  opus: 200000,
+  haiku: 200000,
+  'opus-4.5': 200000,
+  'opus-4.6': 200000,
+};
+
+// Price in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export const MODEL_PRICING: Record<ModelId, ModelPricing> = {
+  sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  opus: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  haiku: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'opus-4.5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'opus-4.6': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+};
+
+// When file writes need the user's approval
+export type ApprovalMode = 'auto' | 'ask-on-overwrite' | 'ask-always';
+
+export const APPROVAL_MODES: ApprovalMode[] = ['auto', 'ask-on-overwrite', 'ask-always'];
+
+export const DEFAULT_APPROVAL_MODE: ApprovalMode = 'auto';
+
 export type ProjectLanguage = 'javascript' | 'typescript';
 
 export type ProjectTarget = 'browser' | 'mobile' | 'desktop';
@@ -20,18 +52,132 @@ export interface ProjectPreferences {
   language: ProjectLanguage;
   target: ProjectTarget;
   description: string;
+  // Template scaffolded before the agent starts, if the user picked one
+  template?: string;
+}
+
+export type StackCategory = 'framework' | 'bundler' | 'platform' | 'physics' | 'postprocessing' | 'renderer';
+
+export interface StackFeature {
+  id: string;
+  name: string;
+  category: StackCategory;
+  // Version range from package.json, if it came from a dependency
+  version?: string;
+  // What it was detected from: a dependency, a config file or a source file
+  evidence: string;
+}
+
+// What the project is built with, detected on every start
+export interface ProjectStack {
+  language: ProjectLanguage;
+  features: StackFeature[];
 }
 
 export interface ProjectConfig {
   name: string;
   language: ProjectLanguage;
   target?: ProjectTarget;
+  description?: string;
+  template?: string;
+  threeVersion?: string;
+  stack?: ProjectStack;
   path: string;
   createdAt: Date;
 }
 
+// Whether a file was written by the wizard or was already there / added by the user
+export type FileOwner = 'agent' | 'user';
+
+/**
+ * Persisted in .threewzrd/project.json so the project setup survives restarts
+ */
+export interface ProjectManifest {
+  version: 1;
+  name: string;
+  language: ProjectLanguage;
+  target?: ProjectTarget;
+  description?: string;
+  template?: string;
+  // Installed three.js version, or the package.json range if it is not installed
+  threeVersion?: string;
+  createdAt: string;
+  updatedAt: string;
+  files: Record<string, FileOwner>;
+  // IDs of the sessions that worked on this project, oldest first
+  sessions: string[];
+}
+
+export interface ProjectInfo {
+  name: string;
+  language: ProjectLanguage;
+  target?: ProjectTarget;
+  description?: string;
+  template?: string;
+  threeVersion?: string;
+  stack?: ProjectStack;
+  path: string;
+  createdAt: Date;
+  files: Array<{ path: string; owner: FileOwner }>;
+  sessions: string[];
+}
+
 export type MessageParam = Anthropic.MessageParam;
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+// Cost in USD, split by token type
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+  total: number;
+}
+
+export interface TurnCost {
+  // The user's request (first line)
+  label: string;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+export interface SessionCost {
+  totalUsd: number;
+  // Keyed by the model name sent to the provider
+  byModel: Record<string, { usage: TokenUsage; cost: CostBreakdown }>;
+  turns: TurnCost[];
+}
+
+export interface SessionData {
+  id: string;
+  title?: string;
+  model: ModelId;
+  createdAt: string;
+  updatedAt: string;
+  messages: MessageParam[];
+  summary?: string;
+  createdFiles: string[];
+  tokenUsage: TokenUsage;
+  // Missing in sessions saved before cost tracking
+  cost?: SessionCost;
+}
+
+export interface SessionListing {
+  id: string;
+  title?: string;
+  model: ModelId;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  preview: string;
+}
+
 export interface ToolResult {
   success: boolean;
   output: string;
@@ -44,7 +190,7 @@ export interface FileInfo {
   isDirectory: boolean;
 }
 
-export type ToolName = 'write_file' | 'read_file' | 'run_command' | 'list_files';
+export type ToolName = 'write_file' | 'edit_file' | 'read_file' | 'run_command' | 'list_files' | 'search_three_docs' | 'fetch_url' | 'verify_scene' | 'describe_scene' | 'inspect_asset' | 'list_assets';
 
 export interface WriteFileInput {
   path: string;
@@ -52,6 +198,17 @@ export interface WriteFileInput {
   skipValidation?: boolean;  // Skip syntax validation for non-code files if needed
 }
 
+export interface EditHunk {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;  // Replace every occurrence instead of requiring a unique match
+}
+
+export interface EditFileInput {
+  path: string;
+  edits: EditHunk[];
+}
+
 export interface ReadFileInput {
   path: string;
 }
@@ -66,4 +223,29 @@ export interface ListFilesInput {
   recursive?: boolean;
 }
 
-export type ToolInput = WriteFileInput | ReadFileInput | RunCommandInput | ListFilesInput;
+export interface SearchDocsInput {
+  query: string;
+  limit?: number;
+}
+
+export interface FetchUrlInput {
+  url: string;
+}
+
+export interface VerifySceneInput {
+  frames?: number;
+}
+
+export interface DescribeSceneInput {
+  path?: string;
+}
+
+export interface InspectAssetInput {
+  path: string;
+}
+
+export interface ListAssetsInput {
+  kind?: 'model' | 'texture' | 'hdri' | 'audio' | 'font';
+}
+
+export type ToolInput = WriteFileInput | EditFileInput | ReadFileInput | RunCommandInput | ListFilesInput | SearchDocsInput | FetchUrlInput | VerifySceneInput | DescribeSceneInput | InspectAssetInput | ListAssetsInput;
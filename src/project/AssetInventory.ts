@@ -0,0 +1,336 @@
+/**
+ * Asset Inventory - Classifies the project's models, textures, HDRIs, audio and fonts,
+ * reads image dimensions from file headers, and finds where the source refers to each
+ * asset. Flags assets nothing refers to, references to files that do not exist, and
+ * textures outside the budget for the project's target (or the configured one).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProjectTarget } from '../core/types.js';
+import { readImageSize, isPowerOfTwo } from '../tools/ImageSize.js';
+
+export type AssetKind = 'model' | 'texture' | 'hdri' | 'audio' | 'font';
+
+export const ASSET_KINDS: AssetKind[] = ['model', 'texture', 'hdri', 'audio', 'font'];
+
+export interface AssetBudget {
+  // Largest texture width or height, in pixels
+  maxTextureSize: number;
+  // Flag textures whose sides are not powers of two
+  powerOfTwo: boolean;
+  // Largest single asset file, in megabytes
+  maxFileSizeMB: number;
+}
+
+// Mobile GPUs are the tightest: smaller textures, and power-of-two sides for mipmaps and
+// compressed formats. Projects without a target get the browser limits.
+export const DEFAULT_ASSET_BUDGETS: Record<ProjectTarget, AssetBudget> = {
+  mobile: { maxTextureSize: 2048, powerOfTwo: true, maxFileSizeMB: 10 },
+  browser: { maxTextureSize: 4096, powerOfTwo: false, maxFileSizeMB: 20 },
+  desktop: { maxTextureSize: 8192, powerOfTwo: false, maxFileSizeMB: 50 },
+};
+
+/**
+ * Fills in the defaults for the project's target for any limits that are not set
+ */
+export function resolveAssetBudget(target: ProjectTarget | undefined, overrides: Partial<AssetBudget> = {}): AssetBudget {
+  const defaults = DEFAULT_ASSET_BUDGETS[target ?? 'browser'];
+  return {
+    maxTextureSize: overrides.maxTextureSize ?? defaults.maxTextureSize,
+    powerOfTwo: overrides.powerOfTwo ?? defaults.powerOfTwo,
+    maxFileSizeMB: overrides.maxFileSizeMB ?? defaults.maxFileSizeMB,
+  };
+}
+
+export interface AssetReference {
+  file: string;
+  line: number;
+  // The string as written in the source
+  value: string;
+}
+
+export interface AssetEntry {
+  path: string;
+  kind: AssetKind;
+  size: number;
+  width?: number;
+  height?: number;
+  references: AssetReference[];
+  // Budget problems, e.g. "4096x4096 is over 2048px"
+  issues: string[];
+}
+
+export interface AssetInventory {
+  assets: AssetEntry[];
+  // References to asset files that do not exist
+  missing: AssetReference[];
+  budget: AssetBudget;
+}
+
+const ASSET_EXTENSIONS: Record<string, AssetKind> = {
+  '.glb': 'model', '.gltf': 'model', '.fbx': 'model', '.obj': 'model', '.stl': 'model', '.ply': 'model',
+  '.dae': 'model', '.3ds': 'model', '.3mf': 'model', '.usdz': 'model', '.drc': 'model', '.vrm': 'model',
+  '.png': 'texture', '.jpg': 'texture', '.jpeg': 'texture', '.webp': 'texture', '.avif': 'texture',
+  '.gif': 'texture', '.ktx2': 'texture', '.basis': 'texture', '.dds': 'texture', '.tga': 'texture',
+  '.hdr': 'hdri', '.exr': 'hdri',
+  '.mp3': 'audio', '.ogg': 'audio', '.wav': 'audio', '.m4a': 'audio', '.aac': 'audio', '.flac': 'audio', '.opus': 'audio',
+  '.ttf': 'font', '.otf': 'font', '.woff': 'font', '.woff2': 'font', '.fnt': 'font',
+};
+
+// Files searched for references to assets
+const REFERENCE_SOURCES = new Set([
+  '.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx', '.html', '.css', '.scss', '.vue', '.svelte', '.gltf',
+]);
+// Build output duplicates the project's assets
+const IGNORED_DIRECTORIES = new Set(['dist', 'build', 'out', 'coverage']);
+// Directories served at the site root by the usual bundlers
+const PUBLIC_DIRECTORIES = ['public', 'static'];
+const IMAGE_HEADER_BYTES = 256 * 1024;
+const MAX_SOURCE_BYTES = 1024 * 1024;
+
+/**
+ * Returns the asset kind of a file, or null for anything that is not an asset
+ */
+export function classifyAsset(filePath: string): AssetKind | null {
+  const name = path.basename(filePath).toLowerCase();
+  if (name.endsWith('.typeface.json')) return 'font';
+  return ASSET_EXTENSIONS[path.extname(name)] ?? null;
+}
+
+/**
+ * Builds the inventory from a list of project files (relative paths)
+ */
+export async function buildAssetInventory(
+  workingDirectory: string,
+  files: string[],
+  budget: AssetBudget = DEFAULT_ASSET_BUDGETS.browser
+): Promise<AssetInventory> {
+  const included = files.filter(file => !IGNORED_DIRECTORIES.has(file.split(path.sep)[0]));
+  const assets: AssetEntry[] = [];
+
+  for (const file of included) {
+    const kind = classifyAsset(file);
+    if (!kind) continue;
+    const fullPath = path.join(workingDirectory, file);
+    const entry: AssetEntry = { path: file, kind, size: 0, references: [], issues: [] };
+    try {
+      entry.size = (await fs.stat(fullPath)).size;
+      if (kind === 'texture' || kind === 'hdri') {
+        const imageSize = readImageSize(await readHead(fullPath));
+        if (imageSize) {
+          entry.width = imageSize.width;
+          entry.height = imageSize.height;
+        }
+      }
+    } catch {
+      // Removed while scanning
+      continue;
+    }
+    entry.issues = checkBudget(entry, budget);
+    assets.push(entry);
+  }
+
+  const byPath = new Map(assets.map(asset => [asset.path, asset]));
+  const missing: AssetReference[] = [];
+
+  for (const file of included) {
+    if (!REFERENCE_SOURCES.has(path.extname(file).toLowerCase())) continue;
+    let content: string;
+    try {
+      const fullPath = path.join(workingDirectory, file);
+      if ((await fs.stat(fullPath)).size > MAX_SOURCE_BYTES) continue;
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const reference of findAssetStrings(file, content)) {
+      const matches = resolveReference(reference, file, byPath, assets);
+      if (matches === null) continue;
+      if (matches.length === 0) {
+        missing.push(reference);
+      }
+      for (const asset of matches) {
+        // A .gltf referring to its own textures does not count as the model being used
+        if (asset.path !== file) asset.references.push(reference);
+      }
+    }
+  }
+
+  return { assets, missing, budget };
+}
+
+async function readHead(fullPath: string): Promise<Buffer> {
+  const handle = await fs.open(fullPath, 'r');
+  try {
+    const data = Buffer.alloc(IMAGE_HEADER_BYTES);
+    const { bytesRead } = await handle.read(data, 0, IMAGE_HEADER_BYTES, 0);
+    return data.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function checkBudget(asset: AssetEntry, budget: AssetBudget): string[] {
+  const issues: string[] = [];
+  if (asset.width !== undefined && asset.height !== undefined) {
+    const dimensions = `${asset.width}x${asset.height}`;
+    if (Math.max(asset.width, asset.height) > budget.maxTextureSize) {
+      issues.push(`${dimensions} is over ${budget.maxTextureSize}px`);
+    }
+    if (budget.powerOfTwo && asset.kind === 'texture' && (!isPowerOfTwo(asset.width) || !isPowerOfTwo(asset.height))) {
+      issues.push(`${dimensions} is not a power of two`);
+    }
+  }
+  if (asset.size > budget.maxFileSizeMB * 1024 * 1024) {
+    issues.push(`${formatSize(asset.size)} is over ${budget.maxFileSizeMB} MB`);
+  }
+  return issues;
+}
+
+/**
+ * Finds string literals and CSS url()s that name an asset file
+ */
+function findAssetStrings(file: string, content: string): AssetReference[] {
+  const references: AssetReference[] = [];
+  const pattern = /(["'`])((?:\\.|(?!\1)[^\\\n])*?)\1|url\(\s*([^)"'\s]+)\s*\)/g;
+
+  for (const match of content.matchAll(pattern)) {
+    const value = match[2] ?? match[3];
+    if (!value || !classifyAsset(stripQuery(value).replace(/\$\{[^}]*\}/g, 'x'))) continue;
+    if (/^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(value)) continue; // http:, data:, blob:, protocol-relative
+    const line = content.slice(0, match.index).split('\n').length;
+    references.push({ file, line, value });
+  }
+  return references;
+}
+
+function stripQuery(value: string): string {
+  return value.split(/[?#]/)[0];
+}
+
+/**
+ * Returns the assets a reference may point to: an empty array for a missing file,
+ * or null when it cannot be checked (a template string that matches nothing)
+ */
+function resolveReference(
+  reference: AssetReference,
+  sourceFile: string,
+  byPath: Map<string, AssetEntry>,
+  assets: AssetEntry[]
+): AssetEntry[] | null {
+  const value = stripQuery(reference.value);
+
+  // Template strings such as `/textures/${name}.jpg` match every asset of that shape
+  if (value.includes('${')) {
+    const shape = new RegExp(
+      `(?:^|/)${value.replace(/^\.?\//, '').split(/\$\{[^}]*\}/).map(escapeRegExp).join('[^/]*')}$`
+    );
+    const matches = assets.filter(asset => shape.test(asset.path.split(path.sep).join('/')));
+    return matches.length > 0 ? matches : null;
+  }
+
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    // Keep the raw value
+  }
+
+  const candidates: string[] = [];
+  const relative = decoded.replace(/^\//, '');
+  if (!decoded.startsWith('/')) {
+    candidates.push(path.join(path.dirname(sourceFile), decoded));
+  }
+  for (const publicDir of PUBLIC_DIRECTORIES) {
+    candidates.push(path.join(publicDir, relative));
+  }
+  candidates.push(path.normalize(relative));
+  if (decoded.startsWith('@/') || decoded.startsWith('~/')) {
+    candidates.push(path.join('src', decoded.slice(2)));
+  }
+
+  for (const candidate of candidates) {
+    const asset = byPath.get(candidate);
+    if (asset) return [asset];
+  }
+
+  // Loaders often take a bare file name after setPath('/models/')
+  const name = path.basename(decoded);
+  return assets.filter(asset => path.basename(asset.path) === name);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const KIND_TITLES: Record<AssetKind, string> = {
+  model: 'Models',
+  texture: 'Textures',
+  hdri: 'HDRIs',
+  audio: 'Audio',
+  font: 'Fonts',
+};
+
+/**
+ * Formats the inventory as plain text: assets by kind, then the problems found
+ */
+export function formatAssetInventory(inventory: AssetInventory): string {
+  const { assets, missing, budget } = inventory;
+  const lines: string[] = [];
+  const totalSize = assets.reduce((total, asset) => total + asset.size, 0);
+  const counts = ASSET_KINDS
+    .map(kind => [KIND_TITLES[kind], assets.filter(asset => asset.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([title, count]) => `${title} ${count}`);
+
+  lines.push(`Assets: ${assets.length} file${assets.length === 1 ? '' : 's'}, ${formatSize(totalSize)}` +
+    (counts.length > 0 ? ` (${counts.join(', ')})` : ''));
+  lines.push(`Budget: textures up to ${budget.maxTextureSize}px${budget.powerOfTwo ? ', power of two' : ''}, files up to ${budget.maxFileSizeMB} MB`);
+
+  for (const kind of ASSET_KINDS) {
+    const group = assets.filter(asset => asset.kind === kind);
+    if (group.length === 0) continue;
+    lines.push('');
+    lines.push(`${KIND_TITLES[kind]}:`);
+    for (const asset of group) {
+      const details = [
+        formatSize(asset.size),
+        asset.width !== undefined ? `${asset.width}x${asset.height}` : null,
+        asset.references.length > 0
+          ? `used in ${[...new Set(asset.references.map(reference => `${reference.file}:${reference.line}`))].slice(0, 3).join(', ')}` +
+            (asset.references.length > 3 ? ` (+${asset.references.length - 3})` : '')
+          : 'unused',
+      ].filter(Boolean);
+      lines.push(`  ${asset.path}  ${details.join(', ')}`);
+    }
+  }
+
+  const unused = assets.filter(asset => asset.references.length === 0);
+  const overBudget = assets.filter(asset => asset.issues.length > 0);
+  if (unused.length + missing.length + overBudget.length === 0) {
+    lines.push('');
+    lines.push('No problems found.');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push('Problems:');
+  for (const reference of missing) {
+    lines.push(`  - Missing: ${reference.file}:${reference.line} refers to "${reference.value}", which does not exist`);
+  }
+  for (const asset of overBudget) {
+    lines.push(`  - Over budget: ${asset.path} (${asset.issues.join('; ')})`);
+  }
+  for (const asset of unused) {
+    lines.push(`  - Unused: ${asset.path} is not referenced by any source file`);
+  }
+  return lines.join('\n');
+}
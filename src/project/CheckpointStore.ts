@@ -0,0 +1,327 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+
+// Checkpoints live inside the project and do not depend on git
+const CHECKPOINTS_DIR = path.join('.threewzrd', 'checkpoints');
+const INDEX_FILE = 'index.json';
+const BLOBS_DIR = 'blobs';
+
+// Limits so a stray `rm -r` on a huge directory doesn't fill the disk
+const MAX_CHECKPOINTS = 200;
+const MAX_FILES_PER_CHECKPOINT = 2000;
+const MAX_BYTES_PER_CHECKPOINT = 50 * 1024 * 1024;
+
+// Directories never snapshotted (reinstallable or internal)
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.threewzrd']);
+
+export interface CheckpointFile {
+  path: string;       // relative to the working directory
+  existed: boolean;   // false if the file did not exist before the change
+  blob?: string;      // content hash of the previous content
+  createdDirectories?: string[];  // missing parent directories, deepest first (removed on rollback when empty)
+}
+
+export interface Checkpoint {
+  id: string;
+  turnId: string;
+  turnLabel: string;
+  createdAt: string;
+  tool: string;
+  description: string;
+  files: CheckpointFile[];
+}
+
+export interface RestoreResult {
+  checkpoints: Checkpoint[];
+  restored: string[];
+  deleted: string[];
+}
+
+export class CheckpointStore {
+  private workingDirectory: string;
+  private checkpointsDir: string;
+  private turnId = CheckpointStore.createId();
+  private turnLabel = '';
+  private counter = 0;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = path.resolve(workingDirectory);
+    this.checkpointsDir = path.join(this.workingDirectory, CHECKPOINTS_DIR);
+  }
+
+  private static createId(): string {
+    return randomBytes(4).toString('hex');
+  }
+
+  /**
+   * Starts a new agent turn; checkpoints recorded until the next call are undone together
+   */
+  beginTurn(label: string): void {
+    this.turnId = CheckpointStore.createId();
+    this.turnLabel = label.replace(/\s+/g, ' ').trim().slice(0, 80);
+  }
+
+  /**
+   * Snapshots the current state of the given paths before they are changed.
+   * Directories are expanded to the files they contain.
+   */
+  async record(tool: string, description: string, targets: string[]): Promise<Checkpoint> {
+    const relativePaths = new Set<string>();
+    for (const target of targets) {
+      for (const file of await this.expand(target)) {
+        relativePaths.add(file);
+      }
+    }
+
+    if (relativePaths.size > MAX_FILES_PER_CHECKPOINT) {
+      throw new Error(`Too many files to checkpoint (${relativePaths.size} > ${MAX_FILES_PER_CHECKPOINT})`);
+    }
+
+    const files: CheckpointFile[] = [];
+    let totalBytes = 0;
+    for (const relativePath of relativePaths) {
+      const fullPath = path.join(this.workingDirectory, relativePath);
+      let content: Buffer;
+      try {
+        content = await fs.readFile(fullPath);
+      } catch {
+        const file: CheckpointFile = { path: relativePath, existed: false };
+        const createdDirectories = await this.findMissingParents(relativePath);
+        if (createdDirectories.length > 0) {
+          file.createdDirectories = createdDirectories;
+        }
+        files.push(file);
+        continue;
+      }
+
+      totalBytes += content.length;
+      if (totalBytes > MAX_BYTES_PER_CHECKPOINT) {
+        throw new Error(`Files too large to checkpoint (over ${MAX_BYTES_PER_CHECKPOINT / 1024 / 1024} MB)`);
+      }
+      files.push({ path: relativePath, existed: true, blob: await this.writeBlob(content) });
+    }
+
+    const checkpoint: Checkpoint = {
+      id: `${Date.now().toString(36)}${(this.counter++).toString(36)}`,
+      turnId: this.turnId,
+      turnLabel: this.turnLabel,
+      createdAt: new Date().toISOString(),
+      tool,
+      description,
+      files,
+    };
+
+    const index = await this.readIndex();
+    index.push(checkpoint);
+    await this.writeIndex(index.slice(-MAX_CHECKPOINTS));
+    if (index.length > MAX_CHECKPOINTS) {
+      await this.pruneBlobs();
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Lists checkpoints, oldest first
+   */
+  async list(): Promise<Checkpoint[]> {
+    return this.readIndex();
+  }
+
+  /**
+   * Reverts every change made during the most recent turn that has checkpoints
+   */
+  async undoLastTurn(): Promise<RestoreResult | null> {
+    const index = await this.readIndex();
+    if (index.length === 0) {
+      return null;
+    }
+
+    const lastTurn = index[index.length - 1].turnId;
+    const firstOfTurn = index.findIndex(checkpoint => checkpoint.turnId === lastTurn);
+    return this.rollback(index, firstOfTurn);
+  }
+
+  /**
+   * Rolls the project back to the state just before the given checkpoint (ID or unique prefix)
+   */
+  async restore(id: string): Promise<RestoreResult> {
+    const index = await this.readIndex();
+    const matches = index.filter(checkpoint => checkpoint.id.startsWith(id));
+
+    if (matches.length === 0) {
+      throw new Error(`Checkpoint not found: ${id}`);
+    }
+    const exact = matches.find(checkpoint => checkpoint.id === id);
+    if (!exact && matches.length > 1) {
+      throw new Error(`Ambiguous checkpoint ID "${id}" matches: ${matches.map(c => c.id).join(', ')}`);
+    }
+
+    const target = exact ?? matches[0];
+    return this.rollback(index, index.indexOf(target));
+  }
+
+  /**
+   * Reverts checkpoints from the newest down to (and including) position `from`,
+   * then drops them from the index
+   */
+  private async rollback(index: Checkpoint[], from: number): Promise<RestoreResult> {
+    const reverted = index.slice(from).reverse();
+    const restored = new Set<string>();
+    const deleted = new Set<string>();
+
+    for (const checkpoint of reverted) {
+      for (const file of checkpoint.files) {
+        const fullPath = this.resolveInside(file.path);
+        if (file.existed && file.blob) {
+          const content = await fs.readFile(path.join(this.checkpointsDir, BLOBS_DIR, file.blob));
+          await fs.mkdir(path.dirname(fullPath), { recursive: true });
+          await fs.writeFile(fullPath, content);
+          restored.add(file.path);
+          deleted.delete(file.path);
+        } else {
+          // The path did not exist before the change, so whatever is there now goes
+          // (a mv may have turned it into a directory)
+          try {
+            await fs.rm(fullPath, { force: true, recursive: true });
+          } catch {
+            // The path could never be created (e.g. below a mv destination that is a file)
+            continue;
+          }
+          deleted.add(file.path);
+          restored.delete(file.path);
+          await this.removeEmptyDirectories(file.createdDirectories ?? []);
+        }
+      }
+    }
+
+    await this.writeIndex(index.slice(0, from));
+    await this.pruneBlobs();
+
+    return {
+      checkpoints: reverted,
+      restored: Array.from(restored).sort(),
+      deleted: Array.from(deleted).sort(),
+    };
+  }
+
+  /**
+   * Expands a path into the files it covers (a missing path is returned as-is)
+   */
+  private async expand(target: string): Promise<string[]> {
+    const fullPath = this.resolveInside(target);
+    const relativePath = path.relative(this.workingDirectory, fullPath);
+
+    let stat;
+    try {
+      stat = await fs.stat(fullPath);
+    } catch {
+      return [relativePath];
+    }
+
+    if (!stat.isDirectory()) {
+      return [relativePath];
+    }
+
+    const files: string[] = [];
+    const entries = await fs.readdir(fullPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (SKIPPED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      files.push(...await this.expand(path.join(relativePath, entry.name)));
+      if (files.length > MAX_FILES_PER_CHECKPOINT) {
+        break;
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Parent directories of a new file that do not exist yet, deepest first
+   */
+  private async findMissingParents(relativePath: string): Promise<string[]> {
+    const missing: string[] = [];
+    for (let dir = path.dirname(relativePath); dir !== '.' && dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      try {
+        await fs.access(path.join(this.workingDirectory, dir));
+        break;
+      } catch {
+        missing.push(dir);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Removes directories created for a file, stopping at the first one that is not empty
+   */
+  private async removeEmptyDirectories(directories: string[]): Promise<void> {
+    for (const dir of directories) {
+      try {
+        await fs.rmdir(this.resolveInside(dir));
+      } catch {
+        return;
+      }
+    }
+  }
+
+  private resolveInside(relativePath: string): string {
+    const fullPath = path.resolve(this.workingDirectory, relativePath);
+    if (!fullPath.startsWith(this.workingDirectory + path.sep) && fullPath !== this.workingDirectory) {
+      throw new Error(`Path outside working directory: ${relativePath}`);
+    }
+    return fullPath;
+  }
+
+  private async writeBlob(content: Buffer): Promise<string> {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const blobPath = path.join(this.checkpointsDir, BLOBS_DIR, hash);
+    try {
+      await fs.access(blobPath);
+    } catch {
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      await fs.writeFile(blobPath, content);
+    }
+    return hash;
+  }
+
+  /**
+   * Deletes blobs no longer referenced by any checkpoint
+   */
+  private async pruneBlobs(): Promise<void> {
+    const index = await this.readIndex();
+    const referenced = new Set(index.flatMap(checkpoint => checkpoint.files.map(file => file.blob).filter(Boolean)));
+    const blobsDir = path.join(this.checkpointsDir, BLOBS_DIR);
+
+    let blobs: string[];
+    try {
+      blobs = await fs.readdir(blobsDir);
+    } catch {
+      return;
+    }
+    for (const blob of blobs) {
+      if (!referenced.has(blob)) {
+        await fs.rm(path.join(blobsDir, blob), { force: true });
+      }
+    }
+  }
+
+  private async readIndex(): Promise<Checkpoint[]> {
+    try {
+      const content = await fs.readFile(path.join(this.checkpointsDir, INDEX_FILE), 'utf-8');
+      const index = JSON.parse(content);
+      return Array.isArray(index) ? index as Checkpoint[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeIndex(index: Checkpoint[]): Promise<void> {
+    await fs.mkdir(this.checkpointsDir, { recursive: true });
+    const indexPath = path.join(this.checkpointsDir, INDEX_FILE);
+    await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index, null, 2) + '\n', 'utf-8');
+    await fs.rename(`${indexPath}.tmp`, indexPath);
+  }
+}
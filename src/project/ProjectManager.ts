@@ -1,73 +1,204 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ProjectConfig, ProjectLanguage } from '../core/types.js';
+import { FileOwner, ProjectConfig, ProjectInfo, ProjectManifest, ProjectPreferences, ProjectStack } from '../core/types.js';
+import { SceneGraph, SceneGraphExtractor } from './SceneGraph.js';
+import { AssetBudget, AssetInventory, buildAssetInventory, resolveAssetBudget } from './AssetInventory.js';
+import { detectProjectStack, formatStackGuidance, formatStackSummary } from './StackDetector.js';
+
+// The manifest lives next to the sessions and checkpoints so it travels with the project
+const MANIFEST_PATH = path.join('.threewzrd', 'project.json');
 
 export class ProjectManager {
   private config: ProjectConfig | null = null;
-  private files: Set<string> = new Set();
+  private files: Map<string, FileOwner> = new Map();
+  private sessions: string[] = [];
   private workingDirectory: string;
+  // Configured limits; the rest depend on the project's target
+  private assetBudget: Partial<AssetBudget>;
 
-  constructor(workingDirectory: string) {
+  constructor(workingDirectory: string, assetBudget: Partial<AssetBudget> = {}) {
     this.workingDirectory = workingDirectory;
+    this.assetBudget = assetBudget;
   }
 
-  async initProject(name: string, language: ProjectLanguage): Promise<void> {
+  /**
+   * Starts a new project from the onboarding answers and writes its manifest
+   */
+  async initProject(name: string, preferences: ProjectPreferences): Promise<void> {
     this.config = {
       name,
-      language,
+      language: preferences.language,
+      target: preferences.target,
+      description: preferences.description,
+      template: preferences.template,
+      threeVersion: await this.getThreeVersion(),
       path: this.workingDirectory,
       createdAt: new Date(),
     };
     this.files.clear();
+    this.sessions = [];
+    await this.refreshStack();
+    await this.saveManifest();
   }
 
   getConfig(): ProjectConfig | null {
     return this.config;
   }
 
-  addFile(filePath: string): void {
-    this.files.add(filePath);
+  /**
+   * Records a project file. The first owner recorded wins, so a user file the
+   * agent later edits stays the user's.
+   */
+  addFile(filePath: string, owner: FileOwner): void {
+    if (!this.files.has(filePath)) {
+      this.files.set(filePath, owner);
+    }
   }
 
   getFiles(): string[] {
-    return Array.from(this.files);
+    return Array.from(this.files.keys());
+  }
+
+  linkSession(sessionId: string): void {
+    if (!this.sessions.includes(sessionId)) {
+      this.sessions.push(sessionId);
+    }
   }
 
-  getProjectInfo(): { name: string; language: string; path: string; files: string[] } | null {
+  getProjectInfo(): ProjectInfo | null {
     if (!this.config) return null;
     return {
-      name: this.config.name,
-      language: this.config.language,
-      path: this.config.path,
-      files: this.getFiles(),
+      ...this.config,
+      files: Array.from(this.files, ([filePath, owner]) => ({ path: filePath, owner }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+      sessions: [...this.sessions],
     };
   }
 
+  /**
+   * Loads the project from .threewzrd/project.json, or from package.json if the
+   * project has no manifest yet. Returns false if this is not a three.js project.
+   */
   async detectExistingProject(): Promise<boolean> {
-    try {
-      const packageJsonPath = path.join(this.workingDirectory, 'package.json');
-      const content = await fs.readFile(packageJsonPath, 'utf-8');
-      const pkg = JSON.parse(content);
-
-      // Check if it's a Three.js project
-      const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-      if (deps.three) {
-        const isTs = !!deps.typescript;
-        this.config = {
-          name: pkg.name || 'threejs-project',
-          language: isTs ? 'typescript' : 'javascript',
-          path: this.workingDirectory,
-          createdAt: new Date(),
-        };
-
-        // Scan for existing files
-        await this.scanFiles();
-        return true;
+    const manifest = await this.readManifest();
+    const pkg = await this.readPackageJson();
+    const deps = { ...pkg?.dependencies, ...pkg?.devDependencies };
+    if (!manifest && !deps.three) {
+      return false;
+    }
+
+    const threeVersion = await this.getThreeVersion();
+    if (manifest) {
+      this.config = {
+        name: manifest.name,
+        language: manifest.language,
+        target: manifest.target,
+        description: manifest.description,
+        template: manifest.template,
+        threeVersion: threeVersion ?? manifest.threeVersion,
+        path: this.workingDirectory,
+        createdAt: new Date(manifest.createdAt),
+      };
+      this.sessions = manifest.sessions;
+    } else {
+      this.config = {
+        name: pkg?.name || 'threejs-project',
+        language: 'javascript',
+        threeVersion,
+        path: this.workingDirectory,
+        createdAt: new Date(),
+      };
+    }
+
+    // Scan for existing files; anything the manifest does not know about is the user's
+    const found = await this.scanFiles();
+    for (const [filePath, owner] of Object.entries(manifest?.files ?? {})) {
+      // Keep manifest entries for files the scan skips (dotfiles), but drop deleted ones
+      if (found.has(filePath) || await this.exists(filePath)) {
+        this.files.set(filePath, owner);
       }
-    } catch {
-      // No existing project
     }
-    return false;
+    found.forEach(file => this.addFile(file, 'user'));
+
+    const stack = await this.refreshStack();
+    // The onboarding answer wins over what the files suggest
+    if (!manifest && stack) {
+      this.config.language = stack.language;
+    }
+    return true;
+  }
+
+  /**
+   * Re-detects the frameworks and libraries the project uses, e.g. after the agent
+   * installed some. Returns null if there is no project yet.
+   */
+  async refreshStack(): Promise<ProjectStack | null> {
+    if (!this.config) return null;
+    const found = await this.scanFiles();
+    this.config.stack = await detectProjectStack(this.workingDirectory, Array.from(found));
+    return this.config.stack;
+  }
+
+  /**
+   * Describes the project for the agent's system prompt: setup, stack and how to
+   * write code that fits it. Returns null if there is no project yet.
+   */
+  getAgentContext(): string | null {
+    if (!this.config) return null;
+    const { config } = this;
+
+    const lines = [
+      '## This Project',
+      '',
+      `- Name: ${config.name}`,
+      `- Language: ${config.language === 'typescript' ? 'TypeScript' : 'JavaScript'}`,
+    ];
+    if (config.target) lines.push(`- Target platform: ${config.target}`);
+    if (config.template) lines.push(`- Created from the ${config.template} template`);
+    if (config.threeVersion) lines.push(`- three.js: ${config.threeVersion}`);
+
+    const stack = config.stack;
+    if (!stack || stack.features.length === 0) {
+      lines.push('- Stack: vanilla three.js');
+      return lines.join('\n');
+    }
+
+    lines.push(`- Stack: ${formatStackSummary(stack)}`);
+    lines.push('');
+    lines.push('Write code in the idiom this project already uses; these rules take precedence over the general guidance above:');
+    for (const guidance of formatStackGuidance(stack)) {
+      lines.push(`- ${guidance}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Writes .threewzrd/project.json. Does nothing until there is a project.
+   */
+  async saveManifest(): Promise<void> {
+    if (!this.config) return;
+
+    const manifest: ProjectManifest = {
+      version: 1,
+      name: this.config.name,
+      language: this.config.language,
+      target: this.config.target,
+      description: this.config.description,
+      template: this.config.template,
+      threeVersion: (await this.getThreeVersion()) ?? this.config.threeVersion,
+      createdAt: this.config.createdAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+      files: Object.fromEntries([...this.files].sort(([a], [b]) => a.localeCompare(b))),
+      sessions: this.sessions,
+    };
+    this.config.threeVersion = manifest.threeVersion;
+
+    // Write to a temp file first so a crash mid-write never corrupts the manifest
+    const target = path.join(this.workingDirectory, MANIFEST_PATH);
+    const temp = `${target}.tmp`;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    await fs.rename(temp, target);
   }
 
   async isEmptyDirectory(): Promise<boolean> {
@@ -118,7 +249,63 @@ export class ProjectManager {
     return false;
   }
 
-  private async scanFiles(dir?: string): Promise<void> {
+  /**
+   * Statically extracts the three.js scene graph from the project's source files,
+   * optionally limited to one file or directory
+   */
+  async describeScene(subPath?: string): Promise<SceneGraph> {
+    return new SceneGraphExtractor(this.workingDirectory).extract(subPath);
+  }
+
+  /**
+   * Rescans the project and builds the asset inventory: models, textures, HDRIs,
+   * audio and fonts with their sizes, references and budget problems
+   */
+  async getAssetInventory(): Promise<AssetInventory> {
+    const found = await this.scanFiles();
+    found.forEach(file => this.addFile(file, 'user'));
+    // The agent's tools use a manager that has not loaded the project, so fall back to the manifest
+    const target = this.config?.target ?? (await this.readManifest())?.target;
+    return buildAssetInventory(this.workingDirectory, Array.from(found), resolveAssetBudget(target, this.assetBudget));
+  }
+
+  private async readManifest(): Promise<ProjectManifest | null> {
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(this.workingDirectory, MANIFEST_PATH), 'utf-8'));
+      return manifest?.version === 1 ? manifest as ProjectManifest : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readPackageJson(): Promise<{ name?: string; dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.workingDirectory, 'package.json'), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The installed three.js version, else the range in package.json
+   */
+  private async getThreeVersion(): Promise<string | undefined> {
+    try {
+      const pkgPath = path.join(this.workingDirectory, 'node_modules', 'three', 'package.json');
+      const pkg = JSON.parse(await fs.readFile(pkgPath, 'utf-8'));
+      if (typeof pkg.version === 'string') return pkg.version;
+    } catch {
+      // Not installed
+    }
+    const pkg = await this.readPackageJson();
+    return pkg?.dependencies?.three ?? pkg?.devDependencies?.three;
+  }
+
+  private async exists(relativePath: string): Promise<boolean> {
+    return fs.access(path.join(this.workingDirectory, relativePath)).then(() => true, () => false);
+  }
+
+  private async scanFiles(dir?: string, found: Set<string> = new Set()): Promise<Set<string>> {
     const targetDir = dir || this.workingDirectory;
 
     try {
@@ -133,18 +320,20 @@ export class ProjectManager {
         const relativePath = path.relative(this.workingDirectory, fullPath);
 
         if (entry.isDirectory()) {
-          await this.scanFiles(fullPath);
+          await this.scanFiles(fullPath, found);
         } else {
-          this.files.add(relativePath);
+          found.add(relativePath);
         }
       }
     } catch {
       // Directory doesn't exist or can't be read
     }
+    return found;
   }
 
   clear(): void {
     this.config = null;
     this.files.clear();
+    this.sessions = [];
   }
 }
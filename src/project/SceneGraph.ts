@@ -0,0 +1,765 @@
+/**
+ * Scene Graph - Static analysis of a project's source that recovers the three.js
+ * scene it builds: objects and what they are added to, geometries and materials,
+ * lights, cameras, renderers, controls, loaders (with the assets they load) and
+ * post-processing. Handles imperative code (new THREE.Mesh(...), scene.add(...))
+ * and React Three Fiber JSX (<mesh><boxGeometry /></mesh>).
+ * Nothing is executed, so objects built in helper functions may show up as unattached.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+
+export type SceneNodeKind =
+  | 'scene' | 'object' | 'light' | 'camera' | 'geometry' | 'material' | 'texture'
+  | 'renderer' | 'controls' | 'loader' | 'helper' | 'postprocessing' | 'fog' | 'component';
+
+export interface SceneNode {
+  id: number;
+  kind: SceneNodeKind;
+  className: string;
+  // Variable or property the object is stored in (e.g. "cube", "this.scene")
+  binding?: string;
+  // Constructor arguments or JSX attributes, as written in the source
+  args: string;
+  file: string;
+  line: number;
+  // Created inside a loop or iteration callback, so there may be many
+  repeated: boolean;
+  // Notable property assignments, e.g. "position (0, 2, 0)", "castShadow"
+  props: string[];
+  geometry?: string;
+  material?: string;
+  children: number[];
+  parent?: number;
+  // URLs passed to load()/loadAsync() or loader hooks
+  assets: string[];
+  // Scenes passed to renderer.render(), and the cameras used for it
+  rendered: boolean;
+}
+
+export interface SceneGraph {
+  files: string[];
+  nodes: SceneNode[];
+  // Scenes and R3F <Canvas> roots
+  roots: number[];
+  // Files that could not be read or parsed
+  skipped: string[];
+}
+
+const SOURCE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx']);
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', 'public']);
+const MAX_FILES = 300;
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_ARGS_LENGTH = 80;
+const MAX_TREE_LINES = 200;
+
+// Modules whose exports are three.js classes
+const THREE_MODULES = /^three(?:\/webgpu|\/tsl)?$|^three\/(?:addons|examples\/jsm)\//;
+const R3F_MODULES = new Set(['@react-three/fiber', '@react-three/drei', '@react-three/postprocessing']);
+
+const OBJECT_CLASSES = new Set([
+  'Mesh', 'InstancedMesh', 'SkinnedMesh', 'BatchedMesh', 'Points', 'Line', 'LineSegments', 'LineLoop',
+  'Sprite', 'Group', 'Object3D', 'LOD', 'Bone', 'Water', 'Sky', 'Reflector', 'Refractor',
+  'CSS2DObject', 'CSS3DObject', 'Line2', 'LineSegments2', 'Text',
+]);
+
+// Object classes whose first two constructor arguments are a geometry and a material
+const GEOMETRY_MATERIAL_CLASSES = new Set([
+  'Mesh', 'InstancedMesh', 'SkinnedMesh', 'Points', 'Line', 'LineSegments', 'LineLoop', 'Line2', 'LineSegments2',
+]);
+
+// Assignments worth reporting, e.g. light.castShadow = true
+const TRACKED_PROPERTIES = new Set([
+  'name', 'castShadow', 'receiveShadow', 'visible', 'intensity', 'background', 'environment', 'fog',
+  'map', 'envMap', 'toneMapping', 'toneMappingExposure', 'outputColorSpace',
+]);
+const TRACKED_TRANSFORMS = new Set(['position', 'rotation', 'scale', 'quaternion']);
+
+// React Three Fiber/drei hooks that load assets
+const LOADER_HOOKS = new Set([
+  'useGLTF', 'useFBX', 'useTexture', 'useKTX2', 'useCubeTexture', 'useEnvironment', 'useVideoTexture', 'useLoader', 'useFont',
+]);
+
+export function classifyClass(className: string): SceneNodeKind | null {
+  if (className === 'Scene') return 'scene';
+  if (className === 'Fog' || className === 'FogExp2') return 'fog';
+  if (OBJECT_CLASSES.has(className)) return 'object';
+  if (/Camera$/.test(className)) return 'camera';
+  if (/Light$|LightProbe$/.test(className)) return 'light';
+  if (/Geometry$/.test(className)) return 'geometry';
+  if (/Material$/.test(className)) return 'material';
+  if (/Texture$/.test(className)) return 'texture';
+  if (/Renderer$/.test(className)) return 'renderer';
+  if (/Controls$/.test(className)) return 'controls';
+  if (/Loader$/.test(className)) return 'loader';
+  if (/Helper$/.test(className)) return 'helper';
+  if (className === 'EffectComposer' || /Pass$/.test(className)) return 'postprocessing';
+  return null;
+}
+
+// A place in the source that refers to a node: an inline `new`/JSX node, or a binding to look up
+type NodeRef = { id: number } | { file: string; key: string };
+
+interface PendingLink {
+  parent: NodeRef;
+  child: NodeRef;
+}
+
+interface FileImports {
+  // Local name -> imported class name, for classes imported from three modules
+  threeClasses: Map<string, string>;
+  // Namespace imports of three modules (import * as THREE from 'three')
+  threeNamespaces: Set<string>;
+  // Local names imported from React Three Fiber packages
+  r3f: Map<string, string>;
+}
+
+interface ComponentDefinition {
+  file: string;
+  body: ts.Node;
+  sourceFile: ts.SourceFile;
+}
+
+export class SceneGraphExtractor {
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = path.resolve(workingDirectory);
+  }
+
+  /**
+   * Analyzes the source files under subPath (default: the whole project)
+   */
+  async extract(subPath?: string): Promise<SceneGraph> {
+    const root = subPath ? path.resolve(this.workingDirectory, subPath) : this.workingDirectory;
+    if (root !== this.workingDirectory && !root.startsWith(this.workingDirectory + path.sep)) {
+      throw new Error('Path must be inside the project directory');
+    }
+
+    const stat = await fs.stat(root);
+    const files = stat.isDirectory() ? await this.findSourceFiles(root) : [root];
+    const analysis = new Analysis();
+    const skipped: string[] = [];
+
+    const parsed: Array<{ file: string; sourceFile: ts.SourceFile }> = [];
+    for (const file of files) {
+      const relative = path.relative(this.workingDirectory, file);
+      try {
+        const content = await fs.readFile(file, 'utf-8');
+        parsed.push({ file: relative, sourceFile: ts.createSourceFile(relative, content, ts.ScriptTarget.Latest, true, getScriptKind(file)) });
+      } catch {
+        skipped.push(relative);
+      }
+    }
+
+    // Components are collected first so JSX can expand them wherever they are defined
+    for (const { file, sourceFile } of parsed) {
+      analysis.collectComponents(file, sourceFile);
+    }
+    for (const { file, sourceFile } of parsed) {
+      analysis.analyzeFile(file, sourceFile);
+    }
+
+    return {
+      files: parsed.map(entry => entry.file),
+      skipped,
+      ...analysis.finish(),
+    };
+  }
+
+  private async findSourceFiles(dir: string, files: string[] = []): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return files;
+    }
+
+    for (const entry of entries) {
+      if (files.length >= MAX_FILES) break;
+      if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await this.findSourceFiles(fullPath, files);
+      } else if (SOURCE_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) &&
+        !/\.(?:config|d)\.[cm]?[jt]s$/.test(entry.name) && !/\.(?:test|spec)\.[jt]sx?$/.test(entry.name)) {
+        const { size } = await fs.stat(fullPath);
+        if (size <= MAX_FILE_BYTES) files.push(fullPath);
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * State for one extraction run across all files
+ */
+class Analysis {
+  private nodes: SceneNode[] = [];
+  // Nodes created by a specific `new` expression or JSX element
+  private nodeBySource = new Map<ts.Node, number>();
+  // file -> binding -> node
+  private bindings = new Map<string, Map<string, number>>();
+  private links: PendingLink[] = [];
+  private geometryLinks: Array<{ node: number; slot: 'geometry' | 'material'; ref: NodeRef; text: string }> = [];
+  private components = new Map<string, ComponentDefinition>();
+  // Component names used as JSX tags anywhere; their JSX is analyzed where they are used
+  private usedComponents = new Set<string>();
+
+  collectComponents(file: string, sourceFile: ts.SourceFile): void {
+    const visit = (node: ts.Node) => {
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        this.usedComponents.add(node.tagName.getText(sourceFile));
+      }
+      if (ts.isFunctionDeclaration(node) && node.name && /^[A-Z]/.test(node.name.text) && node.body) {
+        this.components.set(node.name.text, { file, body: node.body, sourceFile });
+      } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && /^[A-Z]/.test(node.name.text) &&
+        node.initializer && (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))) {
+        this.components.set(node.name.text, { file, body: node.initializer.body, sourceFile });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  analyzeFile(file: string, sourceFile: ts.SourceFile): void {
+    const imports = readImports(sourceFile);
+    // Files without three.js imports can still render components that use it (e.g. <App /> in main.tsx)
+    const usesThree = hasSceneImports(imports);
+
+    // Children first, so inline objects (scene.add(new Mesh(...))) exist before the call that uses them
+    const visit = (node: ts.Node) => {
+      if ((ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) && isJsxRoot(node)) {
+        const component = getEnclosingComponent(node);
+        if (!component || !this.usedComponents.has(component)) {
+          this.handleJsx(node, file, sourceFile, imports, undefined, new Set());
+        }
+        return;
+      }
+      ts.forEachChild(node, visit);
+      if (!usesThree) return;
+      if (ts.isNewExpression(node)) {
+        this.handleNew(node, file, sourceFile, imports);
+      } else if (ts.isCallExpression(node)) {
+        this.handleCall(node, file, sourceFile, imports);
+      } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+        this.handleAssignment(node, file, sourceFile);
+      }
+    };
+    visit(sourceFile);
+  }
+
+  finish(): { nodes: SceneNode[]; roots: number[] } {
+    const resolve = (ref: NodeRef): number | undefined => {
+      if ('id' in ref) return ref.id;
+      const local = this.bindings.get(ref.file)?.get(ref.key);
+      if (local !== undefined) return local;
+      // Bindings imported from another module: match by name if only one file defines it
+      const name = ref.key.replace(/^this\./, '');
+      const matches = [...this.bindings.values()]
+        .map(fileBindings => fileBindings.get(name) ?? fileBindings.get(`this.${name}`))
+        .filter((id): id is number => id !== undefined);
+      return matches.length === 1 ? matches[0] : undefined;
+    };
+
+    for (const link of this.links) {
+      const parent = resolve(link.parent);
+      const child = resolve(link.child);
+      if (parent === undefined || child === undefined || parent === child) continue;
+      const childNode = this.nodes[child];
+      if (childNode.parent !== undefined) {
+        const previous = this.nodes[childNode.parent];
+        previous.children = previous.children.filter(id => id !== child);
+      }
+      childNode.parent = parent;
+      if (!this.nodes[parent].children.includes(child)) {
+        this.nodes[parent].children.push(child);
+      }
+    }
+
+    for (const link of this.geometryLinks) {
+      const target = resolve(link.ref);
+      const node = this.nodes[link.node];
+      node[link.slot] = target !== undefined ? describeNode(this.nodes[target]) : link.text;
+    }
+
+    const roots = this.nodes
+      .filter(node => node.className === 'Canvas' || (node.kind === 'scene' && node.parent === undefined))
+      .map(node => node.id);
+    return { nodes: this.nodes, roots };
+  }
+
+  private addNode(kind: SceneNodeKind, className: string, args: string, file: string, source: ts.Node, sourceFile: ts.SourceFile): SceneNode {
+    const node: SceneNode = {
+      id: this.nodes.length,
+      kind,
+      className,
+      args: truncate(args),
+      file,
+      line: sourceFile.getLineAndCharacterOfPosition(source.getStart(sourceFile)).line + 1,
+      repeated: isRepeated(source),
+      props: [],
+      children: [],
+      assets: [],
+      rendered: false,
+    };
+    this.nodes.push(node);
+    this.nodeBySource.set(source, node.id);
+    return node;
+  }
+
+  private bind(file: string, key: string, id: number): void {
+    if (!this.bindings.has(file)) this.bindings.set(file, new Map());
+    this.bindings.get(file)!.set(key, id);
+    this.nodes[id].binding ??= key;
+  }
+
+  private refFor(expression: ts.Expression, file: string, sourceFile: ts.SourceFile): NodeRef {
+    const unwrapped = unwrap(expression);
+    const id = this.nodeBySource.get(unwrapped);
+    return id !== undefined ? { id } : { file, key: unwrapped.getText(sourceFile) };
+  }
+
+  private handleNew(node: ts.NewExpression, file: string, sourceFile: ts.SourceFile, imports: FileImports): void {
+    const className = getThreeClass(node.expression, imports);
+    const kind = className ? classifyClass(className) : null;
+    if (!className || !kind) return;
+
+    const args = node.arguments ?? ts.factory.createNodeArray();
+    // The geometry and material are shown separately, so they are left out of the arguments
+    const shownArgs = GEOMETRY_MATERIAL_CLASSES.has(className) ? args.slice(2) : className === 'Sprite' ? args.slice(1) : args;
+    const created = this.addNode(kind, className, shownArgs.map(arg => arg.getText(sourceFile)).join(', '), file, node, sourceFile);
+
+    const binding = getBinding(node, sourceFile);
+    if (binding) this.bind(file, binding, created.id);
+
+    if (GEOMETRY_MATERIAL_CLASSES.has(className)) {
+      if (args[0]) this.geometryLinks.push({ node: created.id, slot: 'geometry', ref: this.refFor(args[0], file, sourceFile), text: truncate(args[0].getText(sourceFile)) });
+      if (args[1]) this.geometryLinks.push({ node: created.id, slot: 'material', ref: this.refFor(args[1], file, sourceFile), text: truncate(args[1].getText(sourceFile)) });
+    } else if (className === 'Sprite' && args[0]) {
+      this.geometryLinks.push({ node: created.id, slot: 'material', ref: this.refFor(args[0], file, sourceFile), text: truncate(args[0].getText(sourceFile)) });
+    } else if (className === 'RenderPass') {
+      // Rendering through an EffectComposer
+      args.slice(0, 2).forEach(arg => this.onResolvedNode(arg, file, sourceFile, target => { target.rendered = true; }));
+    }
+  }
+
+  private handleCall(node: ts.CallExpression, file: string, sourceFile: ts.SourceFile, imports: FileImports): void {
+    // React Three Fiber loader hooks: useGLTF('/model.glb'), useLoader(GLTFLoader, url)
+    if (ts.isIdentifier(node.expression) && imports.r3f.has(node.expression.text) &&
+      LOADER_HOOKS.has(imports.r3f.get(node.expression.text)!)) {
+      const hook = imports.r3f.get(node.expression.text)!;
+      const urlArg = hook === 'useLoader' ? node.arguments[1] : node.arguments[0];
+      const loader = this.addNode('loader', hook, node.arguments.map(arg => arg.getText(sourceFile)).join(', '), file, node, sourceFile);
+      if (urlArg) loader.assets.push(...getUrls(urlArg, sourceFile));
+      const binding = getBinding(node, sourceFile);
+      if (binding) this.bind(file, binding, loader.id);
+      return;
+    }
+
+    if (!ts.isPropertyAccessExpression(node.expression)) return;
+    const method = node.expression.name.text;
+    const receiver = node.expression.expression;
+
+    switch (method) {
+      case 'add':
+        for (const arg of node.arguments) {
+          this.links.push({ parent: this.refFor(receiver, file, sourceFile), child: this.refFor(arg, file, sourceFile) });
+        }
+        break;
+      case 'attach':
+        if (node.arguments[0]) {
+          this.links.push({ parent: this.refFor(receiver, file, sourceFile), child: this.refFor(node.arguments[0], file, sourceFile) });
+        }
+        break;
+      case 'load':
+      case 'loadAsync':
+        if (node.arguments[0]) {
+          this.onResolvedNode(receiver, file, sourceFile, target => {
+            if (target.kind === 'loader') target.assets.push(...getUrls(node.arguments[0], sourceFile));
+          });
+        }
+        break;
+      case 'setPath':
+        if (node.arguments[0]) {
+          this.onResolvedNode(receiver, file, sourceFile, target => {
+            target.props.push(`path ${truncate(node.arguments[0].getText(sourceFile))}`);
+          });
+        }
+        break;
+      case 'render':
+        if (node.arguments[0]) {
+          const sceneRef = this.refFor(node.arguments[0], file, sourceFile);
+          const cameraRef = node.arguments[1] ? this.refFor(node.arguments[1], file, sourceFile) : null;
+          this.onResolvedRef(sceneRef, target => { target.rendered = true; });
+          if (cameraRef) this.onResolvedRef(cameraRef, target => { target.rendered = true; });
+        }
+        break;
+      case 'set':
+      case 'setScalar':
+      case 'copy':
+        // cube.position.set(0, 1, 0)
+        if (ts.isPropertyAccessExpression(receiver) && TRACKED_TRANSFORMS.has(receiver.name.text)) {
+          const values = node.arguments.map(arg => arg.getText(sourceFile)).join(', ');
+          this.onResolvedNode(receiver.expression, file, sourceFile, target => {
+            target.props.push(`${receiver.name.text} (${truncate(values)})`);
+          });
+        }
+        break;
+    }
+  }
+
+  private handleAssignment(node: ts.BinaryExpression, file: string, sourceFile: ts.SourceFile): void {
+    if (!ts.isPropertyAccessExpression(node.left)) return;
+    const property = node.left.name.text;
+    if (!TRACKED_PROPERTIES.has(property)) return;
+
+    const value = unwrap(node.right);
+    this.onResolvedNode(node.left.expression, file, sourceFile, target => {
+      if (value.kind === ts.SyntaxKind.TrueKeyword) {
+        target.props.push(property);
+      } else if (value.kind !== ts.SyntaxKind.FalseKeyword || property === 'visible') {
+        const created = this.nodeBySource.get(value);
+        const text = created !== undefined ? describeNode(this.nodes[created]) : truncate(value.getText(sourceFile));
+        target.props.push(`${property}: ${text}`);
+      }
+    });
+  }
+
+  private handleJsx(
+    element: ts.JsxElement | ts.JsxSelfClosingElement,
+    file: string,
+    sourceFile: ts.SourceFile,
+    imports: FileImports,
+    parent: number | undefined,
+    expanding: Set<string>
+  ): void {
+    const opening = ts.isJsxElement(element) ? element.openingElement : element;
+    const tag = opening.tagName.getText(sourceFile);
+    const attributes = opening.attributes.properties.map(attribute => attribute.getText(sourceFile)).join(' ');
+    const children = ts.isJsxElement(element) ? getJsxChildren(element) : [];
+
+    let created: SceneNode | undefined;
+    if (/^[a-z]/.test(tag)) {
+      // Intrinsic R3F elements map to three classes: <meshStandardMaterial /> -> MeshStandardMaterial
+      const className = tag === 'primitive' ? 'primitive' : tag[0].toUpperCase() + tag.slice(1);
+      const kind = className === 'primitive' ? 'object' : classifyClass(className);
+      // Outside three.js files, top-level intrinsics are HTML or SVG (<line>), not R3F
+      if (!kind || (parent === undefined && !hasSceneImports(imports))) {
+        // HTML elements and unknown intrinsics are transparent
+        children.forEach(child => this.handleJsx(child, file, sourceFile, imports, parent, expanding));
+        return;
+      }
+      created = this.addNode(kind, className, attributes, file, element, sourceFile);
+      if (parent !== undefined && (kind === 'geometry' || kind === 'material')) {
+        this.nodes[parent][kind] = describeNode(created);
+      }
+    } else if (imports.r3f.has(tag)) {
+      const imported = imports.r3f.get(tag)!;
+      created = this.addNode(imported === 'Canvas' ? 'scene' : classifyClass(imported) ?? 'component', imported, attributes, file, element, sourceFile);
+    } else if (this.components.has(tag) && !expanding.has(tag) && expanding.size < 8) {
+      // User components are expanded in place, under a node that names them
+      created = this.addNode('component', tag, attributes, file, element, sourceFile);
+      const definition = this.components.get(tag)!;
+      const nested = new Set(expanding).add(tag);
+      const definitionImports = readImports(definition.sourceFile);
+      forEachJsxRoot(definition.body, root =>
+        this.handleJsx(root, definition.file, definition.sourceFile, definitionImports, created!.id, nested));
+    } else {
+      children.forEach(child => this.handleJsx(child, file, sourceFile, imports, parent, expanding));
+      return;
+    }
+
+    // A <Canvas> starts its own scene, whichever component renders it
+    if (parent !== undefined && created.kind !== 'geometry' && created.kind !== 'material' && created.className !== 'Canvas') {
+      created.parent = parent;
+      this.nodes[parent].children.push(created.id);
+    }
+    for (const child of children) {
+      this.handleJsx(child, file, sourceFile, imports, created.id, expanding);
+    }
+  }
+
+  // Runs the callback once the expression is known to refer to a node created so far
+  private onResolvedNode(expression: ts.Expression, file: string, sourceFile: ts.SourceFile, callback: (node: SceneNode) => void): void {
+    this.onResolvedRef(this.refFor(expression, file, sourceFile), callback);
+  }
+
+  private onResolvedRef(ref: NodeRef, callback: (node: SceneNode) => void): void {
+    const id = 'id' in ref ? ref.id : this.bindings.get(ref.file)?.get(ref.key);
+    if (id !== undefined) callback(this.nodes[id]);
+  }
+}
+
+function readImports(sourceFile: ts.SourceFile): FileImports {
+  const imports: FileImports = { threeClasses: new Map(), threeNamespaces: new Set(), r3f: new Map() };
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const module = statement.moduleSpecifier.text;
+    const clause = statement.importClause;
+    if (!clause) continue;
+
+    const isThree = THREE_MODULES.test(module);
+    const isR3f = R3F_MODULES.has(module);
+    if (!isThree && !isR3f) continue;
+
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings) && isThree) {
+      imports.threeNamespaces.add(bindings.name.text);
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        const imported = (element.propertyName ?? element.name).text;
+        (isThree ? imports.threeClasses : imports.r3f).set(element.name.text, imported);
+      }
+    }
+    if (clause.name && isThree) {
+      // Default imports of addon modules are rare; treat the local name as the class
+      imports.threeClasses.set(clause.name.text, clause.name.text);
+    }
+  }
+  return imports;
+}
+
+function hasSceneImports(imports: FileImports): boolean {
+  return imports.threeClasses.size > 0 || imports.threeNamespaces.size > 0 || imports.r3f.size > 0;
+}
+
+function getThreeClass(expression: ts.Expression, imports: FileImports): string | null {
+  if (ts.isIdentifier(expression)) {
+    return imports.threeClasses.get(expression.text) ?? null;
+  }
+  if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression) &&
+    imports.threeNamespaces.has(expression.expression.text)) {
+    return expression.name.text;
+  }
+  return null;
+}
+
+// The variable, property or class field an expression's value is stored in
+function getBinding(node: ts.Node, sourceFile: ts.SourceFile): string | null {
+  let current: ts.Node = node;
+  while (ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent) ||
+    ts.isAwaitExpression(current.parent) || ts.isNonNullExpression(current.parent)) {
+    current = current.parent;
+  }
+  const parent = current.parent;
+
+  if (ts.isVariableDeclaration(parent) && parent.initializer === current && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  if (ts.isBinaryExpression(parent) && parent.right === current && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+    return parent.left.getText(sourceFile);
+  }
+  if (ts.isPropertyDeclaration(parent) && parent.initializer === current && ts.isIdentifier(parent.name)) {
+    return `this.${parent.name.text}`;
+  }
+  return null;
+}
+
+function unwrap(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isNonNullExpression(current) ||
+    ts.isAwaitExpression(current)) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function isRepeated(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isForStatement(current) || ts.isForOfStatement(current) || ts.isForInStatement(current) ||
+      ts.isWhileStatement(current) || ts.isDoStatement(current)) {
+      return true;
+    }
+    if ((ts.isArrowFunction(current) || ts.isFunctionExpression(current)) && ts.isCallExpression(current.parent) &&
+      ts.isPropertyAccessExpression(current.parent.expression) &&
+      ['forEach', 'map', 'flatMap'].includes(current.parent.expression.name.text)) {
+      return true;
+    }
+    if (ts.isFunctionDeclaration(current) || ts.isMethodDeclaration(current)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function getUrls(expression: ts.Expression, sourceFile: ts.SourceFile): string[] {
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return [expression.text];
+  }
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.flatMap(element => getUrls(element as ts.Expression, sourceFile));
+  }
+  return [truncate(expression.getText(sourceFile))];
+}
+
+// Name of the capitalized function (React component) a node is in, if any
+function getEnclosingComponent(node: ts.Node): string | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionDeclaration(current) && current.name && /^[A-Z]/.test(current.name.text)) {
+      return current.name.text;
+    }
+    if ((ts.isArrowFunction(current) || ts.isFunctionExpression(current)) && ts.isVariableDeclaration(current.parent) &&
+      ts.isIdentifier(current.parent.name) && /^[A-Z]/.test(current.parent.name.text)) {
+      return current.parent.name.text;
+    }
+  }
+  return null;
+}
+
+function isJsxRoot(node: ts.Node): boolean {
+  let parent = node.parent;
+  while (parent && (ts.isParenthesizedExpression(parent) || ts.isJsxExpression(parent) ||
+    ts.isConditionalExpression(parent) || ts.isBinaryExpression(parent))) {
+    parent = parent.parent;
+  }
+  return !parent || !(ts.isJsxElement(parent) || ts.isJsxFragment(parent));
+}
+
+// Child elements, looking through fragments, {cond && <x/>} and {items.map(() => <x/>)}
+function getJsxChildren(element: ts.JsxElement | ts.JsxFragment): Array<ts.JsxElement | ts.JsxSelfClosingElement> {
+  const result: Array<ts.JsxElement | ts.JsxSelfClosingElement> = [];
+  for (const child of element.children) {
+    if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+      result.push(child);
+    } else if (ts.isJsxFragment(child)) {
+      result.push(...getJsxChildren(child));
+    } else if (ts.isJsxExpression(child) && child.expression) {
+      forEachJsxRoot(child.expression, root => result.push(root));
+    }
+  }
+  return result;
+}
+
+// Outermost JSX elements inside a node (e.g. what a component returns)
+function forEachJsxRoot(node: ts.Node, callback: (element: ts.JsxElement | ts.JsxSelfClosingElement) => void): void {
+  const visit = (current: ts.Node) => {
+    if (ts.isJsxElement(current) || ts.isJsxSelfClosingElement(current)) {
+      callback(current);
+      return;
+    }
+    if (ts.isJsxFragment(current)) {
+      getJsxChildren(current).forEach(callback);
+      return;
+    }
+    ts.forEachChild(current, visit);
+  };
+  visit(node);
+}
+
+function getScriptKind(file: string): ts.ScriptKind {
+  switch (path.extname(file).toLowerCase()) {
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return ts.ScriptKind.TS;
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    default:
+      // .js files in React projects often contain JSX
+      return ts.ScriptKind.JSX;
+  }
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_ARGS_LENGTH ? `${singleLine.slice(0, MAX_ARGS_LENGTH - 3)}...` : singleLine;
+}
+
+function describeNode(node: SceneNode): string {
+  return `${node.className}(${node.args})`;
+}
+
+function formatNode(node: SceneNode): string {
+  const name = node.binding ? `${node.binding}: ` : '';
+  const details = [
+    node.repeated ? 'created in a loop' : null,
+    node.className === 'Scene' && !node.rendered ? 'never rendered' : null,
+    ...node.props,
+    node.assets.length > 0 ? `loads ${node.assets.join(', ')}` : null,
+  ].filter(Boolean);
+  return `${name}${node.className}(${node.args})` +
+    (details.length > 0 ? ` - ${details.join(', ')}` : '') +
+    `  [${node.file}:${node.line}]`;
+}
+
+/**
+ * Renders the graph as an indented tree followed by the objects that are not in a scene
+ */
+export function formatSceneGraph(graph: SceneGraph): string {
+  const { nodes } = graph;
+  if (nodes.length === 0) {
+    return `No three.js objects found in ${graph.files.length} source file${graph.files.length === 1 ? '' : 's'}.`;
+  }
+
+  const count = (kind: SceneNodeKind) => nodes.filter(node => node.kind === kind).length;
+  const summary = ([
+    ['object', 'object', 'objects'], ['light', 'light', 'lights'], ['camera', 'camera', 'cameras'],
+    ['geometry', 'geometry', 'geometries'], ['material', 'material', 'materials'], ['texture', 'texture', 'textures'],
+    ['loader', 'loader', 'loaders'],
+  ] as Array<[SceneNodeKind, string, string]>)
+    .map(([kind, singular, plural]) => [count(kind), singular, plural] as const)
+    .filter(([value]) => value > 0)
+    .map(([value, singular, plural]) => `${value} ${value === 1 ? singular : plural}`);
+
+  const lines: string[] = [
+    `Scene graph (static analysis of ${graph.files.length} file${graph.files.length === 1 ? '' : 's'}): ${summary.join(', ')}`,
+  ];
+
+  const printed = new Set<number>();
+  const printTree = (id: number, prefix: string, connector: string, childPrefix: string) => {
+    if (lines.length >= MAX_TREE_LINES) return;
+    const node = nodes[id];
+    printed.add(id);
+    lines.push(`${prefix}${connector}${formatNode(node)}`);
+    const detailPrefix = prefix + childPrefix + (node.children.length > 0 ? '│   ' : '    ');
+    if (node.geometry) lines.push(`${detailPrefix}geometry: ${node.geometry}`);
+    if (node.material) lines.push(`${detailPrefix}material: ${node.material}`);
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      printTree(child, prefix + childPrefix, last ? '└─ ' : '├─ ', last ? '    ' : '│   ');
+    });
+  };
+
+  for (const root of graph.roots) {
+    lines.push('');
+    printTree(root, '', '', '');
+  }
+
+  const section = (title: string, kinds: SceneNodeKind[]) => {
+    // Components left empty (e.g. one that only wraps a <Canvas>) have nothing to report
+    const members = nodes.filter(node => kinds.includes(node.kind) && !printed.has(node.id) && node.parent === undefined &&
+      (node.kind !== 'component' || node.children.length > 0));
+    if (members.length === 0) return;
+    lines.push('');
+    lines.push(`${title}:`);
+    for (const node of members) {
+      if (lines.length >= MAX_TREE_LINES) break;
+      if (node.children.length > 0) {
+        printTree(node.id, '  ', '', '');
+      } else {
+        printed.add(node.id);
+        lines.push(`  ${formatNode(node)}`);
+      }
+    }
+  };
+  section('Cameras', ['camera']);
+  section('Renderers', ['renderer']);
+  section('Controls', ['controls']);
+  section('Post-processing', ['postprocessing']);
+  section('Loaders', ['loader']);
+  section('Not added to a scene', ['object', 'light', 'helper', 'component']);
+
+  if (lines.length >= MAX_TREE_LINES) {
+    lines.push(`... (cut off at ${MAX_TREE_LINES} lines; pass a path to narrow it down)`);
+  }
+  if (graph.skipped.length > 0) {
+    lines.push('');
+    lines.push(`Could not read: ${graph.skipped.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,174 @@
+/**
+ * Session Recording - Captures every model response and tool result of a session
+ * (--record <file>) so `threewzrd replay` can re-run the tool side later and compare the
+ * resulting file tree. The recording also works as a scripted provider fixture.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { MessageParam } from '../core/types.js';
+import { ProviderResponse, ProviderType } from '../providers/Provider.js';
+
+const RECORDING_VERSION = 1;
+// Larger files are compared by hash only
+const MAX_RECORDED_CONTENT_BYTES = 256 * 1024;
+
+export interface FileSnapshot {
+  sha256: string;
+  size: number;
+  // Text content, kept for diffs when the file is small enough
+  content?: string;
+}
+
+export type FileTree = Record<string, FileSnapshot>;
+
+export interface RecordedToolResult {
+  id: string;
+  name: string;
+  input: unknown;
+  success: boolean;
+  // What the model saw (truncated like in the conversation)
+  output?: string;
+  error?: string;
+}
+
+export interface RecordedExchange {
+  // The message that prompted the response: a user request or build report. Omitted when
+  // it only carried tool results, which are in the previous exchange's toolResults.
+  request?: MessageParam;
+  response: ProviderResponse;
+  toolResults: RecordedToolResult[];
+}
+
+export interface SessionRecording {
+  version: typeof RECORDING_VERSION;
+  recordedAt: string;
+  provider: ProviderType;
+  model: string;
+  workingDirectory: string;
+  // The project before the first request and after the last one
+  initialFiles: FileTree;
+  files: FileTree;
+  exchanges: RecordedExchange[];
+}
+
+export interface TreeDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export class SessionRecorder {
+  private file: string;
+  private workingDirectory: string;
+  private provider: ProviderType;
+  private recording: SessionRecording | null = null;
+
+  constructor(file: string, workingDirectory: string, provider: ProviderType) {
+    this.file = path.resolve(file);
+    this.workingDirectory = workingDirectory;
+    this.provider = provider;
+  }
+
+  /**
+   * Records a model response. The first one also snapshots the project, which no
+   * tool has touched yet at that point.
+   */
+  async recordExchange(model: string, request: MessageParam | undefined, response: ProviderResponse): Promise<void> {
+    this.recording ??= {
+      version: RECORDING_VERSION,
+      recordedAt: new Date().toISOString(),
+      provider: this.provider,
+      model,
+      workingDirectory: this.workingDirectory,
+      initialFiles: await this.snapshot(),
+      files: {},
+      exchanges: [],
+    };
+
+    const onlyToolResults = Array.isArray(request?.content) &&
+      request.content.every(block => block.type === 'tool_result');
+    this.recording.exchanges.push({
+      ...(request && !onlyToolResults ? { request } : {}),
+      response,
+      toolResults: [],
+    });
+  }
+
+  recordToolResult(result: RecordedToolResult): void {
+    this.recording?.exchanges.at(-1)?.toolResults.push(result);
+  }
+
+  /**
+   * Writes the recording with a snapshot of the project as it is now
+   */
+  async save(): Promise<void> {
+    if (!this.recording) {
+      return;
+    }
+    this.recording.files = await this.snapshot();
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(this.recording, null, 2) + '\n', 'utf-8');
+    await fs.rename(temp, this.file);
+  }
+
+  // The recording itself may be written inside the project; it is not part of it
+  private async snapshot(): Promise<FileTree> {
+    const tree = await snapshotTree(this.workingDirectory);
+    delete tree[path.relative(this.workingDirectory, this.file).split(path.sep).join('/')];
+    return tree;
+  }
+}
+
+/**
+ * Reads a recording. Throws if the file is missing or is not a recording.
+ */
+export async function loadRecording(file: string): Promise<SessionRecording> {
+  const parsed = JSON.parse(await fs.readFile(file, 'utf-8')) as Partial<SessionRecording>;
+  if (parsed.version !== RECORDING_VERSION || !Array.isArray(parsed.exchanges) || !parsed.files) {
+    throw new Error(`${file} is not a session recording (expected version ${RECORDING_VERSION})`);
+  }
+  return parsed as SessionRecording;
+}
+
+/**
+ * Hashes every project file, skipping node_modules and dot entries like the project scan does
+ */
+export async function snapshotTree(root: string, dir = root, tree: FileTree = {}): Promise<FileTree> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return tree;
+  }
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+      continue;
+    }
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await snapshotTree(root, fullPath, tree);
+    } else if (entry.isFile()) {
+      const data = await fs.readFile(fullPath);
+      const isText = data.length <= MAX_RECORDED_CONTENT_BYTES && !data.includes(0);
+      tree[path.relative(root, fullPath).split(path.sep).join('/')] = {
+        sha256: createHash('sha256').update(data).digest('hex'),
+        size: data.length,
+        ...(isText ? { content: data.toString('utf-8') } : {}),
+      };
+    }
+  }
+  return tree;
+}
+
+export function diffTrees(expected: FileTree, actual: FileTree): TreeDiff {
+  return {
+    added: Object.keys(actual).filter(file => !expected[file]).sort(),
+    removed: Object.keys(expected).filter(file => !actual[file]).sort(),
+    changed: Object.keys(expected).filter(file => actual[file] && actual[file].sha256 !== expected[file].sha256).sort(),
+  };
+}
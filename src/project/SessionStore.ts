@@ -0,0 +1,124 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SessionData, SessionListing } from '../core/types.js';
+
+// Sessions live inside the project so they travel with it
+const SESSIONS_DIR = path.join('.threewzrd', 'sessions');
+const PREVIEW_LENGTH = 60;
+
+export class SessionStore {
+  private sessionsDir: string;
+
+  constructor(workingDirectory: string) {
+    this.sessionsDir = path.join(workingDirectory, SESSIONS_DIR);
+  }
+
+  getDirectory(): string {
+    return this.sessionsDir;
+  }
+
+  /**
+   * Creates a new, sortable session ID (timestamp plus random suffix)
+   */
+  static createId(): string {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    return `${stamp}-${randomBytes(2).toString('hex')}`;
+  }
+
+  async save(session: SessionData): Promise<void> {
+    await fs.mkdir(this.sessionsDir, { recursive: true });
+
+    // Write to a temp file first so a crash mid-write never corrupts a session
+    const target = this.getSessionPath(session.id);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session, null, 2) + '\n', 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async load(id: string): Promise<SessionData> {
+    const resolvedId = await this.resolveId(id);
+    const content = await fs.readFile(this.getSessionPath(resolvedId), 'utf-8');
+    return JSON.parse(content) as SessionData;
+  }
+
+  async loadLatest(): Promise<SessionData | null> {
+    const sessions = await this.list();
+    if (sessions.length === 0) {
+      return null;
+    }
+    return this.load(sessions[0].id);
+  }
+
+  /**
+   * Lists saved sessions, most recently updated first
+   */
+  async list(): Promise<SessionListing[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.sessionsDir);
+    } catch {
+      return [];
+    }
+
+    const sessions: SessionListing[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const content = await fs.readFile(path.join(this.sessionsDir, entry), 'utf-8');
+        const session = JSON.parse(content) as SessionData;
+        sessions.push({
+          id: session.id,
+          title: session.title,
+          model: session.model,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+          messageCount: session.messages.length,
+          preview: this.getPreview(session),
+        });
+      } catch {
+        // Skip unreadable or corrupt session files
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Resolves a full session ID from an exact ID or a unique prefix
+   */
+  private async resolveId(id: string): Promise<string> {
+    const sessions = await this.list();
+    const exact = sessions.find(session => session.id === id);
+    if (exact) {
+      return exact.id;
+    }
+
+    const matches = sessions.filter(session => session.id.startsWith(id));
+    if (matches.length === 0) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous session ID "${id}" matches: ${matches.map(m => m.id).join(', ')}`);
+    }
+    return matches[0].id;
+  }
+
+  private getSessionPath(id: string): string {
+    // Session IDs never contain path separators, but guard against crafted input
+    return path.join(this.sessionsDir, `${path.basename(id)}.json`);
+  }
+
+  private getPreview(session: SessionData): string {
+    const firstUser = session.messages.find(
+      message => message.role === 'user' && typeof message.content === 'string'
+    );
+    const text = typeof firstUser?.content === 'string' ? firstUser.content : '';
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > PREVIEW_LENGTH
+      ? singleLine.slice(0, PREVIEW_LENGTH - 3) + '...'
+      : singleLine;
+  }
+}
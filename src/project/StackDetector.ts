@@ -0,0 +1,229 @@
+/**
+ * Stack Detector - Works out what a three.js project is built with (React Three Fiber,
+ * bundler, desktop/mobile shell, physics, post-processing, WebGPU) from package.json,
+ * config files and imports, so the agent can follow the project's idiom.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProjectStack, StackCategory, StackFeature } from '../core/types.js';
+
+interface StackRule {
+  id: string;
+  name: string;
+  category: StackCategory;
+  packages?: string[];
+  // Matched against file names in the project root
+  configFile?: RegExp;
+  // Matched against the contents of source files
+  source?: RegExp;
+  // How the agent should write code for a project that uses it
+  guidance: string;
+}
+
+const STACK_RULES: StackRule[] = [
+  {
+    id: 'r3f',
+    name: 'React Three Fiber',
+    category: 'framework',
+    packages: ['@react-three/fiber'],
+    source: /from\s+['"]@react-three\/fiber['"]/,
+    guidance: 'The scene is React Three Fiber: write JSX components rendered inside <Canvas>, animate in useFrame, reach the renderer, camera and scene through useThree and load assets with useLoader or drei hooks. Do not create a WebGLRenderer, Scene or render loop by hand, and do not call scene.add() from components.',
+  },
+  {
+    id: 'drei',
+    name: 'drei',
+    category: 'framework',
+    packages: ['@react-three/drei'],
+    guidance: 'Prefer drei components and hooks (OrbitControls, Environment, useGLTF, Html, Text, ...) over wiring up the three/addons equivalents.',
+  },
+  {
+    id: 'next',
+    name: 'Next.js',
+    category: 'bundler',
+    packages: ['next'],
+    configFile: /^next\.config\.(js|mjs|cjs|ts)$/,
+    guidance: 'Next.js renders on the server: mark components that touch three.js with \'use client\', load the canvas with next/dynamic and ssr: false, and put static assets in public/.',
+  },
+  {
+    id: 'vite',
+    name: 'Vite',
+    category: 'bundler',
+    packages: ['vite'],
+    configFile: /^vite\.config\.(js|mjs|cjs|ts|mts)$/,
+    guidance: 'Vite serves public/ from the site root (\'/models/robot.glb\'); files under src/ must be imported to get their URL. Environment variables are read from import.meta.env.VITE_*.',
+  },
+  {
+    id: 'webpack',
+    name: 'webpack',
+    category: 'bundler',
+    packages: ['webpack'],
+    configFile: /^webpack\.config\.(js|mjs|cjs|ts)$/,
+    guidance: 'webpack only bundles file types it has rules for: check webpack.config before importing models, textures or shaders, and add an asset/resource rule if needed.',
+  },
+  {
+    id: 'electron',
+    name: 'Electron',
+    category: 'platform',
+    packages: ['electron'],
+    guidance: 'Electron runs the scene in the renderer process. Keep Node APIs in the main and preload scripts and reach them over IPC.',
+  },
+  {
+    id: 'capacitor',
+    name: 'Capacitor',
+    category: 'platform',
+    packages: ['@capacitor/core'],
+    configFile: /^capacitor\.config\.(json|ts|js)$/,
+    guidance: 'Capacitor runs the app in a mobile WebView: keep textures and draw calls mobile-sized, cap the pixel ratio at 2, and run npx cap sync after building.',
+  },
+  {
+    id: 'react-three-rapier',
+    name: '@react-three/rapier',
+    category: 'physics',
+    packages: ['@react-three/rapier'],
+    guidance: 'Physics uses @react-three/rapier: wrap bodies in <Physics> and <RigidBody> components instead of driving Rapier directly.',
+  },
+  {
+    id: 'react-three-cannon',
+    name: '@react-three/cannon',
+    category: 'physics',
+    packages: ['@react-three/cannon'],
+    guidance: 'Physics uses @react-three/cannon: create bodies with its hooks (useBox, useSphere, ...) inside <Physics>.',
+  },
+  {
+    id: 'rapier',
+    name: 'Rapier',
+    category: 'physics',
+    packages: ['@dimforge/rapier3d', '@dimforge/rapier3d-compat'],
+    source: /from\s+['"]@dimforge\/rapier3d(?:-compat)?['"]/,
+    guidance: 'Physics uses Rapier: await RAPIER.init() (compat build) before creating the World, call world.step() every frame and copy rigid body translations and rotations onto the meshes.',
+  },
+  {
+    id: 'cannon',
+    name: 'cannon-es',
+    category: 'physics',
+    packages: ['cannon-es', 'cannon'],
+    source: /from\s+['"]cannon(?:-es)?['"]/,
+    guidance: 'Physics uses cannon-es: step the world with world.fixedStep() in the render loop and copy body positions and quaternions onto the meshes.',
+  },
+  {
+    id: 'ammo',
+    name: 'ammo.js',
+    category: 'physics',
+    packages: ['ammo.js', 'ammojs-typed', 'ammojs3'],
+    source: /\bAmmo\(\)/,
+    guidance: 'Physics uses ammo.js: wait for Ammo() to resolve before creating the world, and free Ammo objects with Ammo.destroy().',
+  },
+  {
+    id: 'react-postprocessing',
+    name: '@react-three/postprocessing',
+    category: 'postprocessing',
+    packages: ['@react-three/postprocessing'],
+    guidance: 'Add effects as children of <EffectComposer> from @react-three/postprocessing.',
+  },
+  {
+    id: 'postprocessing',
+    name: 'postprocessing',
+    category: 'postprocessing',
+    packages: ['postprocessing'],
+    source: /from\s+['"]postprocessing['"]/,
+    guidance: 'Effects use the pmndrs postprocessing library (EffectComposer, RenderPass, EffectPass from \'postprocessing\'), not three/addons/postprocessing. Merge effects into one EffectPass.',
+  },
+  {
+    id: 'three-postprocessing',
+    name: 'three.js EffectComposer',
+    category: 'postprocessing',
+    source: /['"]three\/(?:addons|examples\/jsm)\/postprocessing\//,
+    guidance: 'Effects use EffectComposer from three/addons/postprocessing: render with composer.render() instead of renderer.render() and resize the composer together with the renderer.',
+  },
+  {
+    id: 'webgpu',
+    name: 'WebGPU',
+    category: 'renderer',
+    source: /['"]three\/(?:webgpu|tsl)['"]|\bWebGPURenderer\b/,
+    guidance: 'The project renders with WebGPURenderer: import from \'three/webgpu\', write materials as TSL node materials from \'three/tsl\' rather than GLSL ShaderMaterial, and render from renderer.setAnimationLoop (or after await renderer.init()).',
+  },
+];
+
+const SOURCE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx', '.vue', '.svelte', '.html']);
+const IGNORED_DIRECTORIES = new Set(['dist', 'build', 'out', 'coverage', '.next']);
+// Keeps detection fast on large projects; imports are near the top of a file anyway
+const MAX_SOURCE_FILES = 400;
+const MAX_SOURCE_BYTES = 256 * 1024;
+
+/**
+ * Detects the project's stack. files are paths relative to workingDirectory.
+ */
+export async function detectProjectStack(workingDirectory: string, files: string[]): Promise<ProjectStack> {
+  const pkg = await readPackageJson(workingDirectory);
+  const deps: Record<string, string> = { ...pkg?.dependencies, ...pkg?.devDependencies };
+  const rootFiles = files.filter(file => !file.includes(path.sep));
+  const sources = files
+    .filter(file => SOURCE_EXTENSIONS.has(path.extname(file)) && !IGNORED_DIRECTORIES.has(file.split(path.sep)[0]))
+    .slice(0, MAX_SOURCE_FILES);
+
+  const features: StackFeature[] = [];
+  const pending: StackRule[] = [];
+  for (const rule of STACK_RULES) {
+    const dependency = rule.packages?.find(name => deps[name]);
+    const configFile = rule.configFile && rootFiles.find(file => rule.configFile!.test(file));
+    if (dependency) {
+      features.push({ id: rule.id, name: rule.name, category: rule.category, version: deps[dependency], evidence: `package.json: ${dependency}` });
+    } else if (configFile) {
+      features.push({ id: rule.id, name: rule.name, category: rule.category, evidence: configFile });
+    } else if (rule.source) {
+      pending.push(rule);
+    }
+  }
+
+  // Only read sources for what the manifest and config files did not settle
+  for (const file of sources) {
+    if (pending.length === 0) break;
+    let content: string;
+    try {
+      const fullPath = path.join(workingDirectory, file);
+      if ((await fs.stat(fullPath)).size > MAX_SOURCE_BYTES) continue;
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const rule of [...pending]) {
+      if (rule.source!.test(content)) {
+        features.push({ id: rule.id, name: rule.name, category: rule.category, evidence: file });
+        pending.splice(pending.indexOf(rule), 1);
+      }
+    }
+  }
+
+  const order = STACK_RULES.map(rule => rule.id);
+  features.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+
+  const typescript = !!deps.typescript
+    || rootFiles.includes('tsconfig.json')
+    || sources.some(file => /\.(ts|tsx|mts|cts)$/.test(file) && !file.endsWith('.d.ts'));
+  return { language: typescript ? 'typescript' : 'javascript', features };
+}
+
+/**
+ * One-line summary such as "React Three Fiber ^9.3.0, drei, Vite"
+ */
+export function formatStackSummary(stack: ProjectStack): string {
+  return stack.features
+    .map(feature => feature.version ? `${feature.name} ${feature.version}` : feature.name)
+    .join(', ');
+}
+
+/**
+ * Instructions for the agent on how to write code for this stack
+ */
+export function formatStackGuidance(stack: ProjectStack): string[] {
+  return stack.features.map(feature => STACK_RULES.find(rule => rule.id === feature.id)!.guidance);
+}
+
+async function readPackageJson(workingDirectory: string): Promise<{ dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(workingDirectory, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * User-written instructions appended to the system prompt: ~/.threewzrd/instructions.md
+ * for every project, then THREEWZRD.md in the project root for team conventions.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+
+export const PROJECT_INSTRUCTIONS_FILE = 'THREEWZRD.md';
+
+// Long files are cut so they cannot crowd out the conversation
+const MAX_INSTRUCTIONS_CHARS = 20000;
+
+export interface InstructionsSource {
+  scope: 'user' | 'project';
+  path: string;
+  content: string;
+  truncated: boolean;
+}
+
+export function getUserInstructionsPath(): string {
+  return path.join(homedir(), '.threewzrd', 'instructions.md');
+}
+
+/**
+ * Reads the user and project instructions files; missing or empty ones are skipped
+ */
+export async function loadInstructions(workingDirectory: string): Promise<InstructionsSource[]> {
+  const candidates: Array<Pick<InstructionsSource, 'scope' | 'path'>> = [
+    { scope: 'user', path: getUserInstructionsPath() },
+    { scope: 'project', path: path.join(workingDirectory, PROJECT_INSTRUCTIONS_FILE) },
+  ];
+
+  const sources: InstructionsSource[] = [];
+  for (const candidate of candidates) {
+    let content: string;
+    try {
+      content = (await fs.readFile(candidate.path, 'utf-8')).trim();
+    } catch {
+      continue;
+    }
+    if (!content) continue;
+
+    const truncated = content.length > MAX_INSTRUCTIONS_CHARS;
+    sources.push({
+      ...candidate,
+      content: truncated ? content.slice(0, MAX_INSTRUCTIONS_CHARS) : content,
+      truncated,
+    });
+  }
+  return sources;
+}
+
+/**
+ * Builds the system prompt block for the loaded instructions, or null if there are none
+ */
+export function formatInstructionsPrompt(sources: InstructionsSource[]): string | null {
+  if (sources.length === 0) return null;
+
+  const sections = sources.map(source => {
+    const heading = source.scope === 'user'
+      ? '### From the user (applies to all their projects)'
+      : `### From ${PROJECT_INSTRUCTIONS_FILE} (this project's conventions)`;
+    return `${heading}\n\n${source.content}${source.truncated ? '\n\n[truncated]' : ''}`;
+  });
+
+  return `## Custom Instructions
+
+The user wrote these instructions. Follow them; they take precedence over the general guidance above. Where the project's instructions and the user's disagree, the project's win.
+
+${sections.join('\n\n')}`;
+}
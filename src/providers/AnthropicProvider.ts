@@ -0,0 +1,71 @@
+/**
+ * AnthropicProvider - Claude through the Anthropic Messages API (the default).
+ * Reads ANTHROPIC_API_KEY and ANTHROPIC_BASE_URL like the SDK does.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, ProviderError, ProviderRequest, ProviderResponse, ResponseBlock, StopReason } from './Provider.js';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly type = 'anthropic' as const;
+  // Created on the first request: start asks for the API key after the provider exists
+  private client: Anthropic | null = null;
+
+  resolveModel(model: string): string {
+    return model;
+  }
+
+  async createMessage(request: ProviderRequest, onText?: (text: string) => void): Promise<ProviderResponse> {
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages,
+      ...(request.tools ? { tools: request.tools } : {}),
+    };
+
+    let message: Anthropic.Message;
+    try {
+      this.client ??= new Anthropic();
+      if (onText) {
+        const stream = this.client.messages.stream(params);
+        stream.on('text', onText);
+        message = await stream.finalMessage();
+      } else {
+        message = await this.client.messages.create(params);
+      }
+    } catch (error) {
+      if (error instanceof Anthropic.RateLimitError) {
+        throw new ProviderError(error.message, true);
+      }
+      if (error instanceof Anthropic.APIError) {
+        throw new ProviderError(`API Error: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const content: ResponseBlock[] = [];
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use') {
+        content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+      }
+    }
+
+    const stopReason: StopReason = message.stop_reason === 'tool_use' || message.stop_reason === 'max_tokens'
+      ? message.stop_reason
+      : 'end_turn';
+
+    return {
+      content,
+      stopReason,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        cacheReadTokens: message.usage.cache_read_input_tokens ?? 0,
+        cacheCreationTokens: message.usage.cache_creation_input_tokens ?? 0,
+      },
+    };
+  }
+}
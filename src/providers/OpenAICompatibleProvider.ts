@@ -0,0 +1,283 @@
+/**
+ * OpenAICompatibleProvider - Any endpoint that speaks the OpenAI chat completions API,
+ * e.g. llama.cpp's server, Ollama, vLLM or LM Studio. Messages and tools are converted
+ * from the Anthropic shapes; tool calls in the reply are converted back.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { MessageParam } from '../core/types.js';
+import { LLMProvider, ProviderError, ProviderRequest, ProviderResponse, ResponseBlock, StopReason } from './Provider.js';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | ChatContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// One streamed chunk (only the fields used here)
+interface ChatChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  } | null;
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  // Model name the endpoint knows; the Claude model ID is sent when unset
+  model?: string;
+  // Context window of that model in tokens, so history is compacted before it overflows
+  contextWindow?: number;
+  apiKey?: string;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'openai' as const;
+  readonly contextWindow?: number;
+  private baseUrl: string;
+  private model?: string;
+  private apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.contextWindow = options.contextWindow;
+    this.apiKey = options.apiKey;
+  }
+
+  resolveModel(model: string): string {
+    return this.model ?? model;
+  }
+
+  async createMessage(request: ProviderRequest, onText?: (text: string) => void): Promise<ProviderResponse> {
+    const body = {
+      model: this.resolveModel(request.model),
+      max_tokens: request.maxTokens,
+      messages: this.convertMessages(request.system, request.messages),
+      ...(request.tools && request.tools.length > 0 ? { tools: request.tools.map(tool => this.convertTool(tool)) } : {}),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const url = `${this.baseUrl}/chat/completions`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ProviderError(`Could not reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok || !response.body) {
+      const detail = (await response.text().catch(() => '')).trim().slice(0, 500);
+      throw new ProviderError(
+        `API Error: ${response.status} ${response.statusText}${detail ? ` ${detail}` : ''}`,
+        response.status === 429
+      );
+    }
+
+    let text = '';
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+    let finishReason: string | null = null;
+    let usage: ChatChunk['usage'] = null;
+
+    for await (const chunk of this.readEvents(response.body)) {
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        continue;
+      }
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (choice.delta?.content) {
+        text += choice.delta.content;
+        onText?.(choice.delta.content);
+      }
+      // Tool call names and arguments arrive in pieces, keyed by index
+      for (const delta of choice.delta?.tool_calls ?? []) {
+        const call = toolCalls[delta.index] ??= { id: '', name: '', arguments: '' };
+        call.id ||= delta.id ?? '';
+        call.name += delta.function?.name ?? '';
+        call.arguments += delta.function?.arguments ?? '';
+      }
+    }
+
+    const content: ResponseBlock[] = [];
+    if (text.trim()) {
+      content.push({ type: 'text', text });
+    }
+    toolCalls.forEach((call, index) => {
+      content.push({
+        type: 'tool_use',
+        id: call.id || `call_${index}`,
+        name: call.name,
+        input: this.parseArguments(call.arguments),
+      });
+    });
+
+    // Some servers report 'stop' even when the reply has tool calls
+    const stopReason: StopReason = toolCalls.length > 0 || finishReason === 'tool_calls'
+      ? 'tool_use'
+      : finishReason === 'length' ? 'max_tokens' : 'end_turn';
+
+    return {
+      content,
+      stopReason,
+      usage: {
+        inputTokens: usage?.prompt_tokens ?? 0,
+        outputTokens: usage?.completion_tokens ?? 0,
+        cacheReadTokens: usage?.prompt_tokens_details?.cached_tokens ?? 0,
+        cacheCreationTokens: 0,
+      },
+    };
+  }
+
+  /**
+   * Parses the server-sent events of a streamed completion
+   */
+  private async *readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatChunk> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) {
+          continue;
+        }
+        const payload = data.slice('data:'.length).trim();
+        if (payload === '[DONE]') {
+          return;
+        }
+        try {
+          yield JSON.parse(payload) as ChatChunk;
+        } catch {
+          // Ignore keep-alive comments and malformed chunks
+        }
+      }
+    }
+  }
+
+  private parseArguments(args: string): unknown {
+    if (!args.trim()) {
+      return {};
+    }
+    try {
+      return JSON.parse(args);
+    } catch {
+      // Local models sometimes emit broken JSON; the tool's input validation reports it
+      return {};
+    }
+  }
+
+  private convertTool(tool: Anthropic.Tool) {
+    return {
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description ?? '',
+        parameters: tool.input_schema,
+      },
+    };
+  }
+
+  private convertMessages(system: Anthropic.TextBlockParam[], messages: MessageParam[]): ChatMessage[] {
+    const converted: ChatMessage[] = [];
+    const systemText = system.map(block => block.text).join('\n\n');
+    if (systemText) {
+      converted.push({ role: 'system', content: systemText });
+    }
+
+    for (const message of messages) {
+      if (typeof message.content === 'string') {
+        converted.push(message.role === 'user'
+          ? { role: 'user', content: message.content }
+          : { role: 'assistant', content: message.content });
+        continue;
+      }
+
+      if (message.role === 'assistant') {
+        const text = message.content
+          .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+          .map(block => block.text)
+          .join('\n');
+        const toolCalls: ChatToolCall[] = message.content
+          .filter((block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use')
+          .map(block => ({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          }));
+        converted.push({
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+        continue;
+      }
+
+      // Tool results become tool messages, which must directly follow the assistant message
+      const parts: ChatContentPart[] = [];
+      for (const block of message.content) {
+        if (block.type === 'tool_result') {
+          converted.push({ role: 'tool', tool_call_id: block.tool_use_id, content: this.toolResultText(block) });
+        } else if (block.type === 'text') {
+          parts.push({ type: 'text', text: block.text });
+        } else if (block.type === 'image' && block.source.type === 'base64') {
+          parts.push({ type: 'image_url', image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } });
+        }
+      }
+      if (parts.length > 0) {
+        converted.push({
+          role: 'user',
+          content: parts.every(part => part.type === 'text')
+            ? parts.map(part => (part as { text: string }).text).join('\n\n')
+            : parts,
+        });
+      }
+    }
+
+    return converted;
+  }
+
+  private toolResultText(block: Anthropic.ToolResultBlockParam): string {
+    if (typeof block.content === 'string') {
+      return block.content;
+    }
+    return (block.content ?? [])
+      .filter((part): part is Anthropic.TextBlockParam => part.type === 'text')
+      .map(part => part.text)
+      .join('\n');
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Provider - The interface AgentEngine talks to models through. Messages, tools and
+ * content blocks use the Anthropic shapes (that is what sessions store); providers for
+ * other APIs convert them on the way in and out.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { MessageParam, TokenUsage } from '../core/types.js';
+
+export type ProviderType = 'anthropic' | 'openai' | 'scripted';
+
+export const PROVIDER_TYPES: ProviderType[] = ['anthropic', 'openai', 'scripted'];
+
+export interface ProviderConfig {
+  type: ProviderType;
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string;
+  // Model name sent to an OpenAI-compatible endpoint instead of the Claude model
+  model?: string;
+  // Context window of that model in tokens (the Claude model's window is assumed when unset)
+  contextWindow?: number;
+  // Fixture file the scripted provider replays
+  script?: string;
+}
+
+export interface ProviderRequest {
+  // Claude model ID (from MODEL_MAP)
+  model: string;
+  maxTokens: number;
+  system: Anthropic.TextBlockParam[];
+  tools?: Anthropic.Tool[];
+  messages: MessageParam[];
+}
+
+export type ResponseBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam;
+
+export type StopReason = 'end_turn' | 'tool_use' | 'max_tokens';
+
+export interface ProviderResponse {
+  content: ResponseBlock[];
+  stopReason: StopReason;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly type: ProviderType;
+  // Context window of the served model in tokens, when it is not the Claude model's
+  readonly contextWindow?: number;
+  // The model that actually answers a request for the given Claude model ID
+  resolveModel(model: string): string;
+  // Sends one request; streamed reply text is passed to onText as it arrives
+  createMessage(request: ProviderRequest, onText?: (text: string) => void): Promise<ProviderResponse>;
+}
+
+/**
+ * A failed model request. Rate limited requests are retried by the engine.
+ */
+export class ProviderError extends Error {
+  readonly rateLimited: boolean;
+
+  constructor(message: string, rateLimited = false) {
+    super(message);
+    this.name = 'ProviderError';
+    this.rateLimited = rateLimited;
+  }
+}
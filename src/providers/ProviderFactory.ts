@@ -0,0 +1,31 @@
+import { LLMProvider, ProviderConfig } from './Provider.js';
+import { AnthropicProvider } from './AnthropicProvider.js';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { ScriptedProvider } from './ScriptedProvider.js';
+
+/**
+ * Creates the provider for a config. Throws if a required setting is missing.
+ */
+export function createProvider(config: ProviderConfig = { type: 'anthropic' }): LLMProvider {
+  switch (config.type) {
+    case 'anthropic':
+      return new AnthropicProvider();
+
+    case 'openai':
+      if (!config.baseUrl) {
+        throw new Error('The openai provider needs a base URL (--base-url or "provider.baseUrl" in the config)');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        contextWindow: config.contextWindow,
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+
+    case 'scripted':
+      if (!config.script) {
+        throw new Error('The scripted provider needs a fixture file (--script or "provider.script" in the config)');
+      }
+      return ScriptedProvider.fromFile(config.script);
+  }
+}
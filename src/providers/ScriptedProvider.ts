@@ -0,0 +1,105 @@
+/**
+ * ScriptedProvider - Replays canned responses from a fixture file, one per request, so
+ * agent behavior can be tested offline and deterministically. The fixture is a JSON file:
+ *
+ *   { "responses": [
+ *       { "content": [{ "type": "tool_use", "name": "write_file", "input": { ... } }] },
+ *       { "content": [{ "type": "text", "text": "Done." }], "usage": { "outputTokens": 12 } }
+ *   ] }
+ *
+ * A bare array of responses or a session recording (--record) works too. Tool use IDs,
+ * the stop reason and usage are filled in when they are missing. Requests after the last
+ * response fail.
+ */
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { TokenUsage } from '../core/types.js';
+import { LLMProvider, ProviderError, ProviderRequest, ProviderResponse, ResponseBlock, StopReason } from './Provider.js';
+
+export interface ScriptedResponse {
+  content: Array<
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; id?: string; name: string; input: unknown }
+  >;
+  stopReason?: StopReason;
+  usage?: Partial<TokenUsage>;
+}
+
+export interface ProviderScript {
+  responses: ScriptedResponse[];
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly type = 'scripted' as const;
+  private responses: ScriptedResponse[];
+  private next = 0;
+
+  constructor(script: ProviderScript) {
+    this.responses = script.responses;
+  }
+
+  /**
+   * Reads a fixture file. Throws if it is missing or malformed.
+   */
+  static fromFile(file: string): ScriptedProvider {
+    const scriptPath = path.resolve(file);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(scriptPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read provider script ${scriptPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // A recording keeps the responses inside its exchanges
+    const { responses: listed, exchanges } = (parsed ?? {}) as Partial<ProviderScript> & { exchanges?: Array<{ response?: unknown }> };
+    const responses = Array.isArray(parsed)
+      ? parsed
+      : listed ?? (Array.isArray(exchanges) ? exchanges.map(exchange => exchange.response) : undefined);
+    if (!Array.isArray(responses)) {
+      throw new Error(`Provider script ${scriptPath} must be an array of responses, an object with "responses" or a session recording`);
+    }
+    responses.forEach((response, index) => {
+      if (!Array.isArray(response?.content)) {
+        throw new Error(`Response ${index + 1} in ${scriptPath} has no "content" array`);
+      }
+    });
+    return new ScriptedProvider({ responses });
+  }
+
+  resolveModel(model: string): string {
+    return model;
+  }
+
+  async createMessage(_request: ProviderRequest, onText?: (text: string) => void): Promise<ProviderResponse> {
+    const index = this.next;
+    const scripted = this.responses[index];
+    if (!scripted) {
+      throw new ProviderError(`The provider script has no more responses (all ${this.responses.length} were used)`);
+    }
+    this.next++;
+
+    const content: ResponseBlock[] = scripted.content.map((block, blockIndex) =>
+      block.type === 'text'
+        ? { type: 'text', text: block.text }
+        : { type: 'tool_use', id: block.id ?? `toolu_scripted_${index + 1}_${blockIndex + 1}`, name: block.name, input: block.input ?? {} }
+    );
+
+    for (const block of content) {
+      if (block.type === 'text') {
+        onText?.(block.text);
+      }
+    }
+
+    return {
+      content,
+      stopReason: scripted.stopReason ?? (content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn'),
+      usage: {
+        inputTokens: scripted.usage?.inputTokens ?? 0,
+        outputTokens: scripted.usage?.outputTokens ?? 0,
+        cacheCreationTokens: scripted.usage?.cacheCreationTokens ?? 0,
+        cacheReadTokens: scripted.usage?.cacheReadTokens ?? 0,
+      },
+    };
+  }
+}
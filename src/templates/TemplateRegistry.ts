@@ -0,0 +1,288 @@
+/**
+ * Template Registry - Built-in project templates plus the user's own, which live in
+ * ~/.threewzrd/templates/<id>/. A user template is a directory copied as-is into the new
+ * project, with {{name}} replaced in text files. An optional template.json describes it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { ProjectLanguage, ProjectTarget } from '../core/types.js';
+import { BUILTIN_TEMPLATES, BuiltinTemplate } from './builtin.js';
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  language: ProjectLanguage;
+  target: ProjectTarget;
+  source: 'builtin' | 'user';
+  nextSteps: string[];
+  // Where a user template's files are
+  directory?: string;
+}
+
+export interface ScaffoldOptions {
+  // npm package name; defaults to one derived from the directory name
+  name?: string;
+  // Write into a directory that already has files, overwriting ones the template provides
+  force?: boolean;
+}
+
+export interface ScaffoldResult {
+  template: ProjectTemplate;
+  name: string;
+  files: string[];
+}
+
+// Describes a user template; every field is optional
+interface TemplateManifest {
+  name?: string;
+  description?: string;
+  language?: ProjectLanguage;
+  target?: ProjectTarget;
+  nextSteps?: string[];
+}
+
+const MANIFEST_FILE = 'template.json';
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+// Never copied from a directory that is registered as a template
+const EXCLUDED_ENTRIES = new Set(['node_modules', '.git', 'dist', 'build', '.threewzrd', '.DS_Store']);
+const TEXT_EXTENSIONS = new Set([
+  '.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx', '.json', '.html', '.css', '.scss',
+  '.md', '.txt', '.glsl', '.vert', '.frag', '.wgsl', '.svg', '.yml', '.yaml', '.xml', '.env', '',
+]);
+
+export function getUserTemplatesDir(): string {
+  return path.join(homedir(), '.threewzrd', 'templates');
+}
+
+/**
+ * Turns a directory name into a valid npm package name
+ */
+export function toPackageName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/[^a-z0-9._~-]+/g, '-')
+    .replace(/^[._-]+|[-]+$/g, '');
+  return cleaned || 'threejs-project';
+}
+
+export class TemplateRegistry {
+  private userTemplatesDir: string;
+
+  constructor(userTemplatesDir: string = getUserTemplatesDir()) {
+    this.userTemplatesDir = userTemplatesDir;
+  }
+
+  /**
+   * Built-in templates followed by user templates. A user template with the id of
+   * a built-in one replaces it.
+   */
+  async list(): Promise<ProjectTemplate[]> {
+    const userTemplates = await this.listUserTemplates();
+    const userIds = new Set(userTemplates.map(template => template.id));
+    const builtins = BUILTIN_TEMPLATES
+      .filter(template => !userIds.has(template.id))
+      .map(toProjectTemplate);
+    return [...builtins, ...userTemplates];
+  }
+
+  async get(id: string): Promise<ProjectTemplate | null> {
+    return (await this.list()).find(template => template.id === id) ?? null;
+  }
+
+  /**
+   * Writes a template into targetDir, which must be empty unless force is set
+   */
+  async scaffold(id: string, targetDir: string, options: ScaffoldOptions = {}): Promise<ScaffoldResult> {
+    const template = await this.get(id);
+    if (!template) {
+      const ids = (await this.list()).map(t => t.id).join(', ');
+      throw new Error(`Unknown template "${id}". Available templates: ${ids}`);
+    }
+
+    const root = path.resolve(targetDir);
+    await fs.mkdir(root, { recursive: true });
+    if (!options.force && !(await isEmpty(root))) {
+      throw new Error(`${root} is not empty. Use an empty directory or pass --force to write into it.`);
+    }
+
+    const name = toPackageName(options.name ?? path.basename(root));
+    const files = await this.getFiles(template, name);
+    if (!options.force) {
+      const conflicts: string[] = [];
+      for (const [relativePath] of files) {
+        if (await exists(path.join(root, relativePath))) conflicts.push(relativePath);
+      }
+      if (conflicts.length > 0) {
+        throw new Error(`The template would overwrite ${conflicts.join(', ')}. Pass --force to overwrite.`);
+      }
+    }
+
+    for (const [relativePath, content] of files) {
+      const fullPath = path.join(root, relativePath);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, content);
+    }
+
+    return { template, name, files: files.map(([relativePath]) => relativePath) };
+  }
+
+  /**
+   * Copies a local directory into the user templates directory so it can be used
+   * with `threewzrd new <id>`. Returns the registered template.
+   */
+  async register(sourceDir: string, id?: string): Promise<ProjectTemplate> {
+    const source = path.resolve(sourceDir);
+    const stat = await fs.stat(source).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Not a directory: ${source}`);
+    }
+
+    const templateId = id ?? toPackageName(path.basename(source));
+    if (!TEMPLATE_ID_PATTERN.test(templateId)) {
+      throw new Error(`Invalid template id "${templateId}". Use lowercase letters, digits and dashes.`);
+    }
+
+    const destination = path.join(this.userTemplatesDir, templateId);
+    await fs.rm(destination, { recursive: true, force: true });
+    await copyDirectory(source, destination);
+
+    // Describe the template from what is in it unless it came with a manifest
+    const manifestPath = path.join(destination, MANIFEST_FILE);
+    if (!(await exists(manifestPath))) {
+      const manifest: TemplateManifest = {
+        name: templateId,
+        description: `Registered from ${source}`,
+        language: await exists(path.join(source, 'tsconfig.json')) ? 'typescript' : 'javascript',
+        target: 'browser',
+      };
+      await fs.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+    }
+
+    const template = await this.readUserTemplate(templateId);
+    if (!template) {
+      throw new Error(`Could not read the registered template in ${destination}`);
+    }
+    return template;
+  }
+
+  async unregister(id: string): Promise<boolean> {
+    const directory = path.join(this.userTemplatesDir, id);
+    if (!TEMPLATE_ID_PATTERN.test(id) || !(await exists(directory))) {
+      return false;
+    }
+    await fs.rm(directory, { recursive: true, force: true });
+    return true;
+  }
+
+  private async getFiles(template: ProjectTemplate, name: string): Promise<Array<[string, string | Buffer]>> {
+    if (template.source === 'builtin') {
+      const builtin = BUILTIN_TEMPLATES.find(t => t.id === template.id)!;
+      return Object.entries(builtin.files({ name }));
+    }
+
+    const files: Array<[string, string | Buffer]> = [];
+    for (const relativePath of await listFiles(template.directory!)) {
+      if (relativePath === MANIFEST_FILE) continue;
+      const content = await fs.readFile(path.join(template.directory!, relativePath));
+      files.push([
+        relativePath,
+        TEXT_EXTENSIONS.has(path.extname(relativePath).toLowerCase())
+          ? content.toString('utf-8').replace(/\{\{\s*name\s*\}\}/g, name)
+          : content,
+      ]);
+    }
+    return files;
+  }
+
+  private async listUserTemplates(): Promise<ProjectTemplate[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.userTemplatesDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const templates: ProjectTemplate[] = [];
+    for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+      const template = await this.readUserTemplate(entry.name);
+      if (template) templates.push(template);
+    }
+    return templates;
+  }
+
+  private async readUserTemplate(id: string): Promise<ProjectTemplate | null> {
+    if (!TEMPLATE_ID_PATTERN.test(id)) return null;
+    const directory = path.join(this.userTemplatesDir, id);
+
+    let manifest: TemplateManifest = {};
+    try {
+      manifest = JSON.parse(await fs.readFile(path.join(directory, MANIFEST_FILE), 'utf-8')) as TemplateManifest;
+    } catch {
+      // No manifest or an invalid one: fall back to defaults
+    }
+
+    return {
+      id,
+      name: manifest.name ?? id,
+      description: manifest.description ?? 'User template',
+      language: manifest.language === 'javascript' ? 'javascript' : 'typescript',
+      target: manifest.target === 'mobile' || manifest.target === 'desktop' ? manifest.target : 'browser',
+      source: 'user',
+      nextSteps: Array.isArray(manifest.nextSteps) ? manifest.nextSteps : ['npm install', 'npm run dev'],
+      directory,
+    };
+  }
+}
+
+function toProjectTemplate(template: BuiltinTemplate): ProjectTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    language: template.language,
+    target: template.target,
+    source: 'builtin',
+    nextSteps: template.nextSteps,
+  };
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+// Hidden files such as .git do not count; a fresh `git init` directory is still empty
+async function isEmpty(dir: string): Promise<boolean> {
+  const entries = await fs.readdir(dir);
+  return entries.every(entry => entry.startsWith('.'));
+}
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+  for (const entry of entries) {
+    const relativePath = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(dir, relativePath));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+async function copyDirectory(source: string, destination: string): Promise<void> {
+  await fs.mkdir(destination, { recursive: true });
+  for (const entry of await fs.readdir(source, { withFileTypes: true })) {
+    if (EXCLUDED_ENTRIES.has(entry.name)) continue;
+    const from = path.join(source, entry.name);
+    const to = path.join(destination, entry.name);
+    if (entry.isDirectory()) {
+      await copyDirectory(from, to);
+    } else if (entry.isFile()) {
+      await fs.copyFile(from, to);
+    }
+  }
+}
@@ -0,0 +1,588 @@
+/**
+ * Built-in project templates. Each one is a complete, buildable starter that shows a
+ * lit, spinning cube, so the agent starts from a known-good project.
+ */
+
+import { ProjectLanguage, ProjectTarget } from '../core/types.js';
+
+export interface TemplateContext {
+  // npm package name derived from the directory or --name
+  name: string;
+}
+
+export interface BuiltinTemplate {
+  id: string;
+  name: string;
+  description: string;
+  language: ProjectLanguage;
+  target: ProjectTarget;
+  // Commands to print after scaffolding, run from the project directory
+  nextSteps: string[];
+  files: (context: TemplateContext) => Record<string, string>;
+}
+
+// Versions the templates are tested against; bump them together
+const VERSIONS = {
+  three: '^0.180.0',
+  typesThree: '^0.180.0',
+  vite: '^6.3.0',
+  typescript: '^5.9.0',
+  react: '^19.1.0',
+  typesReact: '^19.1.0',
+  typesReactDom: '^19.1.0',
+  fiber: '^9.3.0',
+  drei: '^10.7.0',
+  pluginReact: '^5.0.0',
+  pluginBasicSsl: '^2.1.0',
+  electron: '^37.0.0',
+  capacitor: '^7.4.0',
+};
+
+const GITIGNORE = `node_modules
+dist
+.threewzrd
+*.log
+`;
+
+const STYLE_CSS = `html,
+body {
+  margin: 0;
+  height: 100%;
+  overflow: hidden;
+  background: #1e1e24;
+}
+
+canvas {
+  display: block;
+}
+`;
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: 'ES2022',
+    useDefineForClassFields: true,
+    module: 'ESNext',
+    lib: ['ES2022', 'DOM', 'DOM.Iterable'],
+    skipLibCheck: true,
+    moduleResolution: 'bundler',
+    allowImportingTsExtensions: true,
+    verbatimModuleSyntax: true,
+    moduleDetection: 'force',
+    noEmit: true,
+    strict: true,
+    noUnusedLocals: true,
+    noUnusedParameters: true,
+    noFallthroughCasesInSwitch: true,
+    types: ['vite/client'],
+  },
+  include: ['src'],
+};
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function packageJson(context: TemplateContext, extra: {
+  main?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}): string {
+  return json({
+    name: context.name,
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    ...(extra.main ? { main: extra.main } : {}),
+    scripts: {
+      dev: 'vite',
+      build: 'tsc && vite build',
+      preview: 'vite preview',
+      ...extra.scripts,
+    },
+    dependencies: {
+      three: VERSIONS.three,
+      ...extra.dependencies,
+    },
+    devDependencies: {
+      '@types/three': VERSIONS.typesThree,
+      typescript: VERSIONS.typescript,
+      vite: VERSIONS.vite,
+      ...extra.devDependencies,
+    },
+  });
+}
+
+function indexHtml(title: string, entry: string, options: { body?: string; viewport?: string } = {}): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="${options.viewport ?? 'width=device-width, initial-scale=1.0'}" />
+    <title>${title}</title>
+  </head>
+  <body>
+${options.body ? `    ${options.body}\n` : ''}    <script type="module" src="${entry}"></script>
+  </body>
+</html>
+`;
+}
+
+// Scene shared by the vanilla templates; `typed` adds the TypeScript-only bits
+function basicScene(options: { typed: boolean; mobile?: boolean }): string {
+  const { typed, mobile } = options;
+  return `import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import './style.css';
+
+const scene = new THREE.Scene();
+scene.background = new THREE.Color(0x1e1e24);
+
+const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 100);
+camera.position.set(3, 2, 4);
+
+${mobile
+    ? `// Antialiasing is expensive on high-density mobile screens
+const renderer = new THREE.WebGLRenderer({ antialias: window.devicePixelRatio < 2, powerPreference: 'high-performance' });`
+    : 'const renderer = new THREE.WebGLRenderer({ antialias: true });'}
+renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+renderer.setSize(window.innerWidth, window.innerHeight);
+document.body.appendChild(renderer.domElement);
+
+const controls = new OrbitControls(camera, renderer.domElement);
+controls.enableDamping = true;
+
+scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+const light = new THREE.DirectionalLight(0xffffff, 2);
+light.position.set(5, 10, 7);
+scene.add(light);
+
+const cube = new THREE.Mesh(
+  new THREE.BoxGeometry(1, 1, 1),
+  new THREE.MeshStandardMaterial({ color: 0x44aa88 })
+);
+scene.add(cube);
+
+renderer.setAnimationLoop((time${typed ? ': number' : ''}) => {
+  cube.rotation.x = time / 2000;
+  cube.rotation.y = time / 1000;
+  controls.update();
+  renderer.render(scene, camera);
+});
+
+window.addEventListener('resize', () => {
+  camera.aspect = window.innerWidth / window.innerHeight;
+  camera.updateProjectionMatrix();
+  renderer.setSize(window.innerWidth, window.innerHeight);
+});
+`;
+}
+
+const viteJs: BuiltinTemplate = {
+  id: 'vite-js',
+  name: 'Vite + JavaScript',
+  description: 'Vanilla three.js with Vite, in JavaScript',
+  language: 'javascript',
+  target: 'browser',
+  nextSteps: ['npm install', 'npm run dev'],
+  files: (context) => ({
+    'package.json': json({
+      name: context.name,
+      private: true,
+      version: '0.0.0',
+      type: 'module',
+      scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+      dependencies: { three: VERSIONS.three },
+      devDependencies: { vite: VERSIONS.vite },
+    }),
+    'index.html': indexHtml(context.name, '/src/main.js'),
+    'src/main.js': basicScene({ typed: false }),
+    'src/style.css': STYLE_CSS,
+    '.gitignore': GITIGNORE,
+  }),
+};
+
+const viteTs: BuiltinTemplate = {
+  id: 'vite-ts',
+  name: 'Vite + TypeScript',
+  description: 'Vanilla three.js with Vite, in TypeScript',
+  language: 'typescript',
+  target: 'browser',
+  nextSteps: ['npm install', 'npm run dev'],
+  files: (context) => ({
+    'package.json': packageJson(context, {}),
+    'tsconfig.json': json(TSCONFIG),
+    'index.html': indexHtml(context.name, '/src/main.ts'),
+    'src/main.ts': basicScene({ typed: true }),
+    'src/style.css': STYLE_CSS,
+    '.gitignore': GITIGNORE,
+  }),
+};
+
+const r3f: BuiltinTemplate = {
+  id: 'r3f',
+  name: 'React Three Fiber',
+  description: 'React + @react-three/fiber + drei with Vite, in TypeScript',
+  language: 'typescript',
+  target: 'browser',
+  nextSteps: ['npm install', 'npm run dev'],
+  files: (context) => ({
+    'package.json': packageJson(context, {
+      dependencies: {
+        '@react-three/drei': VERSIONS.drei,
+        '@react-three/fiber': VERSIONS.fiber,
+        react: VERSIONS.react,
+        'react-dom': VERSIONS.react,
+      },
+      devDependencies: {
+        '@types/react': VERSIONS.typesReact,
+        '@types/react-dom': VERSIONS.typesReactDom,
+        '@vitejs/plugin-react': VERSIONS.pluginReact,
+      },
+    }),
+    'tsconfig.json': json({ ...TSCONFIG, compilerOptions: { ...TSCONFIG.compilerOptions, jsx: 'react-jsx' } }),
+    'vite.config.ts': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+    'index.html': indexHtml(context.name, '/src/main.tsx', { body: '<div id="root"></div>' }),
+    'src/main.tsx': `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+    'src/App.tsx': `import { useRef } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import type { Mesh } from 'three';
+
+function SpinningBox() {
+  const mesh = useRef<Mesh>(null);
+
+  useFrame((_, delta) => {
+    if (mesh.current) {
+      mesh.current.rotation.x += delta * 0.5;
+      mesh.current.rotation.y += delta;
+    }
+  });
+
+  return (
+    <mesh ref={mesh}>
+      <boxGeometry args={[1, 1, 1]} />
+      <meshStandardMaterial color="#44aa88" />
+    </mesh>
+  );
+}
+
+export default function App() {
+  return (
+    <Canvas camera={{ position: [3, 2, 4], fov: 60 }} dpr={[1, 2]}>
+      <color attach="background" args={['#1e1e24']} />
+      <hemisphereLight args={['#ffffff', '#444444', 1.5]} />
+      <directionalLight position={[5, 10, 7]} intensity={2} />
+      <SpinningBox />
+      <OrbitControls enableDamping />
+    </Canvas>
+  );
+}
+`,
+    'src/index.css': `html,
+body,
+#root {
+  margin: 0;
+  height: 100%;
+}
+
+body {
+  background: #1e1e24;
+}
+`,
+    '.gitignore': GITIGNORE,
+  }),
+};
+
+const electron: BuiltinTemplate = {
+  id: 'electron',
+  name: 'Electron desktop',
+  description: 'three.js in an Electron window, with a Vite + TypeScript renderer',
+  language: 'typescript',
+  target: 'desktop',
+  nextSteps: [
+    'npm install',
+    'npm start                      # build and open the app',
+    'npm run dev, then VITE_DEV_SERVER_URL=http://localhost:5173 npx electron .   # live reload',
+  ],
+  files: (context) => ({
+    'package.json': packageJson(context, {
+      main: 'electron/main.cjs',
+      scripts: { start: 'npm run build && electron .' },
+      devDependencies: { electron: VERSIONS.electron },
+    }),
+    'tsconfig.json': json(TSCONFIG),
+    // Relative asset URLs so the build works when loaded from file://
+    'vite.config.ts': `import { defineConfig } from 'vite';
+
+export default defineConfig({
+  base: './',
+});
+`,
+    'electron/main.cjs': `const { app, BrowserWindow } = require('electron');
+const path = require('path');
+
+function createWindow() {
+  const win = new BrowserWindow({
+    width: 1280,
+    height: 800,
+    backgroundColor: '#1e1e24',
+    webPreferences: {
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+
+  // Load the Vite dev server when it is running, otherwise the production build
+  const devServerUrl = process.env.VITE_DEV_SERVER_URL;
+  if (devServerUrl) {
+    win.loadURL(devServerUrl);
+  } else {
+    win.loadFile(path.join(__dirname, '..', 'dist', 'index.html'));
+  }
+}
+
+app.whenReady().then(() => {
+  createWindow();
+
+  app.on('activate', () => {
+    if (BrowserWindow.getAllWindows().length === 0) createWindow();
+  });
+});
+
+app.on('window-all-closed', () => {
+  if (process.platform !== 'darwin') app.quit();
+});
+`,
+    'index.html': indexHtml(context.name, '/src/main.ts'),
+    'src/main.ts': basicScene({ typed: true }),
+    'src/style.css': STYLE_CSS,
+    '.gitignore': GITIGNORE,
+  }),
+};
+
+const capacitor: BuiltinTemplate = {
+  id: 'capacitor',
+  name: 'Capacitor mobile',
+  description: 'three.js packaged as an Android/iOS app with Capacitor, Vite + TypeScript',
+  language: 'typescript',
+  target: 'mobile',
+  nextSteps: [
+    'npm install',
+    'npm run dev                    # develop in the browser',
+    'npx cap add android            # or: npx cap add ios',
+    'npm run cap:sync && npx cap open android',
+  ],
+  files: (context) => ({
+    'package.json': packageJson(context, {
+      scripts: { 'cap:sync': 'npm run build && cap sync' },
+      dependencies: {
+        '@capacitor/android': VERSIONS.capacitor,
+        '@capacitor/core': VERSIONS.capacitor,
+        '@capacitor/ios': VERSIONS.capacitor,
+      },
+      devDependencies: { '@capacitor/cli': VERSIONS.capacitor },
+    }),
+    'capacitor.config.json': json({
+      appId: `com.example.${context.name.replace(/[^a-z0-9]/g, '') || 'app'}`,
+      appName: context.name,
+      webDir: 'dist',
+    }),
+    'tsconfig.json': json(TSCONFIG),
+    'index.html': indexHtml(context.name, '/src/main.ts', {
+      viewport: 'width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no, viewport-fit=cover',
+    }),
+    'src/main.ts': basicScene({ typed: true, mobile: true }),
+    'src/style.css': `${STYLE_CSS}
+/* Let OrbitControls handle touch gestures instead of the browser */
+canvas {
+  touch-action: none;
+}
+`,
+    '.gitignore': `${GITIGNORE}android
+ios
+`,
+  }),
+};
+
+const webxr: BuiltinTemplate = {
+  id: 'webxr',
+  name: 'WebXR (VR)',
+  description: 'Immersive VR scene with controllers, served over HTTPS for headsets',
+  language: 'typescript',
+  target: 'browser',
+  nextSteps: ['npm install', 'npm run dev                    # open the https:// network URL on the headset'],
+  files: (context) => ({
+    'package.json': packageJson(context, {
+      devDependencies: { '@vitejs/plugin-basic-ssl': VERSIONS.pluginBasicSsl },
+    }),
+    'tsconfig.json': json(TSCONFIG),
+    // WebXR only works in a secure context; host: true exposes the server to headsets on the network
+    'vite.config.ts': `import { defineConfig } from 'vite';
+import basicSsl from '@vitejs/plugin-basic-ssl';
+
+export default defineConfig({
+  plugins: [basicSsl()],
+  server: { host: true },
+});
+`,
+    'index.html': indexHtml(context.name, '/src/main.ts'),
+    'src/main.ts': `import * as THREE from 'three';
+import { VRButton } from 'three/addons/webxr/VRButton.js';
+import { XRControllerModelFactory } from 'three/addons/webxr/XRControllerModelFactory.js';
+import './style.css';
+
+const scene = new THREE.Scene();
+scene.background = new THREE.Color(0x1e1e24);
+
+// Standing eye height; in VR the headset pose replaces this
+const camera = new THREE.PerspectiveCamera(70, window.innerWidth / window.innerHeight, 0.05, 100);
+camera.position.set(0, 1.6, 1.5);
+
+const renderer = new THREE.WebGLRenderer({ antialias: true });
+renderer.setPixelRatio(window.devicePixelRatio);
+renderer.setSize(window.innerWidth, window.innerHeight);
+renderer.xr.enabled = true;
+document.body.appendChild(renderer.domElement);
+document.body.appendChild(VRButton.createButton(renderer));
+
+scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+const light = new THREE.DirectionalLight(0xffffff, 2);
+light.position.set(2, 4, 2);
+scene.add(light);
+
+const floor = new THREE.Mesh(
+  new THREE.PlaneGeometry(10, 10),
+  new THREE.MeshStandardMaterial({ color: 0x333340 })
+);
+floor.rotation.x = -Math.PI / 2;
+scene.add(floor);
+
+const cube = new THREE.Mesh(
+  new THREE.BoxGeometry(0.3, 0.3, 0.3),
+  new THREE.MeshStandardMaterial({ color: 0x44aa88 })
+);
+cube.position.set(0, 1.4, -0.8);
+scene.add(cube);
+
+// Controllers with their device models and a pointer ray
+const controllerModels = new XRControllerModelFactory();
+const rayGeometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, -1)]);
+for (let i = 0; i < 2; i++) {
+  const controller = renderer.xr.getController(i);
+  const ray = new THREE.Line(rayGeometry, new THREE.LineBasicMaterial({ color: 0xffffff }));
+  ray.scale.z = 5;
+  controller.add(ray);
+  controller.addEventListener('selectstart', () => {
+    (cube.material as THREE.MeshStandardMaterial).color.setHex(Math.random() * 0xffffff);
+  });
+  scene.add(controller);
+
+  const grip = renderer.xr.getControllerGrip(i);
+  grip.add(controllerModels.createControllerModel(grip));
+  scene.add(grip);
+}
+
+renderer.setAnimationLoop((time: number) => {
+  cube.rotation.x = time / 2000;
+  cube.rotation.y = time / 1000;
+  renderer.render(scene, camera);
+});
+
+window.addEventListener('resize', () => {
+  camera.aspect = window.innerWidth / window.innerHeight;
+  camera.updateProjectionMatrix();
+  renderer.setSize(window.innerWidth, window.innerHeight);
+});
+`,
+    'src/style.css': STYLE_CSS,
+    '.gitignore': GITIGNORE,
+  }),
+};
+
+const webgpu: BuiltinTemplate = {
+  id: 'webgpu',
+  name: 'WebGPU renderer',
+  description: 'WebGPURenderer with a TSL node material (falls back to WebGL 2), Vite + TypeScript',
+  language: 'typescript',
+  target: 'browser',
+  nextSteps: ['npm install', 'npm run dev'],
+  files: (context) => ({
+    'package.json': packageJson(context, {}),
+    'tsconfig.json': json(TSCONFIG),
+    // main.ts awaits the renderer at the top level
+    'vite.config.ts': `import { defineConfig } from 'vite';
+
+export default defineConfig({
+  build: { target: 'esnext' },
+});
+`,
+    'index.html': indexHtml(context.name, '/src/main.ts'),
+    'src/main.ts': `import * as THREE from 'three/webgpu';
+import { color, mix, sin, time } from 'three/tsl';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import './style.css';
+
+const scene = new THREE.Scene();
+scene.background = new THREE.Color(0x1e1e24);
+
+const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 100);
+camera.position.set(3, 2, 4);
+
+// Uses WebGPU where available and WebGL 2 elsewhere
+const renderer = new THREE.WebGPURenderer({ antialias: true });
+renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+renderer.setSize(window.innerWidth, window.innerHeight);
+document.body.appendChild(renderer.domElement);
+await renderer.init();
+
+const controls = new OrbitControls(camera, renderer.domElement);
+controls.enableDamping = true;
+
+scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+const light = new THREE.DirectionalLight(0xffffff, 2);
+light.position.set(5, 10, 7);
+scene.add(light);
+
+// Color animated on the GPU with TSL
+const material = new THREE.MeshStandardNodeMaterial();
+material.colorNode = mix(color(0x44aa88), color(0x8844aa), sin(time).mul(0.5).add(0.5));
+
+const cube = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material);
+scene.add(cube);
+
+renderer.setAnimationLoop((elapsed: number) => {
+  cube.rotation.x = elapsed / 2000;
+  cube.rotation.y = elapsed / 1000;
+  controls.update();
+  renderer.render(scene, camera);
+});
+
+window.addEventListener('resize', () => {
+  camera.aspect = window.innerWidth / window.innerHeight;
+  camera.updateProjectionMatrix();
+  renderer.setSize(window.innerWidth, window.innerHeight);
+});
+`,
+    'src/style.css': STYLE_CSS,
+    '.gitignore': GITIGNORE,
+  }),
+};
+
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [viteTs, viteJs, r3f, electron, capacitor, webxr, webgpu];
@@ -0,0 +1,476 @@
+/**
+ * Build Verifier - Runs the project's type check and bundler build headlessly
+ * and parses their output into file/line diagnostics the agent can act on
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+export type BuildStepKind = 'typecheck' | 'build';
+
+export type Bundler = 'vite' | 'webpack' | 'rollup' | 'parcel';
+
+export interface BuildStep {
+  kind: BuildStepKind;
+  // Tool that runs the step (tsc or the bundler)
+  tool: string;
+  command: string;
+  args: string[];
+}
+
+export interface BuildDiagnostic {
+  // Relative to the project directory when the file is inside it
+  file?: string;
+  line?: number;
+  column?: number;
+  code?: string;
+  message: string;
+}
+
+export interface BuildStepResult {
+  step: BuildStep;
+  success: boolean;
+  durationMs: number;
+  diagnostics: BuildDiagnostic[];
+  timedOut: boolean;
+}
+
+export interface VerificationResult {
+  success: boolean;
+  steps: BuildStepResult[];
+  // Steps that could not run, e.g. because the tool is not installed
+  skipped: string[];
+}
+
+// The parts of package.json the verifier reads
+interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+const STEP_TIMEOUT_MS = 120000;
+// Only the end of very long output is kept; errors are reported last
+const MAX_OUTPUT_CHARS = 200000;
+// Keeps the follow-up message to the agent short
+const MAX_REPORTED_DIAGNOSTICS = 20;
+
+const BUNDLER_CONFIGS: Record<Bundler, string[]> = {
+  vite: ['vite.config.js', 'vite.config.ts', 'vite.config.mjs', 'vite.config.mts', 'vite.config.cjs'],
+  webpack: ['webpack.config.js', 'webpack.config.ts', 'webpack.config.mjs', 'webpack.config.cjs'],
+  rollup: ['rollup.config.js', 'rollup.config.ts', 'rollup.config.mjs', 'rollup.config.cjs'],
+  parcel: ['.parcelrc'],
+};
+
+// Checked in order when several bundlers are listed in package.json
+const BUNDLER_PACKAGES: Array<[Bundler, string]> = [
+  ['vite', 'vite'],
+  ['webpack', 'webpack'],
+  ['parcel', 'parcel'],
+  ['rollup', 'rollup'],
+];
+
+export class BuildVerifier {
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = path.resolve(workingDirectory);
+  }
+
+  /**
+   * Works out which bundler the project uses from its build script, config files and package.json
+   */
+  async detectBundler(): Promise<Bundler | null> {
+    const pkg = await this.readPackageJson();
+    const buildScript = typeof pkg?.scripts?.build === 'string' ? pkg.scripts.build : '';
+    for (const [bundler] of BUNDLER_PACKAGES) {
+      if (new RegExp(`\\b${bundler}\\b`).test(buildScript)) {
+        return bundler;
+      }
+    }
+
+    for (const [bundler, configs] of Object.entries(BUNDLER_CONFIGS) as Array<[Bundler, string[]]>) {
+      for (const config of configs) {
+        if (await this.exists(config)) {
+          return bundler;
+        }
+      }
+    }
+
+    const dependencies = { ...pkg?.dependencies, ...pkg?.devDependencies };
+    for (const [bundler, packageName] of BUNDLER_PACKAGES) {
+      if (packageName in dependencies) {
+        return bundler;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the steps to run. Steps whose tool is not installed are listed in skipped.
+   */
+  async detectSteps(outDir: string): Promise<{ steps: BuildStep[]; skipped: string[] }> {
+    const steps: BuildStep[] = [];
+    const skipped: string[] = [];
+
+    if (await this.exists('tsconfig.json')) {
+      const tsc = await this.findBinary('tsc');
+      if (tsc) {
+        steps.push({ kind: 'typecheck', tool: 'tsc', command: tsc, args: await this.getTscArgs() });
+      } else {
+        skipped.push('Type check: typescript is not installed (run npm install)');
+      }
+    }
+
+    const bundler = await this.detectBundler();
+    if (bundler) {
+      const step = await this.getBuildStep(bundler, outDir, false);
+      if (step) {
+        steps.push(step);
+      } else {
+        skipped.push(`Build: ${bundler} is not installed (run npm install)`);
+      }
+    }
+
+    return { steps, skipped };
+  }
+
+  /**
+   * Builds the app into outDir with source maps and without minification, for running it
+   * headlessly. Returns null if there is no bundler; throws if it is not installed.
+   */
+  async buildForSmokeTest(outDir: string): Promise<BuildStepResult | null> {
+    const bundler = await this.detectBundler();
+    if (!bundler) {
+      return null;
+    }
+    if (bundler === 'rollup') {
+      throw new Error('Rollup builds write to the outputs in rollup.config, so they cannot be run headlessly. Use Vite, webpack or Parcel.');
+    }
+    const step = await this.getBuildStep(bundler, outDir, true);
+    if (!step) {
+      throw new Error(`${bundler} is not installed (run npm install)`);
+    }
+    return this.runStep(step);
+  }
+
+  private async getBuildStep(bundler: Bundler, outDir: string, debug: boolean): Promise<BuildStep | null> {
+    const binary = await this.findBinary(bundler === 'webpack' ? 'webpack-cli' : bundler) ??
+      (bundler === 'webpack' ? await this.findBinary('webpack') : null);
+    return binary ? { kind: 'build', tool: bundler, command: binary, args: getBuildArgs(bundler, outDir, debug) } : null;
+  }
+
+  /**
+   * Runs the type check and build. The bundle is written to a temporary directory
+   * so the project's own output folder is left untouched.
+   */
+  async verify(): Promise<VerificationResult> {
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'threewzrd-build-'));
+
+    try {
+      const { steps, skipped } = await this.detectSteps(outDir);
+      const results: BuildStepResult[] = [];
+
+      for (const step of steps) {
+        results.push(await this.runStep(step));
+      }
+
+      return {
+        success: results.every(result => result.success),
+        steps: results,
+        skipped,
+      };
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  }
+
+  private async runStep(step: BuildStep): Promise<BuildStepResult> {
+    const startedAt = Date.now();
+
+    const { code, output, timedOut } = await new Promise<{ code: number | null; output: string; timedOut: boolean }>((resolve) => {
+      const child = spawn(step.command, step.args, {
+        cwd: this.workingDirectory,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: STEP_TIMEOUT_MS,
+        shell: false,
+        env: { ...process.env, CI: '1', FORCE_COLOR: '0', NO_COLOR: '1' },
+      });
+
+      let output = '';
+      const append = (data: Buffer) => {
+        output += data.toString();
+        if (output.length > MAX_OUTPUT_CHARS) {
+          output = output.slice(-MAX_OUTPUT_CHARS);
+        }
+      };
+      child.stdout?.on('data', append);
+      child.stderr?.on('data', append);
+
+      child.on('close', (code, signal) => {
+        resolve({ code, output, timedOut: signal !== null });
+      });
+      child.on('error', (error) => {
+        resolve({ code: null, output: error.message, timedOut: false });
+      });
+    });
+
+    const success = code === 0 && !timedOut;
+    let diagnostics: BuildDiagnostic[] = [];
+    if (timedOut) {
+      diagnostics = [{ message: `${step.tool} did not finish within ${STEP_TIMEOUT_MS / 1000}s` }];
+    } else if (!success) {
+      diagnostics = step.kind === 'typecheck'
+        ? parseTscOutput(output, this.workingDirectory)
+        : parseBundlerOutput(output, this.workingDirectory);
+      if (diagnostics.length === 0) {
+        diagnostics = [{ message: summarizeOutput(output) || `${step.tool} exited with code ${code}` }];
+      }
+    }
+
+    return { step, success, durationMs: Date.now() - startedAt, diagnostics, timedOut };
+  }
+
+  // Solution-style tsconfigs (files: [] plus references, as in the Vite templates) need build mode
+  private async getTscArgs(): Promise<string[]> {
+    try {
+      const tsconfig = await fs.readFile(path.join(this.workingDirectory, 'tsconfig.json'), 'utf-8');
+      const usesReferences = /"references"\s*:\s*\[\s*\{/.test(tsconfig) && /"files"\s*:\s*\[\s*\]/.test(tsconfig);
+      if (usesReferences) {
+        return ['-b', '--pretty', 'false'];
+      }
+    } catch {
+      // Fall through to a plain type check
+    }
+    return ['--noEmit', '--pretty', 'false', '-p', 'tsconfig.json'];
+  }
+
+  private async findBinary(name: string): Promise<string | null> {
+    const binary = path.join(this.workingDirectory, 'node_modules', '.bin', name);
+    return (await this.exists(binary)) ? binary : null;
+  }
+
+  private async readPackageJson(): Promise<PackageJson | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.workingDirectory, 'package.json'), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async exists(relativePath: string): Promise<boolean> {
+    try {
+      await fs.access(path.resolve(this.workingDirectory, relativePath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// debug builds keep names readable and add source maps so stack traces point at the sources
+function getBuildArgs(bundler: Bundler, outDir: string, debug: boolean): string[] {
+  switch (bundler) {
+    case 'vite':
+      return ['build', '--outDir', outDir, '--emptyOutDir', '--logLevel', 'error',
+        ...(debug ? ['--sourcemap', '--minify', 'false'] : [])];
+    case 'webpack':
+      return ['--mode', debug ? 'development' : 'production', '--output-path', outDir, '--no-color',
+        ...(debug ? ['--devtool', 'source-map'] : [])];
+    case 'parcel':
+      return ['build', '--dist-dir', outDir, '--no-cache', '--no-autoinstall', ...(debug ? ['--no-optimize'] : [])];
+    case 'rollup':
+      // Rollup writes to the outputs named in its config
+      return ['-c', '--silent'];
+  }
+}
+
+/**
+ * Parses "file(line,col): error TSxxxx: message" lines from tsc --pretty false.
+ * Indented continuation lines belong to the previous error.
+ */
+export function parseTscOutput(output: string, workingDirectory: string): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  const located = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+  const global = /^error (TS\d+): (.*)$/;
+
+  for (const line of output.split(/\r?\n/)) {
+    let match = located.exec(line);
+    if (match) {
+      diagnostics.push({
+        file: toRelative(match[1], workingDirectory),
+        line: Number(match[2]),
+        column: Number(match[3]),
+        code: match[4],
+        message: match[5],
+      });
+      continue;
+    }
+
+    match = global.exec(line);
+    if (match) {
+      diagnostics.push({ code: match[1], message: match[2] });
+      continue;
+    }
+
+    if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trimEnd()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parses bundler errors from Vite/Rollup, esbuild, webpack and Parcel output
+ */
+export function parseBundlerOutput(output: string, workingDirectory: string): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  const lines = output.split(/\r?\n/).map(line => line.trimEnd());
+  const seen = new Set<string>();
+
+  const add = (diagnostic: BuildDiagnostic) => {
+    const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // esbuild inside Vite: "/abs/src/main.ts:3:10: ERROR: Expected ";" but found "x""
+    let match = /^(.+?):(\d+):(\d+): ERROR: (.*)$/.exec(line);
+    if (match) {
+      add({ file: toRelative(match[1], workingDirectory), line: Number(match[2]), column: Number(match[3]), message: match[4] });
+      continue;
+    }
+
+    // esbuild: "✘ [ERROR] message" with "    src/main.ts:3:10:" a couple of lines below
+    match = /^\s*(?:✘|X) \[ERROR\] (.*)$/.exec(line);
+    if (match) {
+      const location = findLocation(lines, i + 1, 4, /^\s+(.+?):(\d+):(\d+):\s*$/);
+      add({ ...location, file: location.file && toRelative(location.file, workingDirectory), message: match[1] });
+      continue;
+    }
+
+    // Vite/Rollup: "error during build:" followed by the message and a "file: path:line:col" line
+    if (/^error during build:/.test(line)) {
+      const message = lines.slice(i + 1).find(next => next.trim() !== '')?.trim();
+      // "Transform failed with N errors:" is followed by esbuild's own error lines
+      if (message && !/failed with \d+ errors?:$/.test(message)) {
+        const location = findLocation(lines, i + 1, 12, /^file: (.+?)(?::(\d+):(\d+))?$/);
+        const file = location.file ?? /from "([^"]+)"/.exec(message)?.[1];
+        add({
+          file: file && toRelative(file, workingDirectory),
+          line: location.line,
+          column: location.column,
+          message: message.replace(/^(?:\[[\w:-]+\]\s*|RollupError:\s*|Error:\s*)+/, ''),
+        });
+      }
+      continue;
+    }
+
+    // webpack: "ERROR in ./src/main.js 3:10" followed by the message
+    match = /^ERROR in (\S+?)(?: (\d+):(\d+)(?:-\d+)?)?$/.exec(line);
+    if (match) {
+      const message = lines.slice(i + 1).find(next => next.trim() !== '')?.trim();
+      add({
+        file: toRelative(match[1], workingDirectory),
+        line: match[2] ? Number(match[2]) : undefined,
+        column: match[3] ? Number(match[3]) : undefined,
+        message: message?.replace(/^(?:Module (?:not found|parse failed): )?Error: /, '') ?? 'Build error',
+      });
+      continue;
+    }
+
+    // Parcel: "🚨 Build failed." then "@parcel/transformer-js: message" and "  /abs/file:3:10"
+    match = /^@parcel\/[\w-]+: (.*)$/.exec(line);
+    if (match) {
+      const location = findLocation(lines, i + 1, 3, /^\s+(.+?):(\d+):(\d+)$/);
+      add({ ...location, file: location.file && toRelative(location.file, workingDirectory), message: match[1] });
+    }
+  }
+
+  return diagnostics;
+}
+
+function findLocation(lines: string[], start: number, range: number, pattern: RegExp): Pick<BuildDiagnostic, 'file' | 'line' | 'column'> {
+  for (let i = start; i < Math.min(lines.length, start + range); i++) {
+    const match = pattern.exec(lines[i]);
+    if (match) {
+      return {
+        file: match[1],
+        line: match[2] ? Number(match[2]) : undefined,
+        column: match[3] ? Number(match[3]) : undefined,
+      };
+    }
+  }
+  return {};
+}
+
+function toRelative(file: string, workingDirectory: string): string {
+  const cleaned = file.replace(/^\.\//, '');
+  if (!path.isAbsolute(cleaned)) {
+    return cleaned;
+  }
+  const relative = path.relative(workingDirectory, cleaned);
+  return relative.startsWith('..') ? cleaned : relative;
+}
+
+// Last few non-empty lines, used when no known error format matched
+function summarizeOutput(output: string): string {
+  return output
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .filter(line => line.trim() !== '')
+    .slice(-8)
+    .join('\n');
+}
+
+export function formatDiagnostic(diagnostic: BuildDiagnostic): string {
+  let location = '';
+  if (diagnostic.file) {
+    location = diagnostic.file;
+    if (diagnostic.line !== undefined) {
+      location += `:${diagnostic.line}`;
+      if (diagnostic.column !== undefined) {
+        location += `:${diagnostic.column}`;
+      }
+    }
+    location += ': ';
+  }
+  const code = diagnostic.code ? ` (${diagnostic.code})` : '';
+  return `${location}${diagnostic.message}${code}`;
+}
+
+/**
+ * Builds the follow-up message that asks the agent to fix a failed verification
+ */
+export function formatVerificationReport(result: VerificationResult): string {
+  const sections: string[] = [];
+  let reported = 0;
+
+  for (const stepResult of result.steps) {
+    if (stepResult.success) {
+      continue;
+    }
+    const title = stepResult.step.kind === 'typecheck' ? 'Type check' : 'Build';
+    const remaining = MAX_REPORTED_DIAGNOSTICS - reported;
+    const shown = stepResult.diagnostics.slice(0, Math.max(0, remaining));
+    reported += shown.length;
+
+    const lines = shown.map(diagnostic => `- ${formatDiagnostic(diagnostic)}`);
+    const hidden = stepResult.diagnostics.length - shown.length;
+    if (hidden > 0) {
+      lines.push(`- ... and ${hidden} more`);
+    }
+    sections.push(`${title} failed (${stepResult.step.tool}):\n${lines.join('\n')}`);
+  }
+
+  return `[Build verification] The project no longer builds after your changes.\n\n${sections.join('\n\n')}\n\n` +
+    'Fix these errors. Read the files before editing them.';
+}
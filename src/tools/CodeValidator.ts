@@ -1,16 +1,27 @@
 /**
- * Code Validator - Syntax validation for JavaScript, TypeScript, and JSON files
- * Provides basic syntax checks before writing code files
+ * Code Validator - Syntax validation for JavaScript, TypeScript, JSON and GLSL files
+ * Parses code with the TypeScript compiler before writing code files, and checks
+ * shader files and inline ShaderMaterial shaders with the GLSL validator
  */
 
+import * as path from 'path';
+import ts from 'typescript';
+import { ShaderFileReader, validateInlineShaders, validateShaderFile } from './GlslValidator.js';
+
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
 }
 
+export interface ValidateOptions {
+  // Used to load the matching vertex/fragment shader of a shader file
+  readFile?: ShaderFileReader;
+}
+
 // File extensions that should be validated
-const VALIDATABLE_EXTENSIONS = new Set(['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.json']);
+const VALIDATABLE_EXTENSIONS = new Set(['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.mts', '.cts', '.json', '.glsl', '.vert', '.frag']);
+const SHADER_EXTENSIONS = new Set(['.glsl', '.vert', '.frag']);
 
 /**
  * Checks if a file should be validated based on its extension
@@ -23,15 +34,20 @@ export function shouldValidate(filePath: string): boolean {
 /**
  * Validates file content based on file type
  */
-export function validate(filePath: string, content: string): ValidationResult {
+export function validate(filePath: string, content: string, options: ValidateOptions = {}): ValidationResult {
   const ext = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
 
   if (ext === '.json') {
     return validateJSON(content);
   }
 
-  if (['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs'].includes(ext)) {
-    return validateJavaScript(content);
+  if (SHADER_EXTENSIONS.has(ext)) {
+    const { errors, warnings } = validateShaderFile(filePath, content, options.readFile);
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  if (['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.mts', '.cts'].includes(ext)) {
+    return validateJavaScript(content, filePath);
   }
 
   return { valid: true, errors: [], warnings: [] };
@@ -58,277 +74,104 @@ export function validateJSON(content: string): ValidationResult {
 }
 
 /**
- * Validates JavaScript/TypeScript syntax (basic checks)
+ * Validates JavaScript/TypeScript syntax (including JSX/TSX) with the TypeScript parser.
+ * Only syntactic diagnostics are reported - type errors never block a write.
+ * Shaders embedded as template literals are checked once the file parses.
  */
-export function validateJavaScript(content: string): ValidationResult {
+export function validateJavaScript(content: string, filePath = 'file.js'): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Check balanced delimiters
-  const delimiterResult = checkBalancedDelimiters(content);
-  errors.push(...delimiterResult.errors);
-
-  // Check unclosed strings
-  const stringResult = checkStrings(content);
-  errors.push(...stringResult.errors);
-  warnings.push(...stringResult.warnings);
+  const fileName = path.basename(filePath);
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (name) => (name === fileName ? sourceFile : undefined),
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: (name) => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (name) => name === fileName,
+    readFile: () => undefined,
+  };
+
+  const program = ts.createProgram({
+    rootNames: [fileName],
+    options: {
+      allowJs: true,
+      jsx: ts.JsxEmit.Preserve,
+      noLib: true,
+      noResolve: true,
+      target: ts.ScriptTarget.Latest,
+    },
+    host,
+  });
+
+  for (const diagnostic of program.getSyntacticDiagnostics(sourceFile)) {
+    errors.push(formatDiagnostic(diagnostic, sourceFile));
+  }
 
-  // Check template literals
-  const templateResult = checkTemplateLiterals(content);
-  errors.push(...templateResult.errors);
+  if (errors.length === 0) {
+    const shaders = validateInlineShaders(sourceFile);
+    errors.push(...shaders.errors);
+    warnings.push(...shaders.warnings);
+  }
 
   return { valid: errors.length === 0, errors, warnings };
 }
 
-/**
- * Checks for balanced delimiters: {}, [], ()
- */
-export function checkBalancedDelimiters(content: string): { errors: string[] } {
-  const errors: string[] = [];
-  const stack: { char: string; line: number }[] = [];
-  const pairs: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
-  const closers: Record<string, string> = { '}': '{', ']': '[', ')': '(' };
-
-  let inString: string | null = null;
-  let inTemplateString = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let lineNumber = 1;
-  let i = 0;
-
-  while (i < content.length) {
-    const char = content[i];
-    const nextChar = content[i + 1];
-
-    // Track line numbers
-    if (char === '\n') {
-      lineNumber++;
-      inLineComment = false;
-      i++;
-      continue;
-    }
-
-    // Handle comments
-    if (!inString && !inTemplateString && !inBlockComment && char === '/' && nextChar === '/') {
-      inLineComment = true;
-      i += 2;
-      continue;
-    }
-    if (!inString && !inTemplateString && !inLineComment && char === '/' && nextChar === '*') {
-      inBlockComment = true;
-      i += 2;
-      continue;
-    }
-    if (inBlockComment && char === '*' && nextChar === '/') {
-      inBlockComment = false;
-      i += 2;
-      continue;
-    }
-
-    // Skip if in comment
-    if (inLineComment || inBlockComment) {
-      i++;
-      continue;
-    }
-
-    // Handle escape sequences
-    if ((inString || inTemplateString) && char === '\\') {
-      i += 2;
-      continue;
-    }
-
-    // Handle string delimiters
-    if (char === '`') {
-      inTemplateString = !inTemplateString;
-      i++;
-      continue;
-    }
-    if ((char === '"' || char === "'") && !inTemplateString) {
-      if (inString === char) {
-        inString = null;
-      } else if (!inString) {
-        inString = char;
-      }
-      i++;
-      continue;
-    }
-
-    // Skip if inside string
-    if (inString || inTemplateString) {
-      i++;
-      continue;
-    }
-
-    // Track delimiters
-    if (pairs[char]) {
-      stack.push({ char, line: lineNumber });
-    } else if (closers[char]) {
-      const expected = closers[char];
-      if (stack.length === 0) {
-        errors.push(`Unexpected '${char}' at line ${lineNumber} - no matching '${expected}'`);
-      } else {
-        const top = stack.pop()!;
-        if (top.char !== expected) {
-          errors.push(`Mismatched delimiter: expected '${pairs[top.char]}' to close '${top.char}' from line ${top.line}, but found '${char}' at line ${lineNumber}`);
-        }
-      }
-    }
-
-    i++;
+function getScriptKind(fileName: string): ts.ScriptKind {
+  const ext = path.extname(fileName).toLowerCase();
+  switch (ext) {
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return ts.ScriptKind.TS;
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    default:
+      return ts.ScriptKind.JS;
   }
-
-  // Report unclosed delimiters
-  for (const unclosed of stack) {
-    errors.push(`Unclosed '${unclosed.char}' from line ${unclosed.line} - missing '${pairs[unclosed.char]}'`);
-  }
-
-  return { errors };
 }
 
 /**
- * Checks for unclosed string literals
+ * Formats a diagnostic as "Line L, column C: message (TScode)" followed by a code frame
  */
-export function checkStrings(content: string): { errors: string[]; warnings: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  const lines = content.split('\n');
-
-  for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
-    const line = lines[lineIdx];
-    const lineNumber = lineIdx + 1;
-
-    // Skip lines that are likely comments
-    const trimmed = line.trim();
-    if (trimmed.startsWith('//') || trimmed.startsWith('*') || trimmed.startsWith('/*')) {
-      continue;
-    }
-
-    let inString: string | null = null;
-    let stringStart = -1;
-    let i = 0;
-
-    while (i < line.length) {
-      const char = line[i];
-
-      // Handle escape sequences
-      if (inString && char === '\\') {
-        i += 2;
-        continue;
-      }
-
-      // Check for template literals - they can span multiple lines
-      if (char === '`') {
-        // Template literals are handled separately
-        i++;
-        continue;
-      }
-
-      if ((char === '"' || char === "'")) {
-        if (inString === char) {
-          inString = null;
-        } else if (!inString) {
-          inString = char;
-          stringStart = i;
-        }
-      }
-
-      i++;
-    }
-
-    // Check for unclosed string on this line (not template literals)
-    if (inString) {
-      // Check if this might be intentional (like a long string literal)
-      // or if it's clearly an error
-      const remainingContent = line.slice(stringStart);
-      if (remainingContent.length > 100) {
-        warnings.push(`Possibly unclosed string starting at line ${lineNumber}, column ${stringStart + 1}`);
-      } else {
-        errors.push(`Unclosed string '${inString}' at line ${lineNumber}, column ${stringStart + 1}`);
-      }
-    }
+function formatDiagnostic(diagnostic: ts.Diagnostic, sourceFile: ts.SourceFile): string {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (diagnostic.start === undefined) {
+    return `${message} (TS${diagnostic.code})`;
   }
 
-  return { errors, warnings };
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+  return `Line ${line + 1}, column ${character + 1}: ${message} (TS${diagnostic.code})\n` +
+    createCodeFrame(sourceFile.text, line, character, diagnostic.length ?? 1);
 }
 
 /**
- * Checks for unclosed template literals
+ * Renders the lines around an error with a caret marker under the offending span
  */
-export function checkTemplateLiterals(content: string): { errors: string[] } {
-  const errors: string[] = [];
-
-  let inTemplate = false;
-  let templateStartLine = 0;
-  let lineNumber = 1;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let inString: string | null = null;
-
-  for (let i = 0; i < content.length; i++) {
-    const char = content[i];
-    const nextChar = content[i + 1];
-
-    if (char === '\n') {
-      lineNumber++;
-      inLineComment = false;
-      continue;
-    }
-
-    // Handle comments
-    if (!inString && !inTemplate && !inBlockComment && char === '/' && nextChar === '/') {
-      inLineComment = true;
-      continue;
-    }
-    if (!inString && !inTemplate && !inLineComment && char === '/' && nextChar === '*') {
-      inBlockComment = true;
-      i++;
-      continue;
-    }
-    if (inBlockComment && char === '*' && nextChar === '/') {
-      inBlockComment = false;
-      i++;
-      continue;
-    }
-
-    if (inLineComment || inBlockComment) {
-      continue;
-    }
-
-    // Handle escape sequences
-    if ((inString || inTemplate) && char === '\\') {
-      i++;
-      continue;
-    }
-
-    // Handle regular strings
-    if ((char === '"' || char === "'") && !inTemplate) {
-      if (inString === char) {
-        inString = null;
-      } else if (!inString) {
-        inString = char;
-      }
-      continue;
-    }
-
-    if (inString) {
-      continue;
-    }
-
-    // Handle template literals
-    if (char === '`') {
-      if (inTemplate) {
-        inTemplate = false;
-      } else {
-        inTemplate = true;
-        templateStartLine = lineNumber;
-      }
+export function createCodeFrame(content: string, line: number, column: number, length = 1, contextLines = 2): string {
+  const lines = content.split('\n');
+  const first = Math.max(0, line - contextLines);
+  const last = Math.min(lines.length - 1, line + contextLines);
+  const gutterWidth = String(last + 1).length;
+  const frame: string[] = [];
+
+  for (let i = first; i <= last; i++) {
+    const marker = i === line ? '>' : ' ';
+    const lineNumber = String(i + 1).padStart(gutterWidth);
+    frame.push(`    ${marker} ${lineNumber} | ${lines[i].replace(/\t/g, '  ')}`);
+    if (i === line) {
+      const prefix = lines[i].slice(0, column).replace(/\t/g, '  ');
+      const caretLength = Math.max(1, Math.min(length, lines[i].length - column));
+      frame.push(`      ${' '.repeat(gutterWidth)} | ${' '.repeat(prefix.length)}${'^'.repeat(caretLength)}`);
     }
   }
 
-  if (inTemplate) {
-    errors.push(`Unclosed template literal starting at line ${templateStartLine}`);
-  }
-
-  return { errors };
+  return frame.join('\n');
 }
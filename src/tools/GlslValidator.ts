@@ -0,0 +1,1848 @@
+/**
+ * GLSL Validator - CPU-side checks for GLSL ES 3.0 (WebGL2) shaders
+ * Runs a preprocessor pass, parses declarations and function bodies, type checks
+ * expressions conservatively and matches varyings between vertex and fragment shaders.
+ * Shaders are treated as three.js ShaderMaterial sources (which prepend uniforms,
+ * attributes, helper functions and GLSL 1 compatibility defines) unless they declare
+ * #version 300 es or come from a RawShaderMaterial.
+ */
+
+import ts from 'typescript';
+
+export type ShaderStage = 'vertex' | 'fragment' | 'unknown';
+
+export interface GlslOptions {
+  stage: ShaderStage;
+  // Material the shader is used with, when known. RawShaderMaterial gets nothing prepended.
+  material?: 'ShaderMaterial' | 'RawShaderMaterial';
+  // Inline template literals that interpolate ${...} cannot be fully checked
+  hasSubstitutions?: boolean;
+  // Added to reported line numbers (inline shaders inside JS/TS files)
+  lineOffset?: number;
+  // Label used in messages, e.g. "fragmentShader"
+  label?: string;
+  // Macros set outside the source (ShaderMaterial defines)
+  defines?: string[];
+}
+
+export interface GlslVariable {
+  name: string;
+  type: string;
+  qualifier: string;     // uniform, in, out, const, or '' for plain globals/locals
+  flat: boolean;
+  line: number;
+}
+
+export interface ShaderInterface {
+  stage: ShaderStage;
+  inputs: Map<string, GlslVariable>;   // attributes (vertex) or varyings (fragment)
+  outputs: Map<string, GlslVariable>;  // varyings (vertex) or color outputs (fragment)
+  uniforms: Map<string, GlslVariable>;
+}
+
+export interface GlslResult {
+  errors: string[];
+  warnings: string[];
+  shaderInterface: ShaderInterface;
+}
+
+interface Token {
+  type: 'ident' | 'number' | 'op' | 'eof';
+  value: string;
+  line: number;
+  column: number;
+}
+
+interface FunctionInfo {
+  returnType: string;
+  params: string[];
+}
+
+class GlslSyntaxError extends Error {
+  constructor(message: string, public token: Token) {
+    super(message);
+  }
+}
+
+const UNKNOWN = 'unknown';
+
+const SCALAR_TYPES = new Set(['float', 'int', 'uint', 'bool']);
+const VECTOR_BASES: Record<string, string> = { vec: 'float', ivec: 'int', uvec: 'uint', bvec: 'bool' };
+const SAMPLER_TYPES = new Set([
+  'sampler2D', 'sampler3D', 'samplerCube', 'sampler2DShadow', 'samplerCubeShadow',
+  'sampler2DArray', 'sampler2DArrayShadow',
+  'isampler2D', 'isampler3D', 'isamplerCube', 'isampler2DArray',
+  'usampler2D', 'usampler3D', 'usamplerCube', 'usampler2DArray',
+]);
+
+const STORAGE_QUALIFIERS = new Set(['const', 'uniform', 'in', 'out', 'inout', 'varying', 'attribute', 'buffer', 'shared']);
+const INTERPOLATION_QUALIFIERS = new Set(['flat', 'smooth', 'centroid', 'invariant', 'noperspective']);
+const PRECISION_QUALIFIERS = new Set(['lowp', 'mediump', 'highp']);
+
+const PREPROCESSOR_DIRECTIVES = new Set([
+  'define', 'undef', 'if', 'ifdef', 'ifndef', 'else', 'elif', 'endif',
+  'error', 'pragma', 'extension', 'version', 'line', 'include',
+]);
+
+// Built-in functions whose result has the type of one of their arguments
+const SAME_AS_ARG: Record<string, number> = {
+  radians: 0, degrees: 0, sin: 0, cos: 0, tan: 0, asin: 0, acos: 0, atan: 0,
+  sinh: 0, cosh: 0, tanh: 0, asinh: 0, acosh: 0, atanh: 0,
+  pow: 0, exp: 0, log: 0, exp2: 0, log2: 0, sqrt: 0, inversesqrt: 0,
+  abs: 0, sign: 0, floor: 0, trunc: 0, round: 0, roundEven: 0, ceil: 0, fract: 0,
+  mod: 0, min: 0, max: 0, clamp: 0, mix: 0, step: 1, smoothstep: 2,
+  normalize: 0, faceforward: 0, reflect: 0, refract: 0,
+  dFdx: 0, dFdy: 0, fwidth: 0, transpose: 0, inverse: 0, not: 0,
+};
+
+const FIXED_RETURN: Record<string, string> = {
+  length: 'float', distance: 'float', dot: 'float', determinant: 'float',
+  cross: 'vec3', any: 'bool', all: 'bool',
+  texture2D: 'vec4', textureCube: 'vec4', texture2DLod: 'vec4', textureCubeLod: 'vec4', texture2DProj: 'vec4',
+  isnan: UNKNOWN, isinf: UNKNOWN,
+  floatBitsToInt: UNKNOWN, floatBitsToUint: UNKNOWN, intBitsToFloat: UNKNOWN, uintBitsToFloat: UNKNOWN,
+  packSnorm2x16: 'uint', packUnorm2x16: 'uint', packHalf2x16: 'uint',
+  unpackSnorm2x16: 'vec2', unpackUnorm2x16: 'vec2', unpackHalf2x16: 'vec2',
+  outerProduct: UNKNOWN, modf: UNKNOWN, matrixCompMult: UNKNOWN,
+  lessThan: UNKNOWN, lessThanEqual: UNKNOWN, greaterThan: UNKNOWN, greaterThanEqual: UNKNOWN,
+  equal: UNKNOWN, notEqual: UNKNOWN, textureSize: UNKNOWN,
+};
+
+// Texture lookups return vec4 (ivec4/uvec4 for integer samplers)
+const TEXTURE_FUNCTIONS = new Set([
+  'texture', 'textureProj', 'textureLod', 'textureOffset', 'texelFetch', 'texelFetchOffset',
+  'textureProjOffset', 'textureLodOffset', 'textureProjLod', 'textureProjLodOffset',
+  'textureGrad', 'textureGradOffset', 'textureProjGrad', 'textureProjGradOffset',
+]);
+
+// Variables three.js ShaderMaterial prepends to every shader
+const THREE_COMMON_UNIFORMS: Record<string, string> = {
+  modelMatrix: 'mat4', modelViewMatrix: 'mat4', projectionMatrix: 'mat4', viewMatrix: 'mat4',
+  normalMatrix: 'mat3', cameraPosition: 'vec3', isOrthographic: 'bool',
+};
+const THREE_VERTEX_ATTRIBUTES: Record<string, string> = {
+  position: 'vec3', normal: 'vec3', uv: 'vec2',
+};
+// Only prepended when the material enables the matching feature, so they may be declared
+const THREE_OPTIONAL_ATTRIBUTES: Record<string, string> = {
+  uv1: 'vec2', uv2: 'vec2', uv3: 'vec2', tangent: 'vec4', color: 'vec3',
+  instanceMatrix: 'mat4', instanceColor: 'vec3', skinIndex: 'vec4', skinWeight: 'vec4',
+};
+
+const VERTEX_BUILTINS: Record<string, string> = {
+  gl_Position: 'vec4', gl_PointSize: 'float', gl_VertexID: 'int', gl_InstanceID: 'int',
+};
+const FRAGMENT_BUILTINS: Record<string, string> = {
+  gl_FragCoord: 'vec4', gl_FrontFacing: 'bool', gl_PointCoord: 'vec2', gl_FragDepth: 'float',
+};
+const READ_ONLY_BUILTINS = new Set(['gl_VertexID', 'gl_InstanceID', 'gl_FragCoord', 'gl_FrontFacing', 'gl_PointCoord']);
+
+// Functions three.js ShaderMaterial prepends to fragment shaders (color space and tone mapping)
+const THREE_FRAGMENT_FUNCTIONS: Record<string, string> = {
+  luminance: 'float', linearToOutputTexel: 'vec4', toneMapping: 'vec3',
+  sRGBTransferOETF: 'vec4', sRGBTransferEOTF: 'vec4', LinearTransferOETF: 'vec4',
+  LinearToneMapping: 'vec3', ReinhardToneMapping: 'vec3', CineonToneMapping: 'vec3',
+  ACESFilmicToneMapping: 'vec3', AgXToneMapping: 'vec3', NeutralToneMapping: 'vec3',
+};
+
+// GLSL ES 1.00 names removed in GLSL ES 3.00
+const LEGACY_TEXTURE_FUNCTIONS = new Set(['texture2D', 'textureCube', 'texture2DLod', 'textureCubeLod', 'texture2DProj']);
+
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'return', 'break', 'continue', 'discard', 'switch', 'case', 'default',
+  'struct', 'precision', 'layout', 'true', 'false',
+]);
+
+/**
+ * Infers the shader stage from a file path (and content as a fallback)
+ */
+export function getShaderStage(filePath: string, content = ''): ShaderStage {
+  const name = filePath.split(/[\\/]/).pop() ?? '';
+  // water.vert, vertex.glsl, water.vs.glsl, waterVertex.glsl
+  if (/\.vert$/i.test(name) || /(^|[._-])(vert|vertex|vs)([._-]|$)/i.test(name) || /[a-z0-9](Vert|Vertex)([._A-Z-]|$)/.test(name)) return 'vertex';
+  if (/\.frag$/i.test(name) || /(^|[._-])(frag|fragment|fs)([._-]|$)/i.test(name) || /[a-z0-9](Frag|Fragment)([._A-Z-]|$)/.test(name)) return 'fragment';
+  if (/\bgl_Position\b/.test(content)) return 'vertex';
+  if (/\b(gl_FragColor|gl_FragCoord|discard)\b/.test(content)) return 'fragment';
+  return 'unknown';
+}
+
+// ─── Type helpers ─────────────────────────────────────────────
+
+function vectorInfo(type: string): { base: string; size: number } | null {
+  const match = type.match(/^(vec|ivec|uvec|bvec)([234])$/);
+  return match ? { base: VECTOR_BASES[match[1]], size: Number(match[2]) } : null;
+}
+
+function matrixInfo(type: string): { columns: number; rows: number } | null {
+  const match = type.match(/^mat([234])(?:x([234]))?$/);
+  return match ? { columns: Number(match[1]), rows: Number(match[2] ?? match[1]) } : null;
+}
+
+function baseType(type: string): string {
+  if (SCALAR_TYPES.has(type)) return type;
+  const vector = vectorInfo(type);
+  if (vector) return vector.base;
+  if (matrixInfo(type)) return 'float';
+  return UNKNOWN;
+}
+
+function makeVector(base: string, size: number): string {
+  if (size === 1) return base;
+  const prefix = Object.keys(VECTOR_BASES).find(key => VECTOR_BASES[key] === base);
+  return prefix ? `${prefix}${size}` : UNKNOWN;
+}
+
+function isBuiltinType(type: string): boolean {
+  return SCALAR_TYPES.has(type) || type === 'void' || !!vectorInfo(type) || !!matrixInfo(type) || SAMPLER_TYPES.has(type);
+}
+
+function isNumericScalar(type: string): boolean {
+  return type === 'float' || type === 'int' || type === 'uint';
+}
+
+function normalizeMatrix(type: string): string {
+  const matrix = matrixInfo(type);
+  return matrix && matrix.columns === matrix.rows ? `mat${matrix.columns}` : type;
+}
+
+function literalType(value: string): string {
+  if (/^0x[0-9a-f]+u?$/i.test(value)) return value.toLowerCase().endsWith('u') ? 'uint' : 'int';
+  if (/[.eE]/.test(value) || /f$/i.test(value)) return 'float';
+  return /u$/i.test(value) ? 'uint' : 'int';
+}
+
+// ─── Preprocessor ─────────────────────────────────────────────
+
+interface PreprocessResult {
+  source: string;               // directives and comments blanked out, line structure kept
+  defines: Map<string, string>; // object-like macro values
+  macros: Set<string>;          // function-like macro names
+  conditionalLines: Set<number>;
+  hasInclude: boolean;
+  version: string | null;
+  versionLine: number;
+  firstCodeLine: number;
+}
+
+function stripComments(source: string): string {
+  let output = '';
+  let i = 0;
+  while (i < source.length) {
+    if (source[i] === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source[i] === '/' && source[i + 1] === '*') {
+      i += 2;
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        if (source[i] === '\n') output += '\n';
+        i++;
+      }
+      i += 2;
+      output += ' ';
+    } else {
+      output += source[i++];
+    }
+  }
+  return output;
+}
+
+function preprocess(rawSource: string, errors: Diagnostics): PreprocessResult {
+  // Join line continuations but keep line numbering stable
+  const lines = stripComments(rawSource).replace(/\\\r?\n/g, ' \u0001').split('\n')
+    .flatMap(line => {
+      const parts = line.split('\u0001');
+      return parts.length > 1 ? [parts.join(''), ...parts.slice(1).map(() => '')] : [line];
+    });
+
+  const result: PreprocessResult = {
+    source: '',
+    defines: new Map(),
+    macros: new Set(),
+    conditionalLines: new Set(),
+    hasInclude: false,
+    version: null,
+    versionLine: 0,
+    firstCodeLine: 0,
+  };
+
+  const conditionals: { line: number; disabled: boolean; sawElse: boolean }[] = [];
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const line = lines[i];
+    const trimmed = line.trim();
+    const disabled = conditionals.some(conditional => conditional.disabled);
+
+    if (!trimmed.startsWith('#')) {
+      if (trimmed && !result.firstCodeLine) result.firstCodeLine = lineNumber;
+      if (conditionals.length > 0) result.conditionalLines.add(lineNumber);
+      output.push(disabled ? '' : line);
+      continue;
+    }
+
+    output.push('');
+    const match = trimmed.match(/^#\s*(\w*)\s*(.*)$/);
+    const directive = match?.[1] ?? '';
+    const rest = (match?.[2] ?? '').trim();
+
+    if (!directive) continue; // A lone '#' is a null directive
+    if (!PREPROCESSOR_DIRECTIVES.has(directive)) {
+      errors.error(lineNumber, `Unknown preprocessor directive '#${directive}'`);
+      continue;
+    }
+
+    switch (directive) {
+      case 'version':
+        if (result.firstCodeLine || result.version !== null) {
+          errors.error(lineNumber, '#version must be the first line of the shader');
+        }
+        result.version = rest;
+        result.versionLine = lineNumber;
+        break;
+      case 'define': {
+        const defineMatch = rest.match(/^(\w+)(\()?/);
+        if (!defineMatch) {
+          errors.error(lineNumber, '#define requires a macro name');
+        } else if (defineMatch[2]) {
+          result.macros.add(defineMatch[1]);
+        } else {
+          result.defines.set(defineMatch[1], rest.slice(defineMatch[1].length).trim());
+        }
+        break;
+      }
+      case 'undef':
+        result.defines.delete(rest);
+        result.macros.delete(rest);
+        break;
+      case 'if':
+      case 'ifdef':
+      case 'ifndef':
+        if (!rest) errors.error(lineNumber, `#${directive} requires a condition`);
+        conditionals.push({ line: lineNumber, disabled: directive === 'if' && /^0\s*$/.test(rest), sawElse: false });
+        break;
+      case 'elif':
+      case 'else': {
+        const top = conditionals[conditionals.length - 1];
+        if (!top) {
+          errors.error(lineNumber, `#${directive} without matching #if`);
+        } else if (top.sawElse) {
+          errors.error(lineNumber, `#${directive} after #else`);
+        } else {
+          top.sawElse = directive === 'else';
+          top.disabled = false;
+        }
+        break;
+      }
+      case 'endif':
+        if (!conditionals.pop()) errors.error(lineNumber, '#endif without matching #if');
+        break;
+      case 'include':
+        result.hasInclude = true;
+        if (!/^<[\w./-]+>$/.test(rest)) {
+          errors.error(lineNumber, `Invalid #include syntax: use #include <chunk_name>`);
+        }
+        break;
+      case 'error':
+        if (!disabled) errors.error(lineNumber, `#error ${rest}`);
+        break;
+      default:
+        break;
+    }
+  }
+
+  for (const conditional of conditionals) {
+    errors.error(conditional.line, 'Unterminated conditional directive (missing #endif)');
+  }
+
+  result.source = output.join('\n');
+  return result;
+}
+
+// ─── Tokenizer ────────────────────────────────────────────────
+
+const OPERATORS = [
+  '<<=', '>>=', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '^^',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=',
+  '+', '-', '*', '/', '%', '<', '>', '=', '!', '~', '&', '|', '^', '?', ':',
+  ';', ',', '.', '(', ')', '[', ']', '{', '}',
+];
+
+function tokenize(source: string, errors: Diagnostics): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      lineStart = ++i;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const column = i - lineStart + 1;
+
+    if (/[A-Za-z_]/.test(char)) {
+      let end = i + 1;
+      while (end < source.length && /\w/.test(source[end])) end++;
+      tokens.push({ type: 'ident', value: source.slice(i, end), line, column });
+      i = end;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^(0[xX][0-9a-fA-F]+[uU]?|(\d+\.\d*|\.\d+|\d+)([eE][+-]?\d+)?[fFuU]?)/);
+      const value = match ? match[0] : char;
+      // Floating point literals cannot take the unsigned suffix
+      if (!/^0x/i.test(value) && /[.eE]/.test(value) && /[uU]$/.test(value)) {
+        errors.error(line, `Invalid numeric literal '${value}'`, column);
+      }
+      tokens.push({ type: 'number', value, line, column });
+      i += value.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'op', value: operator, line, column });
+      i += operator.length;
+      continue;
+    }
+
+    errors.error(line, `Unexpected character '${char}'${char === '"' || char === "'" ? ' (GLSL has no string literals)' : ''}`, column);
+    i++;
+  }
+
+  tokens.push({ type: 'eof', value: '<end of shader>', line, column: 1 });
+  return tokens;
+}
+
+// ─── Diagnostics ──────────────────────────────────────────────
+
+class Diagnostics {
+  errors: string[] = [];
+  warnings: string[] = [];
+  private seen = new Set<string>();
+
+  constructor(private lineOffset: number, private label: string) {}
+
+  error(line: number, message: string, column?: number): void {
+    this.add(this.errors, line, message, column);
+  }
+
+  warning(line: number, message: string, column?: number): void {
+    this.add(this.warnings, line, message, column);
+  }
+
+  private add(target: string[], line: number, message: string, column?: number): void {
+    const location = `Line ${line + this.lineOffset}${column ? `, column ${column}` : ''}`;
+    const text = `${location}${this.label ? ` (${this.label})` : ''}: ${message}`;
+    if (!this.seen.has(text)) {
+      this.seen.add(text);
+      target.push(text);
+    }
+  }
+}
+
+// ─── Parser and checker ───────────────────────────────────────
+
+class GlslChecker {
+  private tokens: Token[] = [];
+  private pos = 0;
+  private scopes: Map<string, GlslVariable>[] = [];
+  private structs = new Map<string, Map<string, string>>();
+  private functions = new Map<string, FunctionInfo[]>();
+  private currentFunction: FunctionInfo | null = null;
+  private precisionFloat = false;
+  private writesPosition = false;
+  private writesFragColor = false;
+  private hasMain = false;
+  private readonly shaderInterface: ShaderInterface;
+  // three.js prepends its uniforms, attributes and helpers (anything but RawShaderMaterial)
+  private readonly prelude: boolean;
+  // #version 300 es: GLSL ES 1.00 names such as gl_FragColor and texture2D are gone
+  private readonly glsl3: boolean;
+  private readonly lenient: boolean;
+
+  constructor(
+    private readonly options: GlslOptions,
+    private readonly pre: PreprocessResult,
+    private readonly diagnostics: Diagnostics,
+  ) {
+    this.glsl3 = /^300\s+es$/.test(pre.version ?? '');
+    this.prelude = options.material !== 'RawShaderMaterial' && !this.glsl3;
+    // Chunks and ${} substitutions may declare anything, so undeclared names are not reported
+    this.lenient = pre.hasInclude || !!options.hasSubstitutions;
+    this.shaderInterface = { stage: options.stage, inputs: new Map(), outputs: new Map(), uniforms: new Map() };
+  }
+
+  check(tokens: Token[]): ShaderInterface {
+    this.tokens = tokens;
+    this.scopes = [this.createGlobalScope()];
+
+    try {
+      while (!this.atEnd()) {
+        this.parseExternalDeclaration();
+      }
+    } catch (error) {
+      if (error instanceof GlslSyntaxError) {
+        this.diagnostics.error(error.token.line, error.message, error.token.column);
+        return this.shaderInterface;
+      }
+      throw error;
+    }
+
+    this.checkStageRequirements();
+    return this.shaderInterface;
+  }
+
+  private createGlobalScope(): Map<string, GlslVariable> {
+    const scope = new Map<string, GlslVariable>();
+    // Line 0 marks built-ins, line -1 marks declarations three.js always prepends
+    const add = (name: string, type: string, qualifier: string, line = 0) =>
+      scope.set(name, { name, type, qualifier, flat: false, line });
+
+    const stage = this.options.stage;
+    if (stage !== 'fragment') {
+      Object.entries(VERTEX_BUILTINS).forEach(([name, type]) => add(name, type, READ_ONLY_BUILTINS.has(name) ? 'in' : ''));
+    }
+    if (stage !== 'vertex') {
+      Object.entries(FRAGMENT_BUILTINS).forEach(([name, type]) => add(name, type, READ_ONLY_BUILTINS.has(name) ? 'in' : ''));
+    }
+
+    if (!this.glsl3 && stage !== 'vertex') {
+      // Built into GLSL ES 1.00, and mapped to an output by three.js for ShaderMaterial
+      add('gl_FragColor', 'vec4', '');
+    }
+
+    if (this.prelude) {
+      Object.entries(THREE_COMMON_UNIFORMS).forEach(([name, type]) => add(name, type, 'uniform', -1));
+      if (stage !== 'fragment') {
+        Object.entries(THREE_VERTEX_ATTRIBUTES).forEach(([name, type]) => add(name, type, 'in', -1));
+        Object.entries(THREE_OPTIONAL_ATTRIBUTES).forEach(([name, type]) => add(name, type, 'in'));
+      }
+      if (stage !== 'vertex') {
+        for (const [name, returnType] of Object.entries(THREE_FRAGMENT_FUNCTIONS)) {
+          this.functions.set(name, [{ returnType, params: [UNKNOWN] }]);
+        }
+      }
+      this.precisionFloat = true;
+    }
+
+    for (const name of this.options.defines ?? []) {
+      add(name, UNKNOWN, 'const');
+    }
+    for (const [name, value] of this.pre.defines) {
+      const type = /^[-+]?[\d.]+([eE][+-]?\d+)?[uUfF]?$/.test(value) ? literalType(value.replace(/^[-+]/, '')) : UNKNOWN;
+      add(name, type, 'const');
+    }
+
+    return scope;
+  }
+
+  // ── Token helpers ──
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private atEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type !== 'number' && token.type !== 'eof' && token.value === value;
+  }
+
+  private accept(value: string): boolean {
+    if (this.is(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (!this.is(value)) {
+      throw new GlslSyntaxError(`Expected '${value}' but found '${token.value}'`, token);
+    }
+    return this.next();
+  }
+
+  private expectIdentifier(what: string): Token {
+    const token = this.peek();
+    if (token.type !== 'ident' || KEYWORDS.has(token.value)) {
+      throw new GlslSyntaxError(`Expected ${what} but found '${token.value}'`, token);
+    }
+    return this.next();
+  }
+
+  // ── Scopes ──
+
+  private lookup(name: string): GlslVariable | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const variable = this.scopes[i].get(name);
+      if (variable) return variable;
+    }
+    return undefined;
+  }
+
+  private declare(variable: GlslVariable, token: Token): void {
+    const scope = this.scopes[this.scopes.length - 1];
+    const existing = scope.get(variable.name);
+    if (existing?.line === -1) {
+      if (this.options.material === 'ShaderMaterial') {
+        this.diagnostics.error(token.line, `'${variable.name}' is already declared by ShaderMaterial - remove this declaration (or use RawShaderMaterial)`, token.column);
+      } else {
+        this.diagnostics.warning(token.line, `'${variable.name}' is already declared by ShaderMaterial - remove this declaration unless the shader is used with RawShaderMaterial`, token.column);
+      }
+    }
+    // Declarations inside #if branches may legitimately repeat
+    if (existing && existing.line > 0 && !this.pre.conditionalLines.has(token.line) && !this.pre.conditionalLines.has(existing.line)) {
+      this.diagnostics.error(token.line, `'${variable.name}' is already declared on line ${existing.line}`, token.column);
+    }
+    scope.set(variable.name, variable);
+  }
+
+  private isTypeName(name: string): boolean {
+    return isBuiltinType(name) || this.structs.has(name);
+  }
+
+  private startsDeclaration(): boolean {
+    const token = this.peek();
+    if (token.type !== 'ident') return false;
+    if (STORAGE_QUALIFIERS.has(token.value) || INTERPOLATION_QUALIFIERS.has(token.value) ||
+        PRECISION_QUALIFIERS.has(token.value) || token.value === 'layout' || token.value === 'struct') {
+      return true;
+    }
+    if (!this.isTypeName(token.value)) {
+      // Unknown type followed by a name looks like a declaration with a typo'd type
+      const following = this.peek(1);
+      return following.type === 'ident' && !KEYWORDS.has(token.value) &&
+        (this.is(';', 2) || this.is('=', 2) || this.is('[', 2) || this.is(',', 2)) &&
+        !this.lookup(token.value) && !this.pre.macros.has(token.value);
+    }
+    return this.peek(1).type === 'ident' || this.is('[', 1);
+  }
+
+  // ── Declarations ──
+
+  private parseQualifiers(): { storage: string; flat: boolean; precision: string } {
+    let storage = '';
+    let flat = false;
+    let precision = '';
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'ident') break;
+      if (token.value === 'layout') {
+        this.next();
+        this.skipBalanced('(', ')');
+      } else if (STORAGE_QUALIFIERS.has(token.value)) {
+        this.next();
+        // "const in" is the only valid pair (function parameters)
+        if (storage && !(storage === 'const' && token.value === 'in')) {
+          this.diagnostics.error(token.line, `Multiple storage qualifiers ('${storage}' and '${token.value}')`, token.column);
+        }
+        storage = token.value;
+      } else if (INTERPOLATION_QUALIFIERS.has(token.value)) {
+        this.next();
+        if (token.value === 'flat') flat = true;
+      } else if (PRECISION_QUALIFIERS.has(token.value)) {
+        this.next();
+        precision = token.value;
+      } else {
+        break;
+      }
+    }
+
+    return { storage, flat, precision };
+  }
+
+  private skipBalanced(open: string, close: string): void {
+    this.expect(open);
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === 'eof') throw new GlslSyntaxError(`Missing '${close}'`, token);
+      if (token.value === open) depth++;
+      if (token.value === close) depth--;
+    }
+  }
+
+  private parseType(): { type: string; token: Token } {
+    const token = this.expectIdentifier('a type');
+    if (!this.isTypeName(token.value)) {
+      this.diagnostics.error(token.line, `Unknown type '${token.value}'`, token.column);
+      return { type: UNKNOWN, token };
+    }
+    let type = normalizeMatrix(token.value);
+    if (this.is('[')) {
+      this.skipBalanced('[', ']');
+      type += '[]';
+    }
+    return { type, token };
+  }
+
+  private parseExternalDeclaration(): void {
+    if (this.accept(';')) return;
+
+    if (this.is('precision')) {
+      this.next();
+      const precision = this.expectIdentifier('a precision qualifier');
+      if (!PRECISION_QUALIFIERS.has(precision.value)) {
+        this.diagnostics.error(precision.line, `Invalid precision qualifier '${precision.value}'`, precision.column);
+      }
+      const type = this.expectIdentifier('a type');
+      if (type.value === 'float') this.precisionFloat = true;
+      this.expect(';');
+      return;
+    }
+
+    const qualifiers = this.parseQualifiers();
+
+    if (this.is('struct')) {
+      const structType = this.parseStruct();
+      if (!this.accept(';')) {
+        this.parseDeclarators(structType, qualifiers);
+      }
+      return;
+    }
+
+    // Uniform block: uniform Name { ... } [instance];
+    if (qualifiers.storage === 'uniform' && this.peek().type === 'ident' && this.is('{', 1)) {
+      this.next();
+      this.expect('{');
+      while (!this.accept('}')) {
+        this.parseQualifiers();
+        const member = this.parseType();
+        do {
+          const name = this.expectIdentifier('a member name');
+          let memberType = member.type;
+          if (this.is('[')) {
+            this.skipBalanced('[', ']');
+            memberType += '[]';
+          }
+          const variable = { name: name.value, type: memberType, qualifier: 'uniform', flat: false, line: name.line };
+          this.declare(variable, name);
+          this.shaderInterface.uniforms.set(name.value, variable);
+        } while (this.accept(','));
+        this.expect(';');
+      }
+      if (this.peek().type === 'ident') this.next();
+      this.expect(';');
+      return;
+    }
+
+    const { type } = this.parseType();
+
+    // Interface-only statement such as "invariant gl_Position;"
+    if (this.accept(';')) return;
+
+    const nameToken = this.expectIdentifier('a name');
+
+    if (this.is('(')) {
+      this.parseFunction(type, nameToken);
+      return;
+    }
+
+    this.pos--;
+    this.parseDeclarators(type, qualifiers);
+  }
+
+  private parseStruct(): string {
+    this.expect('struct');
+    const nameToken = this.expectIdentifier('a struct name');
+    const fields = new Map<string, string>();
+    this.structs.set(nameToken.value, fields);
+
+    this.expect('{');
+    while (!this.accept('}')) {
+      this.parseQualifiers();
+      const { type } = this.parseType();
+      do {
+        const field = this.expectIdentifier('a field name');
+        let fieldType = type;
+        if (this.is('[')) {
+          this.skipBalanced('[', ']');
+          fieldType += '[]';
+        }
+        fields.set(field.value, fieldType);
+      } while (this.accept(','));
+      this.expect(';');
+    }
+    return nameToken.value;
+  }
+
+  private parseDeclarators(type: string, qualifiers: { storage: string; flat: boolean }): void {
+    const isGlobal = this.scopes.length === 1;
+    const storage = qualifiers.storage;
+
+    do {
+      const nameToken = this.expectIdentifier('a variable name');
+      let variableType = type;
+      if (this.is('[')) {
+        this.skipBalanced('[', ']');
+        variableType = type.endsWith('[]') ? type : `${type}[]`;
+      }
+
+      if (isGlobal) {
+        this.checkGlobalQualifiers(variableType, qualifiers, nameToken);
+      } else if (storage && storage !== 'const') {
+        this.diagnostics.error(nameToken.line, `'${storage}' variables must be declared at global scope`, nameToken.column);
+      }
+
+      if (this.accept('=')) {
+        if (storage === 'uniform') {
+          this.diagnostics.error(nameToken.line, `Uniform '${nameToken.value}' cannot have an initializer in GLSL ES`, nameToken.column);
+        }
+        if (storage === 'in' || storage === 'out' || storage === 'varying' || storage === 'attribute') {
+          this.diagnostics.error(nameToken.line, `'${storage}' variable '${nameToken.value}' cannot have an initializer`, nameToken.column);
+        }
+        const initToken = this.peek();
+        const initType = this.parseAssignmentExpression();
+        this.checkAssignable(variableType, initType, initToken, `initialize ${variableType} '${nameToken.value}' with ${initType}`);
+      } else if (storage === 'const') {
+        this.diagnostics.error(nameToken.line, `const '${nameToken.value}' must be initialized`, nameToken.column);
+      }
+
+      const qualifier = storage === 'varying'
+        ? (this.options.stage === 'fragment' ? 'in' : 'out')
+        : storage === 'attribute' ? 'in' : storage;
+      const variable: GlslVariable = { name: nameToken.value, type: variableType, qualifier, flat: qualifiers.flat, line: nameToken.line };
+      this.declare(variable, nameToken);
+
+      if (isGlobal) {
+        if (qualifier === 'uniform') this.shaderInterface.uniforms.set(variable.name, variable);
+        if (qualifier === 'in') this.shaderInterface.inputs.set(variable.name, variable);
+        if (qualifier === 'out') this.shaderInterface.outputs.set(variable.name, variable);
+      }
+    } while (this.accept(','));
+
+    if (!this.is(';')) {
+      throw new GlslSyntaxError(`Expected ';' after declaration but found '${this.peek().value}'`, this.peek());
+    }
+    this.next();
+  }
+
+  private checkGlobalQualifiers(type: string, qualifiers: { storage: string; flat: boolean }, nameToken: Token): void {
+    const { storage } = qualifiers;
+    const stage = this.options.stage;
+    const name = nameToken.value;
+    const elementType = type.replace(/\[\]$/, '');
+    const isSampler = SAMPLER_TYPES.has(elementType);
+
+    if (isSampler && storage !== 'uniform') {
+      this.diagnostics.error(nameToken.line, `Sampler '${name}' must be declared as a uniform`, nameToken.column);
+    }
+
+    if (this.glsl3 && (storage === 'varying' || storage === 'attribute')) {
+      this.diagnostics.error(nameToken.line, `'${storage}' is not available in GLSL ES 3.00 - use '${storage === 'attribute' ? 'in' : stage === 'fragment' ? 'in' : 'out'}'`, nameToken.column);
+    }
+
+    if (storage === 'attribute' && stage === 'fragment') {
+      this.diagnostics.error(nameToken.line, `Attributes can only be declared in vertex shaders ('${name}')`, nameToken.column);
+    }
+
+    const isVarying = storage === 'varying' || (storage === 'out' && stage === 'vertex') || (storage === 'in' && stage === 'fragment');
+    const isAttribute = storage === 'attribute' || (storage === 'in' && stage === 'vertex');
+
+    if (isVarying || isAttribute || (storage === 'out' && stage === 'fragment')) {
+      if (elementType === 'bool' || elementType.startsWith('bvec')) {
+        this.diagnostics.error(nameToken.line, `'${name}' cannot be a boolean type when declared '${storage}'`, nameToken.column);
+      }
+      if (isSampler) {
+        this.diagnostics.error(nameToken.line, `'${name}' cannot be a sampler when declared '${storage}'`, nameToken.column);
+      }
+    }
+
+    if (isVarying && !qualifiers.flat && (baseType(elementType) === 'int' || baseType(elementType) === 'uint')) {
+      this.diagnostics.error(nameToken.line, `Integer varying '${name}' must be declared 'flat'`, nameToken.column);
+    }
+
+    if (isAttribute && (type.endsWith('[]') || this.structs.has(elementType))) {
+      this.diagnostics.error(nameToken.line, `Vertex input '${name}' cannot be an array or struct`, nameToken.column);
+    }
+
+    if (storage === 'out' && stage === 'fragment' && !(vectorInfo(elementType) || isNumericScalar(elementType))) {
+      this.diagnostics.error(nameToken.line, `Fragment output '${name}' must be a float, int or uint scalar or vector`, nameToken.column);
+    }
+  }
+
+  private parseFunction(returnType: string, nameToken: Token): void {
+    this.expect('(');
+    const params: GlslVariable[] = [];
+
+    if (!this.is(')')) {
+      // "void" parameter list
+      if (this.is('void') && this.is(')', 1)) {
+        this.next();
+      } else {
+        do {
+          const qualifiers = this.parseQualifiers();
+          const { type } = this.parseType();
+          let paramType = type;
+          let paramToken: Token | null = null;
+          if (this.peek().type === 'ident') {
+            paramToken = this.next();
+            if (this.is('[')) {
+              this.skipBalanced('[', ']');
+              paramType += '[]';
+            }
+          }
+          params.push({
+            name: paramToken?.value ?? '',
+            type: paramType,
+            qualifier: qualifiers.storage === 'const' ? 'const' : '',
+            flat: false,
+            line: paramToken?.line ?? nameToken.line,
+          });
+        } while (this.accept(','));
+      }
+    }
+    this.expect(')');
+
+    const info: FunctionInfo = { returnType, params: params.map(param => param.type) };
+    const overloads = this.functions.get(nameToken.value) ?? [];
+    if (!overloads.some(existing => existing.params.join(',') === info.params.join(','))) {
+      overloads.push(info);
+    }
+    this.functions.set(nameToken.value, overloads);
+
+    if (nameToken.value === 'main') {
+      this.hasMain = true;
+      if (returnType !== 'void' || params.length > 0) {
+        this.diagnostics.error(nameToken.line, 'main must be declared as "void main()"', nameToken.column);
+      }
+    }
+
+    // Prototype only
+    if (this.accept(';')) return;
+
+    this.currentFunction = info;
+    this.scopes.push(new Map(params.filter(param => param.name).map(param => [param.name, param])));
+    this.parseBlock(false);
+    this.scopes.pop();
+    this.currentFunction = null;
+  }
+
+  // ── Statements ──
+
+  private parseBlock(newScope = true): void {
+    this.expect('{');
+    if (newScope) this.scopes.push(new Map());
+    while (!this.is('}')) {
+      if (this.atEnd()) {
+        throw new GlslSyntaxError("Missing '}' at end of block", this.peek());
+      }
+      this.parseStatement();
+    }
+    this.next();
+    if (newScope) this.scopes.pop();
+  }
+
+  private parseStatement(): void {
+    const token = this.peek();
+
+    if (this.is('{')) {
+      this.parseBlock();
+      return;
+    }
+    if (this.accept(';')) return;
+
+    switch (token.type === 'ident' ? token.value : '') {
+      case 'if':
+        this.next();
+        this.expect('(');
+        this.expectCondition();
+        this.expect(')');
+        this.parseScopedStatement();
+        if (this.accept('else')) this.parseScopedStatement();
+        return;
+      case 'for':
+        this.next();
+        this.expect('(');
+        this.scopes.push(new Map());
+        if (!this.accept(';')) {
+          if (this.startsDeclaration()) {
+            this.parseLocalDeclaration();
+          } else {
+            this.parseExpression();
+            this.expect(';');
+          }
+        }
+        if (!this.is(';')) this.expectCondition();
+        this.expect(';');
+        if (!this.is(')')) this.parseExpression();
+        this.expect(')');
+        this.parseScopedStatement();
+        this.scopes.pop();
+        return;
+      case 'while':
+        this.next();
+        this.expect('(');
+        this.expectCondition();
+        this.expect(')');
+        this.parseScopedStatement();
+        return;
+      case 'do':
+        this.next();
+        this.parseScopedStatement();
+        this.expect('while');
+        this.expect('(');
+        this.expectCondition();
+        this.expect(')');
+        this.expect(';');
+        return;
+      case 'switch':
+        this.next();
+        this.expect('(');
+        this.parseExpression();
+        this.expect(')');
+        this.parseBlock();
+        return;
+      case 'case':
+        this.next();
+        this.parseExpression();
+        this.expect(':');
+        return;
+      case 'default':
+        this.next();
+        this.expect(':');
+        return;
+      case 'break':
+      case 'continue':
+        this.next();
+        this.expect(';');
+        return;
+      case 'discard':
+        this.next();
+        if (this.options.stage === 'vertex') {
+          this.diagnostics.error(token.line, "'discard' can only be used in fragment shaders", token.column);
+        }
+        this.expect(';');
+        return;
+      case 'return': {
+        this.next();
+        const expected = this.currentFunction?.returnType ?? UNKNOWN;
+        if (this.accept(';')) {
+          if (expected !== 'void' && expected !== UNKNOWN) {
+            this.diagnostics.error(token.line, `Function must return a value of type ${expected}`, token.column);
+          }
+          return;
+        }
+        const valueToken = this.peek();
+        const valueType = this.parseExpression();
+        if (expected === 'void') {
+          this.diagnostics.error(valueToken.line, 'void function cannot return a value', valueToken.column);
+        } else {
+          this.checkAssignable(expected, valueType, valueToken, `return ${valueType} from a function returning ${expected}`);
+        }
+        this.expect(';');
+        return;
+      }
+    }
+
+    if (this.startsDeclaration()) {
+      this.parseLocalDeclaration();
+      return;
+    }
+
+    this.parseExpression();
+    if (!this.is(';')) {
+      throw new GlslSyntaxError(`Expected ';' but found '${this.peek().value}'`, this.peek());
+    }
+    this.next();
+  }
+
+  private parseScopedStatement(): void {
+    this.scopes.push(new Map());
+    this.parseStatement();
+    this.scopes.pop();
+  }
+
+  private parseLocalDeclaration(): void {
+    const qualifiers = this.parseQualifiers();
+    if (this.is('struct')) {
+      const structType = this.parseStruct();
+      if (!this.accept(';')) this.parseDeclarators(structType, qualifiers);
+      return;
+    }
+    const { type } = this.parseType();
+    this.parseDeclarators(type, qualifiers);
+  }
+
+  private expectCondition(): void {
+    const token = this.peek();
+    const type = this.parseExpression();
+    if (type !== UNKNOWN && type !== 'bool') {
+      this.diagnostics.error(token.line, `Condition must be a bool, found ${type} (GLSL has no implicit conversion to bool)`, token.column);
+    }
+  }
+
+  // ── Expressions ──
+
+  private parseExpression(): string {
+    let type = this.parseAssignmentExpression();
+    while (this.accept(',')) {
+      type = this.parseAssignmentExpression();
+    }
+    return type;
+  }
+
+  private parseAssignmentExpression(): string {
+    const start = this.pos;
+    const lhsToken = this.peek();
+    const lhsType = this.parseConditional();
+    const operator = this.peek();
+
+    if (operator.type === 'op' && /^([-+*/%&|^]|<<|>>)?=$/.test(operator.value) && operator.value !== '==') {
+      this.next();
+      this.checkWritable(start, lhsToken);
+      const rhsToken = this.peek();
+      const rhsType = this.parseAssignmentExpression();
+      if (operator.value === '=') {
+        this.checkAssignable(lhsType, rhsType, rhsToken, `assign ${rhsType} to ${lhsType}`);
+      } else {
+        const resultType = this.binaryResult(operator.value.slice(0, -1), lhsType, rhsType, operator);
+        this.checkAssignable(lhsType, resultType, rhsToken, `assign ${resultType} to ${lhsType} with '${operator.value}'`);
+      }
+      return lhsType;
+    }
+
+    return lhsType;
+  }
+
+  private parseConditional(): string {
+    const conditionToken = this.peek();
+    const condition = this.parseBinary(0);
+    if (!this.accept('?')) return condition;
+
+    if (condition !== UNKNOWN && condition !== 'bool') {
+      this.diagnostics.error(conditionToken.line, `Ternary condition must be a bool, found ${condition}`, conditionToken.column);
+    }
+    const whenTrue = this.parseAssignmentExpression();
+    this.expect(':');
+    const falseToken = this.peek();
+    const whenFalse = this.parseAssignmentExpression();
+    if (whenTrue !== UNKNOWN && whenFalse !== UNKNOWN && whenTrue !== whenFalse) {
+      this.diagnostics.error(falseToken.line, `Ternary branches have different types (${whenTrue} and ${whenFalse})`, falseToken.column);
+      return UNKNOWN;
+    }
+    return whenTrue === UNKNOWN ? whenFalse : whenTrue;
+  }
+
+  private static readonly PRECEDENCE: Record<string, number> = {
+    '||': 1, '^^': 2, '&&': 3, '|': 4, '^': 5, '&': 6,
+    '==': 7, '!=': 7, '<': 8, '>': 8, '<=': 8, '>=': 8,
+    '<<': 9, '>>': 9, '+': 10, '-': 10, '*': 11, '/': 11, '%': 11,
+  };
+
+  private parseBinary(minPrecedence: number): string {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const operator = this.peek();
+      const precedence = operator.type === 'op' ? GlslChecker.PRECEDENCE[operator.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) break;
+      this.next();
+      const right = this.parseBinary(precedence);
+      left = this.binaryResult(operator.value, left, right, operator);
+    }
+
+    return left;
+  }
+
+  private binaryResult(operator: string, left: string, right: string, token: Token): string {
+    if (['||', '&&', '^^'].includes(operator)) {
+      for (const side of [left, right]) {
+        if (side !== UNKNOWN && side !== 'bool') {
+          this.diagnostics.error(token.line, `'${operator}' requires bool operands, found ${side}`, token.column);
+        }
+      }
+      return 'bool';
+    }
+
+    if (['==', '!='].includes(operator)) {
+      if (left !== UNKNOWN && right !== UNKNOWN && left !== right) {
+        this.diagnostics.error(token.line, `Cannot compare ${left} with ${right} (no implicit conversion in GLSL ES)`, token.column);
+      }
+      return 'bool';
+    }
+
+    if (['<', '>', '<=', '>='].includes(operator)) {
+      if (left !== UNKNOWN && right !== UNKNOWN) {
+        if (!isNumericScalar(left) || !isNumericScalar(right)) {
+          this.diagnostics.error(token.line, `'${operator}' requires scalar operands, found ${left} and ${right} (use lessThan()/greaterThan() for vectors)`, token.column);
+        } else if (left !== right) {
+          this.diagnostics.error(token.line, `Cannot compare ${left} with ${right} (no implicit conversion in GLSL ES)`, token.column);
+        }
+      }
+      return 'bool';
+    }
+
+    if (left === UNKNOWN || right === UNKNOWN) return UNKNOWN;
+
+    const leftBase = baseType(left);
+    const rightBase = baseType(right);
+    if (leftBase === UNKNOWN || rightBase === UNKNOWN) {
+      this.diagnostics.error(token.line, `Operator '${operator}' cannot be applied to ${left} and ${right}`, token.column);
+      return UNKNOWN;
+    }
+    if (leftBase !== rightBase) {
+      this.diagnostics.error(token.line, `Cannot apply '${operator}' to ${left} and ${right} - GLSL ES has no implicit int/float conversion (write 1.0 instead of 1, or use float())`, token.column);
+      return UNKNOWN;
+    }
+
+    if (left === right) return left;
+
+    const leftVector = vectorInfo(left);
+    const rightVector = vectorInfo(right);
+    const leftMatrix = matrixInfo(left);
+    const rightMatrix = matrixInfo(right);
+
+    // Scalar with vector/matrix
+    if (SCALAR_TYPES.has(left)) return right;
+    if (SCALAR_TYPES.has(right)) return left;
+
+    if (operator === '*') {
+      if (leftMatrix && rightVector && leftMatrix.columns === rightVector.size) return makeVector('float', leftMatrix.rows);
+      if (leftVector && rightMatrix && leftVector.size === rightMatrix.rows) return makeVector('float', rightMatrix.columns);
+      if (leftMatrix && rightMatrix && leftMatrix.columns === rightMatrix.rows) {
+        return normalizeMatrix(`mat${rightMatrix.columns}x${leftMatrix.rows}`);
+      }
+    }
+
+    this.diagnostics.error(token.line, `Cannot apply '${operator}' to ${left} and ${right} (size mismatch)`, token.column);
+    return UNKNOWN;
+  }
+
+  private parseUnary(): string {
+    const token = this.peek();
+    if (token.type === 'op' && ['-', '+', '!', '~', '++', '--'].includes(token.value)) {
+      this.next();
+      const start = this.pos;
+      const operandToken = this.peek();
+      const type = this.parseUnary();
+      if (token.value === '++' || token.value === '--') {
+        this.checkWritable(start, operandToken);
+      }
+      if (token.value === '!') {
+        if (type !== UNKNOWN && type !== 'bool') {
+          this.diagnostics.error(token.line, `'!' requires a bool operand, found ${type}`, token.column);
+        }
+        return 'bool';
+      }
+      return type;
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): string {
+    const start = this.pos;
+    const startToken = this.peek();
+    let type = this.parsePrimary();
+
+    for (;;) {
+      if (this.is('[')) {
+        this.next();
+        const indexToken = this.peek();
+        const indexType = this.parseExpression();
+        if (indexType !== UNKNOWN && indexType !== 'int' && indexType !== 'uint') {
+          this.diagnostics.error(indexToken.line, `Array index must be an integer, found ${indexType}`, indexToken.column);
+        }
+        this.expect(']');
+        type = this.indexResult(type);
+      } else if (this.is('.')) {
+        this.next();
+        const field = this.expectIdentifier('a field name');
+        if (this.is('(')) {
+          // Only .length() exists as a method
+          this.skipBalanced('(', ')');
+          type = field.value === 'length' ? 'int' : UNKNOWN;
+        } else {
+          type = this.fieldResult(type, field);
+        }
+      } else if (this.is('++') || this.is('--')) {
+        this.checkWritable(start, startToken);
+        this.next();
+      } else {
+        break;
+      }
+    }
+
+    return type;
+  }
+
+  private indexResult(type: string): string {
+    if (type === UNKNOWN) return UNKNOWN;
+    if (type.endsWith('[]')) return type.slice(0, -2);
+    const vector = vectorInfo(type);
+    if (vector) return vector.base;
+    const matrix = matrixInfo(type);
+    if (matrix) return makeVector('float', matrix.rows);
+    return UNKNOWN;
+  }
+
+  private fieldResult(type: string, field: Token): string {
+    // A macro can stand in for a swizzle, e.g. depth.DEPTH_SWIZZLING
+    if (type === UNKNOWN || this.lookup(field.value)?.qualifier === 'const' || this.pre.macros.has(field.value)) {
+      return UNKNOWN;
+    }
+
+    const struct = this.structs.get(type);
+    if (struct) {
+      const fieldType = struct.get(field.value);
+      if (!fieldType) {
+        this.diagnostics.error(field.line, `Struct ${type} has no field '${field.value}'`, field.column);
+        return UNKNOWN;
+      }
+      return fieldType;
+    }
+
+    const vector = vectorInfo(type);
+    const size = vector ? vector.size : SCALAR_TYPES.has(type) ? 1 : 0;
+    if (!size) {
+      this.diagnostics.error(field.line, `Cannot access '.${field.value}' on ${type}`, field.column);
+      return UNKNOWN;
+    }
+
+    const sets = ['xyzw', 'rgba', 'stpq'];
+    const set = sets.find(candidate => [...field.value].every(char => candidate.includes(char)));
+    if (!set || field.value.length > 4) {
+      this.diagnostics.error(field.line, `Invalid swizzle '.${field.value}' on ${type} (components must come from one of xyzw, rgba or stpq)`, field.column);
+      return UNKNOWN;
+    }
+    const outOfRange = [...field.value].find(char => set.indexOf(char) >= size);
+    if (outOfRange) {
+      this.diagnostics.error(field.line, `Swizzle '.${field.value}' is out of range for ${type}`, field.column);
+      return UNKNOWN;
+    }
+    return makeVector(vector ? vector.base : type, field.value.length);
+  }
+
+  private parsePrimary(): string {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return literalType(token.value);
+    }
+
+    if (token.type === 'op') {
+      if (token.value === '(') {
+        const type = this.parseExpression();
+        this.expect(')');
+        return type;
+      }
+      throw new GlslSyntaxError(`Unexpected '${token.value}'`, token);
+    }
+
+    if (token.type === 'eof') {
+      throw new GlslSyntaxError('Unexpected end of shader', token);
+    }
+
+    if (token.value === 'true' || token.value === 'false') return 'bool';
+    if (KEYWORDS.has(token.value)) {
+      throw new GlslSyntaxError(`Unexpected keyword '${token.value}'`, token);
+    }
+
+    // Constructors: vec3(...), mat4(...), MyStruct(...), float[3](...)
+    if (this.isTypeName(token.value) && (this.is('(') || this.is('['))) {
+      let type = normalizeMatrix(token.value);
+      if (this.is('[')) {
+        this.skipBalanced('[', ']');
+        type += '[]';
+      }
+      this.parseArguments();
+      return type;
+    }
+
+    if (this.is('(')) {
+      return this.parseCall(token);
+    }
+
+    const variable = this.lookup(token.value);
+    if (!variable) {
+      if (token.value === 'gl_FragColor' && this.glsl3) {
+        this.diagnostics.error(token.line, "gl_FragColor is not available in GLSL ES 3.00 - declare 'out vec4 fragColor;' and write to it", token.column);
+      } else if (!this.lenient && !this.pre.macros.has(token.value)) {
+        if (/^[A-Z][A-Z0-9_]+$/.test(token.value)) {
+          this.diagnostics.warning(token.line, `'${token.value}' is not declared - make sure it is set in the material's defines`, token.column);
+        } else {
+          this.diagnostics.error(token.line, `'${token.value}' is not declared`, token.column);
+        }
+      }
+      return UNKNOWN;
+    }
+
+    if (token.value === 'gl_Position' && this.options.stage !== 'fragment') this.writesPosition = true;
+    if (token.value === 'gl_FragColor') this.writesFragColor = true;
+    return variable.type;
+  }
+
+  private parseArguments(): string[] {
+    this.expect('(');
+    const args: string[] = [];
+    if (this.accept(')')) return args;
+    if (this.is('void') && this.is(')', 1)) {
+      this.next();
+      this.next();
+      return args;
+    }
+    do {
+      args.push(this.parseAssignmentExpression());
+    } while (this.accept(','));
+    this.expect(')');
+    return args;
+  }
+
+  private parseCall(nameToken: Token): string {
+    const name = nameToken.value;
+    const args = this.parseArguments();
+
+    const overloads = this.functions.get(name);
+    if (overloads) {
+      const match = overloads.find(overload => overload.params.length === args.length &&
+        overload.params.every((param, i) => args[i] === UNKNOWN || param === args[i]));
+      if (!match && overloads.every(overload => overload.params.length !== args.length)) {
+        this.diagnostics.error(nameToken.line, `${name}() expects ${overloads.map(o => o.params.length).join(' or ')} argument(s), got ${args.length}`, nameToken.column);
+      }
+      return (match ?? (overloads.length === 1 ? overloads[0] : null))?.returnType ?? UNKNOWN;
+    }
+
+    if (name in SAME_AS_ARG) {
+      return args[SAME_AS_ARG[name]] ?? UNKNOWN;
+    }
+    if (TEXTURE_FUNCTIONS.has(name)) {
+      const sampler = args[0] ?? UNKNOWN;
+      return sampler.startsWith('isampler') ? 'ivec4' : sampler.startsWith('usampler') ? 'uvec4' : 'vec4';
+    }
+    if (name in FIXED_RETURN) {
+      if (this.glsl3 && LEGACY_TEXTURE_FUNCTIONS.has(name)) {
+        this.diagnostics.error(nameToken.line, `${name}() is not available in GLSL ES 3.00 - use texture()`, nameToken.column);
+      }
+      return FIXED_RETURN[name];
+    }
+
+    if (!this.lenient && !this.pre.macros.has(name)) {
+      this.diagnostics.error(nameToken.line, `Function '${name}' is not declared`, nameToken.column);
+    }
+    return UNKNOWN;
+  }
+
+  // ── Checks ──
+
+  private checkAssignable(target: string, value: string, token: Token, action: string): void {
+    if (target === UNKNOWN || value === UNKNOWN || target === value) return;
+    if (target.endsWith('[]') && value.endsWith('[]')) return;
+    const hint = baseType(target) !== baseType(value) && isNumericScalar(baseType(target)) && isNumericScalar(baseType(value))
+      ? ' - GLSL ES has no implicit int/float conversion (write 1.0 instead of 1, or use float())'
+      : '';
+    this.diagnostics.error(token.line, `Cannot ${action}${hint}`, token.column);
+  }
+
+  /**
+   * Reports writes to uniforms, shader inputs and constants. The target is the
+   * identifier that starts the expression at `start`.
+   */
+  private checkWritable(start: number, token: Token): void {
+    const first = this.tokens[start];
+    if (!first || first.type !== 'ident') return;
+
+    const variable = this.lookup(first.value);
+    if (!variable) return;
+
+    if (first.value === 'gl_Position') this.writesPosition = true;
+    if (first.value === 'gl_FragColor') this.writesFragColor = true;
+
+    if (variable.qualifier === 'uniform') {
+      this.diagnostics.error(token.line, `Cannot assign to uniform '${variable.name}' (uniforms are read-only)`, token.column);
+    } else if (variable.qualifier === 'in') {
+      const kind = READ_ONLY_BUILTINS.has(variable.name) ? 'built-in input' : this.options.stage === 'vertex' ? 'vertex attribute' : 'varying input';
+      this.diagnostics.error(token.line, `Cannot assign to ${kind} '${variable.name}' (read-only)`, token.column);
+    } else if (variable.qualifier === 'const') {
+      this.diagnostics.error(token.line, `Cannot assign to constant '${variable.name}'`, token.column);
+    }
+  }
+
+  private checkStageRequirements(): void {
+    const stage = this.options.stage;
+    const line = Math.max(1, this.pre.firstCodeLine);
+
+    if (stage === 'unknown' || this.options.hasSubstitutions) return;
+
+    if (!this.hasMain) {
+      if (!this.lenient) {
+        this.diagnostics.error(line, `${stage === 'vertex' ? 'Vertex' : 'Fragment'} shader has no main() function`);
+      }
+      return;
+    }
+
+    if (stage === 'vertex' && !this.writesPosition && !this.pre.hasInclude) {
+      this.diagnostics.error(line, 'Vertex shader never writes gl_Position');
+    }
+
+    if (stage === 'fragment') {
+      if (!this.precisionFloat) {
+        this.diagnostics.error(line, "Fragment shader has no default float precision - add 'precision highp float;'");
+      }
+      const hasOutput = this.shaderInterface.outputs.size > 0 || this.writesFragColor;
+      if (!hasOutput && !this.pre.hasInclude) {
+        this.diagnostics.error(line, this.glsl3
+          ? "Fragment shader declares no output - add 'out vec4 fragColor;' and write to it"
+          : 'Fragment shader never writes gl_FragColor (or a declared out variable)');
+      }
+    }
+  }
+}
+
+/**
+ * Validates a single GLSL shader
+ */
+export function validateGlsl(source: string, options: GlslOptions): GlslResult {
+  const diagnostics = new Diagnostics(options.lineOffset ?? 0, options.label ?? '');
+  const pre = preprocess(source, diagnostics);
+
+  if (pre.version !== null && !/^300\s+es$/.test(pre.version)) {
+    if (/^100\b/.test(pre.version)) {
+      diagnostics.warning(pre.versionLine, '#version 100 is GLSL ES 1.00 (WebGL1); WebGL2 shaders should use #version 300 es');
+    } else {
+      diagnostics.error(pre.versionLine, `Unsupported #version ${pre.version} - WebGL2 requires "#version 300 es"`);
+    }
+  }
+
+  const tokens = tokenize(pre.source, diagnostics);
+  const checker = new GlslChecker(options, pre, diagnostics);
+  const shaderInterface = checker.check(tokens);
+
+  return { errors: diagnostics.errors, warnings: diagnostics.warnings, shaderInterface };
+}
+
+export interface ShaderLabel {
+  name: string;
+  lineOffset?: number;
+}
+
+/**
+ * Checks that every varying read by the fragment shader is written by the vertex shader with the same type
+ */
+export function checkVaryings(
+  vertex: ShaderInterface,
+  fragment: ShaderInterface,
+  labels: { vertex: ShaderLabel; fragment: ShaderLabel } = { vertex: { name: 'the vertex shader' }, fragment: { name: 'the fragment shader' } },
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const where = (label: ShaderLabel, variable: GlslVariable) => `${label.name} (line ${variable.line + (label.lineOffset ?? 0)})`;
+
+  for (const [name, input] of fragment.inputs) {
+    const output = vertex.outputs.get(name);
+    if (!output) {
+      errors.push(`Varying '${name}' is read by ${where(labels.fragment, input)} but not declared as an output of ${labels.vertex.name}`);
+    } else if (output.type !== input.type && output.type !== UNKNOWN && input.type !== UNKNOWN) {
+      errors.push(`Varying '${name}' has type ${output.type} in ${where(labels.vertex, output)} but ${input.type} in ${where(labels.fragment, input)}`);
+    } else if (output.flat !== input.flat) {
+      errors.push(`Varying '${name}' must use the same interpolation ('flat') in ${labels.vertex.name} and ${labels.fragment.name}`);
+    }
+  }
+
+  for (const [name, output] of vertex.outputs) {
+    if (!fragment.inputs.has(name)) {
+      warnings.push(`Varying '${name}' is written by ${where(labels.vertex, output)} but never declared in ${labels.fragment.name}`);
+    }
+  }
+
+  for (const [name, uniform] of vertex.uniforms) {
+    const other = fragment.uniforms.get(name);
+    if (other && other.type !== uniform.type) {
+      errors.push(`Uniform '${name}' is declared as ${uniform.type} in ${where(labels.vertex, uniform)} but ${other.type} in ${where(labels.fragment, other)}`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ─── Shader files and inline shaders ──────────────────────────
+
+export interface ShaderCheckResult {
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Reads a project file by path (relative to the validated file's project), or returns null
+ */
+export type ShaderFileReader = (filePath: string) => string | null;
+
+/**
+ * Validates a .glsl/.vert/.frag file. When a reader is given, the matching
+ * vertex/fragment file next to it is loaded to check that varyings agree.
+ */
+export function validateShaderFile(filePath: string, content: string, readFile?: ShaderFileReader): ShaderCheckResult {
+  const stage = getShaderStage(filePath, content);
+  const result = validateGlsl(content, { stage });
+  const errors = [...result.errors];
+  const warnings = [...result.warnings];
+
+  if (!readFile || stage === 'unknown' || errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  for (const counterpartPath of getCounterpartPaths(filePath, stage)) {
+    const counterpart = readFile(counterpartPath);
+    if (counterpart === null) continue;
+
+    const other = validateGlsl(counterpart, { stage: stage === 'vertex' ? 'fragment' : 'vertex' });
+    const [vertex, fragment] = stage === 'vertex'
+      ? [result.shaderInterface, other.shaderInterface]
+      : [other.shaderInterface, result.shaderInterface];
+    const vertexPath = stage === 'vertex' ? filePath : counterpartPath;
+    const fragmentPath = stage === 'fragment' ? filePath : counterpartPath;
+    const varyings = checkVaryings(vertex, fragment, { vertex: { name: vertexPath }, fragment: { name: fragmentPath } });
+
+    // The other file may be updated next, so cross-file mismatches never block a write
+    warnings.push(...varyings.errors, ...varyings.warnings);
+    break;
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Candidate paths of the other stage for a shader file, e.g. water.vert -> water.frag,
+ * vertex.glsl -> fragment.glsl, planetVertex.glsl -> planetFragment.glsl
+ */
+export function getCounterpartPaths(filePath: string, stage: ShaderStage): string[] {
+  const separator = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+  const dir = filePath.slice(0, separator + 1);
+  const name = filePath.slice(separator + 1);
+
+  const swaps: [RegExp, string][] = stage === 'vertex'
+    ? [[/\.vert$/, '.frag'], [/vertex/g, 'fragment'], [/Vertex/g, 'Fragment'], [/VERTEX/g, 'FRAGMENT'], [/vert/g, 'frag'], [/(^|[._-])vs([._-])/g, '$1fs$2']]
+    : [[/\.frag$/, '.vert'], [/fragment/g, 'vertex'], [/Fragment/g, 'Vertex'], [/FRAGMENT/g, 'VERTEX'], [/frag/g, 'vert'], [/(^|[._-])fs([._-])/g, '$1vs$2']];
+
+  const candidates: string[] = [];
+  for (const [pattern, replacement] of swaps) {
+    const swapped = name.replace(pattern, replacement);
+    if (swapped !== name && !candidates.includes(dir + swapped)) {
+      candidates.push(dir + swapped);
+    }
+  }
+  return candidates;
+}
+
+interface InlineShader {
+  label: string;
+  stage: ShaderStage;
+  source: string;
+  lineOffset: number;
+  material: GlslOptions['material'];
+  defines: string[];
+  hasSubstitutions: boolean;
+  group: ts.Node | null;   // object literal that holds both stages of one material
+}
+
+/**
+ * Finds GLSL in a JS/TS file and validates it: vertexShader/fragmentShader properties,
+ * assignments and variables holding template literals, and glsl`...` tagged templates.
+ * Line numbers refer to the JS/TS file.
+ */
+export function validateInlineShaders(sourceFile: ts.SourceFile): ShaderCheckResult {
+  const shaders = findInlineShaders(sourceFile);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const interfaces = new Map<InlineShader, GlslResult>();
+
+  for (const shader of shaders) {
+    let source = shader.source;
+    if (shader.material === 'ShaderMaterial' && /^\s*#\s*version\b/m.test(source)) {
+      const line = source.slice(0, source.search(/#\s*version/)).split('\n').length + shader.lineOffset;
+      errors.push(`Line ${line} (${shader.label}): ShaderMaterial adds #version itself - remove it, or use RawShaderMaterial (set glslVersion: THREE.GLSL3 for GLSL ES 3.00 features)`);
+      source = source.replace(/^\s*#\s*version\b.*$/m, '');
+    }
+
+    const result = validateGlsl(source, {
+      stage: shader.stage,
+      material: shader.material,
+      defines: shader.defines,
+      hasSubstitutions: shader.hasSubstitutions,
+      lineOffset: shader.lineOffset,
+      label: shader.label,
+    });
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+    interfaces.set(shader, result);
+  }
+
+  // Pair the stages of each material; loose variables pair up when there is one of each
+  const pairs: [InlineShader, InlineShader][] = [];
+  const grouped = new Map<ts.Node, InlineShader[]>();
+  for (const shader of shaders) {
+    if (shader.group) {
+      grouped.set(shader.group, [...(grouped.get(shader.group) ?? []), shader]);
+    }
+  }
+  for (const members of grouped.values()) {
+    const vertex = members.find(shader => shader.stage === 'vertex');
+    const fragment = members.find(shader => shader.stage === 'fragment');
+    if (vertex && fragment) pairs.push([vertex, fragment]);
+  }
+  const loose = shaders.filter(shader => !shader.group);
+  const looseVertex = loose.filter(shader => shader.stage === 'vertex');
+  const looseFragment = loose.filter(shader => shader.stage === 'fragment');
+  if (looseVertex.length === 1 && looseFragment.length === 1) {
+    pairs.push([looseVertex[0], looseFragment[0]]);
+  }
+
+  for (const [vertex, fragment] of pairs) {
+    if (vertex.hasSubstitutions || fragment.hasSubstitutions) continue;
+    const vertexResult = interfaces.get(vertex);
+    const fragmentResult = interfaces.get(fragment);
+    if (!vertexResult || !fragmentResult || vertexResult.errors.length > 0 || fragmentResult.errors.length > 0) continue;
+
+    const varyings = checkVaryings(vertexResult.shaderInterface, fragmentResult.shaderInterface, {
+      vertex: { name: vertex.label, lineOffset: vertex.lineOffset },
+      fragment: { name: fragment.label, lineOffset: fragment.lineOffset },
+    });
+    errors.push(...varyings.errors);
+    warnings.push(...varyings.warnings);
+  }
+
+  return { errors, warnings };
+}
+
+function findInlineShaders(sourceFile: ts.SourceFile): InlineShader[] {
+  const shaders: InlineShader[] = [];
+
+  const add = (name: string, value: ts.Expression, group: ts.ObjectLiteralExpression | null) => {
+    const literal = ts.isTaggedTemplateExpression(value) ? value.template : value;
+    const isTaggedGlsl = ts.isTaggedTemplateExpression(value) && /glsl/i.test(value.tag.getText(sourceFile));
+    const hasGlslComment = (ts.getLeadingCommentRanges(sourceFile.text, value.getFullStart()) ?? [])
+      .some(range => /glsl/i.test(sourceFile.text.slice(range.pos, range.end)));
+    const extracted = extractLiteral(literal, sourceFile);
+    if (!extracted) return;
+
+    let stage = stageFromName(name);
+    if (stage === 'unknown') {
+      if (!isTaggedGlsl && !hasGlslComment) return;
+      stage = getShaderStage('', extracted.source);
+    }
+    // Fragments of shader code (chunks) cannot be checked on their own
+    if (stage === 'unknown' || !/\bmain\s*\(/.test(extracted.source)) return;
+
+    shaders.push({
+      label: name,
+      stage,
+      source: extracted.source,
+      lineOffset: sourceFile.getLineAndCharacterOfPosition(literal.getStart(sourceFile)).line,
+      material: group ? getMaterialType(group) : undefined,
+      defines: group ? getDefineNames(group) : [],
+      hasSubstitutions: extracted.hasSubstitutions,
+      group,
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isPropertyAssignment(node) && ts.isObjectLiteralExpression(node.parent)) {
+      const name = getPropertyName(node.name);
+      if (name && stageFromName(name) !== 'unknown') {
+        add(name, node.initializer, node.parent);
+      }
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      add(node.name.text, node.initializer, null);
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+               ts.isPropertyAccessExpression(node.left)) {
+      const name = node.left.name.text;
+      if (stageFromName(name) !== 'unknown') {
+        add(name, node.right, null);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return shaders;
+}
+
+function stageFromName(name: string): ShaderStage {
+  if (/vert(ex)?(Shader|Src|Source|Glsl)?$/i.test(name) || /^vertex/i.test(name)) return 'vertex';
+  if (/frag(ment)?(Shader|Src|Source|Glsl)?$/i.test(name) || /^fragment/i.test(name)) return 'fragment';
+  return 'unknown';
+}
+
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) return name.text;
+  return null;
+}
+
+/**
+ * Keys of the `defines` object next to the shaders, e.g. { defines: { USE_FOG: '' } }
+ */
+function getDefineNames(objectLiteral: ts.ObjectLiteralExpression): string[] {
+  for (const property of objectLiteral.properties) {
+    if (ts.isPropertyAssignment(property) && getPropertyName(property.name) === 'defines' &&
+        ts.isObjectLiteralExpression(property.initializer)) {
+      return property.initializer.properties
+        .map(define => (define.name ? getPropertyName(define.name as ts.PropertyName) : null))
+        .filter((name): name is string => !!name);
+    }
+  }
+  return [];
+}
+
+/**
+ * The material class an object literal is passed to, e.g. new THREE.ShaderMaterial({ ... })
+ */
+function getMaterialType(objectLiteral: ts.ObjectLiteralExpression): GlslOptions['material'] {
+  const parent = objectLiteral.parent;
+  if (!parent || !ts.isNewExpression(parent)) return undefined;
+  const callee = parent.expression;
+  const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+  return name === 'ShaderMaterial' || name === 'RawShaderMaterial' ? name : undefined;
+}
+
+/**
+ * Returns the GLSL text of a string or template literal with ${...} substitutions
+ * blanked out, keeping line and column positions intact
+ */
+function extractLiteral(node: ts.Node, sourceFile: ts.SourceFile): { source: string; hasSubstitutions: boolean } | null {
+  if (ts.isStringLiteral(node)) {
+    return { source: node.text, hasSubstitutions: false };
+  }
+  if (!ts.isNoSubstitutionTemplateLiteral(node) && !ts.isTemplateExpression(node)) {
+    return null;
+  }
+
+  const start = node.getStart(sourceFile) + 1;
+  const end = node.getEnd() - 1;
+  const chars = sourceFile.text.slice(start, end).split('');
+
+  if (ts.isTemplateExpression(node)) {
+    for (const span of node.templateSpans) {
+      // From "${" up to and including "}"
+      const from = span.expression.getFullStart() - 2 - start;
+      const to = span.literal.getStart(sourceFile) + 1 - start;
+      for (let i = Math.max(0, from); i < Math.min(chars.length, to); i++) {
+        if (chars[i] !== '\n') chars[i] = ' ';
+      }
+    }
+  }
+
+  // Escaped backticks and dollars are plain characters in the shader
+  const source = chars.join('').replace(/\\([`$\\])/g, ' $1');
+  return { source, hasSubstitutions: ts.isTemplateExpression(node) };
+}
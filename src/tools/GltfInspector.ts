@@ -0,0 +1,674 @@
+/**
+ * glTF Inspector - Reads .gltf and .glb files locally and summarizes what is inside:
+ * node hierarchy, meshes with vertex/triangle counts, materials, textures with their
+ * pixel sizes, animation clips, and the extensions that need extra decoders.
+ * Only the JSON and the bytes of image headers are read, so large models are cheap.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readImageSize } from './ImageSize.js';
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+// Enough to reach the size fields of any image header, including JPEGs with large EXIF blocks
+const IMAGE_HEADER_BYTES = 256 * 1024;
+const MAX_OUTLINE_LINES = 60;
+const MAX_LISTED = 30;
+
+// Extensions GLTFLoader understands; anything else in extensionsRequired will fail to load
+const SUPPORTED_EXTENSIONS = new Set([
+  'KHR_binary_glTF', 'KHR_draco_mesh_compression', 'KHR_lights_punctual', 'KHR_materials_anisotropy',
+  'KHR_materials_clearcoat', 'KHR_materials_dispersion', 'KHR_materials_emissive_strength', 'KHR_materials_ior',
+  'KHR_materials_iridescence', 'KHR_materials_sheen', 'KHR_materials_specular', 'KHR_materials_transmission',
+  'KHR_materials_unlit', 'KHR_materials_volume', 'KHR_mesh_quantization', 'KHR_texture_basisu',
+  'KHR_texture_transform', 'EXT_materials_bump', 'EXT_mesh_gpu_instancing', 'EXT_meshopt_compression',
+  'EXT_texture_avif', 'EXT_texture_webp',
+]);
+
+// Extensions that need a decoder registered on the GLTFLoader
+const DECODERS: Record<string, string> = {
+  KHR_draco_mesh_compression: "DRACOLoader (three/addons/loaders/DRACOLoader.js): loader.setDRACOLoader(new DRACOLoader().setDecoderPath('<path to draco decoder files>'))",
+  KHR_texture_basisu: "KTX2Loader (three/addons/loaders/KTX2Loader.js): loader.setKTX2Loader(new KTX2Loader().setTranscoderPath('<path to basis transcoder files>').detectSupport(renderer))",
+  EXT_meshopt_compression: 'MeshoptDecoder (three/addons/libs/meshopt_decoder.module.js): loader.setMeshoptDecoder(MeshoptDecoder)',
+};
+
+// Characters three.js strips from node names (PropertyBinding.sanitizeNodeName)
+const RESERVED_NAME_CHARACTERS = /[[\].:/]/g;
+
+export interface GltfMeshInfo {
+  name: string;
+  primitives: number;
+  vertices: number;
+  triangles: number;
+  materials: string[];
+  // Vertex attributes of the first primitive (POSITION, NORMAL, TEXCOORD_0, ...)
+  attributes: string[];
+  morphTargets: number;
+  draco: boolean;
+  // Number of nodes that use this mesh
+  instances: number;
+}
+
+export interface GltfMaterialInfo {
+  name: string;
+  type: string;
+  alphaMode: string;
+  doubleSided: boolean;
+  // Texture slots in use (baseColor, normal, ...)
+  textures: string[];
+  extensions: string[];
+}
+
+export interface GltfTextureInfo {
+  name: string;
+  // External file, or "embedded"
+  source: string;
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  usedBy: string[];
+}
+
+export interface GltfAnimationInfo {
+  name: string;
+  channels: number;
+  // Seconds, from the largest keyframe time
+  duration: number | null;
+  targetNodes: number;
+  paths: string[];
+}
+
+export interface AssetInspection {
+  path: string;
+  container: 'glb' | 'gltf';
+  fileSize: number;
+  version: string;
+  generator: string | null;
+  extensionsUsed: string[];
+  extensionsRequired: string[];
+  // Decoders the loader needs for this file
+  decoders: string[];
+  sceneCount: number;
+  nodeCount: number;
+  // Indented node hierarchy of the default scene
+  outline: string[];
+  meshes: GltfMeshInfo[];
+  materials: GltfMaterialInfo[];
+  textures: GltfTextureInfo[];
+  animations: GltfAnimationInfo[];
+  skins: number;
+  cameras: string[];
+  lights: string[];
+  totalVertices: number;
+  totalTriangles: number;
+  warnings: string[];
+}
+
+// Loosely typed glTF JSON; only the fields that are read are listed
+interface GltfJson {
+  asset?: { version?: string; generator?: string };
+  extensions?: Record<string, unknown>;
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+  scene?: number;
+  scenes?: Array<{ name?: string; nodes?: number[] }>;
+  nodes?: Array<{
+    name?: string; mesh?: number; skin?: number; camera?: number; children?: number[];
+    extensions?: Record<string, unknown>;
+  }>;
+  meshes?: Array<{
+    name?: string;
+    primitives?: Array<{ attributes?: Record<string, number>; indices?: number; mode?: number; material?: number; targets?: unknown[]; extensions?: Record<string, unknown> }>;
+  }>;
+  accessors?: Array<{ count?: number; max?: number[] }>;
+  materials?: Array<{
+    name?: string; alphaMode?: string; doubleSided?: boolean; extensions?: Record<string, unknown>;
+    pbrMetallicRoughness?: Record<string, unknown>; normalTexture?: unknown; occlusionTexture?: unknown; emissiveTexture?: unknown;
+  }>;
+  textures?: Array<{ name?: string; source?: number; extensions?: Record<string, { source?: number }> }>;
+  images?: Array<{ name?: string; uri?: string; mimeType?: string; bufferView?: number }>;
+  bufferViews?: Array<{ buffer: number; byteOffset?: number; byteLength: number }>;
+  buffers?: Array<{ uri?: string; byteLength: number }>;
+  animations?: Array<{ name?: string; channels?: Array<{ target?: { node?: number; path?: string } }>; samplers?: Array<{ input: number }> }>;
+  skins?: unknown[];
+  cameras?: Array<{ name?: string; type?: string }>;
+}
+
+export class GltfInspector {
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = path.resolve(workingDirectory);
+  }
+
+  async inspect(assetPath: string): Promise<AssetInspection> {
+    const fullPath = path.resolve(this.workingDirectory, assetPath);
+    const extension = path.extname(fullPath).toLowerCase();
+    if (extension !== '.glb' && extension !== '.gltf') {
+      throw new Error('Only .gltf and .glb files can be inspected');
+    }
+
+    const handle = await fs.open(fullPath, 'r');
+    try {
+      const { size } = await handle.stat();
+      let json: GltfJson;
+      let binChunk: { offset: number; length: number } | null = null;
+      let container: 'glb' | 'gltf' = 'gltf';
+
+      const header = Buffer.alloc(12);
+      await handle.read(header, 0, 12, 0);
+      if (header.readUInt32LE(0) === GLB_MAGIC) {
+        container = 'glb';
+        ({ json, binChunk } = await readGlb(handle, header, size));
+      } else {
+        const text = (await handle.readFile('utf-8')).replace(/^\uFEFF/, '');
+        try {
+          json = JSON.parse(text) as GltfJson;
+        } catch (error) {
+          throw new Error(`Not a valid glTF file: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const reader = new ResourceReader(handle, path.dirname(fullPath), json, binChunk);
+      return await summarize(json, {
+        path: path.relative(this.workingDirectory, fullPath),
+        container,
+        fileSize: size,
+        reader,
+      });
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+async function readGlb(handle: fs.FileHandle, header: Buffer, size: number): Promise<{ json: GltfJson; binChunk: { offset: number; length: number } | null }> {
+  const version = header.readUInt32LE(4);
+  if (version !== 2) {
+    throw new Error(`Unsupported GLB version ${version} (only glTF 2.0 is supported)`);
+  }
+  const declaredLength = header.readUInt32LE(8);
+  if (declaredLength > size) {
+    throw new Error(`GLB is truncated: header says ${declaredLength} bytes, file has ${size}`);
+  }
+
+  let json: GltfJson | null = null;
+  let binChunk: { offset: number; length: number } | null = null;
+  let offset = 12;
+  const chunkHeader = Buffer.alloc(8);
+
+  while (offset + 8 <= declaredLength) {
+    await handle.read(chunkHeader, 0, 8, offset);
+    const chunkLength = chunkHeader.readUInt32LE(0);
+    const chunkType = chunkHeader.readUInt32LE(4);
+    const dataOffset = offset + 8;
+    if (dataOffset + chunkLength > declaredLength) {
+      throw new Error('GLB chunk runs past the end of the file');
+    }
+
+    if (chunkType === CHUNK_JSON && !json) {
+      const data = Buffer.alloc(chunkLength);
+      await handle.read(data, 0, chunkLength, dataOffset);
+      try {
+        json = JSON.parse(data.toString('utf-8').replace(/[\0\s]+$/, '')) as GltfJson;
+      } catch (error) {
+        throw new Error(`GLB JSON chunk is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (chunkType === CHUNK_BIN && !binChunk) {
+      binChunk = { offset: dataOffset, length: chunkLength };
+    }
+    offset = dataOffset + chunkLength;
+  }
+
+  if (!json) {
+    throw new Error('GLB has no JSON chunk');
+  }
+  return { json, binChunk };
+}
+
+/**
+ * Reads the start of images, wherever they are stored: the GLB binary chunk,
+ * external .bin or image files next to the .gltf, or data URIs
+ */
+class ResourceReader {
+  constructor(
+    private handle: fs.FileHandle,
+    private baseDir: string,
+    private json: GltfJson,
+    private binChunk: { offset: number; length: number } | null
+  ) {}
+
+  async readImageHeader(imageIndex: number): Promise<Buffer | null> {
+    const image = this.json.images?.[imageIndex];
+    if (!image) return null;
+
+    if (image.uri !== undefined) {
+      return this.readUri(image.uri, 0, IMAGE_HEADER_BYTES);
+    }
+    if (image.bufferView === undefined) return null;
+
+    const view = this.json.bufferViews?.[image.bufferView];
+    const buffer = view ? this.json.buffers?.[view.buffer] : undefined;
+    if (!view || !buffer) return null;
+
+    const length = Math.min(view.byteLength, IMAGE_HEADER_BYTES);
+    const offset = view.byteOffset ?? 0;
+    if (buffer.uri === undefined) {
+      // GLB-stored buffer
+      if (!this.binChunk) return null;
+      const data = Buffer.alloc(length);
+      const { bytesRead } = await this.handle.read(data, 0, length, this.binChunk.offset + offset);
+      return data.subarray(0, bytesRead);
+    }
+    return this.readUri(buffer.uri, offset, length);
+  }
+
+  async exists(uri: string): Promise<boolean> {
+    if (uri.startsWith('data:')) return true;
+    const resolved = this.resolveUri(uri);
+    return resolved !== null && fs.access(resolved).then(() => true, () => false);
+  }
+
+  private resolveUri(uri: string): string | null {
+    const decoded = decodeUri(uri);
+    return decoded === null ? null : path.join(this.baseDir, decoded);
+  }
+
+  private async readUri(uri: string, offset: number, length: number): Promise<Buffer | null> {
+    if (uri.startsWith('data:')) {
+      const comma = uri.indexOf(',');
+      const isBase64 = uri.slice(0, comma).endsWith(';base64');
+      const payload = isBase64 ? uri.slice(comma + 1) : decodeUri(uri.slice(comma + 1));
+      if (payload === null) return null;
+      const data = Buffer.from(payload, isBase64 ? 'base64' : 'utf-8');
+      return data.subarray(offset, offset + length);
+    }
+    const resolved = this.resolveUri(uri);
+    if (/^[a-z]+:/i.test(uri) || resolved === null) return null;
+
+    let file: fs.FileHandle | null = null;
+    try {
+      file = await fs.open(resolved, 'r');
+      const data = Buffer.alloc(length);
+      const { bytesRead } = await file.read(data, 0, length, offset);
+      return data.subarray(0, bytesRead);
+    } catch {
+      return null;
+    } finally {
+      await file?.close();
+    }
+  }
+}
+
+interface SummaryContext {
+  path: string;
+  container: 'glb' | 'gltf';
+  fileSize: number;
+  reader: ResourceReader;
+}
+
+async function summarize(json: GltfJson, context: SummaryContext): Promise<AssetInspection> {
+  const nodes = json.nodes ?? [];
+  const accessors = json.accessors ?? [];
+  const extensionsUsed = json.extensionsUsed ?? [];
+  const extensionsRequired = json.extensionsRequired ?? [];
+  const warnings: string[] = [];
+
+  if (!json.asset?.version?.startsWith('2.')) {
+    warnings.push(`glTF version ${json.asset?.version ?? 'unknown'}; GLTFLoader only supports glTF 2.0`);
+  }
+  for (const extension of extensionsRequired) {
+    if (!SUPPORTED_EXTENSIONS.has(extension)) {
+      warnings.push(`Requires ${extension}, which GLTFLoader does not support; the file will fail to load`);
+    }
+  }
+
+  const meshUses = new Map<number, number>();
+  nodes.forEach(node => {
+    if (node.mesh !== undefined) meshUses.set(node.mesh, (meshUses.get(node.mesh) ?? 0) + 1);
+  });
+
+  const materialName = (index: number | undefined) =>
+    index === undefined ? '(default)' : json.materials?.[index]?.name || `material ${index}`;
+
+  const meshes: GltfMeshInfo[] = (json.meshes ?? []).map((mesh, index) => {
+    const primitives = mesh.primitives ?? [];
+    let vertices = 0;
+    let triangles = 0;
+    for (const primitive of primitives) {
+      const positionCount = accessors[primitive.attributes?.POSITION ?? -1]?.count ?? 0;
+      const indexCount = primitive.indices !== undefined ? accessors[primitive.indices]?.count ?? 0 : positionCount;
+      vertices += positionCount;
+      triangles += countTriangles(primitive.mode ?? 4, indexCount);
+    }
+    return {
+      name: mesh.name || `mesh ${index}`,
+      primitives: primitives.length,
+      vertices,
+      triangles,
+      materials: [...new Set(primitives.map(primitive => materialName(primitive.material)))],
+      attributes: Object.keys(primitives[0]?.attributes ?? {}),
+      morphTargets: primitives[0]?.targets?.length ?? 0,
+      draco: primitives.some(primitive => !!primitive.extensions?.KHR_draco_mesh_compression),
+      instances: meshUses.get(index) ?? 0,
+    };
+  });
+
+  // Textures are reported with the materials and slots that use them
+  const textureUses = new Map<number, string[]>();
+  const materials: GltfMaterialInfo[] = (json.materials ?? []).map((material, index) => {
+    const name = material.name || `material ${index}`;
+    const slots: Array<[string, unknown]> = [
+      ['baseColor', material.pbrMetallicRoughness?.baseColorTexture],
+      ['metallicRoughness', material.pbrMetallicRoughness?.metallicRoughnessTexture],
+      ['normal', material.normalTexture],
+      ['occlusion', material.occlusionTexture],
+      ['emissive', material.emissiveTexture],
+    ];
+    for (const [extensionName, extension] of Object.entries(material.extensions ?? {})) {
+      if (typeof extension !== 'object' || extension === null) continue;
+      for (const [key, value] of Object.entries(extension)) {
+        if (key.endsWith('Texture')) slots.push([`${key.replace(/Texture$/, '')} (${extensionName})`, value]);
+      }
+    }
+
+    const textures: string[] = [];
+    for (const [slot, info] of slots) {
+      const textureIndex = field(info, 'index');
+      if (typeof textureIndex !== 'number') continue;
+      textures.push(slot);
+      textureUses.set(textureIndex, [...(textureUses.get(textureIndex) ?? []), `${name}.${slot.split(' ')[0]}`]);
+    }
+
+    const extensions = Object.keys(material.extensions ?? {});
+    const type = extensions.includes('KHR_materials_unlit') ? 'unlit (MeshBasicMaterial)'
+      : extensions.includes('KHR_materials_pbrSpecularGlossiness') ? 'specular-glossiness (not supported by current three.js)'
+      : extensions.some(extension => /clearcoat|transmission|sheen|iridescence|volume|ior|specular|anisotropy|dispersion/.test(extension))
+        ? 'PBR (MeshPhysicalMaterial)' : 'PBR (MeshStandardMaterial)';
+
+    return {
+      name,
+      type,
+      alphaMode: material.alphaMode ?? 'OPAQUE',
+      doubleSided: !!material.doubleSided,
+      textures,
+      extensions: extensions.filter(extension => extension !== 'KHR_materials_unlit'),
+    };
+  });
+
+  const textures: GltfTextureInfo[] = [];
+  for (const [index, texture] of (json.textures ?? []).entries()) {
+    const extensionSource = Object.values(texture.extensions ?? {}).find(extension => extension?.source !== undefined)?.source;
+    const imageIndex = extensionSource ?? texture.source;
+    const image = imageIndex !== undefined ? json.images?.[imageIndex] : undefined;
+
+    const name = texture.name || image?.name || `texture ${index}`;
+    let size = null;
+    if (image?.uri !== undefined && decodeUri(image.uri) === null) {
+      warnings.push(`Texture "${name}" is unreadable: malformed URI ${image.uri.startsWith('data:') ? '(data URI)' : image.uri}`);
+    } else if (imageIndex !== undefined) {
+      const data = await context.reader.readImageHeader(imageIndex);
+      size = data ? readImageSize(data) : null;
+    }
+    textures.push({
+      name,
+      source: image?.uri && !image.uri.startsWith('data:') ? image.uri : 'embedded',
+      mimeType: image?.mimeType ?? (size ? `image/${size.format}` : null),
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      usedBy: textureUses.get(index) ?? [],
+    });
+  }
+
+  const animations: GltfAnimationInfo[] = (json.animations ?? []).map((animation, index) => {
+    const channels = animation.channels ?? [];
+    const times = (animation.samplers ?? [])
+      .map(sampler => accessors[sampler.input]?.max?.[0])
+      .filter((time): time is number => typeof time === 'number');
+    return {
+      name: animation.name || `animation ${index}`,
+      channels: channels.length,
+      duration: times.length > 0 ? Math.max(...times) : null,
+      targetNodes: new Set(channels.map(channel => channel.target?.node)).size,
+      paths: [...new Set(channels.map(channel => channel.target?.path).filter((p): p is string => !!p))],
+    };
+  });
+
+  const lightList = field(json.extensions?.KHR_lights_punctual, 'lights');
+  const lightDefinitions: Array<{ name?: string; type?: string }> = (Array.isArray(lightList) ? lightList : []).map(light => {
+    const name = field(light, 'name');
+    const type = field(light, 'type');
+    return { name: typeof name === 'string' ? name : undefined, type: typeof type === 'string' ? type : undefined };
+  });
+
+  // External files referenced by the .gltf. Malformed image URIs were reported with the textures.
+  const externalFiles = [
+    ...(json.buffers ?? []).map(buffer => ({ kind: 'buffer', uri: buffer.uri })),
+    ...(json.images ?? []).map(image => ({ kind: 'image', uri: image.uri })),
+  ];
+  for (const { kind, uri } of externalFiles) {
+    if (!uri || /^[a-z]+:/i.test(uri)) continue;
+    if (decodeUri(uri) === null) {
+      if (kind === 'buffer') warnings.push(`Buffer is unreadable: malformed URI ${uri}`);
+    } else if (!(await context.reader.exists(uri))) {
+      warnings.push(`Missing external file: ${uri}`);
+    }
+  }
+
+  const renamed = nodes
+    .map(node => node.name)
+    .filter((name): name is string => !!name && sanitizeNodeName(name) !== name);
+  if (renamed.length > 0) {
+    const examples = renamed.slice(0, 3).map(name => `"${name}" -> "${sanitizeNodeName(name)}"`).join(', ');
+    warnings.push(`${renamed.length} node name${renamed.length === 1 ? '' : 's'} will be changed by three.js (use the new names with getObjectByName): ${examples}`);
+  }
+
+  const sceneIndex = json.scene ?? 0;
+  const outline = buildOutline(json, json.scenes?.[sceneIndex]?.nodes ?? rootNodes(nodes), lightDefinitions);
+
+  const totalVertices = meshes.reduce((total, mesh) => total + mesh.vertices * Math.max(mesh.instances, 1), 0);
+  const totalTriangles = meshes.reduce((total, mesh) => total + mesh.triangles * Math.max(mesh.instances, 1), 0);
+
+  return {
+    path: context.path,
+    container: context.container,
+    fileSize: context.fileSize,
+    version: json.asset?.version ?? 'unknown',
+    generator: json.asset?.generator ?? null,
+    extensionsUsed,
+    extensionsRequired,
+    decoders: extensionsUsed.filter(extension => DECODERS[extension]).map(extension => DECODERS[extension]),
+    sceneCount: json.scenes?.length ?? 0,
+    nodeCount: nodes.length,
+    outline,
+    meshes,
+    materials,
+    textures,
+    animations,
+    skins: json.skins?.length ?? 0,
+    cameras: (json.cameras ?? []).map((camera, index) => `${camera.name || `camera ${index}`} (${camera.type ?? 'unknown'})`),
+    lights: lightDefinitions.map((light, index) => `${light.name || `light ${index}`} (${light.type ?? 'unknown'})`),
+    totalVertices,
+    totalTriangles,
+    warnings,
+  };
+}
+
+// Reads a property of a value from the glTF JSON without trusting its shape
+function field(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+// Percent-decodes a URI; null if it is malformed (decodeURIComponent throws a URIError)
+function decodeUri(uri: string): string | null {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return null;
+  }
+}
+
+function countTriangles(mode: number, count: number): number {
+  switch (mode) {
+    case 4: return Math.floor(count / 3); // TRIANGLES
+    case 5: // TRIANGLE_STRIP
+    case 6: return Math.max(count - 2, 0); // TRIANGLE_FAN
+    default: return 0; // points and lines
+  }
+}
+
+export function sanitizeNodeName(name: string): string {
+  return name.replace(/\s/g, '_').replace(RESERVED_NAME_CHARACTERS, '');
+}
+
+// Nodes that are nobody's child, for files without a scenes array
+function rootNodes(nodes: NonNullable<GltfJson['nodes']>): number[] {
+  const children = new Set(nodes.flatMap(node => node.children ?? []));
+  return nodes.map((_, index) => index).filter(index => !children.has(index));
+}
+
+function buildOutline(json: GltfJson, roots: number[], lights: Array<{ name?: string; type?: string }>): string[] {
+  const nodes = json.nodes ?? [];
+  const lines: string[] = [];
+  const visited = new Set<number>();
+
+  const visit = (index: number, depth: number) => {
+    const node = nodes[index];
+    if (!node || visited.has(index)) return;
+    visited.add(index);
+    if (lines.length >= MAX_OUTLINE_LINES) {
+      if (lines.length === MAX_OUTLINE_LINES) lines.push('...');
+      return;
+    }
+
+    const parts: string[] = [];
+    if (node.mesh !== undefined) {
+      const meshName = json.meshes?.[node.mesh]?.name;
+      parts.push(meshName ? `mesh "${meshName}"` : `mesh ${node.mesh}`);
+    }
+    if (node.skin !== undefined) parts.push('skinned');
+    if (node.camera !== undefined) parts.push('camera');
+    const light = field(node.extensions?.KHR_lights_punctual, 'light');
+    if (typeof light === 'number') parts.push(`${lights[light]?.type ?? ''} light`.trim());
+    if (node.extensions?.EXT_mesh_gpu_instancing) parts.push('GPU instanced');
+
+    const name = node.name ? `"${node.name}"` : `<node ${index}>`;
+    lines.push(`${'  '.repeat(depth)}${name}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`);
+    for (const child of node.children ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  roots.forEach(root => visit(root, 0));
+  return lines;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function listed<T>(items: T[], format: (item: T) => string): string[] {
+  const lines = items.slice(0, MAX_LISTED).map(item => `  - ${format(item)}`);
+  if (items.length > MAX_LISTED) lines.push(`  ... and ${items.length - MAX_LISTED} more`);
+  return lines;
+}
+
+/**
+ * Formats an inspection as plain text for the agent
+ */
+export function formatAssetInspection(inspection: AssetInspection): string {
+  const lines: string[] = [];
+  const count = (value: number, singular: string, plural = `${singular}s`) =>
+    `${value.toLocaleString('en-US')} ${value === 1 ? singular : plural}`;
+
+  lines.push(`${inspection.path} (${inspection.container.toUpperCase()}, ${formatBytes(inspection.fileSize)}, glTF ${inspection.version}` +
+    `${inspection.generator ? `, generator: ${inspection.generator}` : ''})`);
+  lines.push(`${count(inspection.nodeCount, 'node')}, ${count(inspection.meshes.length, 'mesh', 'meshes')}, ` +
+    `${count(inspection.totalVertices, 'vertex', 'vertices')}, ${count(inspection.totalTriangles, 'triangle')} in total`);
+
+  if (inspection.extensionsUsed.length > 0) {
+    const required = new Set(inspection.extensionsRequired);
+    lines.push(`Extensions: ${inspection.extensionsUsed.map(extension => required.has(extension) ? `${extension} (required)` : extension).join(', ')}`);
+  }
+  if (inspection.decoders.length > 0) {
+    lines.push('');
+    lines.push('Decoders to register on the GLTFLoader:');
+    lines.push(...inspection.decoders.map(decoder => `  - ${decoder}`));
+  }
+  if (inspection.warnings.length > 0) {
+    lines.push('');
+    lines.push('Warnings:');
+    lines.push(...inspection.warnings.map(warning => `  - ${warning}`));
+  }
+
+  lines.push('');
+  lines.push(`Node hierarchy${inspection.sceneCount > 1 ? ` (default scene of ${inspection.sceneCount})` : ''}:`);
+  lines.push(...(inspection.outline.length > 0 ? inspection.outline.map(line => `  ${line}`) : ['  (empty)']));
+
+  if (inspection.animations.length > 0) {
+    lines.push('');
+    lines.push(`Animation clips (${inspection.animations.length}):`);
+    lines.push(...listed(inspection.animations, animation =>
+      `"${animation.name}"${animation.duration !== null ? ` ${animation.duration.toFixed(2)}s` : ''}, ` +
+      `${animation.channels} channels on ${animation.targetNodes} nodes${animation.paths.length > 0 ? ` (${animation.paths.join(', ')})` : ''}`));
+  }
+
+  if (inspection.meshes.length > 0) {
+    lines.push('');
+    lines.push(`Meshes (${inspection.meshes.length}):`);
+    lines.push(...listed(inspection.meshes, mesh => {
+      const details = [
+        count(mesh.vertices, 'vertex', 'vertices'),
+        count(mesh.triangles, 'triangle'),
+        mesh.primitives > 1 ? `${mesh.primitives} primitives` : null,
+        `materials: ${mesh.materials.join(', ')}`,
+        `attributes: ${mesh.attributes.join(', ')}`,
+        mesh.morphTargets > 0 ? `${mesh.morphTargets} morph targets` : null,
+        mesh.draco ? 'Draco' : null,
+        mesh.instances > 1 ? `used by ${mesh.instances} nodes` : mesh.instances === 0 ? 'not used by any node' : null,
+      ].filter(Boolean);
+      return `"${mesh.name}": ${details.join(', ')}`;
+    }));
+  }
+
+  if (inspection.materials.length > 0) {
+    lines.push('');
+    lines.push(`Materials (${inspection.materials.length}):`);
+    lines.push(...listed(inspection.materials, material => {
+      const details = [
+        material.type,
+        material.alphaMode !== 'OPAQUE' ? `alphaMode ${material.alphaMode}` : null,
+        material.doubleSided ? 'double-sided' : null,
+        material.textures.length > 0 ? `maps: ${material.textures.join(', ')}` : null,
+        material.extensions.length > 0 ? material.extensions.join(', ') : null,
+      ].filter(Boolean);
+      return `"${material.name}": ${details.join(', ')}`;
+    }));
+  }
+
+  if (inspection.textures.length > 0) {
+    lines.push('');
+    lines.push(`Textures (${inspection.textures.length}):`);
+    lines.push(...listed(inspection.textures, texture => {
+      const size = texture.width !== null ? `${texture.width}x${texture.height}` : 'unknown size';
+      const used = texture.usedBy.length > 0 ? `, used by ${texture.usedBy.join(', ')}` : '';
+      return `"${texture.name}": ${size}, ${texture.mimeType ?? 'unknown type'}, ${texture.source}${used}`;
+    }));
+  }
+
+  const extras = [
+    inspection.skins > 0 ? count(inspection.skins, 'skin') : null,
+    inspection.cameras.length > 0 ? `cameras: ${inspection.cameras.join(', ')}` : null,
+    inspection.lights.length > 0 ? `lights: ${inspection.lights.join(', ')}` : null,
+  ].filter(Boolean);
+  if (extras.length > 0) {
+    lines.push('');
+    lines.push(`Also: ${extras.join('; ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,874 @@
+/**
+ * Headless DOM - Minimal window, document, canvas and WebGL stand-ins so a built
+ * three.js app can run in Node without a browser or a GPU.
+ * The WebGL context accepts every call and draws nothing; it only answers the
+ * capability queries three.js makes while setting up the renderer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface HeadlessDomOptions {
+  // Directory served at http://localhost/; fetch() and image URLs resolve against it
+  rootDir: string;
+  // index.html, used to answer getElementById/querySelector for elements in the page
+  html: string;
+  width: number;
+  height: number;
+  // Errors thrown by event listeners and animation frame callbacks
+  onError: (error: unknown, phase: string) => void;
+  onFailedRequest: (url: string, reason: string) => void;
+}
+
+export interface HeadlessDom {
+  // Marks the document as loaded and fires DOMContentLoaded and load
+  finishLoading(): void;
+  // Runs the callbacks queued with requestAnimationFrame; returns how many ran
+  runAnimationFrame(time: number): number;
+}
+
+const ORIGIN = 'http://localhost';
+
+// WebGL enums three.js queries through getParameter and friends
+const GL = {
+  NO_ERROR: 0,
+  VENDOR: 0x1F00,
+  RENDERER: 0x1F01,
+  VERSION: 0x1F02,
+  SHADING_LANGUAGE_VERSION: 0x8B8C,
+  VIEWPORT: 0x0BA2,
+  SCISSOR_BOX: 0x0C10,
+  MAX_TEXTURE_SIZE: 0x0D33,
+  MAX_VIEWPORT_DIMS: 0x0D3A,
+  ALIASED_POINT_SIZE_RANGE: 0x846D,
+  ALIASED_LINE_WIDTH_RANGE: 0x846E,
+  MAX_RENDERBUFFER_SIZE: 0x84E8,
+  MAX_CUBE_MAP_TEXTURE_SIZE: 0x851C,
+  MAX_DRAW_BUFFERS: 0x8824,
+  MAX_VERTEX_ATTRIBS: 0x8869,
+  MAX_TEXTURE_IMAGE_UNITS: 0x8872,
+  MAX_VERTEX_TEXTURE_IMAGE_UNITS: 0x8B4C,
+  MAX_COMBINED_TEXTURE_IMAGE_UNITS: 0x8B4D,
+  MAX_VERTEX_UNIFORM_VECTORS: 0x8DFB,
+  MAX_VARYING_VECTORS: 0x8DFC,
+  MAX_FRAGMENT_UNIFORM_VECTORS: 0x8DFD,
+  MAX_3D_TEXTURE_SIZE: 0x8073,
+  MAX_ARRAY_TEXTURE_LAYERS: 0x88FF,
+  MAX_COLOR_ATTACHMENTS: 0x8CDF,
+  MAX_SAMPLES: 0x8D57,
+  MAX_UNIFORM_BUFFER_BINDINGS: 0x8A2F,
+  MAX_UNIFORM_BLOCK_SIZE: 0x8A30,
+  UNIFORM_BUFFER_OFFSET_ALIGNMENT: 0x8A34,
+  MAX_TEXTURE_MAX_ANISOTROPY_EXT: 0x84FF,
+  DELETE_STATUS: 0x8B80,
+  COMPILE_STATUS: 0x8B81,
+  LINK_STATUS: 0x8B82,
+  VALIDATE_STATUS: 0x8B83,
+  ACTIVE_UNIFORMS: 0x8B86,
+  ACTIVE_ATTRIBUTES: 0x8B89,
+  COMPLETION_STATUS_KHR: 0x91B1,
+  FRAMEBUFFER_COMPLETE: 0x8CD5,
+  ALREADY_SIGNALED: 0x911A,
+  SIGNALED: 0x9119,
+  LOW_FLOAT: 0x8DF0,
+  HIGH_INT: 0x8DF5,
+};
+
+const GL_PARAMETERS: Record<number, (canvas: HeadlessCanvas) => unknown> = {
+  [GL.VENDOR]: () => 'threewzrd',
+  [GL.RENDERER]: () => 'threewzrd headless',
+  [GL.VERSION]: () => 'WebGL 2.0 (threewzrd headless)',
+  [GL.SHADING_LANGUAGE_VERSION]: () => 'WebGL GLSL ES 3.00',
+  [GL.VIEWPORT]: (canvas) => new Int32Array([0, 0, canvas.width, canvas.height]),
+  [GL.SCISSOR_BOX]: (canvas) => new Int32Array([0, 0, canvas.width, canvas.height]),
+  [GL.MAX_TEXTURE_SIZE]: () => 4096,
+  [GL.MAX_VIEWPORT_DIMS]: () => new Int32Array([4096, 4096]),
+  [GL.ALIASED_POINT_SIZE_RANGE]: () => new Float32Array([1, 1024]),
+  [GL.ALIASED_LINE_WIDTH_RANGE]: () => new Float32Array([1, 1]),
+  [GL.MAX_RENDERBUFFER_SIZE]: () => 4096,
+  [GL.MAX_CUBE_MAP_TEXTURE_SIZE]: () => 4096,
+  [GL.MAX_DRAW_BUFFERS]: () => 8,
+  [GL.MAX_VERTEX_ATTRIBS]: () => 16,
+  [GL.MAX_TEXTURE_IMAGE_UNITS]: () => 16,
+  [GL.MAX_VERTEX_TEXTURE_IMAGE_UNITS]: () => 16,
+  [GL.MAX_COMBINED_TEXTURE_IMAGE_UNITS]: () => 32,
+  [GL.MAX_VERTEX_UNIFORM_VECTORS]: () => 1024,
+  [GL.MAX_VARYING_VECTORS]: () => 30,
+  [GL.MAX_FRAGMENT_UNIFORM_VECTORS]: () => 1024,
+  [GL.MAX_3D_TEXTURE_SIZE]: () => 2048,
+  [GL.MAX_ARRAY_TEXTURE_LAYERS]: () => 2048,
+  [GL.MAX_COLOR_ATTACHMENTS]: () => 8,
+  [GL.MAX_SAMPLES]: () => 4,
+  [GL.MAX_UNIFORM_BUFFER_BINDINGS]: () => 24,
+  [GL.MAX_UNIFORM_BLOCK_SIZE]: () => 65536,
+  [GL.UNIFORM_BUFFER_OFFSET_ALIGNMENT]: () => 256,
+  [GL.MAX_TEXTURE_MAX_ANISOTROPY_EXT]: () => 16,
+};
+
+// Extensions the stub reports as available; everything else returns null
+const GL_EXTENSIONS = [
+  'EXT_color_buffer_float',
+  'EXT_color_buffer_half_float',
+  'EXT_float_blend',
+  'EXT_texture_filter_anisotropic',
+  'OES_texture_float_linear',
+  'OES_texture_half_float_linear',
+  'WEBGL_lose_context',
+];
+
+// Enums that are not in GL get stable made-up values so they can be passed back in
+const generatedEnums = new Map<string, number>();
+
+function getEnum(name: string): number {
+  if (name in GL) {
+    return GL[name as keyof typeof GL];
+  }
+  let value = generatedEnums.get(name);
+  if (value === undefined) {
+    value = 0x20000 + generatedEnums.size;
+    generatedEnums.set(name, value);
+  }
+  return value;
+}
+
+/**
+ * Wraps an object so unknown UPPER_CASE properties read as enums and unknown
+ * methods are no-ops (create* methods return a fresh handle object)
+ */
+function createStub<T extends object>(target: T): T {
+  return new Proxy(target, {
+    get(object, property, receiver) {
+      if (property in object || typeof property === 'symbol') {
+        return Reflect.get(object, property, receiver);
+      }
+      if (/^[A-Z][A-Z0-9_]*$/.test(property)) {
+        return getEnum(property);
+      }
+      if (property === 'then') {
+        return undefined;
+      }
+      return property.startsWith('create') ? () => ({}) : () => undefined;
+    },
+  });
+}
+
+/**
+ * An object that accepts any property access or call (used for Web Audio)
+ */
+function createNoop(): object {
+  const values = new Map<PropertyKey, unknown>();
+  return new Proxy(function () {}, {
+    get(_target, property) {
+      if (property === 'then') return undefined;
+      if (property === Symbol.toPrimitive) return () => 0;
+      if (!values.has(property)) values.set(property, createNoop());
+      return values.get(property);
+    },
+    set(_target, property, value) {
+      values.set(property, value);
+      return true;
+    },
+    apply: () => createNoop(),
+    construct: () => createNoop(),
+  });
+}
+
+class WebGL2RenderingContext {}
+class WebGLRenderingContext {}
+
+function createWebGLContext(canvas: HeadlessCanvas, attributes: Record<string, unknown> = {}): unknown {
+  const context = Object.create(WebGL2RenderingContext.prototype);
+  const extensions = new Map<string, unknown>();
+
+  Object.assign(context, {
+    canvas,
+    get drawingBufferWidth() { return canvas.width; },
+    get drawingBufferHeight() { return canvas.height; },
+    drawingBufferColorSpace: 'srgb',
+    getParameter: (name: number) => GL_PARAMETERS[name]?.(canvas) ?? 0,
+    getContextAttributes: () => ({
+      alpha: true, antialias: false, depth: true, stencil: false, premultipliedAlpha: true,
+      preserveDrawingBuffer: false, powerPreference: 'default', failIfMajorPerformanceCaveat: false,
+      ...attributes,
+    }),
+    getSupportedExtensions: () => [...GL_EXTENSIONS],
+    getExtension: (name: string) => {
+      if (!GL_EXTENSIONS.includes(name)) {
+        return null;
+      }
+      if (!extensions.has(name)) {
+        extensions.set(name, createStub({}));
+      }
+      return extensions.get(name);
+    },
+    getShaderPrecisionFormat: () => ({ rangeMin: 127, rangeMax: 127, precision: 23 }),
+    getShaderParameter: (_shader: unknown, name: number) => name === GL.COMPILE_STATUS || name === GL.DELETE_STATUS ? true : 0,
+    getProgramParameter: (_program: unknown, name: number) =>
+      [GL.LINK_STATUS, GL.VALIDATE_STATUS, GL.COMPLETION_STATUS_KHR].includes(name) ? true : 0,
+    getShaderInfoLog: () => '',
+    getProgramInfoLog: () => '',
+    getShaderSource: () => '',
+    getUniformLocation: () => ({}),
+    getAttribLocation: () => -1,
+    getActiveUniform: () => null,
+    getActiveAttrib: () => null,
+    getUniformBlockIndex: () => 0,
+    getError: () => GL.NO_ERROR,
+    isContextLost: () => false,
+    checkFramebufferStatus: () => GL.FRAMEBUFFER_COMPLETE,
+    clientWaitSync: () => GL.ALREADY_SIGNALED,
+    getSyncParameter: () => GL.SIGNALED,
+    getQueryParameter: () => 0,
+    getInternalformatParameter: () => new Int32Array([4]),
+  });
+
+  return createStub(context);
+}
+
+function create2dContext(canvas: HeadlessCanvas): unknown {
+  const imageData = (width: number, height: number) => ({
+    width, height, data: new Uint8ClampedArray(Math.max(0, width * height * 4)),
+  });
+  const gradient = () => ({ addColorStop: () => undefined });
+
+  return createStub({
+    canvas,
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    font: '10px sans-serif',
+    globalAlpha: 1,
+    lineWidth: 1,
+    getImageData: (_x: number, _y: number, width: number, height: number) => imageData(width, height),
+    createImageData: (width: number, height: number) => imageData(width, height),
+    measureText: (text: string) => ({
+      width: String(text).length * 8, actualBoundingBoxAscent: 8, actualBoundingBoxDescent: 2,
+    }),
+    createLinearGradient: gradient,
+    createRadialGradient: gradient,
+    createConicGradient: gradient,
+    createPattern: () => ({}),
+    isPointInPath: () => false,
+    getTransform: () => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }),
+  });
+}
+
+type Listener = ((event: Event) => void) | { handleEvent(event: Event): void };
+
+class HeadlessEventTarget {
+  private listeners = new Map<string, Set<Listener>>();
+  [handler: `on${string}`]: unknown;
+
+  constructor(protected dom: DomState) {}
+
+  addEventListener(type: string, listener: Listener | null): void {
+    if (!listener) return;
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener | null): void {
+    if (listener) this.listeners.get(type)?.delete(listener);
+  }
+
+  dispatchEvent(event: Event): boolean {
+    if (event.target === undefined || event.target === null) {
+      try {
+        Object.defineProperty(event, 'target', { value: this, configurable: true });
+      } catch {
+        // Some events have a read-only target
+      }
+    }
+    const handlers: Listener[] = [...(this.listeners.get(event.type) ?? [])];
+    const property = this[`on${event.type}`];
+    if (typeof property === 'function') {
+      handlers.push(property as (event: Event) => void);
+    }
+    for (const handler of handlers) {
+      try {
+        if (typeof handler === 'function') {
+          handler.call(this, event);
+        } else {
+          handler.handleEvent(event);
+        }
+      } catch (error) {
+        this.dom.onError(error, `${event.type} event`);
+      }
+    }
+    return !event.defaultPrevented;
+  }
+}
+
+class HeadlessElement extends HeadlessEventTarget {
+  tagName: string;
+  id = '';
+  className = '';
+  textContent = '';
+  innerHTML = '';
+  children: HeadlessElement[] = [];
+  parentNode: HeadlessElement | null = null;
+  attributes = new Map<string, string>();
+  dataset: Record<string, string> = {};
+  style: Record<string, unknown> = {
+    setProperty(this: Record<string, unknown>, name: string, value: unknown) { this[name] = value; },
+    removeProperty(this: Record<string, unknown>, name: string) { delete this[name]; },
+    getPropertyValue(this: Record<string, unknown>, name: string) { return this[name] ?? ''; },
+  };
+  classList = {
+    values: new Set<string>(),
+    add: (...names: string[]) => names.forEach(name => this.classList.values.add(name)),
+    remove: (...names: string[]) => names.forEach(name => this.classList.values.delete(name)),
+    contains: (name: string) => this.classList.values.has(name),
+    toggle: (name: string, force?: boolean) => {
+      const add = force ?? !this.classList.values.has(name);
+      if (add) this.classList.values.add(name); else this.classList.values.delete(name);
+      return add;
+    },
+  };
+
+  constructor(dom: DomState, tagName: string) {
+    super(dom);
+    this.tagName = tagName.toUpperCase();
+  }
+
+  get nodeName(): string { return this.tagName; }
+  get nodeType(): number { return 1; }
+  get ownerDocument(): unknown { return this.dom.document; }
+  get childNodes(): HeadlessElement[] { return this.children; }
+  get firstChild(): HeadlessElement | null { return this.children[0] ?? null; }
+  get lastChild(): HeadlessElement | null { return this.children[this.children.length - 1] ?? null; }
+  get parentElement(): HeadlessElement | null { return this.parentNode; }
+  get isConnected(): boolean { return true; }
+  get clientWidth(): number { return this.dom.width; }
+  get clientHeight(): number { return this.dom.height; }
+  get offsetWidth(): number { return this.dom.width; }
+  get offsetHeight(): number { return this.dom.height; }
+  get offsetLeft(): number { return 0; }
+  get offsetTop(): number { return 0; }
+
+  appendChild<T extends HeadlessElement>(child: T): T {
+    child.parentNode?.removeChild(child);
+    child.parentNode = this;
+    this.children.push(child);
+    return child;
+  }
+
+  append(...nodes: unknown[]): void {
+    for (const node of nodes) {
+      if (node instanceof HeadlessElement) this.appendChild(node);
+    }
+  }
+
+  prepend(...nodes: unknown[]): void {
+    for (const node of nodes.reverse()) {
+      if (node instanceof HeadlessElement) this.insertBefore(node, this.firstChild);
+    }
+  }
+
+  insertBefore<T extends HeadlessElement>(child: T, reference: HeadlessElement | null): T {
+    child.parentNode?.removeChild(child);
+    const index = reference ? this.children.indexOf(reference) : -1;
+    child.parentNode = this;
+    if (index === -1) this.children.push(child); else this.children.splice(index, 0, child);
+    return child;
+  }
+
+  removeChild<T extends HeadlessElement>(child: T): T {
+    this.children = this.children.filter(existing => existing !== child);
+    child.parentNode = null;
+    return child;
+  }
+
+  replaceChildren(...nodes: unknown[]): void {
+    [...this.children].forEach(child => this.removeChild(child));
+    this.append(...nodes);
+  }
+
+  remove(): void {
+    this.parentNode?.removeChild(this);
+  }
+
+  contains(node: unknown): boolean {
+    return node === this || this.children.some(child => child.contains(node));
+  }
+
+  setAttribute(name: string, value: unknown): void {
+    this.attributes.set(name, String(value));
+    if (name === 'id') this.id = String(value);
+    if (name === 'class') this.className = String(value);
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.has(name);
+  }
+
+  removeAttribute(name: string): void {
+    this.attributes.delete(name);
+  }
+
+  getBoundingClientRect() {
+    const { width, height } = this.dom;
+    return { x: 0, y: 0, left: 0, top: 0, right: width, bottom: height, width, height };
+  }
+
+  getRootNode(): unknown { return this.dom.document; }
+  querySelector(selector: string): HeadlessElement | null { return this.dom.query(selector, this); }
+  querySelectorAll(selector: string): HeadlessElement[] { return this.dom.queryAll(selector, this); }
+  getElementsByTagName(tag: string): HeadlessElement[] { return this.dom.queryAll(tag, this); }
+  focus(): void {}
+  blur(): void {}
+  click(): void { this.dispatchEvent(new Event('click')); }
+  setPointerCapture(): void {}
+  releasePointerCapture(): void {}
+  hasPointerCapture(): boolean { return false; }
+  requestPointerLock(): void {}
+  requestFullscreen(): Promise<void> { return Promise.resolve(); }
+  scrollIntoView(): void {}
+}
+
+class HeadlessCanvas extends HeadlessElement {
+  width = 300;
+  height = 150;
+  private context: { type: string; value: unknown } | null = null;
+
+  getContext(type: string, attributes?: Record<string, unknown>): unknown {
+    if (this.context) {
+      return this.context.type === type ? this.context.value : null;
+    }
+    let value: unknown = null;
+    if (type === 'webgl2' || type === 'webgl' || type === 'experimental-webgl') {
+      value = createWebGLContext(this, attributes);
+    } else if (type === '2d') {
+      value = create2dContext(this);
+    }
+    if (value) {
+      this.context = { type, value };
+    }
+    return value;
+  }
+
+  toDataURL(): string {
+    return 'data:image/png;base64,';
+  }
+
+  toBlob(callback: (blob: Blob) => void): void {
+    setTimeout(() => callback(new Blob([], { type: 'image/png' })), 0);
+  }
+
+  captureStream(): unknown {
+    return createNoop();
+  }
+}
+
+class HeadlessImage extends HeadlessElement {
+  width = 0;
+  height = 0;
+  naturalWidth = 0;
+  naturalHeight = 0;
+  complete = false;
+  crossOrigin: string | null = null;
+  decoding = 'auto';
+  private source = '';
+
+  get src(): string {
+    return this.source;
+  }
+
+  set src(url: string) {
+    this.source = url;
+    this.complete = false;
+    setTimeout(() => {
+      const failure = this.dom.checkResource(url);
+      this.complete = true;
+      if (failure) {
+        this.dispatchEvent(new Event('error'));
+      } else {
+        this.width = this.naturalWidth = 1;
+        this.height = this.naturalHeight = 1;
+        this.dispatchEvent(new Event('load'));
+      }
+    }, 0);
+  }
+
+  decode(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+class HeadlessMedia extends HeadlessElement {
+  src = '';
+  paused = true;
+  muted = false;
+  loop = false;
+  currentTime = 0;
+  readyState = 4;
+  videoWidth = 1;
+  videoHeight = 1;
+
+  play(): Promise<void> {
+    this.paused = false;
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  load(): void {}
+  canPlayType(): string { return ''; }
+  requestVideoFrameCallback(): number { return 0; }
+}
+
+// Shared state the element classes need (document, size, error reporting)
+class DomState {
+  // Set by installHeadlessDom once the document exists
+  document!: HeadlessEventTarget & { documentElement: HeadlessElement; body: HeadlessElement };
+  width: number;
+  height: number;
+  onError: HeadlessDomOptions['onError'];
+  private rootDir: string;
+  private onFailedRequest: HeadlessDomOptions['onFailedRequest'];
+  private pageIds: Map<string, string>;
+  private pageClasses: Map<string, string>;
+  private pageTags: Set<string>;
+  // Elements that exist in index.html but have not been touched yet
+  private pageElements = new Map<string, HeadlessElement>();
+
+  constructor(options: HeadlessDomOptions) {
+    this.width = options.width;
+    this.height = options.height;
+    this.onError = options.onError;
+    this.rootDir = options.rootDir;
+    this.onFailedRequest = options.onFailedRequest;
+
+    const { ids, classes, tags } = scanHtml(options.html);
+    this.pageIds = ids;
+    this.pageClasses = classes;
+    this.pageTags = tags;
+  }
+
+  createElement(tagName: string): HeadlessElement {
+    const tag = tagName.toLowerCase();
+    if (tag === 'canvas') return new HeadlessCanvas(this, tag);
+    if (tag === 'img') return new HeadlessImage(this, tag);
+    if (tag === 'video' || tag === 'audio') return new HeadlessMedia(this, tag);
+    return new HeadlessElement(this, tag);
+  }
+
+  query(selector: string, scope: HeadlessElement): HeadlessElement | null {
+    return this.queryAll(selector, scope)[0] ?? null;
+  }
+
+  /**
+   * Supports the selectors scenes use to find their container: #id, .class and tag
+   * names (only the last part of a descendant selector is matched)
+   */
+  queryAll(selector: string, scope: HeadlessElement): HeadlessElement[] {
+    const last = selector.trim().split(/[\s>+~]+/).pop() ?? '';
+    const matches = (element: HeadlessElement) => matchesSelector(element, last);
+
+    const found: HeadlessElement[] = [];
+    const walk = (element: HeadlessElement) => {
+      for (const child of element.children) {
+        if (matches(child)) found.push(child);
+        walk(child);
+      }
+    };
+    walk(scope);
+    if (found.length > 0 || scope !== this.document.documentElement) {
+      return found;
+    }
+
+    // Fall back to elements written in index.html
+    let key: string | null = null;
+    let tag = 'div';
+    if (last.startsWith('#') && this.pageIds.has(last.slice(1))) {
+      key = last;
+      tag = this.pageIds.get(last.slice(1))!;
+    } else if (last.startsWith('.') && this.pageClasses.has(last.slice(1))) {
+      key = last;
+      tag = this.pageClasses.get(last.slice(1))!;
+    } else if (/^[a-z][a-z0-9-]*$/i.test(last) && this.pageTags.has(last.toLowerCase())) {
+      key = last.toLowerCase();
+      tag = key;
+    }
+    if (!key) {
+      return [];
+    }
+
+    let element = this.pageElements.get(key);
+    if (!element) {
+      element = this.createElement(tag);
+      if (key.startsWith('#')) element.id = key.slice(1);
+      if (key.startsWith('.')) {
+        element.className = key.slice(1);
+        element.classList.add(key.slice(1));
+      }
+      this.document.body.appendChild(element);
+      this.pageElements.set(key, element);
+    }
+    return [element];
+  }
+
+  resolveUrl(url: string): URL {
+    return new URL(url, `${ORIGIN}/`);
+  }
+
+  /**
+   * Returns why a resource cannot be loaded, or null if it can
+   */
+  checkResource(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = this.resolveUrl(url);
+    } catch {
+      this.onFailedRequest(url, 'invalid URL');
+      return 'invalid URL';
+    }
+    if (parsed.protocol === 'data:' || parsed.protocol === 'blob:') {
+      return null;
+    }
+    if (parsed.origin !== ORIGIN) {
+      this.onFailedRequest(url, 'network access is disabled during verification');
+      return 'network access is disabled';
+    }
+    if (!fs.existsSync(this.getLocalPath(parsed))) {
+      this.onFailedRequest(url, 'file not found');
+      return 'file not found';
+    }
+    return null;
+  }
+
+  getLocalPath(url: URL): string {
+    return path.join(this.rootDir, decodeURIComponent(url.pathname));
+  }
+}
+
+function matchesSelector(element: HeadlessElement, selector: string): boolean {
+  if (selector.startsWith('#')) return element.id === selector.slice(1);
+  if (selector.startsWith('.')) {
+    const name = selector.slice(1);
+    return element.classList.contains(name) || element.className.split(/\s+/).includes(name);
+  }
+  return element.tagName === selector.toUpperCase();
+}
+
+function scanHtml(html: string): { ids: Map<string, string>; classes: Map<string, string>; tags: Set<string> } {
+  const ids = new Map<string, string>();
+  const classes = new Map<string, string>();
+  const tags = new Set<string>();
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? '';
+
+  for (const match of body.matchAll(/<([a-z][a-z0-9-]*)\b([^>]*)>/gi)) {
+    const tag = match[1].toLowerCase();
+    if (tag === 'script') continue;
+    tags.add(tag);
+    const id = /\bid\s*=\s*["']([^"']+)["']/i.exec(match[2])?.[1];
+    if (id) ids.set(id, tag);
+    const classNames = /\bclass\s*=\s*["']([^"']+)["']/i.exec(match[2])?.[1];
+    classNames?.split(/\s+/).filter(Boolean).forEach(name => classes.set(name, tag));
+  }
+
+  return { ids, classes, tags };
+}
+
+function defineGlobal(name: string, value: unknown): void {
+  Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+}
+
+function createStorage() {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    key: (index: number) => [...values.keys()][index] ?? null,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: unknown) => { values.set(key, String(value)); },
+    removeItem: (key: string) => { values.delete(key); },
+    clear: () => values.clear(),
+  };
+}
+
+class NoopObserver {
+  observe(): void {}
+  unobserve(): void {}
+  disconnect(): void {}
+  takeRecords(): unknown[] { return []; }
+}
+
+/**
+ * Installs window, document and the browser globals three.js apps use onto globalThis
+ */
+export function installHeadlessDom(options: HeadlessDomOptions): HeadlessDom {
+  const dom = new DomState(options);
+  const windowEvents = new HeadlessEventTarget(dom);
+
+  const documentElement = dom.createElement('html');
+  const head = documentElement.appendChild(dom.createElement('head'));
+  const body = documentElement.appendChild(dom.createElement('body'));
+  const document = Object.assign(new HeadlessEventTarget(dom), {
+    documentElement,
+    head,
+    body,
+    readyState: 'interactive',
+    visibilityState: 'visible',
+    hidden: false,
+    cookie: '',
+    title: /<title>([^<]*)<\/title>/i.exec(options.html)?.[1] ?? '',
+    pointerLockElement: null,
+    fullscreenElement: null,
+    createElement: (tag: string) => dom.createElement(tag),
+    createElementNS: (_namespace: string, tag: string) => dom.createElement(tag),
+    createTextNode: (text: string) => Object.assign(dom.createElement('#text'), { textContent: text }),
+    createDocumentFragment: () => dom.createElement('#fragment'),
+    getElementById: (id: string) => dom.query(`#${id}`, documentElement),
+    querySelector: (selector: string) => dom.query(selector, documentElement),
+    querySelectorAll: (selector: string) => dom.queryAll(selector, documentElement),
+    getElementsByTagName: (tag: string) => dom.queryAll(tag, documentElement),
+    getElementsByClassName: (name: string) => dom.queryAll(`.${name}`, documentElement),
+    hasFocus: () => true,
+    exitPointerLock: () => undefined,
+    exitFullscreen: () => Promise.resolve(),
+  });
+  dom.document = document;
+
+  // Animation frames are driven explicitly by runAnimationFrame
+  let frameCallbacks = new Map<number, (time: number) => void>();
+  let nextFrameId = 1;
+
+  const location = new URL(`${ORIGIN}/`);
+  const navigator = {
+    userAgent: 'Mozilla/5.0 (threewzrd headless)',
+    platform: 'Linux',
+    language: 'en-US',
+    languages: ['en-US'],
+    hardwareConcurrency: 4,
+    maxTouchPoints: 0,
+    onLine: true,
+    getGamepads: () => [],
+  };
+
+  const originalFetch = globalThis.fetch;
+  const fetch = async (input: unknown, init?: unknown): Promise<Response> => {
+    const url = typeof input === 'string' ? input : (input as { url?: string })?.url ?? String(input);
+    const parsed = dom.resolveUrl(url);
+    if (parsed.protocol === 'data:' || parsed.protocol === 'blob:') {
+      return originalFetch(url, init as RequestInit);
+    }
+    if (dom.checkResource(url)) {
+      if (parsed.origin !== ORIGIN) {
+        throw new TypeError(`Failed to fetch ${url}: network access is disabled during verification`);
+      }
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(fs.readFileSync(dom.getLocalPath(parsed)), { status: 200 });
+  };
+
+  const globals: Record<string, unknown> = {
+    window: globalThis,
+    self: globalThis,
+    document,
+    navigator,
+    location,
+    fetch,
+    innerWidth: options.width,
+    innerHeight: options.height,
+    outerWidth: options.width,
+    outerHeight: options.height,
+    devicePixelRatio: 1,
+    screen: { width: options.width, height: options.height, availWidth: options.width, availHeight: options.height },
+    localStorage: createStorage(),
+    sessionStorage: createStorage(),
+    addEventListener: windowEvents.addEventListener.bind(windowEvents),
+    removeEventListener: windowEvents.removeEventListener.bind(windowEvents),
+    dispatchEvent: windowEvents.dispatchEvent.bind(windowEvents),
+    requestAnimationFrame: (callback: (time: number) => void) => {
+      const id = nextFrameId++;
+      frameCallbacks.set(id, callback);
+      return id;
+    },
+    cancelAnimationFrame: (id: number) => { frameCallbacks.delete(id); },
+    requestIdleCallback: (callback: () => void) => setTimeout(callback, 0),
+    cancelIdleCallback: (id: ReturnType<typeof setTimeout>) => clearTimeout(id),
+    matchMedia: (query: string) => ({
+      matches: false, media: query,
+      addEventListener: () => undefined, removeEventListener: () => undefined,
+      addListener: () => undefined, removeListener: () => undefined,
+    }),
+    getComputedStyle: (element: HeadlessElement) => element.style,
+    alert: () => undefined,
+    confirm: () => false,
+    prompt: () => null,
+    open: () => null,
+    scrollTo: () => undefined,
+    Node: HeadlessElement,
+    Element: HeadlessElement,
+    HTMLElement: HeadlessElement,
+    HTMLCanvasElement: HeadlessCanvas,
+    HTMLImageElement: HeadlessImage,
+    HTMLVideoElement: HeadlessMedia,
+    HTMLMediaElement: HeadlessMedia,
+    Image: class extends HeadlessImage {
+      constructor(width?: number, height?: number) {
+        super(dom, 'img');
+        if (width !== undefined) this.width = width;
+        if (height !== undefined) this.height = height;
+      }
+    },
+    WebGLRenderingContext,
+    WebGL2RenderingContext,
+    ResizeObserver: NoopObserver,
+    IntersectionObserver: NoopObserver,
+    MutationObserver: NoopObserver,
+    AudioContext: function AudioContext() { return createNoop(); },
+    webkitAudioContext: function AudioContext() { return createNoop(); },
+  };
+
+  // Event subclasses some apps construct (Node only ships Event and CustomEvent)
+  for (const name of ['UIEvent', 'MouseEvent', 'PointerEvent', 'KeyboardEvent', 'WheelEvent', 'TouchEvent', 'FocusEvent']) {
+    if (!(name in globalThis)) {
+      globals[name] = class extends Event {
+        constructor(type: string, init: Record<string, unknown> = {}) {
+          super(type, init);
+          Object.assign(this, init);
+        }
+      };
+    }
+  }
+  if (!('CustomEvent' in globalThis)) {
+    globals.CustomEvent = class extends Event {
+      detail: unknown;
+      constructor(type: string, init: EventInit & { detail?: unknown } = {}) {
+        super(type, init);
+        this.detail = init.detail ?? null;
+      }
+    };
+  }
+
+  for (const [name, value] of Object.entries(globals)) {
+    defineGlobal(name, value);
+  }
+
+  return {
+    finishLoading(): void {
+      document.readyState = 'complete';
+      document.dispatchEvent(new Event('DOMContentLoaded'));
+      windowEvents.dispatchEvent(new Event('load'));
+    },
+
+    runAnimationFrame(time: number): number {
+      const callbacks = frameCallbacks;
+      frameCallbacks = new Map();
+      for (const callback of callbacks.values()) {
+        try {
+          callback(time);
+        } catch (error) {
+          options.onError(error, 'animation frame');
+        }
+      }
+      return callbacks.size;
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Image Size - Reads the pixel dimensions of PNG, JPEG, WebP, GIF, KTX2, Radiance HDR
+ * and OpenEXR images from their headers, without decoding them
+ */
+
+export interface ImageSize {
+  format: 'png' | 'jpeg' | 'webp' | 'gif' | 'ktx2' | 'hdr' | 'exr';
+  width: number;
+  height: number;
+}
+
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Returns null if the data is not a recognized image or its header is truncated
+ */
+export function readImageSize(data: Buffer): ImageSize | null {
+  try {
+    // PNG: signature, then the IHDR chunk
+    if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.toString('ascii', 12, 16) === 'IHDR') {
+      return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+
+    // JPEG: walk the markers up to the start-of-frame segment
+    if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) return null;
+        const marker = data[offset + 1];
+        if (marker === 0xff) {
+          offset++;
+          continue;
+        }
+        const length = data.readUInt16BE(offset + 2);
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { format: 'jpeg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + length;
+      }
+      return null;
+    }
+
+    // WebP: RIFF container with a VP8, VP8L or VP8X chunk
+    if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+      const chunk = data.toString('ascii', 12, 16);
+      if (chunk === 'VP8 ') {
+        return { format: 'webp', width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+      }
+      if (chunk === 'VP8L') {
+        const bits = data.readUInt32LE(21);
+        return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === 'VP8X') {
+        return { format: 'webp', width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+      }
+      return null;
+    }
+
+    if (data.length >= 10 && data.toString('ascii', 0, 4) === 'GIF8') {
+      return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    }
+
+    if (data.length >= 28 && KTX2_IDENTIFIER.every((byte, index) => data[index] === byte)) {
+      return { format: 'ktx2', width: data.readUInt32LE(20), height: Math.max(data.readUInt32LE(24), 1) };
+    }
+
+    // Radiance: text header, a blank line, then the resolution string ("-Y 1024 +X 2048")
+    if (data.length >= 11 && /^#\?(?:RADIANCE|RGBE)/.test(data.toString('ascii', 0, 10))) {
+      const header = data.toString('latin1', 0, Math.min(data.length, 8192));
+      const resolution = /\n\n([-+])Y (\d+) ([-+])X (\d+)/.exec(header);
+      return resolution ? { format: 'hdr', width: Number(resolution[4]), height: Number(resolution[2]) } : null;
+    }
+
+    // OpenEXR: attribute list with a box2i "dataWindow"
+    if (data.length >= 8 && data.readUInt32LE(0) === 0x01312f76) {
+      let offset = 8;
+      while (offset < data.length && data[offset] !== 0) {
+        const nameEnd = data.indexOf(0, offset);
+        const typeEnd = data.indexOf(0, nameEnd + 1);
+        if (nameEnd < 0 || typeEnd < 0) return null;
+        const name = data.toString('ascii', offset, nameEnd);
+        const size = data.readInt32LE(typeEnd + 1);
+        const value = typeEnd + 5;
+        if (name === 'dataWindow') {
+          const [xMin, yMin, xMax, yMax] = [0, 4, 8, 12].map(index => data.readInt32LE(value + index));
+          return { format: 'exr', width: xMax - xMin + 1, height: yMax - yMin + 1 };
+        }
+        offset = value + size;
+      }
+      return null;
+    }
+  } catch {
+    // Truncated header
+  }
+  return null;
+}
+
+export function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
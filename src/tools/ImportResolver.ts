@@ -0,0 +1,380 @@
+/**
+ * Import Resolver - Checks that the modules a JS/TS file imports can be resolved
+ * Relative imports are resolved against the project's files (with tsconfig path aliases),
+ * bare imports against package.json dependencies and node_modules, including package
+ * export maps such as three's `three/addons/*`.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import ts from 'typescript';
+
+export interface ImportCheckResult {
+  warnings: string[];
+}
+
+interface ImportReference {
+  specifier: string;
+  line: number;
+  column: number;
+  typeOnly: boolean;
+}
+
+interface PackageJson {
+  name?: string;
+  version?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  exports?: unknown;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+// Extensions tried for extensionless imports, and for TS files importing "./foo.js"
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.json'];
+const TS_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts']);
+const RESOLVABLE_EXTENSIONS = new Set(['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.mts', '.cts']);
+
+// Export map conditions, in the order a browser bundler would pick them
+const EXPORT_CONDITIONS = ['browser', 'import', 'module', 'default', 'require', 'types'];
+
+// Packages that models reach for but that are outdated or wrong for a three.js project
+const PACKAGE_ALTERNATIVES: Record<string, string> = {
+  'three-orbit-controls': "import { OrbitControls } from 'three/addons/controls/OrbitControls.js' (part of three)",
+  'three-orbitcontrols': "import { OrbitControls } from 'three/addons/controls/OrbitControls.js' (part of three)",
+  'three-gltf-loader': "import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js' (part of three)",
+  'three-obj-loader': "import { OBJLoader } from 'three/addons/loaders/OBJLoader.js' (part of three)",
+  'dat.gui': "lil-gui (npm install lil-gui), or 'three/addons/libs/lil-gui.module.min.js'",
+  'cannon': 'cannon-es (npm install cannon-es), the maintained ES module fork',
+  'react-three-fiber': '@react-three/fiber (npm install @react-three/fiber)',
+  'drei': '@react-three/drei (npm install @react-three/drei)',
+};
+
+export class ImportResolver {
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = workingDirectory;
+  }
+
+  shouldCheck(filePath: string): boolean {
+    return RESOLVABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Resolves every import of a file that is about to be written and describes the ones that fail
+   */
+  async check(filePath: string, content: string): Promise<ImportCheckResult> {
+    const warnings: string[] = [];
+    const pkg = await this.readJson<PackageJson>(path.join(this.workingDirectory, 'package.json'));
+    const declared = new Set(Object.keys({
+      ...pkg?.dependencies,
+      ...pkg?.devDependencies,
+      ...pkg?.peerDependencies,
+      ...pkg?.optionalDependencies,
+    }));
+    const hasNodeModules = await this.exists(path.join(this.workingDirectory, 'node_modules'));
+    const aliases = await this.loadPathAliases();
+    const fromDir = path.dirname(path.resolve(this.workingDirectory, filePath));
+    const isTypeScript = TS_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+    const reported = new Set<string>();
+
+    for (const reference of extractImports(filePath, content)) {
+      const { specifier } = reference;
+      const location = `Line ${reference.line}, column ${reference.column}`;
+      const report = (message: string) => {
+        if (!reported.has(message)) {
+          reported.add(message);
+          warnings.push(`${location}: ${message}`);
+        }
+      };
+
+      const bare = specifier.split('?')[0];
+      if (!bare || isExternal(bare)) continue;
+
+      // Relative and root-relative (Vite serves "/src/main.js" from the project root)
+      if (bare.startsWith('.') || bare.startsWith('/')) {
+        const base = bare.startsWith('/') ? path.join(this.workingDirectory, bare) : path.resolve(fromDir, bare);
+        if (!(await this.resolveFile(base, isTypeScript))) {
+          report(`Cannot resolve '${specifier}' - ${this.relative(base)} does not exist. Create it, or fix the path.`);
+        }
+        continue;
+      }
+
+      const alias = aliases.find(candidate => candidate.matches(bare));
+      if (alias) {
+        const targets = alias.targets(bare);
+        let found = false;
+        for (const target of targets) {
+          if (await this.resolveFile(target, isTypeScript)) {
+            found = true;
+            break;
+          }
+        }
+        if (!found) {
+          report(`Cannot resolve '${specifier}' through the tsconfig path alias - ${targets.map(target => this.relative(target)).join(' or ')} does not exist`);
+        }
+        continue;
+      }
+
+      // "@/..." and "~/..." are bundler aliases we cannot see (e.g. vite.config resolve.alias)
+      if (bare.startsWith('@/') || bare.startsWith('~')) continue;
+
+      const packageName = getPackageName(bare);
+      if (!packageName) {
+        report(`'${specifier}' is not a valid module specifier`);
+        continue;
+      }
+      const subpath = bare.slice(packageName.length);
+
+      if (PACKAGE_ALTERNATIVES[packageName] && !declared.has(packageName)) {
+        report(`'${packageName}' is not a dependency and should not be added - use ${PACKAGE_ALTERNATIVES[packageName]}`);
+        continue;
+      }
+
+      if (!declared.has(packageName) && packageName !== pkg?.name) {
+        const install = reference.typeOnly ? `npm install -D ${packageName}` : `npm install ${packageName}`;
+        report(pkg
+          ? `'${packageName}' is not in package.json - add it with \`${install}\``
+          : `'${packageName}' needs to be installed, but there is no package.json yet - create one and run \`${install}\``);
+        continue;
+      }
+
+      // Without node_modules nothing is installed yet, so only package.json can be checked
+      if (!hasNodeModules) continue;
+
+      const packageDir = path.join(this.workingDirectory, 'node_modules', packageName);
+      const installed = await this.readJson<PackageJson>(path.join(packageDir, 'package.json'));
+      if (!installed) {
+        report(`'${packageName}' is in package.json but not installed - run \`npm install\``);
+        continue;
+      }
+
+      if (!(await this.resolvePackageEntry(packageDir, installed, subpath))) {
+        report(subpath
+          ? `'${specifier}' is not exported by ${packageName}@${installed.version ?? '?'} - check the path (and the .js extension)`
+          : `'${packageName}' has no entry point to import`);
+        continue;
+      }
+
+      if (isTypeScript && !subpath && !installed.types && !installed.typings &&
+          !(await this.exists(path.join(packageDir, 'index.d.ts')))) {
+        const typesPackage = `@types/${packageName.startsWith('@') ? packageName.slice(1).replace('/', '__') : packageName}`;
+        if (!declared.has(typesPackage)) {
+          report(`'${packageName}' ships no type declarations - add them with \`npm install -D ${typesPackage}\``);
+        }
+      }
+    }
+
+    return { warnings };
+  }
+
+  /**
+   * Resolves a module path like a bundler: exact file, added extension, TS source
+   * for a .js import, or a directory index
+   */
+  private async resolveFile(base: string, isTypeScript: boolean): Promise<string | null> {
+    const candidates = [base, ...SOURCE_EXTENSIONS.map(ext => base + ext)];
+    if (isTypeScript && /\.(m|c)?jsx?$/.test(base)) {
+      const stem = base.replace(/\.(m|c)?jsx?$/, '');
+      candidates.push(...['.ts', '.tsx', '.mts', '.cts'].map(ext => stem + ext));
+    }
+    candidates.push(...SOURCE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)));
+
+    for (const candidate of candidates) {
+      try {
+        const stat = await fs.stat(candidate);
+        if (stat.isFile()) return candidate;
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a package subpath ("" for the root) through its export map, or by file
+   * when the package has no "exports"
+   */
+  private async resolvePackageEntry(packageDir: string, pkg: PackageJson, subpath: string): Promise<string | null> {
+    if (pkg.exports !== undefined && pkg.exports !== null) {
+      const target = resolveExports(pkg.exports, subpath ? `.${subpath}` : '.');
+      if (!target) return null;
+      const fullPath = path.join(packageDir, target);
+      return (await this.exists(fullPath)) ? fullPath : null;
+    }
+
+    if (!subpath) {
+      const entry = pkg.module ?? pkg.main ?? 'index.js';
+      return this.resolveFile(path.join(packageDir, entry), false);
+    }
+    return this.resolveFile(path.join(packageDir, subpath), false);
+  }
+
+  /**
+   * Reads compilerOptions.paths from tsconfig.json (or jsconfig.json) as matchers
+   */
+  private async loadPathAliases(): Promise<{ matches: (specifier: string) => boolean; targets: (specifier: string) => string[] }[]> {
+    for (const name of ['tsconfig.json', 'jsconfig.json']) {
+      let text: string;
+      try {
+        text = await fs.readFile(path.join(this.workingDirectory, name), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      // tsconfig allows comments and trailing commas
+      const { config } = ts.parseConfigFileTextToJson(name, text);
+      const options = config?.compilerOptions ?? {};
+      const paths = options.paths as Record<string, string[]> | undefined;
+      if (!paths) return [];
+
+      const baseDir = path.resolve(this.workingDirectory, typeof options.baseUrl === 'string' ? options.baseUrl : '.');
+      return Object.entries(paths).map(([pattern, targets]) => {
+        const star = pattern.indexOf('*');
+        const prefix = star === -1 ? pattern : pattern.slice(0, star);
+        const suffix = star === -1 ? '' : pattern.slice(star + 1);
+        const capture = (specifier: string) => specifier.slice(prefix.length, specifier.length - suffix.length);
+        return {
+          matches: (specifier: string) => star === -1
+            ? specifier === pattern
+            : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length,
+          targets: (specifier: string) => targets.map(target => path.resolve(baseDir, target.replace('*', capture(specifier)))),
+        };
+      });
+    }
+    return [];
+  }
+
+  private relative(fullPath: string): string {
+    return path.relative(this.workingDirectory, fullPath) || '.';
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Collects static imports, re-exports, dynamic import() and require() with string arguments
+ */
+export function extractImports(filePath: string, content: string): ImportReference[] {
+  const sourceFile = ts.createSourceFile(path.basename(filePath), content, ts.ScriptTarget.Latest, true);
+  const references: ImportReference[] = [];
+
+  const add = (node: ts.StringLiteralLike, typeOnly: boolean) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    references.push({ specifier: node.text, line: line + 1, column: character + 1, typeOnly });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      add(node.moduleSpecifier, !!node.importClause?.isTypeOnly);
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      add(node.moduleSpecifier, node.isTypeOnly);
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteral(node.argument.literal)) {
+      add(node.argument.literal, true);
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0]) &&
+               (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+                (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      add(node.arguments[0], false);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return references;
+}
+
+/**
+ * "three/addons/x.js" -> "three", "@react-three/fiber/dist" -> "@react-three/fiber"
+ */
+export function getPackageName(specifier: string): string | null {
+  const parts = specifier.split('/');
+  if (specifier.startsWith('@')) {
+    return parts.length >= 2 && parts[0].length > 1 && parts[1] ? `${parts[0]}/${parts[1]}` : null;
+  }
+  return parts[0] || null;
+}
+
+function isExternal(specifier: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(specifier) ||   // https:, data:, node:, virtual:
+    specifier.startsWith('//') ||
+    builtinModules.includes(specifier) ||
+    builtinModules.includes(specifier.split('/')[0]);
+}
+
+/**
+ * Resolves a subpath ("." or "./addons/x.js") through a package "exports" field,
+ * including "*" patterns and nested condition objects
+ */
+export function resolveExports(exportsField: unknown, subpath: string): string | null {
+  // "exports": "./index.js" or { "import": ..., "default": ... } describe only the root
+  if (typeof exportsField === 'string' || Array.isArray(exportsField) ||
+      (isRecord(exportsField) && !Object.keys(exportsField).some(key => key.startsWith('.')))) {
+    return subpath === '.' ? pickTarget(exportsField, '') : null;
+  }
+  if (!isRecord(exportsField)) return null;
+
+  if (subpath in exportsField) {
+    return pickTarget(exportsField[subpath], '');
+  }
+
+  // Longest matching "*" pattern wins
+  let best: { key: string; capture: string } | null = null;
+  for (const key of Object.keys(exportsField)) {
+    const star = key.indexOf('*');
+    if (star === -1) continue;
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+      if (!best || prefix.length > best.key.indexOf('*')) {
+        best = { key, capture: subpath.slice(prefix.length, subpath.length - suffix.length) };
+      }
+    }
+  }
+  return best ? pickTarget(exportsField[best.key], best.capture) : null;
+}
+
+function pickTarget(target: unknown, capture: string): string | null {
+  if (target === null) return null;   // explicitly not exported
+  if (typeof target === 'string') return target.replace(/\*/g, capture);
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const picked = pickTarget(item, capture);
+      if (picked) return picked;
+    }
+    return null;
+  }
+  if (isRecord(target)) {
+    for (const condition of EXPORT_CONDITIONS) {
+      if (condition in target) {
+        const picked = pickTarget(target[condition], capture);
+        if (picked) return picked;
+      }
+    }
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,314 @@
+/**
+ * Scene Runner - Child process started by SceneVerifier. Installs the headless DOM,
+ * imports the app's entry modules, runs a few animation frames and sends back a
+ * SceneRunReport over IPC. three.js announces every Scene and WebGLRenderer it
+ * creates through __THREE_DEVTOOLS__, which is how the scene graph is found.
+ */
+
+import * as path from 'path';
+import { format } from 'util';
+import { pathToFileURL } from 'url';
+import { installHeadlessDom } from './HeadlessDom.js';
+import type { RuntimeError, SceneRunReport, SceneRunRequest, SceneStats } from './SceneVerifier.js';
+
+// Top-level code awaiting something that never happens (e.g. a click) is given up on after this
+const ENTRY_TIMEOUT_MS = 5000;
+// Time for loaders and other async work to settle between frames
+const FRAME_INTERVAL_MS = 16;
+const MAX_OUTLINE_LINES = 40;
+const MAX_MESSAGES = 20;
+const MAX_STACK_FRAMES = 4;
+
+// The parts of three.js objects the report reads. They come from the app's copy of three.js,
+// so the is* flags are checked before the fields that go with them are used.
+interface ThreeObject {
+  type?: string;
+  name?: string;
+  visible?: boolean;
+  children?: ThreeObject[];
+  isScene?: boolean;
+  isMesh?: boolean;
+  isInstancedMesh?: boolean;
+  isLight?: boolean;
+  isCamera?: boolean;
+  isColor?: boolean;
+  // Instance count of an InstancedMesh
+  count?: number;
+  geometry?: ThreeGeometry;
+  material?: ThreeObject | ThreeObject[];
+  background?: ThreeObject | null;
+  environment?: unknown;
+  fog?: ThreeObject | null;
+}
+
+interface ThreeGeometry extends ThreeObject {
+  index?: { count: number } | null;
+  attributes?: { position?: { count: number } };
+}
+
+interface ThreeCamera extends ThreeObject {
+  isPerspectiveCamera?: boolean;
+  fov: number;
+  aspect: number;
+  near: number;
+  far: number;
+}
+
+interface ThreeLight extends ThreeObject {
+  intensity: number;
+  castShadow?: boolean;
+}
+
+interface ThreeColor extends ThreeObject {
+  getHexString(): string;
+}
+
+interface ThreeRenderer {
+  render(scene: ThreeObject, camera?: ThreeCamera): unknown;
+  domElement: unknown;
+  info?: { render?: { calls?: number } };
+}
+
+async function main(): Promise<void> {
+  const request = JSON.parse(process.argv[2]) as SceneRunRequest;
+  const report: SceneRunReport = {
+    framesRequested: request.frames,
+    framesRun: 0,
+    renderers: [],
+    renderCalls: 0,
+    drawCalls: 0,
+    renderCameras: [],
+    exceptions: [],
+    consoleErrors: [],
+    consoleWarnings: [],
+    failedRequests: [],
+    pendingEntries: [],
+    scenes: [],
+  };
+
+  const seen = new Set<string>();
+  const push = (list: string[], message: string) => {
+    if (list.length < MAX_MESSAGES && !seen.has(message)) {
+      seen.add(message);
+      list.push(message);
+    }
+  };
+  const recordError = (error: unknown, phase: string) => {
+    const described = describeError(error, phase, request.projectDir);
+    const key = `${described.phase}:${described.message}`;
+    if (report.exceptions.length < MAX_MESSAGES && !seen.has(key)) {
+      seen.add(key);
+      report.exceptions.push(described);
+    }
+  };
+
+  process.on('uncaughtException', error => recordError(error, 'async'));
+  process.on('unhandledRejection', reason => recordError(reason, 'unhandled promise rejection'));
+  console.error = (...args: unknown[]) => push(report.consoleErrors, format(...args));
+  console.warn = (...args: unknown[]) => push(report.consoleWarnings, format(...args));
+  console.log = console.info = console.debug = () => undefined;
+
+  const scenes = new Set<ThreeObject>();
+  const renderers: ThreeRenderer[] = [];
+  const renderCameras = new Set<ThreeCamera | undefined>();
+  const renderedScenes = new Set<ThreeObject>();
+
+  const devtools = new EventTarget();
+  devtools.addEventListener('observe', (event) => {
+    const object: unknown = (event as CustomEvent<unknown>).detail;
+    if (isScene(object)) {
+      scenes.add(object);
+    } else if (isRenderer(object)) {
+      renderers.push(object);
+      const render = object.render;
+      object.render = function (this: ThreeRenderer, scene: ThreeObject, camera?: ThreeCamera) {
+        report.renderCalls++;
+        renderedScenes.add(scene);
+        renderCameras.add(camera);
+        return render.call(this, scene, camera);
+      };
+    }
+  });
+  Object.defineProperty(globalThis, '__THREE_DEVTOOLS__', { value: devtools, configurable: true, writable: true });
+
+  const dom = installHeadlessDom({
+    rootDir: request.rootDir,
+    html: request.html,
+    width: request.width,
+    height: request.height,
+    onError: recordError,
+    onFailedRequest: (url, reason) => push(report.failedRequests, `${url}: ${reason}`),
+  });
+
+  for (const entry of request.entries) {
+    const loaded = import(pathToFileURL(entry).href).then(() => true, (error) => {
+      recordError(error, 'loading the entry');
+      return true;
+    });
+    const finished = await Promise.race([loaded, sleep(ENTRY_TIMEOUT_MS).then(() => false)]);
+    if (!finished) {
+      report.pendingEntries.push(`${path.relative(request.rootDir, entry)} (top-level code still waiting after ${ENTRY_TIMEOUT_MS / 1000}s)`);
+    }
+  }
+
+  dom.finishLoading();
+
+  for (let frame = 0; frame < request.frames; frame++) {
+    await sleep(FRAME_INTERVAL_MS);
+    if (dom.runAnimationFrame(frame * FRAME_INTERVAL_MS) > 0) {
+      report.framesRun++;
+    }
+  }
+  await sleep(FRAME_INTERVAL_MS);
+
+  for (const scene of renderedScenes) {
+    scenes.add(scene);
+  }
+  report.scenes = [...scenes].map(scene => describeScene(scene, renderedScenes.has(scene)));
+  report.renderers = renderers.map(renderer => renderer.constructor?.name || 'Renderer');
+  report.renderCameras = [...renderCameras].map(describeCamera);
+  report.drawCalls = renderers.reduce((total, renderer) => total + (renderer.info?.render?.calls ?? 0), 0);
+
+  process.send!(report, () => process.exit(0));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function describeError(error: unknown, phase: string, projectDir: string): RuntimeError {
+  if (!(error instanceof Error)) {
+    return { phase, message: String(error), stack: [] };
+  }
+
+  const frames = (error.stack ?? '')
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim())
+    .filter(line => line.startsWith('at ') && !line.includes('node:') && !/[\\/]dist[\\/]tools[\\/](?:SceneRunner|HeadlessDom)\.js/.test(line))
+    .map(line => line.replace(/file:\/\/([^\s)]+)/g, '$1').split(projectDir + path.sep).join(''));
+  // Frames in the app's own code are the useful ones; library frames are only shown if there are none
+  const ownFrames = frames.filter(line => !line.includes('node_modules'));
+  const stack = (ownFrames.length > 0 ? ownFrames : frames).slice(0, MAX_STACK_FRAMES);
+
+  return { phase, message: `${error.name}: ${error.message}`, stack };
+}
+
+function isScene(value: unknown): value is ThreeObject {
+  return typeof value === 'object' && value !== null && (value as ThreeObject).isScene === true;
+}
+
+function isRenderer(value: unknown): value is ThreeRenderer {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as ThreeRenderer).render === 'function' && !!(value as ThreeRenderer).domElement;
+}
+
+function typeName(object: ThreeObject | null | undefined): string {
+  // InstancedMesh keeps the type of Mesh
+  if (object?.isInstancedMesh) return 'InstancedMesh';
+  return object?.type || object?.constructor?.name || 'Object';
+}
+
+function describeCamera(camera: ThreeCamera | undefined): string {
+  if (!camera) {
+    return 'no camera';
+  }
+  if (camera.isPerspectiveCamera) {
+    return `${typeName(camera)} (fov ${round(camera.fov)}, aspect ${round(camera.aspect)}, near ${camera.near}, far ${camera.far})`;
+  }
+  return typeName(camera);
+}
+
+function describeLight(light: ThreeLight): string {
+  const details = [`intensity ${round(light.intensity)}`];
+  if (light.castShadow) {
+    details.push('casts shadows');
+  }
+  return `${typeName(light)} (${details.join(', ')})`;
+}
+
+function describeBackground(background: ThreeObject | null | undefined): string | null {
+  if (!background) return null;
+  return background.isColor ? `Color #${(background as ThreeColor).getHexString()}` : typeName(background);
+}
+
+function countTriangles(object: ThreeObject): number {
+  const geometry = object.geometry;
+  if (!object.isMesh || !geometry) {
+    return 0;
+  }
+  const vertices = geometry.index ? geometry.index.count : geometry.attributes?.position?.count ?? 0;
+  const instances = object.isInstancedMesh ? object.count ?? 1 : 1;
+  return Math.floor(vertices / 3) * instances;
+}
+
+function describeScene(scene: ThreeObject, rendered: boolean): SceneStats {
+  const stats: SceneStats = {
+    name: scene.name ?? '',
+    rendered,
+    objectCount: 0,
+    objectTypes: {},
+    lights: [],
+    cameras: [],
+    materials: {},
+    triangles: 0,
+    background: describeBackground(scene.background),
+    environment: !!scene.environment,
+    fog: scene.fog ? typeName(scene.fog) : null,
+    outline: [],
+  };
+  const materials = new Set<ThreeObject>();
+
+  const visit = (object: ThreeObject, depth: number) => {
+    if (object !== scene) {
+      stats.objectCount++;
+      const type = typeName(object);
+      stats.objectTypes[type] = (stats.objectTypes[type] ?? 0) + 1;
+      if (object.isLight) stats.lights.push(describeLight(object as ThreeLight));
+      if (object.isCamera) stats.cameras.push(describeCamera(object as ThreeCamera));
+      stats.triangles += countTriangles(object);
+      const objectMaterials = Array.isArray(object.material) ? object.material : object.material ? [object.material] : [];
+      objectMaterials.forEach(material => materials.add(material));
+    }
+
+    if (stats.outline.length < MAX_OUTLINE_LINES) {
+      stats.outline.push(`${'  '.repeat(depth)}${outlineEntry(object)}`);
+    } else if (stats.outline.length === MAX_OUTLINE_LINES) {
+      stats.outline.push('...');
+    }
+    for (const child of object.children ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  visit(scene, 0);
+
+  for (const material of materials) {
+    const type = typeName(material);
+    stats.materials[type] = (stats.materials[type] ?? 0) + 1;
+  }
+  return stats;
+}
+
+function outlineEntry(object: ThreeObject): string {
+  let entry = typeName(object);
+  if (object.name) {
+    entry += ` "${object.name}"`;
+  }
+  const parts: string[] = [];
+  if (object.geometry) parts.push(typeName(object.geometry));
+  if (object.material) {
+    parts.push(Array.isArray(object.material) ? object.material.map(typeName).join('/') : typeName(object.material));
+  }
+  if (object.isInstancedMesh) parts.push(`${object.count} instances`);
+  if (object.visible === false) parts.push('hidden');
+  return parts.length > 0 ? `${entry} (${parts.join(', ')})` : entry;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+  process.exit(1);
+});
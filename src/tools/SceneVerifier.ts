@@ -0,0 +1,320 @@
+/**
+ * Scene Verifier - Smoke tests a three.js app without a browser. The app is built,
+ * then its entry modules run in a child Node process on a headless DOM with a stub
+ * WebGL context for a few animation frames (see SceneRunner). The report lists
+ * uncaught exceptions, console errors and the scene graph that was built.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fork } from 'child_process';
+import { fileURLToPath } from 'url';
+import { BuildVerifier, BuildStepResult, formatDiagnostic } from './BuildVerifier.js';
+
+export const DEFAULT_FRAMES = 5;
+export const MAX_FRAMES = 120;
+
+const RUN_TIMEOUT_MS = 60000;
+const VIEWPORT = { width: 1280, height: 720 };
+
+// Sent to the runner process as its only argument
+export interface SceneRunRequest {
+  entries: string[];
+  rootDir: string;
+  projectDir: string;
+  html: string;
+  frames: number;
+  width: number;
+  height: number;
+}
+
+export interface RuntimeError {
+  // Where it happened: loading the entry, an animation frame, an event listener, ...
+  phase: string;
+  message: string;
+  // Top stack frames, with paths relative to the project
+  stack: string[];
+}
+
+export interface SceneStats {
+  name: string;
+  // Passed to renderer.render() during the run
+  rendered: boolean;
+  objectCount: number;
+  objectTypes: Record<string, number>;
+  lights: string[];
+  cameras: string[];
+  materials: Record<string, number>;
+  triangles: number;
+  background: string | null;
+  environment: boolean;
+  fog: string | null;
+  // Indented outline of the scene graph, cut off after a fixed number of lines
+  outline: string[];
+}
+
+export interface SceneRunReport {
+  framesRequested: number;
+  framesRun: number;
+  renderers: string[];
+  renderCalls: number;
+  // From renderer.info for the last rendered frame
+  drawCalls: number;
+  renderCameras: string[];
+  exceptions: RuntimeError[];
+  consoleErrors: string[];
+  consoleWarnings: string[];
+  failedRequests: string[];
+  // Entry modules whose top-level code had not finished when frames started
+  pendingEntries: string[];
+  scenes: SceneStats[];
+}
+
+export interface SceneVerification {
+  success: boolean;
+  // Entry modules that were run, relative to the directory they were served from
+  entries: string[];
+  bundler: string | null;
+  build: BuildStepResult | null;
+  report: SceneRunReport | null;
+  // Why the scene could not be run at all
+  error?: string;
+}
+
+export interface SceneVerifyOptions {
+  frames?: number;
+}
+
+export class SceneVerifier {
+  private workingDirectory: string;
+  private buildVerifier: BuildVerifier;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = path.resolve(workingDirectory);
+    this.buildVerifier = new BuildVerifier(this.workingDirectory);
+  }
+
+  async verify(options: SceneVerifyOptions = {}): Promise<SceneVerification> {
+    const frames = options.frames ?? DEFAULT_FRAMES;
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'threewzrd-scene-'));
+    const result: SceneVerification = { success: false, entries: [], bundler: null, build: null, report: null };
+
+    try {
+      // Bundled apps run from the build output; apps without a bundler run from the sources
+      let rootDir = this.workingDirectory;
+      try {
+        result.bundler = await this.buildVerifier.detectBundler();
+        result.build = await this.buildVerifier.buildForSmokeTest(outDir);
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        return result;
+      }
+      if (result.build) {
+        if (!result.build.success) {
+          result.error = 'The project does not build';
+          return result;
+        }
+        rootDir = outDir;
+        // Bundles are ES modules; without this Node would load them as CommonJS
+        await fs.writeFile(path.join(outDir, 'package.json'), '{ "type": "module" }\n');
+      }
+
+      const html = await fs.readFile(path.join(rootDir, 'index.html'), 'utf-8').catch(() => '');
+      const entries = await findEntries(html, rootDir);
+      result.entries = entries.map(entry => path.relative(rootDir, entry));
+
+      if (entries.length === 0) {
+        result.error = html
+          ? 'index.html has no local <script src="..."> to run'
+          : 'No index.html found';
+        return result;
+      }
+      if (!result.build && entries.some(entry => /\.(?:ts|tsx|jsx)$/.test(entry))) {
+        result.error = 'The entry needs to be compiled but no bundler was found. Add Vite (npm install -D vite) to run it.';
+        return result;
+      }
+
+      result.report = await this.run({
+        entries,
+        rootDir,
+        projectDir: this.workingDirectory,
+        html,
+        frames,
+        ...VIEWPORT,
+      });
+      result.success = result.report.exceptions.length === 0 &&
+        result.report.consoleErrors.length === 0 &&
+        result.report.pendingEntries.length === 0;
+      return result;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      return result;
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Runs the scene in a separate process so the shimmed globals and any timers the
+   * app starts never leak into the wizard
+   */
+  private run(request: SceneRunRequest): Promise<SceneRunReport> {
+    const runnerPath = fileURLToPath(new URL('./SceneRunner.js', import.meta.url));
+    const execArgv = ['--enable-source-maps'];
+    // Lets plain .js entries use import syntax in projects without "type": "module"
+    if (process.allowedNodeEnvironmentFlags.has('--experimental-detect-module')) {
+      execArgv.push('--experimental-detect-module');
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = fork(runnerPath, [JSON.stringify(request)], {
+        cwd: request.rootDir,
+        execArgv,
+        stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+      });
+
+      let report: SceneRunReport | null = null;
+      let stderr = '';
+      child.stderr?.on('data', (data) => {
+        stderr = (stderr + data.toString()).slice(-4000);
+      });
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`The scene did not finish within ${RUN_TIMEOUT_MS / 1000}s`));
+      }, RUN_TIMEOUT_MS);
+
+      child.on('message', (message) => {
+        report = message as SceneRunReport;
+      });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('exit', (code) => {
+        clearTimeout(timer);
+        if (report) {
+          resolve(report);
+        } else {
+          reject(new Error(`The scene runner exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Returns the local scripts index.html loads, as absolute paths
+ */
+async function findEntries(html: string, rootDir: string): Promise<string[]> {
+  const entries: string[] = [];
+
+  for (const match of html.matchAll(/<script\b([^>]*)>/gi)) {
+    const src = /\bsrc\s*=\s*["']([^"']+)["']/i.exec(match[1])?.[1];
+    if (!src || /^(?:[a-z]+:)?\/\//i.test(src)) {
+      continue;
+    }
+    const file = path.join(rootDir, decodeURIComponent(src.split(/[?#]/)[0]));
+    if (await fs.access(file).then(() => true, () => false)) {
+      entries.push(file);
+    }
+  }
+
+  // webpack without an HTML plugin only emits the bundle
+  if (entries.length === 0 && !html) {
+    for (const name of ['main.js', 'bundle.js', 'index.js']) {
+      const file = path.join(rootDir, name);
+      if (await fs.access(file).then(() => true, () => false)) {
+        entries.push(file);
+        break;
+      }
+    }
+  }
+
+  return entries;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => `${name} ${count}`)
+    .join(', ');
+}
+
+/**
+ * Formats a verification as plain text for the agent and the verify command
+ */
+export function formatSceneVerification(verification: SceneVerification): string {
+  const lines: string[] = [];
+  const { report } = verification;
+
+  if (!report) {
+    lines.push(`Scene check could not run: ${verification.error ?? 'unknown error'}`);
+    if (verification.build && !verification.build.success) {
+      lines.push(...verification.build.diagnostics.map(diagnostic => `  - ${formatDiagnostic(diagnostic)}`));
+    }
+    return lines.join('\n');
+  }
+
+  const entries = verification.entries.join(', ');
+  const problems = report.exceptions.length + report.consoleErrors.length;
+  lines.push(verification.success
+    ? `Scene check passed: ${report.framesRun} of ${report.framesRequested} frames ran (entry: ${entries})`
+    : `Scene check failed: ${problems} problem${problems === 1 ? '' : 's'}, ${report.framesRun} of ${report.framesRequested} frames ran (entry: ${entries})`);
+
+  if (report.renderers.length === 0) {
+    lines.push('No renderer was created.');
+  } else {
+    lines.push(`Renderer: ${report.renderers.join(', ')}; ${report.renderCalls} render call${report.renderCalls === 1 ? '' : 's'}` +
+      `, ${report.drawCalls} draw call${report.drawCalls === 1 ? '' : 's'} in the last frame`);
+  }
+  if (report.renderers.length > 0 && report.renderCalls === 0) {
+    lines.push('renderer.render() was never called - check that the animation loop starts.');
+  }
+  if (report.renderCameras.length > 0) {
+    lines.push(`Rendered with: ${report.renderCameras.join(', ')}`);
+  }
+
+  for (const scene of report.scenes) {
+    lines.push('');
+    lines.push(`Scene${scene.name ? ` "${scene.name}"` : ''}${scene.rendered ? '' : ' (never rendered)'}: ` +
+      `${scene.objectCount} object${scene.objectCount === 1 ? '' : 's'} (${formatCounts(scene.objectTypes) || 'empty'}), ` +
+      `${scene.triangles.toLocaleString('en-US')} triangles`);
+    lines.push(`  Lights: ${scene.lights.length > 0 ? scene.lights.join(', ') : 'none'}`);
+    if (scene.cameras.length > 0) {
+      lines.push(`  Cameras in scene: ${scene.cameras.join(', ')}`);
+    }
+    if (Object.keys(scene.materials).length > 0) {
+      lines.push(`  Materials: ${formatCounts(scene.materials)}`);
+    }
+    const extras = [
+      scene.background ? `background ${scene.background}` : null,
+      scene.environment ? 'environment map' : null,
+      scene.fog ? `fog (${scene.fog})` : null,
+    ].filter(Boolean);
+    if (extras.length > 0) {
+      lines.push(`  Also: ${extras.join(', ')}`);
+    }
+    lines.push('  Graph:');
+    lines.push(...scene.outline.map(line => `    ${line}`));
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) {
+      lines.push('');
+      lines.push(`${title} (${items.length}):`);
+      lines.push(...items.map(item => `  - ${item}`));
+    }
+  };
+  section('Uncaught exceptions', report.exceptions.map(error =>
+    [`[${error.phase}] ${error.message}`, ...error.stack.map(frame => `    ${frame}`)].join('\n')));
+  section('Console errors', report.consoleErrors);
+  section('Console warnings', report.consoleWarnings);
+  section('Failed requests', report.failedRequests);
+  section('Still loading when frames started', report.pendingEntries);
+
+  lines.push('');
+  lines.push('Note: WebGL is stubbed - shaders are not compiled and nothing is drawn, so visual output is not checked.');
+  return lines.join('\n');
+}
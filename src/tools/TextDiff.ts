@@ -0,0 +1,211 @@
+/**
+ * Text Diff - Line-based unified diffs for previewing file changes
+ */
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Above this many changed lines (after trimming common prefix/suffix) the LCS table
+// gets too large, so the changed region is reported as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Computes the line operations that turn oldText into newText
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Trim the common prefix and suffix - edits usually touch a small region
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+         oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(text => ({ type: 'context' as const, text }));
+  result.push(...diffMiddle(oldMiddle, newMiddle));
+  result.push(...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'context' as const, text })));
+  return result;
+}
+
+/**
+ * Groups line operations into unified diff hunks with the given context size
+ */
+export function createHunks(oldText: string, newText: string, context = 3): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+  const hunks: DiffHunk[] = [];
+
+  let oldLine = 1;
+  let newLine = 1;
+  let current: DiffHunk | null = null;
+  let trailingContext = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.type !== 'context') {
+      if (!current) {
+        // Start a hunk including up to `context` preceding lines
+        const lead = Math.min(context, countPrecedingContext(lines, i));
+        current = {
+          oldStart: oldLine - lead,
+          oldLines: lead,
+          newStart: newLine - lead,
+          newLines: lead,
+          lines: lines.slice(i - lead, i),
+        };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+      if (line.type === 'remove') current.oldLines++;
+      if (line.type === 'add') current.newLines++;
+      trailingContext = 0;
+    } else if (current) {
+      // Close the hunk once the gap to the next change exceeds twice the context
+      const nextChange = findNextChange(lines, i);
+      if (nextChange === -1 || nextChange - i > context * 2) {
+        if (trailingContext < context) {
+          current.lines.push(line);
+          current.oldLines++;
+          current.newLines++;
+          trailingContext++;
+        } else {
+          current = null;
+        }
+      } else {
+        current.lines.push(line);
+        current.oldLines++;
+        current.newLines++;
+      }
+    }
+
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  }
+
+  return hunks;
+}
+
+export function getDiffStats(hunks: DiffHunk[]): DiffStats {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === 'add') added++;
+      if (line.type === 'remove') removed++;
+    }
+  }
+  return { added, removed };
+}
+
+/**
+ * Renders hunks as plain unified diff text (without file headers)
+ */
+export function formatUnifiedDiff(hunks: DiffHunk[]): string {
+  const output: string[] = [];
+  for (const hunk of hunks) {
+    output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(marker + line.text);
+    }
+  }
+  return output.join('\n');
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function countPrecedingContext(lines: DiffLine[], index: number): number {
+  let count = 0;
+  for (let i = index - 1; i >= 0 && lines[i].type === 'context'; i--) {
+    count++;
+  }
+  return count;
+}
+
+function findNextChange(lines: DiffLine[], from: number): number {
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i].type !== 'context') return i;
+  }
+  return -1;
+}
+
+/**
+ * Longest-common-subsequence diff of the changed region
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: 'remove' as const, text })),
+      ...newLines.map(text => ({ type: 'add' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    lengths.push(new Uint32Array(m + 1));
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'context', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'remove', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'add', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) result.push({ type: 'remove', text: oldLines[i++] });
+  while (j < m) result.push({ type: 'add', text: newLines[j++] });
+
+  return result;
+}
@@ -0,0 +1,382 @@
+/**
+ * Three.js API Linter - Flags deprecated and removed three.js APIs in JS/TS files
+ * Every rule records the revision that deprecated and/or removed an API. Findings are
+ * graded against the project's three.js revision: removed APIs are errors, deprecated
+ * ones are warnings, and APIs that are still current in that revision are not reported.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+
+export interface ApiRule {
+  name: string;
+  kind: 'export' | 'member';  // export of the 'three' module, or a property on any object
+  deprecated?: number;        // revision that deprecated the API
+  removed?: number;           // revision that removed it
+  replacement: string;        // what to do instead, e.g. "use BoxGeometry"
+  receiver?: RegExp;          // member names common outside three.js: receivers that are certainly
+                              // the three.js object; on any other receiver the finding is only a warning
+}
+
+export interface ThreeRevision {
+  revision: number;
+  source: 'installed' | 'package.json' | 'assumed';
+}
+
+export interface LintResult {
+  errors: string[];
+  warnings: string[];
+  three: ThreeRevision;
+}
+
+const BUFFER_GEOMETRY_ALIASES = [
+  'Box', 'Capsule', 'Circle', 'Cone', 'Cylinder', 'Dodecahedron', 'Extrude', 'Icosahedron', 'Lathe',
+  'Octahedron', 'Plane', 'Polyhedron', 'Ring', 'Shape', 'Sphere', 'Tetrahedron', 'Torus', 'TorusKnot', 'Tube',
+];
+
+export const API_RULES: ApiRule[] = [
+  { name: 'Geometry', kind: 'export', removed: 125, replacement: 'use BufferGeometry (set attributes with setAttribute)' },
+  { name: 'Face3', kind: 'export', removed: 125, replacement: 'use BufferGeometry index and attributes' },
+  { name: 'ParametricGeometry', kind: 'export', removed: 125, replacement: "use ParametricGeometry from 'three/addons/geometries/ParametricGeometry.js'" },
+  { name: 'TextGeometry', kind: 'export', removed: 133, replacement: "use TextGeometry from 'three/addons/geometries/TextGeometry.js'" },
+  { name: 'FontLoader', kind: 'export', removed: 133, replacement: "use FontLoader from 'three/addons/loaders/FontLoader.js'" },
+  { name: 'Font', kind: 'export', removed: 133, replacement: "use Font from 'three/addons/loaders/FontLoader.js'" },
+  { name: 'RGBFormat', kind: 'export', removed: 137, replacement: 'use RGBAFormat' },
+  ...BUFFER_GEOMETRY_ALIASES.map((shape): ApiRule => ({
+    name: `${shape}BufferGeometry`, kind: 'export', deprecated: 144, removed: 154, replacement: `use ${shape}Geometry`,
+  })),
+  { name: 'sRGBEncoding', kind: 'export', deprecated: 152, removed: 162, replacement: 'use SRGBColorSpace (texture.colorSpace / renderer.outputColorSpace)' },
+  { name: 'LinearEncoding', kind: 'export', deprecated: 152, removed: 162, replacement: 'use LinearSRGBColorSpace (texture.colorSpace)' },
+  { name: 'WebGL1Renderer', kind: 'export', removed: 163, replacement: 'use WebGLRenderer (WebGL 2)' },
+  { name: 'addAttribute', kind: 'member', deprecated: 110, removed: 125, replacement: 'use setAttribute()', receiver: /geometry$/i },
+  { name: 'gammaOutput', kind: 'member', deprecated: 112, removed: 136, replacement: 'use renderer.outputColorSpace = THREE.SRGBColorSpace' },
+  { name: 'gammaFactor', kind: 'member', deprecated: 112, removed: 136, replacement: 'use renderer.outputColorSpace = THREE.SRGBColorSpace' },
+  { name: 'legacyMode', kind: 'member', deprecated: 150, removed: 160, replacement: 'use ColorManagement.enabled' },
+  { name: 'physicallyCorrectLights', kind: 'member', deprecated: 150, removed: 155, replacement: 'remove it; physically correct lighting is the default since r155 (adjust light intensities)' },
+  { name: 'outputEncoding', kind: 'member', deprecated: 152, removed: 162, replacement: 'use renderer.outputColorSpace = THREE.SRGBColorSpace (the default)' },
+  { name: 'useLegacyLights', kind: 'member', deprecated: 155, removed: 165, replacement: 'remove it and adjust light intensities for physically correct lighting' },
+];
+
+// three/examples/js (non-module scripts) was removed in r148
+const EXAMPLES_JS_REMOVED = 148;
+
+// package.json maps three/addons/* to examples/jsm/* since r144
+const ADDONS_ALIAS_ADDED = 144;
+
+// Assumed when the project does not depend on three yet: new installs get a current release
+const ASSUMED_REVISION = 180;
+
+// Where common addons live under examples/jsm, used when three is not installed
+const KNOWN_ADDONS: Record<string, string> = {
+  OrbitControls: 'controls/OrbitControls.js',
+  MapControls: 'controls/MapControls.js',
+  TrackballControls: 'controls/TrackballControls.js',
+  FlyControls: 'controls/FlyControls.js',
+  FirstPersonControls: 'controls/FirstPersonControls.js',
+  PointerLockControls: 'controls/PointerLockControls.js',
+  TransformControls: 'controls/TransformControls.js',
+  DragControls: 'controls/DragControls.js',
+  ArcballControls: 'controls/ArcballControls.js',
+  GLTFLoader: 'loaders/GLTFLoader.js',
+  DRACOLoader: 'loaders/DRACOLoader.js',
+  KTX2Loader: 'loaders/KTX2Loader.js',
+  RGBELoader: 'loaders/RGBELoader.js',
+  EXRLoader: 'loaders/EXRLoader.js',
+  OBJLoader: 'loaders/OBJLoader.js',
+  MTLLoader: 'loaders/MTLLoader.js',
+  FBXLoader: 'loaders/FBXLoader.js',
+  STLLoader: 'loaders/STLLoader.js',
+  SVGLoader: 'loaders/SVGLoader.js',
+  FontLoader: 'loaders/FontLoader.js',
+  TextGeometry: 'geometries/TextGeometry.js',
+  EffectComposer: 'postprocessing/EffectComposer.js',
+  RenderPass: 'postprocessing/RenderPass.js',
+  ShaderPass: 'postprocessing/ShaderPass.js',
+  UnrealBloomPass: 'postprocessing/UnrealBloomPass.js',
+  OutputPass: 'postprocessing/OutputPass.js',
+  CSS2DRenderer: 'renderers/CSS2DRenderer.js',
+  CSS3DRenderer: 'renderers/CSS3DRenderer.js',
+  Sky: 'objects/Sky.js',
+  Water: 'objects/Water.js',
+  Reflector: 'objects/Reflector.js',
+  VRButton: 'webxr/VRButton.js',
+  ARButton: 'webxr/ARButton.js',
+  XRControllerModelFactory: 'webxr/XRControllerModelFactory.js',
+  RoomEnvironment: 'environments/RoomEnvironment.js',
+  BufferGeometryUtils: 'utils/BufferGeometryUtils.js',
+  SkeletonUtils: 'utils/SkeletonUtils.js',
+  'stats.module': 'libs/stats.module.js',
+  'lil-gui.module.min': 'libs/lil-gui.module.min.js',
+};
+
+const LINTABLE_EXTENSIONS = new Set(['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.mts', '.cts']);
+
+interface AddonIndex {
+  files: Set<string>;              // paths relative to examples/jsm
+  byName: Map<string, string[]>;   // basename without extension -> paths
+}
+
+export class ThreeApiLinter {
+  private workingDirectory: string;
+  private addonIndex: { version: string; index: AddonIndex } | null = null;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = workingDirectory;
+  }
+
+  shouldLint(filePath: string): boolean {
+    return LINTABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  }
+
+  async lint(filePath: string, content: string): Promise<LintResult> {
+    const three = await this.getRevision();
+    const installed = await this.getInstalledPackage();
+    const addons = installed ? await this.getAddonIndex(installed.version) : null;
+    const supportsAddonsAlias = installed
+      ? !!(installed.exports && typeof installed.exports === 'object' && './addons/*' in installed.exports)
+      : three.revision >= ADDONS_ALIAS_ADDED;
+    const addonPrefix = supportsAddonsAlias ? 'three/addons' : 'three/examples/jsm';
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const sourceFile = ts.createSourceFile(path.basename(filePath), content, ts.ScriptTarget.Latest, true);
+
+    const report = (node: ts.Node, severity: 'error' | 'warning', message: string) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const finding = `Line ${line + 1}, column ${character + 1}: ${message}`;
+      const target = severity === 'error' ? errors : warnings;
+      if (!target.includes(finding)) target.push(finding);
+    };
+
+    const checkRule = (node: ts.Node, rule: ApiRule, display: string, certain = true) => {
+      if (rule.removed && three.revision >= rule.removed) {
+        const since = rule.deprecated ? ` (deprecated in r${rule.deprecated})` : '';
+        report(node, certain ? 'error' : 'warning',
+          `${display} was removed in r${rule.removed}${since} - ${rule.replacement}${certain ? '' : ' (if this is the three.js API)'}`);
+      } else if (rule.deprecated && three.revision >= rule.deprecated) {
+        const until = rule.removed ? ` and removed in r${rule.removed}` : '';
+        report(node, 'warning', `${display} is deprecated since r${rule.deprecated}${until} - ${rule.replacement}`);
+      }
+    };
+
+    const checkSpecifier = (node: ts.StringLiteralLike) => {
+      for (const finding of this.checkImportPath(node.text, three, addonPrefix, supportsAddonsAlias, addons)) {
+        report(node, finding.severity, finding.message);
+      }
+    };
+
+    const exportRules = new Map(API_RULES.filter(rule => rule.kind === 'export').map(rule => [rule.name, rule]));
+    const memberRules = new Map(API_RULES.filter(rule => rule.kind === 'member').map(rule => [rule.name, rule]));
+    // Identifiers bound to the three namespace (import * as THREE from 'three'); THREE is also the global build
+    const namespaces = new Set(['THREE']);
+    // Variables initialized with `new X()`, so member rules can tell what they hold
+    const constructedClasses = new Map<string, string>();
+
+    // Name that identifies a member's receiver: the variable (or the class it was constructed
+    // from), the property it was read from, or the class of a `new` expression
+    const receiverName = (expression: ts.Expression): string | undefined => {
+      if (ts.isParenthesizedExpression(expression)) return receiverName(expression.expression);
+      if (ts.isIdentifier(expression)) return constructedClasses.get(expression.text) ?? expression.text;
+      if (ts.isPropertyAccessExpression(expression)) return expression.name.text;
+      if (ts.isNewExpression(expression)) {
+        const callee = expression.expression;
+        if (ts.isIdentifier(callee)) return callee.text;
+        if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+      }
+      return undefined;
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer &&
+          ts.isNewExpression(node.initializer)) {
+        const className = receiverName(node.initializer);
+        if (className) constructedClasses.set(node.name.text, className);
+      }
+
+      if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+          node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        const specifier = node.moduleSpecifier.text;
+        checkSpecifier(node.moduleSpecifier);
+
+        if (isThreeModule(specifier)) {
+          const bindings = ts.isImportDeclaration(node) ? node.importClause?.namedBindings : node.exportClause;
+          if (bindings && ts.isNamespaceImport(bindings)) {
+            namespaces.add(bindings.name.text);
+          } else if (bindings && (ts.isNamedImports(bindings) || ts.isNamedExports(bindings))) {
+            for (const element of bindings.elements) {
+              const imported = (element.propertyName ?? element.name).text;
+              const rule = exportRules.get(imported);
+              if (rule) checkRule(element, rule, `'${imported}' (imported from '${specifier}')`);
+            }
+          }
+        }
+      } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0]) &&
+                 (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+                  (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+        checkSpecifier(node.arguments[0]);
+      } else if (ts.isPropertyAccessExpression(node)) {
+        const name = node.name.text;
+        if (ts.isIdentifier(node.expression) && namespaces.has(node.expression.text) && exportRules.has(name)) {
+          checkRule(node, exportRules.get(name)!, `${node.expression.text}.${name}`);
+        } else if (memberRules.has(name)) {
+          const rule = memberRules.get(name)!;
+          const receiver = receiverName(node.expression);
+          checkRule(node.name, rule, `.${name}`, !rule.receiver || (!!receiver && rule.receiver.test(receiver)));
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return { errors, warnings, three };
+  }
+
+  /**
+   * Checks a module specifier that points into three's examples
+   */
+  private checkImportPath(
+    specifier: string,
+    three: ThreeRevision,
+    addonPrefix: string,
+    supportsAddonsAlias: boolean,
+    addons: AddonIndex | null,
+  ): { severity: 'error' | 'warning'; message: string }[] {
+    if (specifier.startsWith('three/examples/js/')) {
+      const rest = specifier.slice('three/examples/js/'.length);
+      const suggestion = this.suggestAddonPath(rest, addons) ?? rest;
+      return three.revision >= EXAMPLES_JS_REMOVED
+        ? [{ severity: 'error', message: `'three/examples/js' was removed in r${EXAMPLES_JS_REMOVED} - import the ES module from '${addonPrefix}/${suggestion}'` }]
+        : [{ severity: 'warning', message: `'three/examples/js' is removed in r${EXAMPLES_JS_REMOVED} - import the ES module from '${addonPrefix}/${suggestion}'` }];
+    }
+
+    let rest: string;
+    if (specifier.startsWith('three/addons/')) {
+      rest = specifier.slice('three/addons/'.length);
+      if (!supportsAddonsAlias) {
+        return [{ severity: 'error', message: `'three/addons/' is not available in three r${three.revision} - import from 'three/examples/jsm/${rest}'` }];
+      }
+    } else if (specifier.startsWith('three/examples/jsm/')) {
+      rest = specifier.slice('three/examples/jsm/'.length);
+    } else {
+      return [];
+    }
+
+    const prefix = specifier.slice(0, specifier.length - rest.length);
+
+    if (!path.extname(rest)) {
+      const suggestion = this.suggestAddonPath(rest, addons) ?? `${rest}.js`;
+      return [{ severity: 'error', message: `'${specifier}' is missing the .js extension - import '${prefix}${suggestion}'` }];
+    }
+
+    const known = addons ? addons.files.has(rest) : Object.values(KNOWN_ADDONS).includes(rest);
+    if (known) {
+      return [];
+    }
+
+    const suggestion = this.suggestAddonPath(rest, addons);
+    if (suggestion && suggestion !== rest) {
+      return [{ severity: 'error', message: `'${specifier}' does not exist - did you mean '${prefix}${suggestion}'?` }];
+    }
+    // Only an installed package proves that an unknown addon is missing
+    return addons
+      ? [{ severity: 'error', message: `'${specifier}' does not exist in three ${three.source === 'installed' ? 'as installed' : `r${three.revision}`}` }]
+      : [];
+  }
+
+  /**
+   * Finds the examples/jsm path of an addon by its file name
+   */
+  private suggestAddonPath(rest: string, addons: AddonIndex | null): string | null {
+    const name = path.basename(rest).replace(/\.(js|ts|mjs)$/, '');
+    if (addons) {
+      const matches = addons.byName.get(name);
+      return matches && matches.length > 0 ? matches[0] : null;
+    }
+    return KNOWN_ADDONS[name] ?? null;
+  }
+
+  /**
+   * Resolves the project's three.js revision: the installed package first, then the
+   * version range in package.json, otherwise a current release is assumed
+   */
+  async getRevision(): Promise<ThreeRevision> {
+    const installed = await this.getInstalledPackage();
+    const installedRevision = installed ? parseRevision(installed.version) : null;
+    if (installedRevision !== null) {
+      return { revision: installedRevision, source: 'installed' };
+    }
+
+    try {
+      const pkg = JSON.parse(await fs.readFile(path.join(this.workingDirectory, 'package.json'), 'utf-8'));
+      const range = pkg.dependencies?.three ?? pkg.devDependencies?.three ?? pkg.peerDependencies?.three;
+      const revision = typeof range === 'string' ? parseRevision(range) : null;
+      if (revision !== null) {
+        return { revision, source: 'package.json' };
+      }
+    } catch {
+      // No package.json yet
+    }
+
+    return { revision: ASSUMED_REVISION, source: 'assumed' };
+  }
+
+  private async getInstalledPackage(): Promise<{ version: string; exports?: unknown } | null> {
+    try {
+      const pkgPath = path.join(this.workingDirectory, 'node_modules', 'three', 'package.json');
+      const pkg = JSON.parse(await fs.readFile(pkgPath, 'utf-8'));
+      return typeof pkg.version === 'string' ? pkg : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lists the installed addons under examples/jsm (cached per three version)
+   */
+  private async getAddonIndex(version: string): Promise<AddonIndex | null> {
+    if (this.addonIndex?.version === version) {
+      return this.addonIndex.index;
+    }
+
+    const root = path.join(this.workingDirectory, 'node_modules', 'three', 'examples', 'jsm');
+    const index: AddonIndex = { files: new Set(), byName: new Map() };
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (/\.(js|mjs)$/.test(entry.name)) {
+          const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+          const name = entry.name.replace(/\.(js|mjs)$/, '');
+          index.files.add(relativePath);
+          index.byName.set(name, [...(index.byName.get(name) ?? []), relativePath]);
+        }
+      }
+    };
+
+    try {
+      await walk(root);
+    } catch {
+      return null;
+    }
+
+    this.addonIndex = { version, index };
+    return index;
+  }
+}
+
+function isThreeModule(specifier: string): boolean {
+  return specifier === 'three' || specifier === 'three/webgpu' || specifier === 'three/tsl';
+}
+
+/**
+ * "0.160.1", "^0.152.2" or "~0.149.0" -> 160, 152, 149
+ */
+export function parseRevision(version: string): number | null {
+  const match = version.match(/(\d+)\.(\d+)/);
+  if (!match) return null;
+  return match[1] === '0' ? Number(match[2]) : null;
+}
@@ -0,0 +1,663 @@
+/**
+ * Three.js Docs Index - Offline API reference built from the project's installed `three` package
+ * Parses type declarations (.d.ts) and addon modules (examples/jsm) into a versioned,
+ * searchable index cached under .threewzrd/docs-index/. Without declarations (three r126+
+ * without @types/three) the core classes are indexed from their JavaScript source.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Bump when the index layout changes so stale caches are rebuilt
+const INDEX_FORMAT_VERSION = 2;
+const INDEX_DIR = path.join('.threewzrd', 'docs-index');
+
+// Limits to keep the index and search excerpts compact
+const MAX_MEMBERS_PER_ENTRY = 60;
+const MAX_MEMBERS_IN_EXCERPT = 20;
+const DEFAULT_RESULT_LIMIT = 5;
+
+export type DocEntryKind = 'class' | 'function' | 'constant';
+
+export interface DocEntry {
+  name: string;
+  kind: DocEntryKind;
+  importPath: string;
+  addon: boolean;
+  description?: string;
+  extends?: string;
+  signature?: string;     // constructor signature for classes, full signature for functions/constants
+  properties: string[];
+  methods: string[];
+  source: string;         // file the entry was extracted from, relative to node_modules
+}
+
+export interface DocsIndex {
+  formatVersion: number;
+  threeVersion: string;
+  builtAt: string;
+  entries: DocEntry[];
+}
+
+export interface DocsSearchResult {
+  entry: DocEntry;
+  score: number;
+}
+
+interface DeclarationSource {
+  root: string;       // absolute directory that is walked
+  relativeTo: string; // node_modules directory, for the `source` field
+}
+
+export class ThreeDocsIndex {
+  private workingDirectory: string;
+  private index: DocsIndex | null = null;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = workingDirectory;
+  }
+
+  /**
+   * Loads the cached index for the installed three.js version, building it if needed
+   */
+  async load(): Promise<DocsIndex> {
+    const threeVersion = await this.getInstalledVersion();
+
+    if (this.index && this.index.threeVersion === threeVersion) {
+      return this.index;
+    }
+
+    // Installing @types/three later gives a better index, so it gets its own cache file
+    const hasTypes = await exists(path.join(this.workingDirectory, 'node_modules', '@types', 'three', 'package.json'));
+    const cachePath = path.join(this.workingDirectory, INDEX_DIR, `three-${threeVersion}${hasTypes ? '-types' : ''}.json`);
+    try {
+      const cached = JSON.parse(await fs.readFile(cachePath, 'utf-8')) as DocsIndex;
+      if (cached.formatVersion === INDEX_FORMAT_VERSION && cached.threeVersion === threeVersion) {
+        this.index = cached;
+        return cached;
+      }
+    } catch {
+      // No usable cache - build below
+    }
+
+    const index = await this.build(threeVersion);
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify(index) + '\n', 'utf-8');
+    this.index = index;
+    return index;
+  }
+
+  /**
+   * Ranks index entries against a free-text query
+   */
+  async search(query: string, limit = DEFAULT_RESULT_LIMIT): Promise<DocsSearchResult[]> {
+    const index = await this.load();
+    const normalizedQuery = query.trim().toLowerCase();
+    const terms = tokenize(query);
+
+    if (!normalizedQuery || terms.length === 0) {
+      return [];
+    }
+
+    const results: DocsSearchResult[] = [];
+    for (const entry of index.entries) {
+      const score = scoreEntry(entry, normalizedQuery, terms);
+      if (score > 0) {
+        results.push({ entry, score });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+      .slice(0, limit);
+  }
+
+  /**
+   * Formats search results as text excerpts for the model
+   */
+  static formatResults(results: DocsSearchResult[], threeVersion: string): string {
+    const sections = results.map(({ entry }) => {
+      const lines: string[] = [];
+      lines.push(`## ${entry.name} (${entry.addon ? 'addon ' : ''}${entry.kind})`);
+      lines.push(`import { ${entry.name} } from '${entry.importPath}';`);
+      if (entry.description) {
+        lines.push(entry.description);
+      }
+      if (entry.kind === 'class') {
+        lines.push(`class ${entry.name}${entry.extends ? ` extends ${entry.extends}` : ''}`);
+        if (entry.signature) {
+          lines.push(`new ${entry.name}${entry.signature.replace(/^constructor/, '')}`);
+        }
+      } else if (entry.signature) {
+        lines.push(entry.signature);
+      }
+      if (entry.properties.length > 0) {
+        lines.push('Properties:');
+        lines.push(...formatMembers(entry.properties));
+      }
+      if (entry.methods.length > 0) {
+        lines.push('Methods:');
+        lines.push(...formatMembers(entry.methods));
+      }
+      lines.push(`Source: ${entry.source}`);
+      return lines.join('\n');
+    });
+
+    return `three.js r${threeVersion.replace(/^0\./, '').split('.')[0]} (${threeVersion})\n\n${sections.join('\n\n')}`;
+  }
+
+  /**
+   * Reads the installed three.js version from node_modules/three/package.json
+   */
+  private async getInstalledVersion(): Promise<string> {
+    const pkgPath = path.join(this.workingDirectory, 'node_modules', 'three', 'package.json');
+    try {
+      const pkg = JSON.parse(await fs.readFile(pkgPath, 'utf-8'));
+      return String(pkg.version);
+    } catch {
+      throw new Error('three is not installed in this project. Run "npm install three" (and "npm install -D @types/three" for full API signatures) first.');
+    }
+  }
+
+  private async build(threeVersion: string): Promise<DocsIndex> {
+    const nodeModules = path.join(this.workingDirectory, 'node_modules');
+    const threeDir = path.join(nodeModules, 'three');
+    const typesDir = path.join(nodeModules, '@types', 'three');
+    const addonPrefix = await this.getAddonImportPrefix(threeDir);
+
+    // Prefer @types/three; older three releases shipped their own declarations
+    const coreSources: DeclarationSource[] = [
+      { root: path.join(typesDir, 'src'), relativeTo: nodeModules },
+      { root: path.join(threeDir, 'src'), relativeTo: nodeModules },
+    ];
+    const addonSources: DeclarationSource[] = [
+      { root: path.join(typesDir, 'examples', 'jsm'), relativeTo: nodeModules },
+      { root: path.join(threeDir, 'examples', 'jsm'), relativeTo: nodeModules },
+    ];
+
+    const entries = new Map<string, DocEntry>();
+
+    for (const source of coreSources) {
+      const files = await walk(source.root, '.d.ts');
+      for (const file of files) {
+        const content = await fs.readFile(file, 'utf-8');
+        for (const entry of parseDeclarations(content, 'three', false, path.relative(source.relativeTo, file))) {
+          const key = `three:${entry.name}`;
+          if (!entries.has(key)) {
+            entries.set(key, entry);
+          }
+        }
+      }
+    }
+
+    // three r126 and later ship no declarations; without @types/three, index the core source
+    if (entries.size === 0) {
+      const srcRoot = path.join(threeDir, 'src');
+      for (const file of await walk(srcRoot, '.js')) {
+        const content = await fs.readFile(file, 'utf-8');
+        for (const entry of parseJavaScriptModule(content, 'three', path.relative(nodeModules, file), false)) {
+          const key = `three:${entry.name}`;
+          if (!entries.has(key)) {
+            entries.set(key, entry);
+          }
+        }
+      }
+    }
+
+    for (const source of addonSources) {
+      const files = await walk(source.root, '.d.ts');
+      for (const file of files) {
+        const modulePath = path.relative(source.root, file).split(path.sep).join('/').replace(/\.d\.ts$/, '.js');
+        const importPath = `${addonPrefix}/${modulePath}`;
+        const content = await fs.readFile(file, 'utf-8');
+        for (const entry of parseDeclarations(content, importPath, true, path.relative(source.relativeTo, file))) {
+          const key = `${importPath}:${entry.name}`;
+          if (!entries.has(key)) {
+            entries.set(key, entry);
+          }
+        }
+      }
+    }
+
+    // Addon modules without declarations are indexed from their JavaScript source
+    const jsRoot = path.join(threeDir, 'examples', 'jsm');
+    for (const file of await walk(jsRoot, '.js')) {
+      const modulePath = path.relative(jsRoot, file).split(path.sep).join('/');
+      if (modulePath.includes('/libs/') || modulePath.startsWith('libs/') || modulePath === 'Addons.js') {
+        continue;
+      }
+      const importPath = `${addonPrefix}/${modulePath}`;
+      const content = await fs.readFile(file, 'utf-8');
+      for (const entry of parseJavaScriptModule(content, importPath, path.relative(nodeModules, file))) {
+        const key = `${importPath}:${entry.name}`;
+        if (!entries.has(key)) {
+          entries.set(key, entry);
+        }
+      }
+    }
+
+    return {
+      formatVersion: INDEX_FORMAT_VERSION,
+      threeVersion,
+      builtAt: new Date().toISOString(),
+      entries: Array.from(entries.values()),
+    };
+  }
+
+  /**
+   * Newer three.js releases map `three/addons/*` to examples/jsm; older ones only expose the full path
+   */
+  private async getAddonImportPrefix(threeDir: string): Promise<string> {
+    try {
+      const pkg = JSON.parse(await fs.readFile(path.join(threeDir, 'package.json'), 'utf-8'));
+      if (pkg.exports && typeof pkg.exports === 'object' && './addons/*' in pkg.exports) {
+        return 'three/addons';
+      }
+    } catch {
+      // Fall through to the legacy path
+    }
+    return 'three/examples/jsm';
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recursively collects files with the given suffix (missing directories yield nothing)
+ */
+async function walk(dir: string, suffix: string): Promise<string[]> {
+  const files: string[] = [];
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await walk(fullPath, suffix));
+    } else if (entry.name.endsWith(suffix)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Splits text into lowercase search terms, breaking camelCase and punctuation
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1);
+}
+
+function scoreEntry(entry: DocEntry, query: string, terms: string[]): number {
+  const name = entry.name.toLowerCase();
+  const compactQuery = query.replace(/[^a-z0-9]/g, '');
+  let score = 0;
+
+  if (name === query || name === compactQuery) {
+    score += 100;
+  } else if (compactQuery.length > 2 && name.includes(compactQuery)) {
+    score += 40;
+  }
+
+  const nameTerms = new Set(tokenize(entry.name));
+  const importPath = entry.importPath.toLowerCase();
+  const description = (entry.description ?? '').toLowerCase();
+  const members = [...entry.properties, ...entry.methods].map(member => member.toLowerCase());
+
+  for (const term of terms) {
+    if (nameTerms.has(term)) {
+      score += 15;
+    } else if (name.includes(term)) {
+      score += 8;
+    }
+    if (importPath.includes(term)) {
+      score += 4;
+    }
+    if (description.includes(term)) {
+      score += 2;
+    }
+    const memberHits = members.filter(member => member.split(/[(:?]/)[0].includes(term)).length;
+    score += Math.min(memberHits, 3);
+  }
+
+  // Prefer core classes over internal helpers with similar names
+  if (score > 0 && entry.kind === 'class') {
+    score += 1;
+  }
+
+  return score;
+}
+
+function formatMembers(members: string[]): string[] {
+  const shown = members.slice(0, MAX_MEMBERS_IN_EXCERPT).map(member => `  ${member}`);
+  if (members.length > MAX_MEMBERS_IN_EXCERPT) {
+    shown.push(`  ... (${members.length - MAX_MEMBERS_IN_EXCERPT} more)`);
+  }
+  return shown;
+}
+
+/**
+ * Extracts the first sentence of a JSDoc block
+ */
+function summarizeDoc(docLines: string[]): string | undefined {
+  const text = docLines
+    .map(line => line.replace(/^\s*\/?\*+\/?\s?/, '').replace(/\*\/\s*$/, '').trim())
+    .filter(line => line && !line.startsWith('@') && !line.startsWith('```'))
+    .join(' ')
+    .replace(/\{@link\s+([^}\s]+)[^}]*\}/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+
+  if (!text) return undefined;
+  const sentence = text.match(/^.+?[.!?](\s|$)/);
+  return (sentence ? sentence[0] : text).trim().slice(0, 300);
+}
+
+function countChar(text: string, char: string): number {
+  let count = 0;
+  for (const c of text) {
+    if (c === char) count++;
+  }
+  return count;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\(\s+/g, '(').replace(/\s+\)/g, ')').replace(/,\s*\)/g, ')').trim();
+}
+
+/**
+ * Parses exported classes, functions and constants from a declaration file
+ */
+export function parseDeclarations(content: string, importPath: string, addon: boolean, source: string): DocEntry[] {
+  const entries: DocEntry[] = [];
+  const lines = content.split('\n');
+  const exportedNames = new Set<string>();
+
+  // `export { A, B }` re-exports at the bottom of addon declaration files
+  for (const match of content.matchAll(/^export\s*\{([^}]+)\}/gm)) {
+    for (const name of match[1].split(',')) {
+      const local = name.trim().split(/\s+as\s+/).pop();
+      if (local) exportedNames.add(local.trim());
+    }
+  }
+
+  let depth = 0;
+  let docLines: string[] = [];
+  let inDoc = false;
+  let current: DocEntry | null = null;
+  let currentDeclared = false;
+  let currentIsInterface = false;
+  let pending = '';
+
+  // Interfaces are not indexed on their own, but their members are merged into
+  // same-named classes (three declares e.g. `interface MeshStandardMaterial extends MeshStandardMaterialProperties`)
+  const interfaces = new Map<string, { extends: string[]; properties: string[]; methods: string[] }>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const rawLine = lines[i];
+    const line = rawLine.trim();
+
+    // Collect JSDoc comments so they can be attached to the next declaration
+    if (!pending && line.startsWith('/**')) {
+      docLines = [line];
+      inDoc = !line.includes('*/');
+      continue;
+    }
+    if (inDoc) {
+      docLines.push(line);
+      if (line.includes('*/')) inDoc = false;
+      continue;
+    }
+    if (!pending && (line.startsWith('//') || line === '')) {
+      continue;
+    }
+
+    // Join multi-line signatures until their parentheses balance
+    const statement = pending ? `${pending} ${line}` : line;
+    if (countChar(statement, '(') > countChar(statement, ')') && depth <= 1) {
+      pending = statement;
+      continue;
+    }
+    pending = '';
+
+    if (depth === 0) {
+      const classMatch = statement.match(/^(export\s+)?(declare\s+)?(abstract\s+)?class\s+(\w+)(<.*?>)?(\s+extends\s+([\w.]+))?/);
+      if (classMatch) {
+        current = {
+          name: classMatch[4],
+          kind: 'class',
+          importPath,
+          addon,
+          description: summarizeDoc(docLines),
+          extends: classMatch[7],
+          properties: [],
+          methods: [],
+          source,
+        };
+        currentDeclared = !!classMatch[1];
+        currentIsInterface = false;
+      } else if (/^(export\s+)?(declare\s+)?interface\s+\w+/.test(statement)) {
+        const interfaceMatch = statement.match(/^(?:export\s+)?(?:declare\s+)?interface\s+(\w+)(?:<.*?>)?(?:\s+extends\s+([^{]+))?/)!;
+        current = {
+          name: interfaceMatch[1],
+          kind: 'class',
+          importPath,
+          addon,
+          extends: interfaceMatch[2]?.trim(),
+          properties: [],
+          methods: [],
+          source,
+        };
+        currentDeclared = false;
+        currentIsInterface = true;
+      } else {
+        const functionMatch = statement.match(/^export\s+(declare\s+)?function\s+(\w+)(.*?);?$/);
+        const constMatch = statement.match(/^export\s+(declare\s+)?const\s+(\w+)\s*:\s*(.+?);?$/);
+        if (functionMatch) {
+          entries.push({
+            name: functionMatch[2],
+            kind: 'function',
+            importPath,
+            addon,
+            description: summarizeDoc(docLines),
+            signature: collapseWhitespace(`function ${functionMatch[2]}${functionMatch[3]}`),
+            properties: [],
+            methods: [],
+            source,
+          });
+        } else if (constMatch && !statement.includes('{')) {
+          entries.push({
+            name: constMatch[2],
+            kind: 'constant',
+            importPath,
+            addon,
+            description: summarizeDoc(docLines),
+            signature: collapseWhitespace(`const ${constMatch[2]}: ${constMatch[3]}`),
+            properties: [],
+            methods: [],
+            source,
+          });
+        }
+      }
+    } else if (depth === 1 && current) {
+      const member = statement.replace(/;$/, '').replace(/\{$/, '{ ... }');
+      if (member.startsWith('constructor')) {
+        current.signature = collapseWhitespace(member);
+      } else if (!member.startsWith('private ') && !member.startsWith('protected ') && !member.startsWith('[')) {
+        const memberMatch = member.match(/^((?:static|readonly|abstract|override|public|get|set)\s+)*(\w+)(\??)(<[^(]*>)?\s*([(:])/);
+        if (memberMatch && !memberMatch[2].startsWith('_')) {
+          const collapsed = collapseWhitespace(member.replace(/^public\s+/, ''));
+          const bucket = memberMatch[5] === '(' ? current.methods : current.properties;
+          if (bucket.length < MAX_MEMBERS_PER_ENTRY && !bucket.includes(collapsed)) {
+            bucket.push(collapsed);
+          }
+        }
+      }
+    }
+
+    depth += countChar(statement, '{') - countChar(statement, '}');
+    if (depth < 0) depth = 0;
+
+    if (depth === 0 && current) {
+      if (currentIsInterface) {
+        const existing = interfaces.get(current.name);
+        const parents = (current.extends ?? '').split(',').map(name => name.trim().replace(/<.*$/, '')).filter(Boolean);
+        if (existing) {
+          existing.extends.push(...parents);
+          existing.properties.push(...current.properties);
+          existing.methods.push(...current.methods);
+        } else {
+          interfaces.set(current.name, { extends: parents, properties: current.properties, methods: current.methods });
+        }
+      } else if (currentDeclared || exportedNames.has(current.name)) {
+        entries.push(current);
+      }
+      current = null;
+    }
+    docLines = [];
+  }
+
+  for (const entry of entries) {
+    if (entry.kind !== 'class') continue;
+    const visited = new Set<string>();
+    const queue = [entry.name];
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      const merged = interfaces.get(name);
+      if (!merged || visited.has(name)) continue;
+      visited.add(name);
+      for (const property of merged.properties) {
+        if (entry.properties.length < MAX_MEMBERS_PER_ENTRY && !entry.properties.includes(property)) {
+          entry.properties.push(property);
+        }
+      }
+      for (const method of merged.methods) {
+        if (entry.methods.length < MAX_MEMBERS_PER_ENTRY && !entry.methods.includes(method)) {
+          entry.methods.push(method);
+        }
+      }
+      queue.push(...merged.extends);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parses exported classes and functions from a module without declarations (addons, or
+ * core three.js when @types/three is not installed)
+ */
+export function parseJavaScriptModule(content: string, importPath: string, source: string, addon = true): DocEntry[] {
+  const entries: DocEntry[] = [];
+  const exportedNames = new Set<string>();
+
+  for (const match of content.matchAll(/^export\s*\{([^}]+)\}/gm)) {
+    for (const name of match[1].split(',')) {
+      const exported = name.trim().split(/\s+as\s+/).pop();
+      if (exported) exportedNames.add(exported.trim());
+    }
+  }
+
+  const lines = content.split('\n');
+  let docLines: string[] = [];
+  let inDoc = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line.startsWith('/**')) {
+      docLines = [line];
+      inDoc = !line.includes('*/');
+      continue;
+    }
+    if (inDoc) {
+      docLines.push(line);
+      if (line.includes('*/')) inDoc = false;
+      continue;
+    }
+
+    const classMatch = lines[i].match(/^(export\s+)?class\s+(\w+)(\s+extends\s+([\w.]+))?/);
+    const functionMatch = lines[i].match(/^(export\s+)?function\s+(\w+)\s*\(([^)]*)\)/);
+
+    if (classMatch && (classMatch[1] || exportedNames.has(classMatch[2]))) {
+      const entry: DocEntry = {
+        name: classMatch[2],
+        kind: 'class',
+        importPath,
+        addon,
+        description: summarizeDoc(docLines),
+        extends: classMatch[4],
+        properties: [],
+        methods: [],
+        source,
+      };
+
+      // Constructor and methods are the tab/space-indented members of the class body;
+      // properties are the `this.x = ...` assignments in the constructor
+      let inConstructor = false;
+      for (let j = i + 1; j < lines.length && !/^\}/.test(lines[j]); j++) {
+        const propertyMatch = inConstructor ? lines[j].match(/^(?:\t\t| {4}| {8})this\.([a-zA-Z]\w*)\s*=\s*(?:(async\s+)?function\s*\(([^)]*)\))?/) : null;
+        if (propertyMatch) {
+          // Older classes (WebGLRenderer) assign their methods in the constructor;
+          // `isMesh = true` style type flags are skipped
+          const [, name, async, params] = propertyMatch;
+          if (params !== undefined) {
+            const method = `${async ?? ''}${name}(${params.replace(/\s+/g, ' ').trim()})`;
+            if (entry.methods.length < MAX_MEMBERS_PER_ENTRY && !entry.methods.includes(method)) {
+              entry.methods.push(method);
+            }
+          } else if (!/^is[A-Z]/.test(name) && !entry.properties.includes(name) && entry.properties.length < MAX_MEMBERS_PER_ENTRY) {
+            entry.properties.push(name);
+          }
+          continue;
+        }
+        const memberMatch = lines[j].match(/^(\t| {2}| {4})(static\s+|async\s+|get\s+|set\s+)?(\w+)\s*\(([^)]*)\)\s*\{/);
+        if (!memberMatch) continue;
+        const params = memberMatch[4].replace(/\s+/g, ' ').trim();
+        inConstructor = memberMatch[3] === 'constructor';
+        if (inConstructor) {
+          entry.signature = `constructor(${params})`;
+        } else if (!memberMatch[3].startsWith('_') && entry.methods.length < MAX_MEMBERS_PER_ENTRY &&
+                   !['if', 'for', 'while', 'switch', 'function', 'return'].includes(memberMatch[3])) {
+          entry.methods.push(`${memberMatch[2] ?? ''}${memberMatch[3]}(${params})`.trim());
+        }
+      }
+
+      entries.push(entry);
+    } else if (functionMatch && (functionMatch[1] || exportedNames.has(functionMatch[2]))) {
+      entries.push({
+        name: functionMatch[2],
+        kind: 'function',
+        importPath,
+        addon,
+        description: summarizeDoc(docLines),
+        signature: `function ${functionMatch[2]}(${functionMatch[3].replace(/\s+/g, ' ').trim()})`,
+        properties: [],
+        methods: [],
+        source,
+      });
+    }
+
+    if (line !== '') {
+      docLines = [];
+    }
+  }
+
+  return entries;
+}
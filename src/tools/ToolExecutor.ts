@@ -1,9 +1,21 @@
 import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
 import * as path from 'path';
 import { spawn } from 'child_process';
-import { ToolResult, ToolName, WriteFileInput, ReadFileInput, RunCommandInput, ListFilesInput } from '../core/types.js';
+import { ToolResult, ToolName, ApprovalMode, DEFAULT_APPROVAL_MODE, WriteFileInput, EditFileInput, EditHunk, ReadFileInput, RunCommandInput, ListFilesInput, SearchDocsInput, FetchUrlInput, VerifySceneInput, DescribeSceneInput, InspectAssetInput, ListAssetsInput } from '../core/types.js';
 import { TerminalUI } from '../ui/TerminalUI.js';
 import { shouldValidate, validate } from './CodeValidator.js';
+import { ThreeDocsIndex } from './ThreeDocsIndex.js';
+import { ThreeApiLinter } from './ThreeApiLinter.js';
+import { ImportResolver } from './ImportResolver.js';
+import { GltfInspector, formatAssetInspection } from './GltfInspector.js';
+import { SceneVerifier, formatSceneVerification, DEFAULT_FRAMES, MAX_FRAMES } from './SceneVerifier.js';
+import { createHunks, getDiffStats } from './TextDiff.js';
+import { CheckpointStore } from '../project/CheckpointStore.js';
+import { ProjectManager } from '../project/ProjectManager.js';
+import { formatSceneGraph } from '../project/SceneGraph.js';
+import { AssetBudget, AssetKind, ASSET_KINDS, formatAssetInventory } from '../project/AssetInventory.js';
+import { UrlFetcher, FetchOptions } from './UrlFetcher.js';
 
 // Whitelist of allowed commands for security
 const ALLOWED_COMMANDS = new Set([
@@ -27,6 +39,37 @@ const ALLOWED_COMMANDS = new Set([
   'jest', 'vitest', 'mocha', 'playwright', 'cypress',
 ]);
 
+/**
+ * Decides which commands may run without asking, for headless runs. An entry matches a
+ * command that equals it or starts with it ("npm" matches "npm install three",
+ * "npm run build" matches only that script); "*" matches every command. Deny wins over
+ * allow, and anything not allowed is declined. verify_scene is approved by the entry
+ * "verify_scene".
+ */
+export interface CommandPolicy {
+  allow: string[];
+  deny: string[];
+}
+
+export interface ToolExecutorOptions {
+  fetch?: FetchOptions;
+  approvalMode?: ApprovalMode;
+  assetBudget?: Partial<AssetBudget>;
+  // Replaces the confirmation prompt for run_command and verify_scene
+  commandPolicy?: CommandPolicy;
+}
+
+// Outcome of validating content before it is written
+interface SyntaxCheck {
+  error: string | null;
+  warnings: string[];
+}
+
+// Outcome of asking the user to review a file change
+type WriteReview =
+  | { approved: true; content: string; reviewed: boolean; editedByUser: boolean }
+  | { approved: false; error: string };
+
 // Dangerous shell metacharacters that indicate command injection attempts
 // Note: | (pipe) is allowed and handled specially for piped commands
 const DANGEROUS_PATTERNS = /[;&`$(){}[\]<>!\\]/;
@@ -34,19 +77,136 @@ const DANGEROUS_PATTERNS = /[;&`$(){}[\]<>!\\]/;
 export class ToolExecutor {
   private workingDirectory: string;
   private ui: TerminalUI;
+  // Files that did not exist before the agent wrote them (edits of existing files are not included)
   private createdFiles: Set<string> = new Set();
-
-  constructor(workingDirectory: string, ui: TerminalUI) {
+  // Existing files the agent edited or overwrote
+  private editedFiles: Set<string> = new Set();
+  // Files written since the last call to takeChangedFiles (drives build verification)
+  private changedFiles: Set<string> = new Set();
+  private docsIndex: ThreeDocsIndex;
+  private apiLinter: ThreeApiLinter;
+  private importResolver: ImportResolver;
+  private sceneVerifier: SceneVerifier;
+  private projectManager: ProjectManager;
+  private gltfInspector: GltfInspector;
+  private urlFetcher: UrlFetcher;
+  private checkpoints: CheckpointStore;
+  private approvalMode: ApprovalMode;
+  private commandPolicy: CommandPolicy | null;
+
+  constructor(workingDirectory: string, ui: TerminalUI, options: ToolExecutorOptions = {}) {
     this.workingDirectory = path.resolve(workingDirectory);
     this.ui = ui;
+    this.docsIndex = new ThreeDocsIndex(this.workingDirectory);
+    this.apiLinter = new ThreeApiLinter(this.workingDirectory);
+    this.importResolver = new ImportResolver(this.workingDirectory);
+    this.sceneVerifier = new SceneVerifier(this.workingDirectory);
+    this.projectManager = new ProjectManager(this.workingDirectory, options.assetBudget);
+    this.gltfInspector = new GltfInspector(this.workingDirectory);
+    this.urlFetcher = new UrlFetcher(this.workingDirectory, options.fetch);
+    this.checkpoints = new CheckpointStore(this.workingDirectory);
+    this.approvalMode = options.approvalMode ?? DEFAULT_APPROVAL_MODE;
+    this.commandPolicy = options.commandPolicy ?? null;
+  }
+
+  getApprovalMode(): ApprovalMode {
+    return this.approvalMode;
+  }
+
+  setApprovalMode(mode: ApprovalMode): void {
+    this.approvalMode = mode;
+  }
+
+  getCheckpointStore(): CheckpointStore {
+    return this.checkpoints;
+  }
+
+  /**
+   * Starts a new agent turn so /undo can revert everything it changed
+   */
+  beginTurn(label: string): void {
+    this.checkpoints.beginTurn(label);
+    this.changedFiles.clear();
+  }
+
+  /**
+   * Returns the files written or edited since the last call and starts a new tally
+   */
+  takeChangedFiles(): string[] {
+    const files = Array.from(this.changedFiles);
+    this.changedFiles.clear();
+    return files;
+  }
+
+  /**
+   * Snapshots files before they are changed. A failed snapshot never blocks the change,
+   * but the user is told it cannot be undone.
+   */
+  private async recordCheckpoint(tool: string, description: string, targets: string[]): Promise<void> {
+    try {
+      await this.checkpoints.record(tool, description, targets);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.printWarning(`No checkpoint recorded (${message}). This change cannot be undone.`);
+    }
+  }
+
+  /**
+   * Returns the paths an rm or mv command will change, relative to the working directory.
+   * Other commands (and paths outside the working directory) yield nothing.
+   */
+  private getDestructiveTargets(pipeChain: string[], cwd: string): string[] {
+    const targets: string[] = [];
+
+    for (const segment of pipeChain) {
+      const [cmd, ...args] = this.tokenizeCommand(segment);
+      if (cmd !== 'rm' && cmd !== 'mv') {
+        continue;
+      }
+
+      const operands: string[] = [];
+      let endOfOptions = false;
+      for (const arg of args) {
+        if (!endOfOptions && arg === '--') {
+          endOfOptions = true;
+        } else if (endOfOptions || !arg.startsWith('-')) {
+          operands.push(path.resolve(cwd, arg));
+        }
+      }
+
+      if (cmd === 'rm') {
+        targets.push(...operands);
+      } else if (operands.length >= 2) {
+        // mv changes its sources, the destination and (if it is a directory) the moved entries inside it
+        const destination = operands[operands.length - 1];
+        const sources = operands.slice(0, -1);
+        targets.push(...sources, destination);
+        targets.push(...sources.map(source => path.join(destination, path.basename(source))));
+      }
+    }
+
+    return targets
+      .filter(target => target.startsWith(this.workingDirectory + path.sep))
+      .map(target => path.relative(this.workingDirectory, target));
   }
 
   getCreatedFiles(): string[] {
     return Array.from(this.createdFiles);
   }
 
+  // Created and edited files, in the order they were first written
+  getWrittenFiles(): string[] {
+    return [...this.createdFiles, ...this.editedFiles];
+  }
+
   clearCreatedFiles(): void {
     this.createdFiles.clear();
+    this.editedFiles.clear();
+  }
+
+  setCreatedFiles(files: string[]): void {
+    this.createdFiles = new Set(files);
+    this.editedFiles.clear();
   }
 
   /**
@@ -110,6 +270,52 @@ export class ToolExecutor {
     };
   }
 
+  /**
+   * Validates EditFileInput structure and types
+   */
+  private validateEditFileInput(input: unknown): EditFileInput {
+    if (!input || typeof input !== 'object') {
+      throw new Error(`Invalid input: expected object, got ${typeof input}`);
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (typeof obj.path !== 'string' || !obj.path.trim()) {
+      throw new Error(`Invalid input: path must be a non-empty string. Received keys: ${Object.keys(obj).join(', ')}`);
+    }
+
+    // Accept a single top-level hunk as a shorthand for a one-element edits array
+    const rawEdits = Array.isArray(obj.edits)
+      ? obj.edits
+      : obj.old_string !== undefined ? [obj] : null;
+
+    if (!rawEdits || rawEdits.length === 0) {
+      throw new Error('Invalid input: edits must be a non-empty array of { old_string, new_string }');
+    }
+
+    const edits: EditHunk[] = rawEdits.map((raw, index) => {
+      const edit = raw as Record<string, unknown>;
+      if (!edit || typeof edit !== 'object') {
+        throw new Error(`Invalid input: edit ${index + 1} must be an object`);
+      }
+      if (typeof edit.old_string !== 'string' || edit.old_string.length === 0) {
+        throw new Error(`Invalid input: edit ${index + 1} old_string must be a non-empty string`);
+      }
+      if (typeof edit.new_string !== 'string') {
+        throw new Error(`Invalid input: edit ${index + 1} new_string must be a string`);
+      }
+      if (edit.old_string === edit.new_string) {
+        throw new Error(`Invalid input: edit ${index + 1} old_string and new_string are identical`);
+      }
+      return {
+        old_string: edit.old_string,
+        new_string: edit.new_string,
+        replace_all: edit.replace_all === true,
+      };
+    });
+
+    return { path: obj.path.trim(), edits };
+  }
+
   /**
    * Validates ReadFileInput structure and types
    */
@@ -170,6 +376,120 @@ export class ToolExecutor {
     };
   }
 
+  /**
+   * Validates SearchDocsInput structure and types
+   */
+  private validateSearchDocsInput(input: unknown): SearchDocsInput {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid input: expected object');
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (typeof obj.query !== 'string' || !obj.query.trim()) {
+      throw new Error('Invalid input: query must be a non-empty string');
+    }
+    if (obj.limit !== undefined && (typeof obj.limit !== 'number' || obj.limit < 1)) {
+      throw new Error('Invalid input: limit must be a positive number');
+    }
+
+    return {
+      query: obj.query.trim(),
+      limit: obj.limit === undefined ? undefined : Math.min(Math.floor(obj.limit as number), 20)
+    };
+  }
+
+  /**
+   * Validates FetchUrlInput structure and types
+   */
+  private validateFetchUrlInput(input: unknown): FetchUrlInput {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid input: expected object');
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (typeof obj.url !== 'string' || !obj.url.trim()) {
+      throw new Error('Invalid input: url must be a non-empty string');
+    }
+
+    return { url: obj.url.trim() };
+  }
+
+  /**
+   * Validates VerifySceneInput structure and types
+   */
+  private validateVerifySceneInput(input: unknown): VerifySceneInput {
+    if (input === undefined || input === null) {
+      return {};
+    }
+    if (typeof input !== 'object') {
+      throw new Error('Invalid input: expected object');
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (obj.frames !== undefined) {
+      if (typeof obj.frames !== 'number' || !Number.isInteger(obj.frames) || obj.frames < 1 || obj.frames > MAX_FRAMES) {
+        throw new Error(`Invalid input: frames must be an integer between 1 and ${MAX_FRAMES}`);
+      }
+      return { frames: obj.frames };
+    }
+
+    return {};
+  }
+
+  /**
+   * Validates DescribeSceneInput structure and types
+   */
+  private validateDescribeSceneInput(input: unknown): DescribeSceneInput {
+    if (input === undefined || input === null) {
+      return {};
+    }
+    if (typeof input !== 'object') {
+      throw new Error('Invalid input: expected object');
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (obj.path !== undefined && (typeof obj.path !== 'string' || !obj.path.trim())) {
+      throw new Error('Invalid input: path must be a non-empty string');
+    }
+
+    return { path: obj.path === undefined ? undefined : (obj.path as string).trim() };
+  }
+
+  /**
+   * Validates InspectAssetInput structure and types
+   */
+  private validateInspectAssetInput(input: unknown): InspectAssetInput {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid input: expected object');
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (typeof obj.path !== 'string' || !obj.path.trim()) {
+      throw new Error('Invalid input: path must be a non-empty string');
+    }
+
+    return { path: obj.path.trim() };
+  }
+
+  /**
+   * Validates ListAssetsInput structure and types
+   */
+  private validateListAssetsInput(input: unknown): ListAssetsInput {
+    if (input === undefined || input === null) {
+      return {};
+    }
+    if (typeof input !== 'object') {
+      throw new Error('Invalid input: expected object');
+    }
+    const obj = input as Record<string, unknown>;
+
+    if (obj.kind !== undefined && !ASSET_KINDS.includes(obj.kind as AssetKind)) {
+      throw new Error(`Invalid input: kind must be one of ${ASSET_KINDS.join(', ')}`);
+    }
+
+    return { kind: obj.kind as AssetKind | undefined };
+  }
+
   /**
    * Tokenizes a single command (no pipes) into tokens respecting quotes
    */
@@ -246,16 +566,63 @@ export class ToolExecutor {
     return { cmd, args, isPiped, pipeChain };
   }
 
+  /**
+   * Asks the user to approve a command, or applies the command policy in headless runs.
+   * Every segment of a pipeline must be allowed.
+   */
+  private async approveCommand(segments: string[], question: string): Promise<{ approved: boolean; reason?: string }> {
+    const command = segments.join(' | ');
+    if (!this.commandPolicy) {
+      const approved = await this.ui.confirm(question);
+      this.ui.emit({ type: 'command_approval', command, approved, decidedBy: 'user' });
+      return { approved };
+    }
+
+    const decision = this.checkCommandPolicy(this.commandPolicy, segments);
+    this.ui.emit({ type: 'command_approval', command, approved: decision.approved, decidedBy: 'policy', reason: decision.reason });
+    return decision;
+  }
+
+  private checkCommandPolicy(policy: CommandPolicy, segments: string[]): { approved: boolean; reason?: string } {
+    const { allow, deny } = policy;
+    for (const segment of segments) {
+      const command = this.tokenizeCommand(segment).join(' ');
+      const matches = (entry: string) => entry === '*' || command === entry || command.startsWith(`${entry} `);
+      const denied = deny.find(matches);
+      if (denied) {
+        return { approved: false, reason: `"${command}" is blocked by the command policy (denied: ${denied}). Do not try to run it another way.` };
+      }
+      if (!allow.some(matches)) {
+        return { approved: false, reason: `"${command}" is not allowed by the command policy of this headless run. Allowed: ${allow.length > 0 ? allow.join(', ') : 'none'}.` };
+      }
+    }
+    return { approved: true };
+  }
+
   async execute(toolName: ToolName, input: unknown): Promise<ToolResult> {
     switch (toolName) {
       case 'write_file':
         return this.writeFile(input);
+      case 'edit_file':
+        return this.editFile(input);
       case 'read_file':
         return this.readFile(input);
       case 'run_command':
         return this.runCommand(input);
       case 'list_files':
         return this.listFiles(input);
+      case 'search_three_docs':
+        return this.searchThreeDocs(input);
+      case 'fetch_url':
+        return this.fetchUrl(input);
+      case 'verify_scene':
+        return this.verifyScene(input);
+      case 'describe_scene':
+        return this.describeScene(input);
+      case 'inspect_asset':
+        return this.inspectAsset(input);
+      case 'list_assets':
+        return this.listAssets(input);
       default:
         return {
           success: false,
@@ -275,42 +642,55 @@ export class ToolExecutor {
       const dir = path.dirname(fullPath);
 
       // Run syntax validation for code files (unless skipped)
-      if (!validatedInput.skipValidation && shouldValidate(validatedInput.path)) {
-        const validationResult = validate(validatedInput.path, validatedInput.content);
+      let validationWarnings: string[] = [];
+      if (!validatedInput.skipValidation) {
+        const validation = await this.checkSyntax(validatedInput.path, validatedInput.content);
 
         // If there are errors, don't write the file
-        if (!validationResult.valid) {
-          const errorDetails = validationResult.errors.join('\n  - ');
+        if (validation.error) {
           this.ui.printToolCall('write_file', `Writing: ${validatedInput.path}`);
           this.ui.printToolResult(false, 'Syntax validation failed');
+          this.ui.emit({ type: 'validation_failure', tool: 'write_file', path: validatedInput.path, error: validation.error });
           return {
             success: false,
             output: '',
-            error: `Syntax validation failed for ${validatedInput.path}:\n  - ${errorDetails}\n\nFix the syntax errors and try again.`,
+            error: validation.error,
           };
         }
+        validationWarnings = validation.warnings;
+      }
 
-        // Print warnings but continue
-        if (validationResult.warnings.length > 0) {
-          for (const warning of validationResult.warnings) {
-            this.ui.printWarning(warning);
-          }
-        }
+      // Ask the user to approve the change if the approval mode requires it
+      const original = await this.readExisting(fullPath);
+      const review = await this.reviewWrite('write_file', validatedInput.path, original, validatedInput.content);
+      if (!review.approved) {
+        this.ui.printToolResult(false, 'Rejected by user');
+        return {
+          success: false,
+          output: '',
+          error: review.error,
+        };
       }
 
-      // Create directory if it doesn't exist
+      // Checkpoint before creating missing directories, so undo removes them too
+      await this.recordCheckpoint('write_file', `Write ${validatedInput.path}`, [validatedInput.path]);
       await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fullPath, review.content, 'utf-8');
 
-      // Write the file
-      await fs.writeFile(fullPath, validatedInput.content, 'utf-8');
-
-      this.createdFiles.add(validatedInput.path);
+      if (original === null) {
+        this.createdFiles.add(validatedInput.path);
+      } else if (!this.createdFiles.has(validatedInput.path)) {
+        this.editedFiles.add(validatedInput.path);
+      }
+      this.changedFiles.add(validatedInput.path);
       this.ui.printToolCall('write_file', `Writing: ${validatedInput.path}`);
       this.ui.printToolResult(true, '');
 
       return {
         success: true,
-        output: `Successfully wrote ${validatedInput.path}`,
+        output: (review.editedByUser
+          ? `Wrote ${validatedInput.path} with changes made by the user. Use read_file to see the final content before editing it again.`
+          : `Successfully wrote ${validatedInput.path}`) + this.formatWarnings(validationWarnings),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -325,6 +705,254 @@ export class ToolExecutor {
     }
   }
 
+  /**
+   * Runs syntax validation for code files, then the three.js API lint and import
+   * resolution on valid JS/TS. Prints warnings and returns an error message for the
+   * model if the content is invalid or uses APIs removed in the project's three.js version.
+   * Unresolved imports are only warnings - the imported file may be written next.
+   */
+  private async checkSyntax(filePath: string, content: string): Promise<SyntaxCheck> {
+    if (!shouldValidate(filePath)) {
+      return { error: null, warnings: [] };
+    }
+
+    // Shader files are checked against their vertex/fragment counterpart on disk
+    const validationResult = validate(filePath, content, {
+      readFile: (relativePath) => {
+        try {
+          return readFileSync(this.validatePath(relativePath), 'utf-8');
+        } catch {
+          return null;
+        }
+      },
+    });
+
+    if (!validationResult.valid) {
+      const errorDetails = validationResult.errors.join('\n  - ');
+      return {
+        error: `Syntax validation failed for ${filePath}:\n  - ${errorDetails}\n\nFix the syntax errors and try again.`,
+        warnings: validationResult.warnings,
+      };
+    }
+
+    const warnings = [...validationResult.warnings];
+
+    if (this.apiLinter.shouldLint(filePath)) {
+      const lint = await this.apiLinter.lint(filePath, content);
+      const version = `three r${lint.three.revision}${lint.three.source === 'assumed' ? ', assumed - no three dependency found' : `, ${lint.three.source}`}`;
+      if (lint.errors.length > 0) {
+        return {
+          error: `Three.js API check failed for ${filePath} (${version}):\n  - ${lint.errors.join('\n  - ')}\n\nUpdate the code to the current API and try again.`,
+          warnings: [...warnings, ...lint.warnings],
+        };
+      }
+      warnings.push(...lint.warnings.map(warning => `${warning} (${version})`));
+    }
+
+    if (this.importResolver.shouldCheck(filePath)) {
+      const imports = await this.importResolver.check(filePath, content);
+      warnings.push(...imports.warnings);
+    }
+
+    // Print warnings but continue
+    for (const warning of warnings) {
+      this.ui.printWarning(warning);
+    }
+    return { error: null, warnings };
+  }
+
+  /**
+   * Appends validation warnings to a successful tool result so the model sees them
+   */
+  private formatWarnings(warnings: string[]): string {
+    if (warnings.length === 0) {
+      return '';
+    }
+    return `\n\nValidation warnings:\n  - ${warnings.join('\n  - ')}`;
+  }
+
+  private async readExisting(fullPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Shows the change as a diff and asks the user to accept, reject or edit it,
+   * depending on the approval mode. A rejection becomes a structured tool error.
+   */
+  private async reviewWrite(tool: string, filePath: string, original: string | null, proposed: string): Promise<WriteReview> {
+    const isOverwrite = original !== null && original !== proposed;
+    const needsReview = this.approvalMode === 'ask-always' ||
+      (this.approvalMode === 'ask-on-overwrite' && isOverwrite);
+
+    if (!needsReview) {
+      return { approved: true, content: proposed, reviewed: false, editedByUser: false };
+    }
+
+    this.ui.printToolCall(tool, `Review: ${filePath}`);
+
+    let content = proposed;
+    let editedByUser = false;
+
+    for (;;) {
+      this.ui.printDiff(filePath, createHunks(original ?? '', content));
+
+      const question = original === null ? `Create ${filePath}?` : `Apply changes to ${filePath}?`;
+      const choice = await this.ui.reviewChange(question);
+
+      if (choice === 'accept') {
+        return { approved: true, content, reviewed: true, editedByUser };
+      }
+
+      if (choice === 'reject') {
+        const reason = await this.ui.askText('Reason for the agent (optional): ');
+        return {
+          approved: false,
+          error: JSON.stringify({
+            status: 'rejected',
+            tool,
+            path: filePath,
+            reason: reason || undefined,
+            message: 'The user rejected this change and the file was not modified. Revise the change using the reason given, or ask the user how to proceed.',
+          }, null, 2),
+        };
+      }
+
+      const edited = this.ui.editInEditor(content, filePath);
+      if (edited === null) {
+        this.ui.printWarning('Could not open an editor. Set $EDITOR to use this option.');
+        continue;
+      }
+      if (edited !== content) {
+        content = edited;
+        editedByUser = true;
+        // User edits are not blocked by validation, but problems are pointed out
+        const validation = await this.checkSyntax(filePath, content);
+        if (validation.error) {
+          this.ui.printWarning(validation.error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Applies search/replace hunks in order. Throws if a hunk is missing or ambiguous.
+   */
+  private applyEdits(filePath: string, content: string, edits: EditHunk[]): string {
+    let result = content;
+
+    edits.forEach((edit, index) => {
+      const label = edits.length > 1 ? `Edit ${index + 1} of ${edits.length}` : 'Edit';
+      const occurrences = this.findOccurrences(result, edit.old_string);
+
+      if (occurrences.length === 0) {
+        throw new Error(`${label}: old_string not found in ${filePath}. Use read_file to check the current content; old_string must match exactly, including whitespace.`);
+      }
+
+      if (occurrences.length > 1 && !edit.replace_all) {
+        const lines = occurrences.map(offset => result.slice(0, offset).split('\n').length);
+        throw new Error(`${label}: old_string is ambiguous in ${filePath} - it matches ${occurrences.length} locations (lines ${lines.join(', ')}). Include more surrounding context to make it unique, or set replace_all.`);
+      }
+
+      result = edit.replace_all
+        ? result.split(edit.old_string).join(edit.new_string)
+        : result.slice(0, occurrences[0]) + edit.new_string + result.slice(occurrences[0] + edit.old_string.length);
+    });
+
+    return result;
+  }
+
+  private findOccurrences(content: string, search: string): number[] {
+    const offsets: number[] = [];
+    let offset = content.indexOf(search);
+    while (offset !== -1) {
+      offsets.push(offset);
+      offset = content.indexOf(search, offset + search.length);
+    }
+    return offsets;
+  }
+
+  private async editFile(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateEditFileInput(input);
+
+      // Validate path doesn't escape working directory
+      const fullPath = this.validatePath(validatedInput.path);
+
+      let original: string;
+      try {
+        original = await fs.readFile(fullPath, 'utf-8');
+      } catch {
+        throw new Error(`File not found: ${validatedInput.path}. Use write_file to create new files.`);
+      }
+
+      const updated = this.applyEdits(validatedInput.path, original, validatedInput.edits);
+
+      // Validate the edited result before saving
+      const validation = await this.checkSyntax(validatedInput.path, updated);
+      if (validation.error) {
+        this.ui.printToolCall('edit_file', `Editing: ${validatedInput.path}`);
+        this.ui.printToolResult(false, 'Syntax validation failed');
+        this.ui.emit({ type: 'validation_failure', tool: 'edit_file', path: validatedInput.path, error: validation.error });
+        return {
+          success: false,
+          output: '',
+          error: `${validation.error}\nThe file was not modified.`,
+        };
+      }
+
+      // Ask the user to approve the change if the approval mode requires it
+      const review = await this.reviewWrite('edit_file', validatedInput.path, original, updated);
+      if (!review.approved) {
+        this.ui.printToolResult(false, 'Rejected by user');
+        return {
+          success: false,
+          output: '',
+          error: review.error,
+        };
+      }
+
+      await this.recordCheckpoint('edit_file', `Edit ${validatedInput.path}`, [validatedInput.path]);
+      await fs.writeFile(fullPath, review.content, 'utf-8');
+
+      const hunks = createHunks(original, review.content);
+      const stats = getDiffStats(hunks);
+
+      if (!this.createdFiles.has(validatedInput.path)) {
+        this.editedFiles.add(validatedInput.path);
+      }
+      this.changedFiles.add(validatedInput.path);
+      this.ui.printToolCall('edit_file', `Editing: ${validatedInput.path}`);
+      // The diff was already shown during review
+      if (!review.reviewed) {
+        this.ui.printDiff(validatedInput.path, hunks);
+      }
+      this.ui.printToolResult(true, '');
+
+      const plural = validatedInput.edits.length > 1 ? 's' : '';
+      return {
+        success: true,
+        output: (review.editedByUser
+          ? `Edited ${validatedInput.path} with further changes made by the user (+${stats.added} -${stats.removed} lines). Use read_file to see the final content before editing it again.`
+          : `Applied ${validatedInput.edits.length} edit${plural} to ${validatedInput.path} (+${stats.added} -${stats.removed} lines)`) + this.formatWarnings(validation.warnings),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const displayPath = (input as EditFileInput)?.path || 'unknown';
+      this.ui.printToolCall('edit_file', `Editing: ${displayPath}`);
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
   private async readFile(input: unknown): Promise<ToolResult> {
     try {
       // Validate input structure
@@ -372,17 +1000,23 @@ export class ToolExecutor {
       this.ui.printToolCall('run_command', `Command: ${validatedInput.command}`);
 
       // Ask for user confirmation before running any command
-      const approved = await this.ui.confirm(`Run this command?`);
+      const approval = await this.approveCommand(pipeChain, 'Run this command?');
 
-      if (!approved) {
-        this.ui.printToolResult(false, 'User declined');
+      if (!approval.approved) {
+        this.ui.printToolResult(false, approval.reason ? 'Blocked by command policy' : 'User declined');
         return {
           success: false,
           output: '',
-          error: 'User declined to run this command',
+          error: approval.reason ?? 'User declined to run this command',
         };
       }
 
+      // Snapshot anything rm/mv is about to change so /undo can bring it back
+      const destructiveTargets = this.getDestructiveTargets(pipeChain, cwd);
+      if (destructiveTargets.length > 0) {
+        await this.recordCheckpoint('run_command', validatedInput.command, destructiveTargets);
+      }
+
       // For piped commands, use shell with pre-validated command string
       // For non-piped commands, use spawn without shell for security
       return new Promise((resolve) => {
@@ -491,6 +1125,206 @@ export class ToolExecutor {
     }
   }
 
+  private async searchThreeDocs(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateSearchDocsInput(input);
+
+      this.ui.printToolCall('search_three_docs', `Searching: ${validatedInput.query}`);
+
+      const index = await this.docsIndex.load();
+      const results = await this.docsIndex.search(validatedInput.query, validatedInput.limit);
+
+      if (results.length === 0) {
+        this.ui.printToolResult(true, '');
+        return {
+          success: true,
+          output: `No matches for "${validatedInput.query}" in three.js ${index.threeVersion}. Try a class name or different keywords.`,
+        };
+      }
+
+      this.ui.printToolResult(true, '');
+
+      return {
+        success: true,
+        output: ThreeDocsIndex.formatResults(results, index.threeVersion),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const displayQuery = (input as SearchDocsInput)?.query || 'unknown';
+      this.ui.printToolCall('search_three_docs', `Searching: ${displayQuery}`);
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
+  private async fetchUrl(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateFetchUrlInput(input);
+
+      const mode = this.urlFetcher.isOffline() ? ' (offline)' : '';
+      this.ui.printToolCall('fetch_url', `Fetching: ${validatedInput.url}${mode}`);
+
+      const result = await this.urlFetcher.fetch(validatedInput.url);
+
+      this.ui.printToolResult(true, '');
+
+      return {
+        success: true,
+        output: `Source: ${result.url} (${result.source}, fetched ${result.fetchedAt})\n\n${result.text}`,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const displayUrl = (input as FetchUrlInput)?.url || 'unknown';
+      this.ui.printToolCall('fetch_url', `Fetching: ${displayUrl}`);
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
+  private async verifyScene(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateVerifySceneInput(input);
+      const frames = validatedInput.frames ?? DEFAULT_FRAMES;
+
+      this.ui.printToolCall('verify_scene', `Running the scene headlessly for ${frames} frames`);
+
+      // The app's own code runs in a Node process, so ask first like run_command does
+      const approval = await this.approveCommand(['verify_scene'], 'Build and run the app in Node?');
+      if (!approval.approved) {
+        this.ui.printToolResult(false, approval.reason ? 'Blocked by command policy' : 'User declined');
+        return {
+          success: false,
+          output: '',
+          error: approval.reason ?? 'User declined to run the scene check',
+        };
+      }
+
+      this.ui.startThinking('Running scene');
+      const verification = await this.sceneVerifier.verify({ frames });
+      this.ui.stopThinking();
+      const report = formatSceneVerification(verification);
+
+      if (!verification.success) {
+        this.ui.printToolResult(false, report.split('\n')[0]);
+        return {
+          success: false,
+          output: '',
+          error: report,
+        };
+      }
+
+      this.ui.printToolResult(true, '');
+      return {
+        success: true,
+        output: report,
+      };
+    } catch (error) {
+      this.ui.stopThinking();
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.ui.printToolCall('verify_scene', 'Running the scene headlessly');
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
+  private async describeScene(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateDescribeSceneInput(input);
+      const target = validatedInput.path ?? '.';
+      this.validatePath(target);
+
+      this.ui.printToolCall('describe_scene', `Analyzing scene in: ${target}`);
+      const graph = await this.projectManager.describeScene(target);
+      this.ui.printToolResult(true, '');
+
+      return {
+        success: true,
+        output: formatSceneGraph(graph),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const displayPath = (input as DescribeSceneInput)?.path || '.';
+      this.ui.printToolCall('describe_scene', `Analyzing scene in: ${displayPath}`);
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
+  private async inspectAsset(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateInspectAssetInput(input);
+      const fullPath = this.validatePath(validatedInput.path);
+
+      this.ui.printToolCall('inspect_asset', `Inspecting: ${validatedInput.path}`);
+      const inspection = await this.gltfInspector.inspect(fullPath);
+      this.ui.printToolResult(true, '');
+
+      return {
+        success: true,
+        output: formatAssetInspection(inspection),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const displayPath = (input as InspectAssetInput)?.path || 'unknown';
+      this.ui.printToolCall('inspect_asset', `Inspecting: ${displayPath}`);
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
+  private async listAssets(input: unknown): Promise<ToolResult> {
+    try {
+      // Validate input structure
+      const validatedInput = this.validateListAssetsInput(input);
+
+      this.ui.printToolCall('list_assets', validatedInput.kind ? `Listing ${validatedInput.kind} assets` : 'Listing assets');
+      const inventory = await this.projectManager.getAssetInventory();
+      if (validatedInput.kind) {
+        inventory.assets = inventory.assets.filter(asset => asset.kind === validatedInput.kind);
+      }
+      this.ui.printToolResult(true, '');
+
+      return {
+        success: true,
+        output: formatAssetInventory(inventory),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.ui.printToolCall('list_assets', 'Listing assets');
+      this.ui.printToolResult(false, errorMessage);
+      return {
+        success: false,
+        output: '',
+        error: errorMessage,
+      };
+    }
+  }
+
   private async listFilesRecursive(dir: string, recursive: boolean): Promise<string[]> {
     // Validate dir is within working directory (defense in depth)
     const normalizedDir = path.normalize(dir);
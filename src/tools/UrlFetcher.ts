@@ -0,0 +1,324 @@
+/**
+ * URL Fetcher - Allowlisted documentation fetching for the fetch_url tool
+ * Responses are converted to text and cached on disk under .threewzrd/fetch-cache/.
+ * In offline mode only the cache and a local fixture directory are consulted.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// Domains that can always be fetched (subdomains included)
+export const DEFAULT_ALLOWED_DOMAINS = [
+  'threejs.org',
+  'raw.githubusercontent.com',
+  'registry.npmjs.org',
+];
+
+const FETCH_CONFIG_PATH = path.join('.threewzrd', 'fetch.json');
+const CACHE_DIR = path.join('.threewzrd', 'fetch-cache');
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours when online
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 2 * 1024 * 1024;
+
+export interface FetchOptions {
+  offline?: boolean;
+  fixturesDir?: string;
+  // Extra domains from the user's config; never read from the project, which the agent can write
+  allowedDomains?: string[];
+}
+
+export interface FetchConfig {
+  fixturesDir?: string;
+}
+
+export interface FetchedDocument {
+  url: string;
+  status: number;
+  contentType: string;
+  text: string;
+  fetchedAt: string;
+}
+
+export interface FetchResult extends FetchedDocument {
+  source: 'network' | 'cache' | 'fixture';
+}
+
+export class UrlFetcher {
+  private workingDirectory: string;
+  private offline: boolean;
+  private fixturesDir: string | undefined;
+  private allowedDomains: string[];
+
+  constructor(workingDirectory: string, options: FetchOptions = {}) {
+    this.workingDirectory = workingDirectory;
+    this.offline = options.offline ?? false;
+    this.fixturesDir = options.fixturesDir;
+    this.allowedDomains = [...DEFAULT_ALLOWED_DOMAINS, ...(options.allowedDomains ?? [])]
+      .map(domain => domain.toLowerCase().replace(/^\*\./, ''));
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  async fetch(rawUrl: string): Promise<FetchResult> {
+    const config = await this.loadConfig();
+    const url = this.parseUrl(rawUrl);
+    this.assertAllowed(url);
+
+    const cached = await this.readCache(url.href);
+
+    if (this.offline) {
+      if (cached) {
+        return { ...cached, source: 'cache' };
+      }
+      const fixture = await this.readFixture(url, config);
+      if (fixture) {
+        return { ...fixture, source: 'fixture' };
+      }
+      throw new Error(`Offline mode: no cached response or fixture for ${url.href}`);
+    }
+
+    if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < CACHE_TTL_MS) {
+      return { ...cached, source: 'cache' };
+    }
+
+    const document = await this.fetchFromNetwork(url);
+    await this.writeCache(document);
+    return { ...document, source: 'network' };
+  }
+
+  /**
+   * Reads the per-project fetch configuration from .threewzrd/fetch.json
+   */
+  private async loadConfig(): Promise<FetchConfig> {
+    try {
+      const content = await fs.readFile(path.join(this.workingDirectory, FETCH_CONFIG_PATH), 'utf-8');
+      const config = JSON.parse(content) as FetchConfig;
+      return {
+        fixturesDir: typeof config.fixturesDir === 'string' ? config.fixturesDir : undefined,
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  private parseUrl(rawUrl: string): URL {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new Error(`Invalid URL: ${rawUrl}`);
+    }
+    if (url.protocol !== 'https:') {
+      throw new Error(`Only https URLs can be fetched: ${rawUrl}`);
+    }
+    url.hash = '';
+    return url;
+  }
+
+  private assertAllowed(url: URL): void {
+    const host = url.hostname.toLowerCase();
+
+    if (!this.allowedDomains.some(domain => host === domain || host.endsWith(`.${domain}`))) {
+      throw new Error(
+        `Domain not allowed: ${host}. Allowed domains: ${this.allowedDomains.join(', ')}. ` +
+        `Add domains to "fetch.allowedDomains" in ~/.threewzrd/config.json to permit them.`
+      );
+    }
+
+    // Only package metadata may come from the npm registry, never tarballs
+    if (host === 'registry.npmjs.org' && url.pathname.includes('/-/')) {
+      throw new Error('Only package metadata can be fetched from the npm registry');
+    }
+  }
+
+  private async fetchFromNetwork(url: URL): Promise<FetchedDocument> {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let current = url;
+    let response: Response;
+
+    // Follow redirects by hand so no hop can leave the allowlist
+    for (let redirects = 0; ; redirects++) {
+      response = await fetch(current, {
+        redirect: 'manual',
+        signal,
+        headers: { 'User-Agent': 'threewzrd', 'Accept': 'text/html,application/json,text/plain;q=0.9,*/*;q=0.5' },
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects for ${url.href}`);
+      }
+      current = this.parseUrl(new URL(location, current).href);
+      this.assertAllowed(current);
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText} for ${url.href}`);
+    }
+
+    const contentLength = Number(response.headers.get('content-length') ?? 0);
+    if (contentLength > MAX_RESPONSE_BYTES) {
+      throw new Error(`Response too large (${contentLength} bytes) for ${url.href}`);
+    }
+
+    const body = await response.text();
+    if (body.length > MAX_RESPONSE_BYTES) {
+      throw new Error(`Response too large for ${url.href}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    return {
+      url: url.href,
+      status: response.status,
+      contentType,
+      text: toText(body, contentType),
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+
+  private getCachePath(url: string): string {
+    const key = createHash('sha256').update(url).digest('hex').slice(0, 32);
+    return path.join(this.workingDirectory, CACHE_DIR, `${key}.json`);
+  }
+
+  private async readCache(url: string): Promise<FetchedDocument | null> {
+    try {
+      const content = await fs.readFile(this.getCachePath(url), 'utf-8');
+      const cached = JSON.parse(content) as FetchedDocument;
+      return cached.url === url ? cached : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeCache(document: FetchedDocument): Promise<void> {
+    const cachePath = this.getCachePath(document.url);
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify(document, null, 2) + '\n', 'utf-8');
+  }
+
+  /**
+   * Looks up a fixture file mirroring the URL: <fixturesDir>/<host>/<path>.
+   * Paths without an extension also try .html, .json and index.html.
+   */
+  private async readFixture(url: URL, config: FetchConfig): Promise<FetchedDocument | null> {
+    const fixturesDir = this.fixturesDir ?? config.fixturesDir;
+    if (!fixturesDir) {
+      return null;
+    }
+
+    const root = path.resolve(this.workingDirectory, fixturesDir);
+    const base = path.join(root, url.hostname, decodeURIComponent(url.pathname));
+    if (!base.startsWith(root + path.sep)) {
+      return null;
+    }
+
+    const candidates = path.extname(base)
+      ? [base]
+      : [base + '.html', base + '.json', path.join(base, 'index.html'), base];
+
+    for (const candidate of candidates) {
+      try {
+        const body = await fs.readFile(candidate, 'utf-8');
+        const contentType = candidate.endsWith('.json')
+          ? 'application/json'
+          : candidate.endsWith('.html') ? 'text/html' : 'text/plain';
+        return {
+          url: url.href,
+          status: 200,
+          contentType,
+          text: toText(body, contentType),
+          fetchedAt: new Date().toISOString(),
+        };
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Converts a response body to plain text based on its content type
+ */
+export function toText(body: string, contentType: string): string {
+  if (contentType.includes('html') || /^\s*<(!doctype|html)/i.test(body)) {
+    return htmlToText(body);
+  }
+  if (contentType.includes('json')) {
+    try {
+      return JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      return body;
+    }
+  }
+  return body;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', copy: '©',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Extracts readable text from HTML: drops scripts, styles and page chrome,
+ * keeps headings, list items and code blocks on their own lines
+ */
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|nav|header|footer|iframe)\b[\s\S]*?<\/\1>/gi, '');
+
+  // Prefer the main content when the page marks it
+  const main = text.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i);
+  if (main) {
+    text = main[2];
+  }
+
+  // Keep code blocks verbatim (with entities decoded later)
+  const codeBlocks: string[] = [];
+  text = text.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+    codeBlocks.push(code.replace(/<[^>]+>/g, ''));
+    return `\n\u0000${codeBlocks.length - 1}\u0000\n`;
+  });
+
+  text = text
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, content: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${content.replace(/<[^>]+>/g, '').trim()}\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|tr|table|ul|ol|dl|dd|dt|blockquote)>/gi, '\n')
+    .replace(/<(td|th)\b[^>]*>/gi, ' | ')
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<[^>]+>/g, '');
+
+  text = decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_, index: string) =>
+    '```\n' + decodeEntities(codeBlocks[Number(index)]).replace(/^\n+|\s+$/g, '') + '\n```');
+}
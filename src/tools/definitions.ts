@@ -19,6 +19,42 @@ export const toolDefinitions: Anthropic.Tool[] = [
       required: ['path', 'content'],
     },
   },
+  {
+    name: 'edit_file',
+    description: 'Modify an existing file by replacing exact text. Each edit replaces old_string with new_string; old_string must match the file exactly (including whitespace and indentation) and must be unique unless replace_all is true. Edits are applied in order and the file is only saved if all of them apply and the result passes syntax validation. Prefer this over write_file for changes to existing files.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path relative to the current working directory',
+        },
+        edits: {
+          type: 'array',
+          description: 'One or more search/replace hunks, applied in order',
+          items: {
+            type: 'object',
+            properties: {
+              old_string: {
+                type: 'string',
+                description: 'Exact text to find. Include enough surrounding lines to make it unique.',
+              },
+              new_string: {
+                type: 'string',
+                description: 'Text to replace it with',
+              },
+              replace_all: {
+                type: 'boolean',
+                description: 'Replace every occurrence of old_string (default: false)',
+              },
+            },
+            required: ['old_string', 'new_string'],
+          },
+        },
+      },
+      required: ['path', 'edits'],
+    },
+  },
   {
     name: 'read_file',
     description: 'Read the contents of an existing file. Use this before modifying a file to understand its current state.',
@@ -71,24 +107,91 @@ export const toolDefinitions: Anthropic.Tool[] = [
   },
   {
   name: 'fetch_url',
-  description: 'Fetch content from a URL (used to retrieve official documentation)',
+  description: 'Fetch a documentation page and return it as plain text. Only https URLs on allowed domains can be fetched (threejs.org, raw.githubusercontent.com, registry.npmjs.org package metadata, plus any domains the project allows). Responses are cached; in offline mode only cached pages and local fixtures are available.',
   input_schema: {
     type: 'object',
     properties: {
-      url: { type: 'string' }
+      url: {
+        type: 'string',
+        description: 'The https URL to fetch (e.g., "https://threejs.org/docs/", "https://registry.npmjs.org/three/latest")',
+      },
     },
     required: ['url']
   }
 },
 {
   name: 'search_three_docs',
-  description: 'Search official local Three.js documentation',
+  description: 'Search the offline Three.js API reference built from the project\'s installed three package (and @types/three). Returns ranked excerpts with import paths, constructor signatures, properties and methods for core classes, constants and addons. Use this instead of guessing APIs. Requires three to be installed in node_modules.',
   input_schema: {
     type: 'object',
     properties: {
-      query: { type: 'string' }
+      query: {
+        type: 'string',
+        description: 'Class, constant or feature to look up (e.g., "OrbitControls", "SRGBColorSpace", "gltf loader draco")',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results to return (default: 5)',
+      },
     },
     required: ['query']
   }
+},
+{
+  name: 'verify_scene',
+  description: 'Smoke test the app without a browser: builds it with the project\'s bundler, loads the entry from index.html in Node with a DOM shim and a stub WebGL context, and runs a few animation frames. Reports uncaught exceptions (with source locations), console errors and warnings, missing assets, and the scene graph that was built (object counts, lights, cameras, materials, triangles). Nothing is actually drawn, so it cannot check how the scene looks. Use it after creating or changing scene setup code.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      frames: {
+        type: 'number',
+        description: 'Number of animation frames to run (default: 5, max: 120)',
+      },
+    },
+    required: []
+  }
+},
+{
+  name: 'describe_scene',
+  description: 'Statically analyze the project source (without running it) and return the three.js scene graph it builds: scenes and the objects added to them with their geometries and materials, lights, cameras, renderers, controls, loaders with the assets they load, and post-processing passes, each with its constructor arguments and file:line. Understands imperative three.js code and React Three Fiber JSX. Use it to get an overview of an existing scene before reading individual files.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File or directory to analyze, relative to the project root (default: the whole project)',
+      },
+    },
+    required: []
+  }
+},
+{
+  name: 'inspect_asset',
+  description: 'Inspect a glTF model (.gltf or .glb) in the project without loading it in a browser. Reports the node hierarchy with node names as three.js will see them, meshes with vertex and triangle counts, materials, textures with pixel sizes, animation clip names and durations, skins, cameras and lights, and the extensions used (Draco, KTX2/Basis, meshopt) with the decoders the GLTFLoader needs. Use it before writing code that loads a model so node and clip names are real.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Path to the .gltf or .glb file, relative to the project root (e.g., "public/models/robot.glb")',
+      },
+    },
+    required: ['path']
+  }
+},
+{
+  name: 'list_assets',
+  description: 'List the project\'s assets (models, textures, HDRIs, audio, fonts) with file sizes, image dimensions and the source lines that reference each one. Flags assets nothing references, references to asset files that do not exist, and textures or files over the project\'s budget (maximum texture size, power-of-two sides, maximum file size). Use it to find the real paths of assets before loading them and to check asset problems after changing loader code.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      kind: {
+        type: 'string',
+        enum: ['model', 'texture', 'hdri', 'audio', 'font'],
+        description: 'Only list assets of this kind (problems with missing files are always reported)',
+      },
+    },
+    required: []
+  }
 }
 ];
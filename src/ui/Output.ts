@@ -0,0 +1,57 @@
+/**
+ * Output - Where TerminalUI sends what it prints. TextOutput writes the formatted text
+ * (the default); NdjsonOutput drops it and writes one JSON event per line instead, so
+ * editor plugins and dashboards can follow a headless run.
+ */
+
+import { TokenUsage } from '../core/types.js';
+
+export type WizardEvent =
+  | { type: 'start'; sessionId: string; model: string; workingDirectory: string }
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_use_start'; id: string; name: string; input: unknown }
+  | { type: 'tool_use_end'; id: string; name: string; success: boolean; output?: string; error?: string }
+  | { type: 'validation_failure'; tool: string; path: string; error: string }
+  | { type: 'command_approval'; command: string; approved: boolean; decidedBy: 'user' | 'policy'; reason?: string }
+  // usage and costUsd are for one model request, total and totalCostUsd for the session so far
+  | { type: 'usage'; model: string; usage: TokenUsage; total: TokenUsage; costUsd: number; totalCostUsd: number }
+  | { type: 'log'; level: 'info' | 'success' | 'warning' | 'error'; message: string }
+  | { type: 'result'; status: 'completed' | 'error' | 'build_failed' | 'budget_exceeded'; exitCode: number; sessionId: string; response: string; files: string[]; usage: TokenUsage; costUsd: number; error?: string };
+
+export interface Output {
+  // Formatted text, written as-is
+  write(text: string): void;
+  event(event: WizardEvent): void;
+}
+
+export class TextOutput implements Output {
+  private stream: NodeJS.WritableStream;
+
+  constructor(stream: NodeJS.WritableStream = process.stdout) {
+    this.stream = stream;
+  }
+
+  write(text: string): void {
+    this.stream.write(text);
+  }
+
+  event(): void {
+    // Events are only for machine-readable output
+  }
+}
+
+export class NdjsonOutput implements Output {
+  private stream: NodeJS.WritableStream;
+
+  constructor(stream: NodeJS.WritableStream = process.stdout) {
+    this.stream = stream;
+  }
+
+  write(): void {
+    // Formatted text would break the stream; everything relevant is also an event
+  }
+
+  event(event: WizardEvent): void {
+    this.stream.write(JSON.stringify(event) + '\n');
+  }
+}
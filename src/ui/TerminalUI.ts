@@ -1,28 +1,81 @@
 import * as readline from 'readline';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
-import { ModelId } from '../core/types.js';
+import { ModelId, ProjectInfo, SessionCost, SessionData, SessionListing } from '../core/types.js';
+import { DiffHunk, getDiffStats } from '../tools/TextDiff.js';
+import { Checkpoint, RestoreResult } from '../project/CheckpointStore.js';
+import { VerificationResult, formatDiagnostic } from '../tools/BuildVerifier.js';
+import { SceneGraph, formatSceneGraph } from '../project/SceneGraph.js';
+import { AssetInventory, formatAssetInventory } from '../project/AssetInventory.js';
+import { formatStackSummary } from '../project/StackDetector.js';
+import { InstructionsSource, PROJECT_INSTRUCTIONS_FILE, getUserInstructionsPath } from '../prompts/instructions.js';
+import { Output, TextOutput, WizardEvent } from './Output.js';
+import { formatUsd } from '../core/CostTracker.js';
+
+// Long diffs are cut off in the terminal; the file itself is unaffected
+const MAX_DIFF_LINES = 80;
+// Diagnostics listed per failed build step; the agent is sent the full list
+const MAX_SUMMARY_DIAGNOSTICS = 5;
+// Most recent turns listed by /cost
+const MAX_COST_TURNS = 10;
+
+export type ReviewChoice = 'accept' | 'reject' | 'edit';
 
 export interface SelectOption {
   label: string;
   value: string;
 }
 
+export interface TerminalUIOptions {
+  // Headless runs have no readline or spinners, and any question throws
+  interactive?: boolean;
+  // Where output goes; headless runs can send it to stderr or replace it with events
+  output?: Output;
+}
+
 export class TerminalUI {
-  private rl: readline.Interface;
+  private rl: readline.Interface | null;
+  private output: Output;
+  private interactive: boolean;
   private isStreaming = false;
   private thinkingSpinner: Ora | null = null;
   private toolSpinner: Ora | null = null;
 
-  constructor() {
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
+  constructor(options: TerminalUIOptions = {}) {
+    this.interactive = options.interactive ?? true;
+    this.output = options.output ?? new TextOutput();
+    this.rl = this.interactive
+      ? readline.createInterface({ input: process.stdin, output: process.stdout })
+      : null;
+  }
+
+  isInteractive(): boolean {
+    return this.interactive;
+  }
+
+  // Structured event for machine-readable output; formatted output ignores it
+  emit(event: WizardEvent): void {
+    this.output.event(event);
+  }
+
+  private log(message = ''): void {
+    this.output.write(message + '\n');
+  }
+
+  private getReadline(): readline.Interface {
+    if (!this.rl) {
+      throw new Error('This needs an interactive terminal and cannot be answered in a headless run');
+    }
+    return this.rl;
   }
 
   // Thinking indicator
   startThinking(message = 'Thinking'): void {
+    if (!this.interactive) return;
     this.thinkingSpinner = ora({
       text: chalk.cyan(message),
       spinner: 'dots',
@@ -36,13 +89,14 @@ export class TerminalUI {
       this.thinkingSpinner = null;
     }
     // Ensure stdin is still active for readline after ora releases it
-    if (process.stdin.isPaused()) {
+    if (this.interactive && process.stdin.isPaused()) {
       process.stdin.resume();
     }
   }
 
   // Tool processing spinner
   startToolProcessing(toolCount: number): void {
+    if (!this.interactive) return;
     const plural = toolCount > 1 ? 's' : '';
     this.toolSpinner = ora({
       text: chalk.yellow(`Executing ${toolCount} tool${plural}...`),
@@ -68,10 +122,11 @@ export class TerminalUI {
   async confirm(message: string): Promise<boolean> {
     // Ensure any spinner is stopped
     this.stopThinking();
+    const rl = this.getReadline();
 
     return new Promise((resolve) => {
-      console.log();
-      this.rl.question(
+      this.log();
+      rl.question(
         chalk.yellow(`  ⚠ ${message} `) + chalk.gray('[y/N] '),
         (answer) => {
           const normalized = answer.trim().toLowerCase();
@@ -81,25 +136,88 @@ export class TerminalUI {
     });
   }
 
+  // Accept/reject/edit prompt for reviewing a file change
+  async reviewChange(message: string): Promise<ReviewChoice> {
+    this.stopThinking();
+    const rl = this.getReadline();
+
+    return new Promise((resolve) => {
+      const ask = (): void => {
+        rl.question(
+          chalk.yellow(`  ⚠ ${message} `) + chalk.gray('[a]ccept / [r]eject / [e]dit '),
+          (answer) => {
+            const normalized = answer.trim().toLowerCase();
+            if (normalized === 'a' || normalized === 'accept' || normalized === 'y' || normalized === 'yes') {
+              resolve('accept');
+            } else if (normalized === 'r' || normalized === 'reject' || normalized === 'n' || normalized === 'no') {
+              resolve('reject');
+            } else if (normalized === 'e' || normalized === 'edit') {
+              resolve('edit');
+            } else {
+              this.log(chalk.red('  Please enter a, r or e'));
+              ask();
+            }
+          }
+        );
+      };
+      this.log();
+      ask();
+    });
+  }
+
+  // Free-text question (empty answer allowed)
+  async askText(question: string): Promise<string> {
+    const rl = this.getReadline();
+    return new Promise((resolve) => {
+      rl.question(chalk.gray(`  ${question}`), (answer) => {
+        resolve(answer.trim());
+      });
+    });
+  }
+
+  // Opens content in $VISUAL/$EDITOR and returns the saved result (null if the editor failed)
+  editInEditor(content: string, fileName: string): string | null {
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'threewzrd-'));
+    const tempFile = path.join(tempDir, path.basename(fileName));
+
+    try {
+      fs.writeFileSync(tempFile, content, 'utf-8');
+      this.getReadline().pause();
+      const [command, ...args] = editor.split(/\s+/);
+      const result = spawnSync(command, [...args, tempFile], { stdio: 'inherit' });
+      if (result.error || result.status !== 0) {
+        return null;
+      }
+      return fs.readFileSync(tempFile, 'utf-8');
+    } catch {
+      return null;
+    } finally {
+      this.getReadline().resume();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
   // Selection menu for multiple choices
   async select(question: string, options: SelectOption[]): Promise<string> {
-    console.log();
-    console.log(chalk.cyan(`  ${question}`));
-    console.log();
+    const rl = this.getReadline();
+    this.log();
+    this.log(chalk.cyan(`  ${question}`));
+    this.log();
 
     options.forEach((opt, index) => {
-      console.log(chalk.white(`    ${index + 1}) `) + chalk.gray(opt.label));
+      this.log(chalk.white(`    ${index + 1}) `) + chalk.gray(opt.label));
     });
-    console.log();
+    this.log();
 
     return new Promise((resolve) => {
       const askChoice = (): void => {
-        this.rl.question(chalk.magenta('  › '), (answer) => {
+        rl.question(chalk.magenta('  › '), (answer) => {
           const num = parseInt(answer.trim(), 10);
           if (num >= 1 && num <= options.length) {
             resolve(options[num - 1].value);
           } else {
-            console.log(chalk.red('  Please enter a valid number'));
+            this.log(chalk.red('  Please enter a valid number'));
             askChoice();
           }
         });
@@ -109,44 +227,55 @@ export class TerminalUI {
   }
 
   printBanner(): void {
-    console.log();
-    console.log(chalk.magenta.bold('  ╔═══════════════════════════════════════╗'));
-    console.log(chalk.magenta.bold('  ║         ') + chalk.white.bold('Three.js Wizard') + chalk.magenta.bold('              ║'));
-    console.log(chalk.magenta.bold('  ╚═══════════════════════════════════════╝'));
-    console.log();
-    console.log(chalk.cyan('  Your AI assistant for 3D web development'));
-    console.log();
-    console.log(chalk.gray('  I can help you create Three.js scenes, add objects,'));
-    console.log(chalk.gray('  lighting, animations, and more - just describe what'));
-    console.log(chalk.gray('  you want in plain English.'));
-    console.log();
-    console.log(chalk.gray('  Commands: ') + chalk.yellow('/help') + chalk.gray(' | ') + chalk.yellow('/clear') + chalk.gray(' | ') + chalk.yellow('/exit'));
-    console.log();
-    console.log(chalk.gray('  ─────────────────────────────────────────'));
-    console.log();
+    this.log();
+    this.log(chalk.magenta.bold('  ╔═══════════════════════════════════════╗'));
+    this.log(chalk.magenta.bold('  ║         ') + chalk.white.bold('Three.js Wizard') + chalk.magenta.bold('              ║'));
+    this.log(chalk.magenta.bold('  ╚═══════════════════════════════════════╝'));
+    this.log();
+    this.log(chalk.cyan('  Your AI assistant for 3D web development'));
+    this.log();
+    this.log(chalk.gray('  I can help you create Three.js scenes, add objects,'));
+    this.log(chalk.gray('  lighting, animations, and more - just describe what'));
+    this.log(chalk.gray('  you want in plain English.'));
+    this.log();
+    this.log(chalk.gray('  Commands: ') + chalk.yellow('/help') + chalk.gray(' | ') + chalk.yellow('/clear') + chalk.gray(' | ') + chalk.yellow('/exit'));
+    this.log();
+    this.log(chalk.gray('  ─────────────────────────────────────────'));
+    this.log();
   }
 
   printHelp(): void {
-    console.log();
-    console.log(chalk.yellow('Commands:'));
-    console.log(chalk.cyan('  /help') + chalk.gray('              - Show this help message'));
-    console.log(chalk.cyan('  /clear') + chalk.gray('             - Clear conversation history'));
-    console.log(chalk.cyan('  /exit') + chalk.gray('              - Exit the wizard'));
-    console.log(chalk.cyan('  /project') + chalk.gray('           - Show current project info'));
-    console.log(chalk.cyan('  /model [name]') + chalk.gray('      - Switch model (sonnet, opus, haiku)'));
-    console.log();
-    console.log(chalk.yellow('Examples:'));
-    console.log(chalk.gray('  "Create a spinning cube with metallic material"'));
-    console.log(chalk.gray('  "Add orbit controls and a grid helper"'));
-    console.log(chalk.gray('  "Create a particle system with 10,000 points"'));
-    console.log();
-    console.log(chalk.yellow('API Key Management:'));
-    console.log(chalk.gray('  To manage your Anthropic API key, exit and run:'));
-    console.log(chalk.cyan('  threewzrd config') + chalk.gray('      - View current config'));
-    console.log(chalk.cyan('  threewzrd config -s') + chalk.gray('   - Set or rotate API key'));
-    console.log(chalk.cyan('  threewzrd config -d') + chalk.gray('   - Delete saved API key'));
-    console.log(chalk.cyan('  threewzrd config -p') + chalk.gray('   - Show config file path'));
-    console.log();
+    this.log();
+    this.log(chalk.yellow('Commands:'));
+    this.log(chalk.cyan('  /help') + chalk.gray('              - Show this help message'));
+    this.log(chalk.cyan('  /clear') + chalk.gray('             - Clear conversation history'));
+    this.log(chalk.cyan('  /exit') + chalk.gray('              - Exit the wizard'));
+    this.log(chalk.cyan('  /project') + chalk.gray('           - Show the project manifest: setup, files and sessions'));
+    this.log(chalk.cyan('  /model [name]') + chalk.gray('      - Switch model (sonnet, opus, haiku)'));
+    this.log(chalk.cyan('  /save [title]') + chalk.gray('      - Save the current session'));
+    this.log(chalk.cyan('  /load [id]') + chalk.gray('         - List saved sessions or load one'));
+    this.log(chalk.cyan('  /approval [mode]') + chalk.gray('   - Show or set file approval (auto, ask-on-overwrite, ask-always)'));
+    this.log(chalk.cyan('  /undo') + chalk.gray('              - Revert file changes from the last turn'));
+    this.log(chalk.cyan('  /checkpoints') + chalk.gray('       - List file checkpoints'));
+    this.log(chalk.cyan('  /restore <id>') + chalk.gray('      - Roll files back to before a checkpoint'));
+    this.log(chalk.cyan('  /verify [on|off]') + chalk.gray('   - Show or toggle type check and build after each turn'));
+    this.log(chalk.cyan('  /scene [path]') + chalk.gray('      - Show the scene graph found in the source'));
+    this.log(chalk.cyan('  /assets') + chalk.gray('            - List assets and flag unused, missing or oversized ones'));
+    this.log(chalk.cyan('  /instructions') + chalk.gray('      - Reload and show THREEWZRD.md and your own instructions'));
+    this.log(chalk.cyan('  /cost') + chalk.gray('              - Show the session cost by model and by turn'));
+    this.log();
+    this.log(chalk.yellow('Examples:'));
+    this.log(chalk.gray('  "Create a spinning cube with metallic material"'));
+    this.log(chalk.gray('  "Add orbit controls and a grid helper"'));
+    this.log(chalk.gray('  "Create a particle system with 10,000 points"'));
+    this.log();
+    this.log(chalk.yellow('API Key Management:'));
+    this.log(chalk.gray('  To manage your Anthropic API key, exit and run:'));
+    this.log(chalk.cyan('  threewzrd config') + chalk.gray('      - View current config'));
+    this.log(chalk.cyan('  threewzrd config -s') + chalk.gray('   - Set or rotate API key'));
+    this.log(chalk.cyan('  threewzrd config -d') + chalk.gray('   - Delete saved API key'));
+    this.log(chalk.cyan('  threewzrd config -p') + chalk.gray('   - Show config file path'));
+    this.log();
   }
 
   printModelSwitch(model: ModelId): void {
@@ -157,90 +286,319 @@ export class TerminalUI {
       'opus-4.5': 'Claude Opus 4.5',
       'opus-4.6': 'Claude Opus 4.6',
     };
-    console.log(chalk.green(`Switched to ${modelNames[model]}`));
+    this.log(chalk.green(`Switched to ${modelNames[model]}`));
   }
 
-  printProjectInfo(info: { name: string; language: string; path: string; files: string[] } | null): void {
+  printProjectInfo(info: ProjectInfo | null): void {
     if (!info) {
-      console.log(chalk.yellow('No project created yet. Start by describing what you want to build!'));
+      this.log(chalk.yellow('No project created yet. Start by describing what you want to build!'));
+      return;
+    }
+    this.log();
+    this.log(chalk.yellow('Current Project:'));
+    this.log(chalk.cyan('  Name: ') + info.name);
+    this.log(chalk.cyan('  Language: ') + info.language);
+    if (info.target) {
+      this.log(chalk.cyan('  Target: ') + info.target);
+    }
+    if (info.template) {
+      this.log(chalk.cyan('  Template: ') + info.template);
+    }
+    this.log(chalk.cyan('  three.js: ') + (info.threeVersion ?? chalk.gray('not installed')));
+    if (info.stack) {
+      this.log(chalk.cyan('  Stack: ') + (info.stack.features.length > 0 ? formatStackSummary(info.stack) : 'vanilla three.js'));
+    }
+    if (info.description) {
+      this.log(chalk.cyan('  Description: ') + info.description);
+    }
+    this.log(chalk.cyan('  Path: ') + info.path);
+    this.log(chalk.cyan('  Created: ') + info.createdAt.toLocaleString());
+
+    const agentFiles = info.files.filter(f => f.owner === 'agent').length;
+    this.log(chalk.cyan(`  Files (${info.files.length}, ${agentFiles} created by the wizard):`));
+    info.files.forEach(f => this.log(
+      chalk.gray('    - ' + f.path) + (f.owner === 'agent' ? chalk.magenta(' (wizard)') : ''),
+    ));
+
+    if (info.sessions.length > 0) {
+      const latest = info.sessions[info.sessions.length - 1];
+      this.log(chalk.cyan('  Sessions: ') + String(info.sessions.length) + chalk.gray(` (latest ${latest})`));
+    }
+    this.log();
+  }
+
+  printInstructions(sources: InstructionsSource[]): void {
+    if (sources.length === 0) {
+      this.log(chalk.yellow('No instructions in effect.'));
+      this.log(chalk.gray(`Create ${PROJECT_INSTRUCTIONS_FILE} in the project or ${getUserInstructionsPath()} for all projects.`));
+      return;
+    }
+    this.log();
+    for (const source of sources) {
+      const label = source.scope === 'user' ? 'User instructions' : 'Project instructions';
+      this.log(chalk.yellow(`${label}: `) + chalk.gray(source.path));
+      source.content.split('\n').forEach(line => this.log('  ' + line));
+      if (source.truncated) {
+        this.log(chalk.yellow('  [truncated: only the start of the file is sent to the model]'));
+      }
+      this.log();
+    }
+  }
+
+  printCost(cost: SessionCost, limit: number | null): void {
+    const models = Object.entries(cost.byModel);
+    if (models.length === 0) {
+      this.log(chalk.yellow('No model requests in this session yet.'));
+      return;
+    }
+
+    this.log();
+    this.log(chalk.yellow('Cost by model:'));
+    for (const [model, { usage, cost: breakdown }] of models) {
+      this.log(chalk.cyan(`  ${model}`) + chalk.white(`  ${formatUsd(breakdown.total)}`));
+      this.log(chalk.gray(`    Input:        ${usage.inputTokens.toLocaleString().padStart(11)} tokens  ${formatUsd(breakdown.input)}`));
+      this.log(chalk.gray(`    Output:       ${usage.outputTokens.toLocaleString().padStart(11)} tokens  ${formatUsd(breakdown.output)}`));
+      this.log(chalk.gray(`    Cache write:  ${usage.cacheCreationTokens.toLocaleString().padStart(11)} tokens  ${formatUsd(breakdown.cacheWrite)}`));
+      this.log(chalk.gray(`    Cache read:   ${usage.cacheReadTokens.toLocaleString().padStart(11)} tokens  ${formatUsd(breakdown.cacheRead)}`));
+    }
+
+    if (cost.turns.length > 0) {
+      this.log();
+      this.log(chalk.yellow('Cost by turn:'));
+      const shown = cost.turns.slice(-MAX_COST_TURNS);
+      if (cost.turns.length > shown.length) {
+        this.log(chalk.gray(`  ... ${cost.turns.length - shown.length} earlier turns`));
+      }
+      for (const turn of shown) {
+        const tokens = turn.usage.inputTokens + turn.usage.outputTokens + turn.usage.cacheCreationTokens + turn.usage.cacheReadTokens;
+        this.log(chalk.white(`  ${formatUsd(turn.costUsd).padStart(9)}`) + chalk.gray(`  ${tokens.toLocaleString()} tokens  ${turn.label}`));
+      }
+    }
+
+    this.log();
+    this.log(chalk.yellow('Session total: ') + chalk.white(formatUsd(cost.totalUsd)) +
+      (limit !== null ? chalk.gray(` of a ${formatUsd(limit)} budget`) : ''));
+    this.log();
+  }
+
+  printSessionList(sessions: SessionListing[], currentId?: string): void {
+    if (sessions.length === 0) {
+      this.log(chalk.yellow('No saved sessions in this project.'));
+      return;
+    }
+    this.log();
+    this.log(chalk.yellow('Saved Sessions:'));
+    for (const session of sessions) {
+      const marker = session.id === currentId ? chalk.green(' (current)') : '';
+      const updated = new Date(session.updatedAt).toLocaleString();
+      this.log(chalk.cyan(`  ${session.id}`) + marker + chalk.gray(`  ${updated}  ${session.model}  ${session.messageCount} messages`));
+      const label = session.title || session.preview;
+      if (label) {
+        this.log(chalk.gray(`    ${label}`));
+      }
+    }
+    this.log();
+  }
+
+  printSessionRestored(session: SessionData): void {
+    const usage = session.tokenUsage;
+    this.log(chalk.green(`Resumed session ${session.id}`) + (session.title ? chalk.gray(` - ${session.title}`) : ''));
+    this.log(chalk.gray(`  ${session.messages.length} messages, model ${session.model}, ` +
+      `${session.createdFiles.length} files created, ` +
+      `${usage.inputTokens + usage.outputTokens} tokens used` +
+      (session.cost ? `, ${formatUsd(session.cost.totalUsd)}` : '')));
+    this.log();
+  }
+
+  printCheckpoints(checkpoints: Checkpoint[]): void {
+    if (checkpoints.length === 0) {
+      this.log(chalk.yellow('No checkpoints yet.'));
       return;
     }
-    console.log();
-    console.log(chalk.yellow('Current Project:'));
-    console.log(chalk.cyan('  Name: ') + info.name);
-    console.log(chalk.cyan('  Language: ') + info.language);
-    console.log(chalk.cyan('  Path: ') + info.path);
-    console.log(chalk.cyan('  Files:'));
-    info.files.forEach(f => console.log(chalk.gray('    - ' + f)));
-    console.log();
+    this.log();
+    this.log(chalk.yellow('Checkpoints:'));
+    let lastTurn = '';
+    for (const checkpoint of checkpoints) {
+      if (checkpoint.turnId !== lastTurn) {
+        lastTurn = checkpoint.turnId;
+        this.log(chalk.gray(`  Turn: ${checkpoint.turnLabel || '(no prompt)'}`));
+      }
+      const time = new Date(checkpoint.createdAt).toLocaleTimeString();
+      const fileCount = checkpoint.files.length === 1 ? '1 file' : `${checkpoint.files.length} files`;
+      this.log(chalk.cyan(`    ${checkpoint.id}`) + chalk.gray(`  ${time}  ${checkpoint.tool}  ${checkpoint.description}  (${fileCount})`));
+    }
+    this.log();
+  }
+
+  printRestoreResult(result: RestoreResult): void {
+    const count = result.checkpoints.length;
+    this.log(chalk.green(`Reverted ${count} checkpoint${count === 1 ? '' : 's'}`));
+    result.restored.forEach(f => this.log(chalk.gray('  restored ') + f));
+    result.deleted.forEach(f => this.log(chalk.gray('  removed  ') + f));
+  }
+
+  printBuildSummary(result: VerificationResult, attempt: number, maxAttempts: number): void {
+    this.log();
+    const heading = attempt > 0 ? `Build verification (fix attempt ${attempt}/${maxAttempts}):` : 'Build verification:';
+    this.log(chalk.yellow(heading));
+    for (const stepResult of result.steps) {
+      const title = stepResult.step.kind === 'typecheck' ? 'Type check' : 'Build';
+      const duration = `${(stepResult.durationMs / 1000).toFixed(1)}s`;
+      if (stepResult.success) {
+        this.log(chalk.green('  ✓ ') + `${title} (${stepResult.step.tool})` + chalk.gray(`  ${duration}`));
+        continue;
+      }
+      const count = stepResult.diagnostics.length;
+      this.log(chalk.red('  ✗ ') + `${title} (${stepResult.step.tool})` +
+        chalk.gray(`  ${duration}  ${count} error${count === 1 ? '' : 's'}`));
+      for (const diagnostic of stepResult.diagnostics.slice(0, MAX_SUMMARY_DIAGNOSTICS)) {
+        this.log(chalk.gray(`      ${formatDiagnostic(diagnostic).split('\n')[0]}`));
+      }
+      if (count > MAX_SUMMARY_DIAGNOSTICS) {
+        this.log(chalk.gray(`      ... and ${count - MAX_SUMMARY_DIAGNOSTICS} more`));
+      }
+    }
+    result.skipped.forEach(reason => this.log(chalk.gray(`  - ${reason}`)));
+    if (!result.success && attempt < maxAttempts) {
+      this.log(chalk.gray('  Sending the errors back to the agent...'));
+    }
+    this.log();
+  }
+
+  printSceneGraph(graph: SceneGraph): void {
+    const [heading, ...lines] = formatSceneGraph(graph).split('\n');
+    this.log();
+    this.log(chalk.yellow(heading));
+    for (const line of lines) {
+      const location = /^(.*?)(  \[[^\]]+\])$/.exec(line);
+      if (location) {
+        this.log(location[1].replace(/^([\s│├└─]*)(.*)$/, (_, tree, rest) => chalk.gray(tree) + rest) + chalk.gray(location[2]));
+      } else if (/^\S.*:$/.test(line)) {
+        this.log(chalk.yellow(line));
+      } else {
+        this.log(chalk.gray(line));
+      }
+    }
+    this.log();
+  }
+
+  printAssetInventory(inventory: AssetInventory): void {
+    const [heading, ...lines] = formatAssetInventory(inventory).split('\n');
+    this.log();
+    this.log(chalk.yellow(heading));
+    for (const line of lines) {
+      if (/^\S.*:$/.test(line)) {
+        this.log(chalk.yellow(line));
+      } else if (line.startsWith('  - ')) {
+        this.log(chalk.red('  - ') + line.slice(4));
+      } else if (line.endsWith(', unused')) {
+        this.log(line.slice(0, -', unused'.length) + chalk.gray(', ') + chalk.yellow('unused'));
+      } else {
+        this.log(chalk.gray(line));
+      }
+    }
+    this.log();
   }
 
   printError(message: string): void {
-    console.log(chalk.red('Error: ') + message);
+    this.log(chalk.red('Error: ') + message);
+    this.emit({ type: 'log', level: 'error', message });
   }
 
   printWarning(message: string): void {
-    console.log(chalk.yellow('Warning: ') + message);
+    this.log(chalk.yellow('Warning: ') + message);
+    this.emit({ type: 'log', level: 'warning', message });
   }
 
   printSuccess(message: string): void {
-    console.log(chalk.green(message));
+    this.log(chalk.green(message));
+    this.emit({ type: 'log', level: 'success', message: message.trim() });
   }
 
   printInfo(message: string): void {
-    console.log(chalk.blue(message));
+    this.log(chalk.blue(message));
+    this.emit({ type: 'log', level: 'info', message: message.trim() });
   }
 
   printDebug(message: string): void {
-    console.log(chalk.gray(`[debug] ${message}`));
+    this.log(chalk.gray(`[debug] ${message}`));
   }
 
   printToolCall(toolName: string, detail: string): void {
-    console.log();
-    console.log(chalk.yellow(`[Tool: ${toolName}]`));
-    console.log(chalk.gray(`  ${detail}`));
+    this.log();
+    this.log(chalk.yellow(`[Tool: ${toolName}]`));
+    this.log(chalk.gray(`  ${detail}`));
   }
 
   printToolResult(success: boolean, message: string): void {
     if (success) {
-      console.log(chalk.green(`  Done`));
+      this.log(chalk.green(`  Done`));
     } else {
-      console.log(chalk.red(`  Failed: ${message}`));
+      this.log(chalk.red(`  Failed: ${message}`));
+    }
+  }
+
+  printDiff(filePath: string, hunks: DiffHunk[]): void {
+    const stats = getDiffStats(hunks);
+    this.log(chalk.gray(`  ${filePath} `) + chalk.green(`+${stats.added}`) + chalk.gray(' ') + chalk.red(`-${stats.removed}`));
+
+    let printed = 0;
+    for (const hunk of hunks) {
+      if (printed >= MAX_DIFF_LINES) break;
+      this.log(chalk.cyan(`  @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`));
+      for (const line of hunk.lines) {
+        if (printed >= MAX_DIFF_LINES) break;
+        if (line.type === 'add') {
+          this.log(chalk.green(`  +${line.text}`));
+        } else if (line.type === 'remove') {
+          this.log(chalk.red(`  -${line.text}`));
+        } else {
+          this.log(chalk.gray(`   ${line.text}`));
+        }
+        printed++;
+      }
+    }
+
+    const total = hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0);
+    if (total > printed) {
+      this.log(chalk.gray(`  ... (${total - printed} more diff lines)`));
     }
   }
 
   startStreaming(): void {
     this.isStreaming = true;
-    process.stdout.write('\n');
+    this.output.write('\n');
   }
 
   streamText(text: string): void {
     if (this.isStreaming) {
-      process.stdout.write(chalk.white(text));
+      this.output.write(chalk.white(text));
+      this.emit({ type: 'text_delta', text });
     }
   }
 
   endStreaming(): void {
     if (this.isStreaming) {
-      process.stdout.write('\n\n');
+      this.output.write('\n\n');
       this.isStreaming = false;
     }
   }
 
   async prompt(): Promise<string> {
+    const rl = this.getReadline();
     return new Promise((resolve) => {
-      this.rl.question(chalk.magenta('  › '), (answer) => {
+      rl.question(chalk.magenta('  › '), (answer) => {
         resolve(answer.trim());
       });
     });
   }
 
   close(): void {
-    this.rl.close();
+    this.rl?.close();
   }
 
   clearScreen(): void {
-    console.clear();
+    if (this.interactive) console.clear();
     this.printBanner();
   }
 }
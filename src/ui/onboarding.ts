@@ -1,22 +1,42 @@
 import chalk from 'chalk';
 import { TerminalUI } from './TerminalUI.js';
 import { ProjectPreferences, ProjectLanguage, ProjectTarget } from '../core/types.js';
+import { ProjectTemplate, ScaffoldResult } from '../templates/TemplateRegistry.js';
 
-export async function runOnboarding(ui: TerminalUI): Promise<ProjectPreferences> {
+const NO_TEMPLATE = '';
+
+export async function runOnboarding(ui: TerminalUI, templates: ProjectTemplate[] = []): Promise<ProjectPreferences> {
   console.log(chalk.cyan.bold('  Let\'s set up your project!\n'));
 
-  // Ask for language preference
-  const language = await ui.select('Which language would you like to use?', [
-    { label: 'TypeScript (recommended)', value: 'typescript' },
-    { label: 'JavaScript', value: 'javascript' },
-  ]) as ProjectLanguage;
+  // Ask for a starting template; its language and target answer the next two questions
+  let template: ProjectTemplate | undefined;
+  if (templates.length > 0) {
+    const templateId = await ui.select('Which template would you like to start from?', [
+      ...templates.map(t => ({ label: `${t.name} - ${t.description}`, value: t.id })),
+      { label: 'None (let the wizard create everything)', value: NO_TEMPLATE },
+    ]);
+    template = templates.find(t => t.id === templateId);
+  }
+
+  let language: ProjectLanguage;
+  let target: ProjectTarget;
+  if (template) {
+    language = template.language;
+    target = template.target;
+  } else {
+    // Ask for language preference
+    language = await ui.select('Which language would you like to use?', [
+      { label: 'TypeScript (recommended)', value: 'typescript' },
+      { label: 'JavaScript', value: 'javascript' },
+    ]) as ProjectLanguage;
 
-  // Ask for target platform
-  const target = await ui.select('What platform are you building for?', [
-    { label: 'Browser (web app)', value: 'browser' },
-    { label: 'Mobile (React Native, etc.)', value: 'mobile' },
-    { label: 'Desktop (Electron, etc.)', value: 'desktop' },
-  ]) as ProjectTarget;
+    // Ask for target platform
+    target = await ui.select('What platform are you building for?', [
+      { label: 'Browser (web app)', value: 'browser' },
+      { label: 'Mobile (React Native, etc.)', value: 'mobile' },
+      { label: 'Desktop (Electron, etc.)', value: 'desktop' },
+    ]) as ProjectTarget;
+  }
 
   // Ask for project description
   console.log();
@@ -34,15 +54,27 @@ export async function runOnboarding(ui: TerminalUI): Promise<ProjectPreferences>
     language,
     target,
     description,
+    template: template?.id,
   };
 }
 
-export function buildContextMessage(prefs: ProjectPreferences): string {
-  return `The user wants to create a Three.js project with these preferences:
+export function buildContextMessage(prefs: ProjectPreferences, scaffold?: ScaffoldResult): string {
+  const preferences = `The user wants to create a Three.js project with these preferences:
 - Language: ${prefs.language}
 - Target platform: ${prefs.target}
 
-Their project description: ${prefs.description}
+Their project description: ${prefs.description}`;
+
+  if (scaffold) {
+    return `${preferences}
+
+The project was already scaffolded from the "${scaffold.template.name}" template with these files:
+${scaffold.files.map(file => `- ${file}`).join('\n')}
+
+Dependencies are not installed yet; run npm install first. Build on these files rather than recreating them: keep the existing setup and change the scene to match the description.`;
+  }
+
+  return `${preferences}
 
 Please create the project structure and initial files based on these requirements. Start by setting up the basic Three.js scene.`;
 }